@@ -14,7 +14,8 @@ import {
   nativeImage, 
   dialog, 
   Notification,
-  Menu
+  Menu,
+  safeStorage
 } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import path from 'node:path';
@@ -25,7 +26,8 @@ autoUpdater.autoDownload = false;
 autoUpdater.autoInstallOnAppQuit = true;
 
 // SQLite disabled due to Electron compatibility issues
-// Using in-memory storage with localStorage sync
+// The DB_* handlers below use in-memory storage; the renderer's sql.js
+// database is persisted through the database file store instead
 // TODO: Re-enable when better-sqlite3 supports Electron 31
 const Database: any = null;
 console.log('[Main] Using in-memory storage (SQLite disabled)');
@@ -723,21 +725,222 @@ ipcMain.handle('APP_QUIT', () => app.quit());
 ipcMain.handle('APP_RELAUNCH', () => { app.relaunch(); app.exit(0); });
 ipcMain.handle('APP_IS_PACKAGED', () => app.isPackaged);
 
-// ==================== Secure Storage (simple implementation) ====================
-const secureStore = new Map<string, string>();
+// ==================== Secure Storage ====================
+// Values are encrypted with the OS keychain (safeStorage) and kept in a
+// file in the user data directory
+
+function getSecureStorePath(): string {
+  return path.join(app.getPath('userData'), 'secure-storage.json');
+}
+
+function readSecureStore(): Record<string, string> {
+  try {
+    return JSON.parse(fs.readFileSync(getSecureStorePath(), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function writeSecureStore(store: Record<string, string>): void {
+  fs.writeFileSync(getSecureStorePath(), JSON.stringify(store), { mode: 0o600 });
+}
 
 ipcMain.handle('SECURE_STORAGE_SET', (_event, key: string, value: string) => {
-  secureStore.set(key, value);
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('OS secure storage is not available');
+  }
+  const store = readSecureStore();
+  store[key] = safeStorage.encryptString(value).toString('base64');
+  writeSecureStore(store);
 });
 
 ipcMain.handle('SECURE_STORAGE_GET', (_event, key: string) => {
-  return secureStore.get(key) ?? null;
+  const encrypted = readSecureStore()[key];
+  if (!encrypted) return null;
+  return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
 });
 
 ipcMain.handle('SECURE_STORAGE_DELETE', (_event, key: string) => {
-  secureStore.delete(key);
+  const store = readSecureStore();
+  if (!(key in store)) return;
+  delete store[key];
+  writeSecureStore(store);
 });
 
 ipcMain.handle('SECURE_STORAGE_HAS', (_event, key: string) => {
-  return secureStore.has(key);
+  return key in readSecureStore();
+});
+
+// ==================== Database File Store ====================
+// The renderer's encrypted database: a snapshot of the whole image, which
+// is replaced atomically, and a journal of records appended since. The
+// contents are opaque here.
+
+const DB_SNAPSHOT_FILE = 'vortex.snapshot';
+const DB_JOURNAL_FILE = 'vortex.journal';
+
+function getDbStorePath(file: string): string {
+  return path.join(app.getPath('userData'), 'database', file);
+}
+
+function ensureDbStoreDir(): void {
+  fs.mkdirSync(path.join(app.getPath('userData'), 'database', 'backups'), { recursive: true, mode: 0o700 });
+}
+
+// Written to a temporary file and renamed over the old one, so a crash
+// leaves either the old or the new contents
+function writeFileAtomic(filePath: string, data: Uint8Array): void {
+  const tempPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tempPath, 'w', 0o600);
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+}
+
+function readFileIfExists(filePath: string): Buffer | null {
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Journal records are length-prefixed. A record cut short by a crash is
+// dropped, and cut off the file so later records line up.
+function readJournal(): Uint8Array[] {
+  const journalPath = getDbStorePath(DB_JOURNAL_FILE);
+  const data = readFileIfExists(journalPath);
+  if (!data) return [];
+
+  const records: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + 4 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    if (offset + 4 + length > data.length) break;
+    records.push(new Uint8Array(data.subarray(offset + 4, offset + 4 + length)));
+    offset += 4 + length;
+  }
+
+  if (offset < data.length) {
+    console.warn('[Main] Dropping incomplete database journal record');
+    fs.truncateSync(journalPath, offset);
+  }
+  return records;
+}
+
+ipcMain.handle('DB_STORE_LOAD', () => {
+  const snapshot = readFileIfExists(getDbStorePath(DB_SNAPSHOT_FILE));
+  return {
+    snapshot: snapshot ? new Uint8Array(snapshot) : null,
+    journal: readJournal(),
+  };
+});
+
+ipcMain.handle('DB_STORE_APPEND', (_event, record: Uint8Array) => {
+  ensureDbStoreDir();
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(record.length);
+
+  const fd = fs.openSync(getDbStorePath(DB_JOURNAL_FILE), 'a', 0o600);
+  try {
+    fs.writeSync(fd, Buffer.concat([header, record]));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+});
+
+ipcMain.handle('DB_STORE_WRITE_SNAPSHOT', (_event, snapshot: Uint8Array) => {
+  ensureDbStoreDir();
+  writeFileAtomic(getDbStorePath(DB_SNAPSHOT_FILE), snapshot);
+  // The snapshot includes every journal record so far
+  fs.rmSync(getDbStorePath(DB_JOURNAL_FILE), { force: true });
+});
+
+ipcMain.handle('DB_STORE_WRITE_BACKUP', (_event, name: string, snapshot: Uint8Array) => {
+  if (!/^[\w.-]+$/.test(name)) throw new Error('Invalid backup name');
+  ensureDbStoreDir();
+  writeFileAtomic(getDbStorePath(path.join('backups', `${name}.snapshot`)), snapshot);
+});
+
+ipcMain.handle('DB_STORE_CLEAR', () => {
+  fs.rmSync(getDbStorePath(DB_SNAPSHOT_FILE), { force: true });
+  fs.rmSync(getDbStorePath(DB_JOURNAL_FILE), { force: true });
+  fs.rmSync(getDbStorePath('backups'), { recursive: true, force: true });
+});
+
+// ==================== Attachment Store ====================
+// Attachment files, named by a keyed hash of their contents (so the name
+// does not identify a known file) and spread over subdirectories by its
+// first two characters. Named and encrypted by the renderer; opaque here.
+
+type AttachmentFileKind = 'blob' | 'thumbnail';
+
+const ATTACHMENT_FILE_EXTENSIONS: Record<AttachmentFileKind, string> = {
+  blob: 'blob',
+  thumbnail: 'thumb',
+};
+
+function getAttachmentsPath(): string {
+  return path.join(app.getPath('userData'), 'attachments');
+}
+
+function getAttachmentPath(hash: string, kind: AttachmentFileKind): string {
+  if (!/^[0-9a-f]{64}$/.test(hash)) throw new Error('Invalid attachment hash');
+  const extension = ATTACHMENT_FILE_EXTENSIONS[kind];
+  if (!extension) throw new Error('Invalid attachment kind');
+  return path.join(getAttachmentsPath(), hash.slice(0, 2), `${hash}.${extension}`);
+}
+
+ipcMain.handle('ATTACHMENT_STORE_WRITE', (_event, hash: string, kind: AttachmentFileKind, data: Uint8Array) => {
+  const filePath = getAttachmentPath(hash, kind);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  writeFileAtomic(filePath, data);
+});
+
+ipcMain.handle('ATTACHMENT_STORE_READ', (_event, hash: string, kind: AttachmentFileKind) => {
+  const data = readFileIfExists(getAttachmentPath(hash, kind));
+  return data ? new Uint8Array(data) : null;
+});
+
+ipcMain.handle('ATTACHMENT_STORE_REMOVE', (_event, hash: string) => {
+  fs.rmSync(getAttachmentPath(hash, 'blob'), { force: true });
+  fs.rmSync(getAttachmentPath(hash, 'thumbnail'), { force: true });
+});
+
+ipcMain.handle('ATTACHMENT_STORE_CLEAR', () => {
+  fs.rmSync(getAttachmentsPath(), { recursive: true, force: true });
+});
+
+// ==================== Account Backups ====================
+// Backup files in a folder the user chose. Encrypted by the renderer;
+// only files named like backups are listed or touched.
+
+const BACKUP_FILE_PATTERN = /^vortex-backup-[\w-]+\.vxbackup$/;
+
+function getBackupFolder(folder: string): string {
+  if (typeof folder !== 'string' || !path.isAbsolute(folder)) throw new Error('Invalid backup folder');
+  return folder;
+}
+
+function getBackupPath(folder: string, name: string): string {
+  if (!BACKUP_FILE_PATTERN.test(name)) throw new Error('Invalid backup name');
+  return path.join(getBackupFolder(folder), name);
+}
+
+ipcMain.handle('BACKUP_WRITE', (_event, folder: string, name: string, data: Uint8Array) => {
+  writeFileAtomic(getBackupPath(folder, name), data);
+});
+
+ipcMain.handle('BACKUP_LIST', (_event, folder: string) => {
+  return fs.readdirSync(getBackupFolder(folder)).filter(name => BACKUP_FILE_PATTERN.test(name));
+});
+
+ipcMain.handle('BACKUP_REMOVE', (_event, folder: string, name: string) => {
+  fs.rmSync(getBackupPath(folder, name), { force: true });
 });
@@ -55,6 +55,27 @@ const electronAPI = {
         clearAllData: () => ipcRenderer.invoke('DB_CLEAR_ALL'),
         vacuum: () => ipcRenderer.invoke('DB_VACUUM'),
     },
+    // ==================== Database File Store ====================
+    dbStore: {
+        load: () => ipcRenderer.invoke('DB_STORE_LOAD'),
+        append: (record) => ipcRenderer.invoke('DB_STORE_APPEND', record),
+        writeSnapshot: (snapshot) => ipcRenderer.invoke('DB_STORE_WRITE_SNAPSHOT', snapshot),
+        writeBackup: (name, snapshot) => ipcRenderer.invoke('DB_STORE_WRITE_BACKUP', name, snapshot),
+        clear: () => ipcRenderer.invoke('DB_STORE_CLEAR'),
+    },
+    // ==================== Attachment Store ====================
+    attachmentStore: {
+        write: (hash, kind, data) => ipcRenderer.invoke('ATTACHMENT_STORE_WRITE', hash, kind, data),
+        read: (hash, kind) => ipcRenderer.invoke('ATTACHMENT_STORE_READ', hash, kind),
+        remove: (hash) => ipcRenderer.invoke('ATTACHMENT_STORE_REMOVE', hash),
+        clear: () => ipcRenderer.invoke('ATTACHMENT_STORE_CLEAR'),
+    },
+    // ==================== Account Backups ====================
+    backups: {
+        write: (folder, name, data) => ipcRenderer.invoke('BACKUP_WRITE', folder, name, data),
+        list: (folder) => ipcRenderer.invoke('BACKUP_LIST', folder),
+        remove: (folder, name) => ipcRenderer.invoke('BACKUP_REMOVE', folder, name),
+    },
     // ==================== Secure Storage ====================
     secureStorage: {
         set: (key, value) => ipcRenderer.invoke('SECURE_STORAGE_SET', key, value),
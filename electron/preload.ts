@@ -151,6 +151,51 @@ const electronAPI = {
       ipcRenderer.invoke('DB_VACUUM'),
   },
   
+  // ==================== Database File Store ====================
+  dbStore: {
+    load: (): Promise<{ snapshot: Uint8Array | null; journal: Uint8Array[] }> =>
+      ipcRenderer.invoke('DB_STORE_LOAD'),
+    
+    append: (record: Uint8Array): Promise<void> =>
+      ipcRenderer.invoke('DB_STORE_APPEND', record),
+    
+    writeSnapshot: (snapshot: Uint8Array): Promise<void> =>
+      ipcRenderer.invoke('DB_STORE_WRITE_SNAPSHOT', snapshot),
+    
+    writeBackup: (name: string, snapshot: Uint8Array): Promise<void> =>
+      ipcRenderer.invoke('DB_STORE_WRITE_BACKUP', name, snapshot),
+    
+    clear: (): Promise<void> =>
+      ipcRenderer.invoke('DB_STORE_CLEAR'),
+  },
+  
+  // ==================== Attachment Store ====================
+  attachmentStore: {
+    write: (hash: string, kind: 'blob' | 'thumbnail', data: Uint8Array): Promise<void> =>
+      ipcRenderer.invoke('ATTACHMENT_STORE_WRITE', hash, kind, data),
+    
+    read: (hash: string, kind: 'blob' | 'thumbnail'): Promise<Uint8Array | null> =>
+      ipcRenderer.invoke('ATTACHMENT_STORE_READ', hash, kind),
+    
+    remove: (hash: string): Promise<void> =>
+      ipcRenderer.invoke('ATTACHMENT_STORE_REMOVE', hash),
+    
+    clear: (): Promise<void> =>
+      ipcRenderer.invoke('ATTACHMENT_STORE_CLEAR'),
+  },
+  
+  // ==================== Account Backups ====================
+  backups: {
+    write: (folder: string, name: string, data: Uint8Array): Promise<void> =>
+      ipcRenderer.invoke('BACKUP_WRITE', folder, name, data),
+    
+    list: (folder: string): Promise<string[]> =>
+      ipcRenderer.invoke('BACKUP_LIST', folder),
+    
+    remove: (folder: string, name: string): Promise<void> =>
+      ipcRenderer.invoke('BACKUP_REMOVE', folder, name),
+  },
+  
   // ==================== Secure Storage ====================
   secureStorage: {
     set: (key: string, value: string): Promise<void> =>
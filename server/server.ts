@@ -1,6 +1,7 @@
 import 'dotenv/config';
 import express, { Request, Response } from 'express';
 import { createServer } from 'http';
+import { createPublicKey, verify } from 'crypto';
 import { Server, Socket } from 'socket.io';
 import cors from 'cors';
 import helmet from 'helmet';
@@ -8,12 +9,30 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
 
+interface PublicPreKey {
+  keyId: number;
+  publicKey: string;
+}
+
+interface PublicSignedPreKey extends PublicPreKey {
+  signature: string;
+}
+
+interface PreKeyBundle {
+  peerId: string;
+  identityKey: string;
+  signedPreKey: PublicSignedPreKey;
+  oneTimePreKey?: PublicPreKey;
+  kemPreKey?: PublicSignedPreKey;  // ML-KEM-768, same key ID as the signed pre-key
+}
+
 // Type-safe Socket.io events
 interface ServerToClientEvents {
   'peer-joined': (payload: { peerId: string }) => void;
   'peer-left': (payload: { peerId: string }) => void;
   signal: (payload: { from: string; data: unknown; targetId?: string }) => void;
   peers: (payload: { peers: string[] }) => void;
+  'prekeys-low': (payload: { count: number }) => void;
 }
 
 interface ClientToServerEvents {
@@ -27,12 +46,27 @@ interface ClientToServerEvents {
     payload: { roomId: string },
     ack?: (response: { peers: string[] }) => void
   ) => void;
+  'prekeys-upload': (
+    payload: {
+      identityKey: string;
+      signedPreKey: PublicSignedPreKey;
+      kemPreKey?: PublicSignedPreKey;
+      oneTimePreKeys: PublicPreKey[];
+    },
+    ack?: (response: { ok: true; count: number } | { ok: false; error: string }) => void
+  ) => void;
+  'prekeys-fetch': (
+    payload: { peerId: string },
+    ack?: (response: { ok: true; bundle: PreKeyBundle } | { ok: false; error: string }) => void
+  ) => void;
 }
 
 interface InterServerEvents {}
 
 interface SocketData {
   rooms: Set<string>;
+  peerId?: string;       // From the handshake; the pre-key directory is keyed by it
+  identityKey?: string;
 }
 
 type JoinRoomPayload = Parameters<ClientToServerEvents['join-room']>[0];
@@ -41,6 +75,10 @@ type ListPeersPayload = Parameters<ClientToServerEvents['list-peers']>[0];
 type ListPeersAck = NonNullable<Parameters<ClientToServerEvents['list-peers']>[1]>;
 type SignalPayload = Parameters<ClientToServerEvents['signal']>[0];
 type LeavePayload = Parameters<ClientToServerEvents['leave-room']>[0];
+type PreKeyUploadPayload = Parameters<ClientToServerEvents['prekeys-upload']>[0];
+type PreKeyUploadAck = NonNullable<Parameters<ClientToServerEvents['prekeys-upload']>[1]>;
+type PreKeyFetchPayload = Parameters<ClientToServerEvents['prekeys-fetch']>[0];
+type PreKeyFetchAck = NonNullable<Parameters<ClientToServerEvents['prekeys-fetch']>[1]>;
 
 // Minimal, non-identifying logger
 function log(event: string, info?: Record<string, number>): void {
@@ -126,11 +164,63 @@ const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEve
 // Presence: roomId -> Set<socketId>
 const rooms: Map<string, Set<string>> = new Map();
 
+// Pre-key directory: peerId -> published keys. Same schema as signaling.js.
+interface PreKeyEntry {
+  identityKey: string;
+  signedPreKey: PublicSignedPreKey;
+  kemPreKey?: PublicSignedPreKey; // Absent for clients without post-quantum support
+  oneTimePreKeys: PublicPreKey[];
+  issued: Set<number>;   // One-time key IDs already handed out
+  ownerSocketId: string; // Last uploader, warned when stock runs low
+}
+
+const preKeys: Map<string, PreKeyEntry> = new Map();
+
+const PREKEY_LOW_WATERMARK = 20;
+const MAX_ONE_TIME_PREKEYS = 500;
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Signed and KEM pre-keys must be signed by the identity they are published under
+function verifySignedPreKey(identityKey: string, signedPreKey: PublicSignedPreKey): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(identityKey, 'hex')]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(
+      null,
+      Buffer.from(signedPreKey.publicKey, 'base64url'),
+      key,
+      Buffer.from(signedPreKey.signature, 'base64url')
+    );
+  } catch {
+    return false;
+  }
+}
+
 io.use((socket: Socket, next: (err?: Error) => void) => {
   socket.data.rooms = new Set<string>();
+
+  // Clients name their address and identity key when connecting
+  const auth = handshakeAuthSchema.safeParse(socket.handshake.auth);
+  if (auth.success) {
+    socket.data.peerId = auth.data.peerId;
+    socket.data.identityKey = auth.data.publicKey;
+  }
   next();
 });
 
+const peerIdSchema = z.string().min(1).max(128);
+const identityKeySchema = z.string().regex(/^[0-9a-f]{64}$/i);
+
+const handshakeAuthSchema = z.object({
+  peerId: peerIdSchema,
+  publicKey: identityKeySchema,
+});
+
 const joinSchema = z.object({
   roomId: z.string().min(3).max(128),
 });
@@ -145,6 +235,27 @@ const leaveSchema = z.object({
   roomId: z.string().min(3).max(128),
 });
 
+const publicPreKeySchema = z.object({
+  keyId: z.number().int().nonnegative(),
+  publicKey: z.string().min(1).max(64),
+});
+
+const preKeyUploadSchema = z.object({
+  identityKey: identityKeySchema,
+  signedPreKey: publicPreKeySchema.extend({ signature: z.string().min(1).max(128) }),
+  // ML-KEM-768 encapsulation keys are 1184 bytes
+  kemPreKey: z.object({
+    keyId: z.number().int().nonnegative(),
+    publicKey: z.string().min(1).max(2048),
+    signature: z.string().min(1).max(128),
+  }).optional(),
+  oneTimePreKeys: z.array(publicPreKeySchema).max(MAX_ONE_TIME_PREKEYS),
+});
+
+const preKeyFetchSchema = z.object({
+  peerId: peerIdSchema,
+});
+
 io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) => {
   const signalLimiter = new SimpleRateLimiter(60, 10_000); // 60 events / 10s
   const controlLimiter = new SimpleRateLimiter(20, 10_000); // 20 events / 10s
@@ -152,7 +263,10 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents,
   log('ws:connection', { connections: io.engine.clientsCount, roomCount: rooms.size });
 
   socket.on('join-room', (payload: JoinRoomPayload, ack?: JoinRoomAck) => {
-    if (!controlLimiter.allow()) return;
+    if (!controlLimiter.allow()) {
+      if (ack) ack({ ok: false, error: 'rate_limited' });
+      return;
+    }
     const parsed = joinSchema.safeParse(payload);
     if (!parsed.success) {
       if (ack) ack({ ok: false, error: 'invalid_payload' });
@@ -185,7 +299,10 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents,
   });
 
   socket.on('list-peers', (payload: ListPeersPayload, ack?: ListPeersAck) => {
-    if (!controlLimiter.allow()) return;
+    if (!controlLimiter.allow()) {
+      if (ack) ack({ peers: [] });
+      return;
+    }
     const parsed = joinSchema.safeParse(payload);
     if (!parsed.success) {
       if (ack) ack({ peers: [] });
@@ -219,6 +336,106 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents,
     socket.to(roomId).emit('signal', { from: socket.id, data });
   });
 
+  // Pre-key events use the error codes of signaling.js, so clients work with either server
+  socket.on('prekeys-upload', (payload: PreKeyUploadPayload, ack?: PreKeyUploadAck) => {
+    const respond: PreKeyUploadAck = ack ?? (() => {});
+    if (!controlLimiter.allow()) {
+      respond({ ok: false, error: 'rate-limited' });
+      return;
+    }
+    const { peerId } = socket.data;
+    if (!peerId) {
+      respond({ ok: false, error: 'not-registered' });
+      return;
+    }
+    const parsed = preKeyUploadSchema.safeParse(payload);
+    if (!parsed.success) {
+      respond({ ok: false, error: 'invalid-payload' });
+      return;
+    }
+    const { identityKey, signedPreKey, kemPreKey, oneTimePreKeys } = parsed.data;
+
+    // Only the identity the peer connected with may publish for it
+    if (identityKey.toLowerCase() !== socket.data.identityKey?.toLowerCase()) {
+      respond({ ok: false, error: 'identity-mismatch' });
+      return;
+    }
+    if (!verifySignedPreKey(identityKey, signedPreKey)) {
+      respond({ ok: false, error: 'invalid-signature' });
+      return;
+    }
+    if (kemPreKey && (kemPreKey.keyId !== signedPreKey.keyId || !verifySignedPreKey(identityKey, kemPreKey))) {
+      respond({ ok: false, error: 'invalid-kem-prekey' });
+      return;
+    }
+
+    // An entry is never handed to another identity key
+    let entry = preKeys.get(peerId);
+    if (entry && entry.identityKey !== identityKey) {
+      respond({ ok: false, error: 'identity-mismatch' });
+      return;
+    }
+    if (!entry) {
+      entry = { identityKey, signedPreKey, oneTimePreKeys: [], issued: new Set<number>(), ownerSocketId: socket.id };
+      preKeys.set(peerId, entry);
+    }
+    entry.signedPreKey = signedPreKey;
+    // An upload without a KEM pre-key clears it, so peers fall back to classical agreement
+    entry.kemPreKey = kemPreKey;
+    entry.ownerSocketId = socket.id;
+
+    // Keys already handed out are never stocked again
+    const stocked = new Set(entry.oneTimePreKeys.map((key) => key.keyId));
+    for (const key of oneTimePreKeys) {
+      if (entry.oneTimePreKeys.length >= MAX_ONE_TIME_PREKEYS) break;
+      if (stocked.has(key.keyId) || entry.issued.has(key.keyId)) continue;
+      entry.oneTimePreKeys.push(key);
+      stocked.add(key.keyId);
+    }
+
+    respond({ ok: true, count: entry.oneTimePreKeys.length });
+    log('ws:prekeys-upload', { directorySize: preKeys.size });
+  });
+
+  socket.on('prekeys-fetch', (payload: PreKeyFetchPayload, ack?: PreKeyFetchAck) => {
+    if (!ack) return;
+    if (!controlLimiter.allow()) {
+      ack({ ok: false, error: 'rate-limited' });
+      return;
+    }
+    const parsed = preKeyFetchSchema.safeParse(payload);
+    if (!parsed.success) {
+      ack({ ok: false, error: 'invalid-payload' });
+      return;
+    }
+    const { peerId } = parsed.data;
+
+    const entry = preKeys.get(peerId);
+    if (!entry) {
+      ack({ ok: false, error: 'not-found' });
+      return;
+    }
+
+    // Each one-time pre-key is handed out exactly once
+    const oneTimePreKey = entry.oneTimePreKeys.shift();
+    if (oneTimePreKey) entry.issued.add(oneTimePreKey.keyId);
+
+    ack({
+      ok: true,
+      bundle: {
+        peerId,
+        identityKey: entry.identityKey,
+        signedPreKey: entry.signedPreKey,
+        oneTimePreKey,
+        kemPreKey: entry.kemPreKey,
+      },
+    });
+
+    if (entry.oneTimePreKeys.length < PREKEY_LOW_WATERMARK) {
+      io.to(entry.ownerSocketId).emit('prekeys-low', { count: entry.oneTimePreKeys.length });
+    }
+  });
+
   socket.on('leave-room', (payload: LeavePayload) => {
     if (!controlLimiter.allow()) return;
     const parsed = leaveSchema.safeParse(payload);
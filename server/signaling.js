@@ -7,6 +7,7 @@
 
 const { Server } = require('socket.io');
 const http = require('http');
+const { createPublicKey, randomBytes, verify } = require('crypto');
 
 const PORT = process.env.PORT || 3001;
 
@@ -36,19 +37,156 @@ const io = new Server(httpServer, {
 const onlineUsers = new Map();
 // Store socket -> peerId mapping
 const socketToPeer = new Map();
+// Identity key each address first registered with: peerId -> identityKey.
+// Another key may not register or publish under the address after that.
+const identityBindings = new Map();
+// Pre-key directory: peerId -> { identityKey, signedPreKey, kemPreKey, oneTimePreKeys, issued }.
+// Same schema as server.ts.
+const preKeys = new Map();
+// Device directory: userId -> { identityKey, version, devices: [{ id, identityKey }], signature }
+const deviceLists = new Map();
+// Open device linking channels: channelId -> { ownerSocketId, requesterSocketId, expires }
+const provisioningChannels = new Map();
+
+// Owners are asked to replenish below this many one-time pre-keys
+const PREKEY_LOW_WATERMARK = 20;
+const MAX_ONE_TIME_PREKEYS = 500;
+const PROVISIONING_CHANNEL_TTL = 5 * 60 * 1000;
+const MAX_DEVICES = 16;
+
+function isPublicPreKey(key) {
+  return key && Number.isInteger(key.keyId) && typeof key.publicKey === 'string' && key.publicKey.length <= 64;
+}
+
+// ML-KEM-768 encapsulation keys are 1184 bytes
+function isPublicKemPreKey(key) {
+  return key && Number.isInteger(key.keyId) && typeof key.publicKey === 'string' &&
+    key.publicKey.length <= 2048 && typeof key.signature === 'string';
+}
+
+function isIdentityKey(key) {
+  return typeof key === 'string' && /^[0-9a-f]{64}$/.test(key);
+}
+
+function isDeviceListEntry(device) {
+  return device && Number.isInteger(device.id) && device.id > 0 && isIdentityKey(device.identityKey);
+}
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+function verifySignature(identityKey, message, signature) {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(identityKey, 'hex')]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, message, key, Buffer.from(signature, 'base64url'));
+  } catch {
+    return false;
+  }
+}
+
+// Signed and KEM pre-keys must be signed by the identity they are published under
+function verifySignedPreKey(identityKey, signedPreKey) {
+  return verifySignature(identityKey, Buffer.from(signedPreKey.publicKey, 'base64url'), signedPreKey.signature);
+}
+
+// Registering proves possession of the identity key by signing the
+// connection's challenge together with the address
+function verifyRegistration(challenge, peerId, identityKey, signature) {
+  const message = Buffer.from(`vortex-register:${challenge}:${peerId}`, 'utf8');
+  return typeof signature === 'string' && verifySignature(identityKey, message, signature);
+}
+
+// What the account key signs for a device list, as DeviceService builds it
+function deviceListBytes(userId, version, devices) {
+  return Buffer.from(JSON.stringify([
+    'VORTEX_DEVICES',
+    userId,
+    version,
+    devices.map((d) => [d.id, d.identityKey.toLowerCase()]),
+  ]), 'utf8');
+}
+
+// Linked devices register as "<userId>.<deviceId>"; the primary as "<userId>"
+function parseAddress(peerId) {
+  const dot = peerId.lastIndexOf('.');
+  const deviceId = dot < 0 ? 1 : Number(peerId.slice(dot + 1));
+  if (!Number.isInteger(deviceId) || deviceId < 1) return { userId: peerId, deviceId: 1 };
+  return { userId: dot < 0 ? peerId : peerId.slice(0, dot), deviceId };
+}
+
+// The identity key a user's device list certifies for one of its addresses
+function certifiedKey(peerId) {
+  const { userId, deviceId } = parseAddress(peerId);
+  const list = deviceLists.get(userId);
+  const device = list && list.devices.find((d) => d.id === deviceId);
+  return device ? device.identityKey : undefined;
+}
+
+function getProvisioningChannel(channelId) {
+  const channel = provisioningChannels.get(channelId);
+  if (channel && channel.expires < Date.now()) {
+    provisioningChannels.delete(channelId);
+    return null;
+  }
+  return channel || null;
+}
+
+// Warn the owner of a directory entry when its one-time pre-keys run low
+function warnIfPreKeysLow(peerId) {
+  const entry = preKeys.get(peerId);
+  const owner = onlineUsers.get(peerId);
+
+  if (entry && owner && entry.oneTimePreKeys.length < PREKEY_LOW_WATERMARK) {
+    io.to(owner.socketId).emit('prekeys-low', { count: entry.oneTimePreKeys.length });
+  }
+}
 
 io.on('connection', (socket) => {
   console.log(`[Signaling] New connection: ${socket.id}`);
 
+  // Each connection signs its own challenge, so a registration cannot be replayed
+  const challenge = randomBytes(32).toString('base64url');
+  socket.emit('register-challenge', { challenge });
+
   // User registers with their peer ID
   socket.on('register', (data) => {
-    const { peerId, publicKey, displayName } = data;
+    const { peerId, publicKey, displayName, signature } = data || {};
     
-    if (!peerId) {
+    if (typeof peerId !== 'string' || peerId.length === 0 || peerId.length > 128) {
       socket.emit('error', { message: 'peerId is required' });
       return;
     }
 
+    if (!isIdentityKey(publicKey) || !verifyRegistration(challenge, peerId, publicKey, signature)) {
+      socket.emit('register-rejected', { peerId, reason: 'invalid-signature' });
+      return;
+    }
+
+    // A device removed from its user's list may not come back, and each
+    // device registers with the key its primary certified for it. Without
+    // a list, the address stays with the key it first registered with.
+    const hasList = deviceLists.has(parseAddress(peerId).userId);
+    if (hasList && certifiedKey(peerId) !== publicKey) {
+      socket.emit('register-rejected', { peerId, reason: 'device-revoked' });
+      return;
+    }
+    if (!hasList && identityBindings.has(peerId) && identityBindings.get(peerId) !== publicKey) {
+      socket.emit('register-rejected', { peerId, reason: 'identity-mismatch' });
+      return;
+    }
+    identityBindings.set(peerId, publicKey);
+
+    // The same key registering again is the owner reconnecting; its old
+    // socket no longer speaks for the address
+    const previous = onlineUsers.get(peerId);
+    if (previous && previous.socketId !== socket.id) {
+      socketToPeer.delete(previous.socketId);
+    }
+
     // Store mapping
     onlineUsers.set(peerId, {
       socketId: socket.id,
@@ -68,6 +206,223 @@ io.on('connection', (socket) => {
 
     // Broadcast online status to all
     socket.broadcast.emit('user-online', { peerId, displayName });
+
+    warnIfPreKeysLow(peerId);
+  });
+
+  // Publish signed pre-key and one-time pre-keys for the registered peer
+  socket.on('prekeys-upload', (data, ack) => {
+    const respond = typeof ack === 'function' ? ack : () => {};
+    const peerId = socketToPeer.get(socket.id);
+    const { identityKey, signedPreKey, kemPreKey, oneTimePreKeys = [] } = data || {};
+
+    if (!peerId) {
+      respond({ ok: false, error: 'not-registered' });
+      return;
+    }
+
+    // Only the identity the peer registered with may publish for it
+    if (!identityKey || identityKey !== onlineUsers.get(peerId)?.publicKey) {
+      respond({ ok: false, error: 'identity-mismatch' });
+      return;
+    }
+
+    if (!isPublicPreKey(signedPreKey) || typeof signedPreKey.signature !== 'string' || !Array.isArray(oneTimePreKeys)) {
+      respond({ ok: false, error: 'invalid-payload' });
+      return;
+    }
+
+    if (!verifySignedPreKey(identityKey, signedPreKey)) {
+      respond({ ok: false, error: 'invalid-signature' });
+      return;
+    }
+
+    if (kemPreKey && (!isPublicKemPreKey(kemPreKey) || kemPreKey.keyId !== signedPreKey.keyId ||
+        !verifySignedPreKey(identityKey, kemPreKey))) {
+      respond({ ok: false, error: 'invalid-kem-prekey' });
+      return;
+    }
+
+    // An entry is never handed to another identity key, unless the user's
+    // device list now certifies that key for the address
+    let entry = preKeys.get(peerId);
+    if (entry && entry.identityKey !== identityKey && certifiedKey(peerId) !== identityKey) {
+      respond({ ok: false, error: 'identity-mismatch' });
+      return;
+    }
+    if (!entry || entry.identityKey !== identityKey) {
+      entry = { identityKey, signedPreKey: null, kemPreKey: null, oneTimePreKeys: [], issued: new Set() };
+      preKeys.set(peerId, entry);
+    }
+
+    entry.signedPreKey = {
+      keyId: signedPreKey.keyId,
+      publicKey: signedPreKey.publicKey,
+      signature: signedPreKey.signature,
+    };
+
+    // Post-quantum clients publish a KEM pre-key alongside the signed pre-key;
+    // an upload without one clears it, so peers fall back to classical agreement
+    entry.kemPreKey = kemPreKey
+      ? { keyId: kemPreKey.keyId, publicKey: kemPreKey.publicKey, signature: kemPreKey.signature }
+      : null;
+
+    // Keys already handed out are never stocked again
+    const stocked = new Set(entry.oneTimePreKeys.map((key) => key.keyId));
+    for (const key of oneTimePreKeys) {
+      if (entry.oneTimePreKeys.length >= MAX_ONE_TIME_PREKEYS) break;
+      if (!isPublicPreKey(key) || stocked.has(key.keyId) || entry.issued.has(key.keyId)) continue;
+
+      entry.oneTimePreKeys.push({ keyId: key.keyId, publicKey: key.publicKey });
+      stocked.add(key.keyId);
+    }
+
+    console.log(`[Signaling] Pre-keys uploaded: ${peerId} (${entry.oneTimePreKeys.length} one-time)`);
+    respond({ ok: true, count: entry.oneTimePreKeys.length });
+  });
+
+  // Fetch a peer's pre-key bundle (works while the peer is offline)
+  socket.on('prekeys-fetch', (data, ack) => {
+    if (typeof ack !== 'function') return;
+
+    const { peerId } = data || {};
+    if (typeof peerId !== 'string' || peerId.length === 0 || peerId.length > 128) {
+      ack({ ok: false, error: 'invalid-payload' });
+      return;
+    }
+
+    const entry = preKeys.get(peerId);
+    if (!entry) {
+      ack({ ok: false, error: 'not-found' });
+      return;
+    }
+
+    // Each one-time pre-key is handed out exactly once
+    const oneTimePreKey = entry.oneTimePreKeys.shift();
+    if (oneTimePreKey) {
+      entry.issued.add(oneTimePreKey.keyId);
+    }
+
+    ack({
+      ok: true,
+      bundle: {
+        peerId,
+        identityKey: entry.identityKey,
+        signedPreKey: entry.signedPreKey,
+        oneTimePreKey,
+        kemPreKey: entry.kemPreKey || undefined,
+      },
+    });
+
+    warnIfPreKeysLow(peerId);
+  });
+
+  // Publish the signed list of a user's devices and their keys. Only the
+  // primary device publishes, under the account key its address is bound
+  // to; clients verify the signature against the account key they know.
+  socket.on('devices-publish', (data, ack) => {
+    const respond = typeof ack === 'function' ? ack : () => {};
+    const peerId = socketToPeer.get(socket.id);
+    const { identityKey, version, devices, signature } = data || {};
+
+    if (!peerId || parseAddress(peerId).userId !== peerId) {
+      respond({ ok: false, error: 'not-primary' });
+      return;
+    }
+
+    // The key that registered for the address, whose binding the list keeps
+    const existing = deviceLists.get(peerId);
+    if (!identityKey || identityKey !== onlineUsers.get(peerId)?.publicKey ||
+        identityKey !== identityBindings.get(peerId) || (existing && existing.identityKey !== identityKey)) {
+      respond({ ok: false, error: 'identity-mismatch' });
+      return;
+    }
+
+    if (!Number.isInteger(version) || typeof signature !== 'string' || !Array.isArray(devices) ||
+        devices.length > MAX_DEVICES || !devices.every(isDeviceListEntry) ||
+        new Set(devices.map((d) => d.id)).size !== devices.length ||
+        !devices.some((d) => d.id === 1 && d.identityKey === identityKey)) {
+      respond({ ok: false, error: 'invalid-payload' });
+      return;
+    }
+
+    // A list locks devices out of their addresses, so it must carry the
+    // account key's signature that clients check
+    if (!verifySignature(identityKey, deviceListBytes(peerId, version, devices), signature)) {
+      respond({ ok: false, error: 'invalid-signature' });
+      return;
+    }
+
+    if (existing && existing.version >= version) {
+      respond({ ok: false, error: 'stale-version' });
+      return;
+    }
+
+    deviceLists.set(peerId, {
+      identityKey,
+      version,
+      devices: devices.map((d) => ({ id: d.id, identityKey: d.identityKey })),
+      signature,
+    });
+    respond({ ok: true });
+  });
+
+  socket.on('devices-fetch', (data, ack) => {
+    if (typeof ack !== 'function') return;
+
+    const { userId } = data || {};
+    const entry = deviceLists.get(userId);
+    if (!entry) {
+      ack({ ok: false, error: 'not-found' });
+      return;
+    }
+
+    ack({ ok: true, list: { userId, ...entry } });
+  });
+
+  // Device linking: the primary opens a channel named in its QR code, the
+  // new device (not registered yet) sends a request over it, and the
+  // primary answers with an encrypted envelope
+  socket.on('provision-open', (data, ack) => {
+    const respond = typeof ack === 'function' ? ack : () => {};
+    const { channelId } = data || {};
+
+    if (!socketToPeer.has(socket.id) || typeof channelId !== 'string' || provisioningChannels.has(channelId)) {
+      respond({ ok: false, error: 'invalid-channel' });
+      return;
+    }
+
+    provisioningChannels.set(channelId, {
+      ownerSocketId: socket.id,
+      requesterSocketId: null,
+      expires: Date.now() + PROVISIONING_CHANNEL_TTL,
+    });
+    respond({ ok: true });
+  });
+
+  socket.on('provision-request', (data, ack) => {
+    const respond = typeof ack === 'function' ? ack : () => {};
+    const { channelId, publicKey, identityKey, deviceName, mac } = data || {};
+    const channel = getProvisioningChannel(channelId);
+
+    if (!channel || channel.requesterSocketId) {
+      respond({ ok: false, error: 'not-found' });
+      return;
+    }
+
+    channel.requesterSocketId = socket.id;
+    io.to(channel.ownerSocketId).emit('provision-request', { channelId, publicKey, identityKey, deviceName, mac });
+    respond({ ok: true });
+  });
+
+  socket.on('provision-envelope', (data) => {
+    const { channelId, nonce, ciphertext } = data || {};
+    const channel = getProvisioningChannel(channelId);
+
+    if (!channel || channel.ownerSocketId !== socket.id || !channel.requesterSocketId) return;
+
+    io.to(channel.requesterSocketId).emit('provision-envelope', { channelId, nonce, ciphertext });
+    provisioningChannels.delete(channelId);
   });
 
   // Check if a peer is online
@@ -181,46 +536,51 @@ io.on('connection', (socket) => {
     }
   });
 
-  // Direct message through server (fallback when P2P fails)
-  socket.on('relay-message', (data) => {
-    const { targetPeerId, message, fromPeerId } = data;
+  // Direct message through server (fallback when P2P fails).
+  // Messages are sealed: the sender is inside the envelope, only the target
+  // is visible. Clients drop anything else, so it is not relayed.
+  socket.on('relay-message', (data, ack) => {
+    const respond = typeof ack === 'function' ? ack : () => {};
+    const { targetPeerId, sealed, messageId } = data || {};
+    if (typeof sealed !== 'string') {
+      socket.emit('message-failed', { targetPeerId, reason: 'not-sealed', messageId });
+      respond({ ok: false, error: 'not-sealed' });
+      return;
+    }
+
     const target = onlineUsers.get(targetPeerId);
-    
     if (target) {
-      io.to(target.socketId).emit('relayed-message', {
-        fromPeerId,
-        message,
-      });
+      io.to(target.socketId).emit('relayed-message', { sealed });
+      respond({ ok: true });
     } else {
       socket.emit('message-failed', { 
         targetPeerId, 
         reason: 'peer-offline',
-        messageId: message.id,
+        messageId,
       });
-    }
-  });
-
-  // Typing indicator
-  socket.on('typing', (data) => {
-    const { targetPeerId, fromPeerId, isTyping } = data;
-    const target = onlineUsers.get(targetPeerId);
-    
-    if (target) {
-      io.to(target.socketId).emit('typing', { fromPeerId, isTyping });
+      respond({ ok: false, error: 'peer-offline' });
     }
   });
 
   // Disconnect handling
   socket.on('disconnect', () => {
     const peerId = socketToPeer.get(socket.id);
+
+    for (const [channelId, channel] of provisioningChannels) {
+      if (channel.ownerSocketId === socket.id) provisioningChannels.delete(channelId);
+    }
     
     if (peerId) {
       console.log(`[Signaling] User disconnected: ${peerId}`);
-      onlineUsers.delete(peerId);
       socketToPeer.delete(socket.id);
-      
-      // Broadcast offline status
-      socket.broadcast.emit('user-offline', { peerId });
+
+      // Unless the address has registered again from another socket
+      if (onlineUsers.get(peerId)?.socketId === socket.id) {
+        onlineUsers.delete(peerId);
+
+        // Broadcast offline status
+        socket.broadcast.emit('user-offline', { peerId });
+      }
     }
   });
 });
@@ -7,11 +7,13 @@ import { useEffect, useState } from 'react';
 import { Toaster } from 'react-hot-toast';
 import { MainLayout } from './components/layout/MainLayout';
 import { OnboardingScreen } from './components/onboarding';
+import { UnlockScreen } from './components/security';
 import { ErrorBoundary } from './components/error';
 import { useSettingsStore } from './stores';
-import { identityService } from './services/identity';
+import { identityService, keyMaintenanceService } from './services/identity';
 import { db } from './services/database';
-import { notificationService, messagingService, securityService, connectionManager } from './services';
+import { deviceService } from './services/devices';
+import { notificationService, messagingService, securityService, connectionManager, attachmentStore, backupService } from './services';
 import toast from 'react-hot-toast';
 // Font size mappings
 const fontSizeMap = {
@@ -19,6 +21,25 @@ const fontSizeMap = {
     medium: '16px',
     large: '18px',
 };
+async function initializeServices() {
+    await identityService.initialize();
+    await notificationService.initialize();
+    await attachmentStore.initialize();
+    await backupService.initialize();
+    await messagingService.initialize();
+    await securityService.initialize();
+    await keyMaintenanceService.initialize();
+}
+async function connectToServer() {
+    try {
+        await connectionManager.connect();
+        console.log('[App] Connected to signaling server');
+    }
+    catch (connError) {
+        console.warn('[App] Could not connect to signaling server:', connError);
+        toast.error('Could not connect to server. Messages will be queued.');
+    }
+}
 export default function App() {
     const [appState, setAppState] = useState('loading');
     const { appearance } = useSettingsStore();
@@ -41,44 +62,88 @@ export default function App() {
             root.classList.add(appearance.theme);
         }
     }, [appearance.accentColor, appearance.fontSize, appearance.theme]);
+    // Initialize services once the database is open
+    const start = async () => {
+        try {
+            await initializeServices();
+            // Check if user has an identity
+            if (identityService.hasIdentity()) {
+                setAppState('ready');
+                await connectToServer();
+            }
+            else {
+                setAppState('onboarding');
+            }
+        }
+        catch (error) {
+            console.error('[App] Initialization error:', error);
+            setAppState('onboarding');
+        }
+    };
     // Initialize app on mount
     useEffect(() => {
         const init = async () => {
             try {
-                // Initialize all services
                 await db.initialize();
-                await identityService.initialize();
-                await notificationService.initialize();
-                await messagingService.initialize();
-                await securityService.initialize();
-                // Check if user has an identity
-                if (identityService.hasIdentity()) {
-                    setAppState('ready');
-                    // Connect to signaling server
-                    try {
-                        await connectionManager.connect();
-                        console.log('[App] Connected to signaling server');
-                    }
-                    catch (connError) {
-                        console.warn('[App] Could not connect to signaling server:', connError);
-                        toast.error('Could not connect to server. Messages will be queued.');
-                    }
-                }
-                else {
-                    setAppState('onboarding');
-                }
             }
             catch (error) {
                 console.error('[App] Initialization error:', error);
                 setAppState('onboarding');
+                return;
+            }
+            // The database key is protected by the PIN
+            if (db.isLocked()) {
+                setAppState('locked');
+                return;
             }
+            await start();
         };
         init();
     }, []);
+    // Locking closes the database; stay offline until unlocked
+    useEffect(() => {
+        const handleLocked = () => {
+            connectionManager.disconnect();
+            setAppState('locked');
+        };
+        securityService.on('locked', handleLocked);
+        return () => {
+            securityService.off('locked', handleLocked);
+        };
+    }, []);
+    const handleUnlock = async (pin) => {
+        if (securityService.isAppLocked()) {
+            if (!(await securityService.unlock(pin)))
+                return false;
+            setAppState('ready');
+            await connectToServer();
+            return true;
+        }
+        // Locked since startup: services start once the database opens
+        if (!(await db.unlock(pin)))
+            return false;
+        await start();
+        return true;
+    };
+    // The primary unlinked this device and its identity is gone
+    useEffect(() => {
+        const handleRevoked = () => {
+            connectionManager.disconnect();
+            toast.error('This device was unlinked from your account');
+            setAppState('onboarding');
+        };
+        deviceService.on('revoked', handleRevoked);
+        return () => {
+            deviceService.off('revoked', handleRevoked);
+        };
+    }, []);
     // Show loading state
     if (appState === 'loading') {
         return (_jsx("div", { className: "h-screen flex items-center justify-center bg-surface-0", children: _jsxs("div", { className: "flex flex-col items-center", children: [_jsx("div", { className: "w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" }), _jsx("p", { className: "mt-4 text-text-secondary", children: "Initializing VORTEX..." })] }) }));
     }
+    if (appState === 'locked') {
+        return (_jsx(ErrorBoundary, { children: _jsx(UnlockScreen, { onUnlock: handleUnlock }) }));
+    }
     // Show onboarding for new users
     if (appState === 'onboarding') {
         return (_jsx(ErrorBoundary, { children: _jsx(OnboardingScreen, { onComplete: () => setAppState('ready') }) }));
@@ -7,14 +7,16 @@ import React, { useEffect, useState } from 'react';
 import { Toaster } from 'react-hot-toast';
 import { MainLayout } from './components/layout/MainLayout';
 import { OnboardingScreen } from './components/onboarding';
+import { UnlockScreen } from './components/security';
 import { ErrorBoundary } from './components/error';
 import { useSettingsStore } from './stores';
-import { identityService } from './services/identity';
+import { identityService, keyMaintenanceService } from './services/identity';
 import { db } from './services/database';
-import { notificationService, messagingService, securityService, connectionManager } from './services';
+import { deviceService } from './services/devices';
+import { notificationService, messagingService, securityService, connectionManager, attachmentStore, backupService } from './services';
 import toast from 'react-hot-toast';
 
-type AppState = 'loading' | 'onboarding' | 'ready';
+type AppState = 'loading' | 'locked' | 'onboarding' | 'ready';
 
 // Font size mappings
 const fontSizeMap = {
@@ -23,6 +25,26 @@ const fontSizeMap = {
   large: '18px',
 };
 
+async function initializeServices(): Promise<void> {
+  await identityService.initialize();
+  await notificationService.initialize();
+  await attachmentStore.initialize();
+  await backupService.initialize();
+  await messagingService.initialize();
+  await securityService.initialize();
+  await keyMaintenanceService.initialize();
+}
+
+async function connectToServer(): Promise<void> {
+  try {
+    await connectionManager.connect();
+    console.log('[App] Connected to signaling server');
+  } catch (connError) {
+    console.warn('[App] Could not connect to signaling server:', connError);
+    toast.error('Could not connect to server. Messages will be queued.');
+  }
+}
+
 export default function App() {
   const [appState, setAppState] = useState<AppState>('loading');
   const { appearance } = useSettingsStore();
@@ -49,41 +71,87 @@ export default function App() {
     }
   }, [appearance.accentColor, appearance.fontSize, appearance.theme]);
 
+  // Initialize services once the database is open
+  const start = async () => {
+    try {
+      await initializeServices();
+
+      // Check if user has an identity
+      if (identityService.hasIdentity()) {
+        setAppState('ready');
+        await connectToServer();
+      } else {
+        setAppState('onboarding');
+      }
+    } catch (error) {
+      console.error('[App] Initialization error:', error);
+      setAppState('onboarding');
+    }
+  };
+
   // Initialize app on mount
   useEffect(() => {
     const init = async () => {
       try {
-        // Initialize all services
         await db.initialize();
-        await identityService.initialize();
-        await notificationService.initialize();
-        await messagingService.initialize();
-        await securityService.initialize();
-
-        // Check if user has an identity
-        if (identityService.hasIdentity()) {
-          setAppState('ready');
-          
-          // Connect to signaling server
-          try {
-            await connectionManager.connect();
-            console.log('[App] Connected to signaling server');
-          } catch (connError) {
-            console.warn('[App] Could not connect to signaling server:', connError);
-            toast.error('Could not connect to server. Messages will be queued.');
-          }
-        } else {
-          setAppState('onboarding');
-        }
       } catch (error) {
         console.error('[App] Initialization error:', error);
         setAppState('onboarding');
+        return;
+      }
+
+      // The database key is protected by the PIN
+      if (db.isLocked()) {
+        setAppState('locked');
+        return;
       }
+      await start();
     };
 
     init();
   }, []);
 
+  // Locking closes the database; stay offline until unlocked
+  useEffect(() => {
+    const handleLocked = () => {
+      connectionManager.disconnect();
+      setAppState('locked');
+    };
+
+    securityService.on('locked', handleLocked);
+    return () => {
+      securityService.off('locked', handleLocked);
+    };
+  }, []);
+
+  const handleUnlock = async (pin: string): Promise<boolean> => {
+    if (securityService.isAppLocked()) {
+      if (!(await securityService.unlock(pin))) return false;
+      setAppState('ready');
+      await connectToServer();
+      return true;
+    }
+
+    // Locked since startup: services start once the database opens
+    if (!(await db.unlock(pin))) return false;
+    await start();
+    return true;
+  };
+
+  // The primary unlinked this device and its identity is gone
+  useEffect(() => {
+    const handleRevoked = () => {
+      connectionManager.disconnect();
+      toast.error('This device was unlinked from your account');
+      setAppState('onboarding');
+    };
+
+    deviceService.on('revoked', handleRevoked);
+    return () => {
+      deviceService.off('revoked', handleRevoked);
+    };
+  }, []);
+
   // Show loading state
   if (appState === 'loading') {
     return (
@@ -96,6 +164,14 @@ export default function App() {
     );
   }
 
+  if (appState === 'locked') {
+    return (
+      <ErrorBoundary>
+        <UnlockScreen onUnlock={handleUnlock} />
+      </ErrorBoundary>
+    );
+  }
+
   // Show onboarding for new users
   if (appState === 'onboarding') {
     return (
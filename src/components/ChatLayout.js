@@ -7,7 +7,14 @@ import { Avatar } from './ui/avatar';
 import { useP2P } from '../hooks/useP2P';
 import { useMedia } from '../hooks/useMedia';
 import { FileSender } from '../services/file/FileSender';
-import { MessageSquare, Shield, Send, MonitorUp, Mic, MicOff, Square } from 'lucide-react';
+import { MessageSquare, Shield, ShieldCheck, ShieldAlert, AlertTriangle, Send, MonitorUp, Mic, MicOff, Square } from 'lucide-react';
+const authBadges = {
+    pending: { label: 'Authenticating…', className: 'text-zinc-500', Icon: Shield },
+    authenticated: { label: 'Authenticated', className: 'text-green-500', Icon: ShieldCheck },
+    unknown: { label: 'Unknown identity key', className: 'text-amber-500', Icon: AlertTriangle },
+    mismatch: { label: 'Identity key mismatch', className: 'text-red-500', Icon: ShieldAlert },
+    invalid: { label: 'Not authenticated', className: 'text-red-500', Icon: ShieldAlert },
+};
 export function ChatLayout() {
     const [roomId, setRoomId] = useState('vortex-lab');
     const [connected, setConnected] = useState(false);
@@ -17,7 +24,11 @@ export function ChatLayout() {
     const [text, setText] = useState('');
     const [muted, setMuted] = useState(false);
     const [sharing, setSharing] = useState(false);
-    return (_jsxs("div", { className: "grid h-screen grid-cols-[280px_1fr_320px]", children: [_jsxs("aside", { className: "border-r border-zinc-800 bg-zinc-950/80 p-4", children: [_jsxs("div", { className: "mb-4 flex items-center gap-2 text-slate-300", children: [_jsx(Shield, { size: 18, className: "text-blue-500" }), _jsx("span", { className: "text-sm", children: "VORTEX SECURE" })] }), _jsxs("div", { className: "space-y-2", children: [_jsx(Input, { value: roomId, onChange: (e) => setRoomId(e.target.value), placeholder: "Room ID" }), _jsx(Button, { onClick: async () => { setConnected(true); await startMic().catch(() => { }); }, disabled: connected, children: "Join Room" })] }), _jsx("div", { className: "mt-6 text-xs uppercase text-zinc-500", children: "Peers" }), _jsxs("div", { className: "mt-2 space-y-2", children: [peersList.length === 0 && _jsx("div", { className: "text-zinc-600 text-sm", children: "No peers" }), peersList.map((p) => (_jsxs("div", { className: "flex items-center gap-2 rounded border border-zinc-800 bg-zinc-900/60 p-2", children: [_jsx(Avatar, { name: p }), _jsx("div", { className: "truncate text-sm", children: p })] }, p)))] })] }), _jsxs("main", { className: "flex h-screen flex-col", children: [_jsxs("header", { className: "flex items-center justify-between border-b border-zinc-800 px-4 py-3", children: [_jsxs("div", { className: "flex items-center gap-2 text-slate-200", children: [_jsx(MessageSquare, { size: 18 }), _jsx("span", { className: "font-medium", children: "Room" })] }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx(Button, { variant: "outline", title: "Share Screen", onClick: async () => {
+    return (_jsxs("div", { className: "grid h-screen grid-cols-[280px_1fr_320px]", children: [_jsxs("aside", { className: "border-r border-zinc-800 bg-zinc-950/80 p-4", children: [_jsxs("div", { className: "mb-4 flex items-center gap-2 text-slate-300", children: [_jsx(Shield, { size: 18, className: "text-blue-500" }), _jsx("span", { className: "text-sm", children: "VORTEX SECURE" })] }), _jsxs("div", { className: "space-y-2", children: [_jsx(Input, { value: roomId, onChange: (e) => setRoomId(e.target.value), placeholder: "Room ID" }), _jsx(Button, { onClick: async () => { setConnected(true); await startMic().catch(() => { }); }, disabled: connected, children: "Join Room" })] }), _jsx("div", { className: "mt-6 text-xs uppercase text-zinc-500", children: "Peers" }), _jsxs("div", { className: "mt-2 space-y-2", children: [peersList.length === 0 && _jsx("div", { className: "text-zinc-600 text-sm", children: "No peers" }), peersList.map((p) => {
+                                const { auth, contactName } = peers[p];
+                                const { label, className, Icon } = authBadges[auth];
+                                return (_jsxs("div", { className: "flex items-center gap-2 rounded border border-zinc-800 bg-zinc-900/60 p-2", children: [_jsx(Avatar, { name: contactName ?? p }), _jsxs("div", { className: "min-w-0", children: [_jsx("div", { className: "truncate text-sm", children: contactName ?? p }), _jsxs("div", { className: `flex items-center gap-1 text-xs ${className}`, title: label, children: [_jsx(Icon, { size: 12 }), _jsx("span", { children: label })] })] })] }, p));
+                            })] })] }), _jsxs("main", { className: "flex h-screen flex-col", children: [_jsxs("header", { className: "flex items-center justify-between border-b border-zinc-800 px-4 py-3", children: [_jsxs("div", { className: "flex items-center gap-2 text-slate-200", children: [_jsx(MessageSquare, { size: 18 }), _jsx("span", { className: "font-medium", children: "Room" })] }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx(Button, { variant: "outline", title: "Share Screen", onClick: async () => {
                                             if (!sharing) {
                                                 await startScreen().catch(() => { });
                                                 setSharing(true);
@@ -46,7 +57,7 @@ export function ChatLayout() {
                                                 await sender.start();
                                             }
                                             e.currentTarget.value = '';
-                                        } })] })] }), _jsx(ScrollArea, { className: "flex-1 bg-zinc-950 p-4", children: _jsx("div", { className: "space-y-3", children: messages.map((m) => (_jsxs("div", { className: "rounded-md border border-zinc-800 bg-zinc-900/60 p-3", children: [_jsxs("div", { className: "text-xs text-zinc-500", children: [new Date(m.createdAt).toLocaleTimeString(), " \u2022 ", m.status] }), _jsx("div", { className: "mt-1 whitespace-pre-wrap break-words text-slate-50", children: m.body })] }, m.id))) }) }), _jsx("div", { className: "border-t border-zinc-800 p-3", children: _jsxs("div", { className: "flex gap-2", children: [_jsx(Input, { value: text, onChange: (e) => setText(e.target.value), placeholder: "Type encrypted message...", onKeyDown: (e) => {
+                                        } })] })] }), peersList.some((p) => peers[p].auth === 'mismatch' || peers[p].auth === 'invalid') && (_jsxs("div", { className: "flex items-center gap-2 border-b border-red-900 bg-red-950/60 px-4 py-2 text-sm text-red-300", children: [_jsx(ShieldAlert, { size: 16 }), _jsx("span", { children: "A peer could not be authenticated. Someone may be intercepting this room." })] })), peersList.some((p) => peers[p].auth === 'unknown') && (_jsxs("div", { className: "flex items-center gap-2 border-b border-amber-900 bg-amber-950/60 px-4 py-2 text-sm text-amber-300", children: [_jsx(AlertTriangle, { size: 16 }), _jsx("span", { children: "A peer's identity key is not in your contacts. Verify it before sharing anything sensitive." })] })), _jsx(ScrollArea, { className: "flex-1 bg-zinc-950 p-4", children: _jsx("div", { className: "space-y-3", children: messages.map((m) => (_jsxs("div", { className: "rounded-md border border-zinc-800 bg-zinc-900/60 p-3", children: [_jsxs("div", { className: "text-xs text-zinc-500", children: [new Date(m.createdAt).toLocaleTimeString(), " \u2022 ", m.status] }), _jsx("div", { className: "mt-1 whitespace-pre-wrap break-words text-slate-50", children: m.body })] }, m.id))) }) }), _jsx("div", { className: "border-t border-zinc-800 p-3", children: _jsxs("div", { className: "flex gap-2", children: [_jsx(Input, { value: text, onChange: (e) => setText(e.target.value), placeholder: "Type encrypted message...", onKeyDown: (e) => {
                                         if (e.key === 'Enter' && text.trim() && peersList[0]) {
                                             void sendMessage(peersList[0], text.trim());
                                             setText('');
@@ -3,10 +3,18 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { ScrollArea } from './ui/scroll-area';
 import { Avatar } from './ui/avatar';
-import { useP2P } from '../hooks/useP2P';
+import { useP2P, type PeerAuthStatus } from '../hooks/useP2P';
 import { useMedia } from '../hooks/useMedia';
 import { FileSender } from '../services/file/FileSender';
-import { MessageSquare, Shield, Send, MonitorUp, Mic, MicOff, Square, VolumeX } from 'lucide-react';
+import { MessageSquare, Shield, ShieldCheck, ShieldAlert, AlertTriangle, Send, MonitorUp, Mic, MicOff, Square, VolumeX } from 'lucide-react';
+
+const authBadges: Record<PeerAuthStatus, { label: string; className: string; Icon: typeof Shield }> = {
+  pending: { label: 'Authenticating…', className: 'text-zinc-500', Icon: Shield },
+  authenticated: { label: 'Authenticated', className: 'text-green-500', Icon: ShieldCheck },
+  unknown: { label: 'Unknown identity key', className: 'text-amber-500', Icon: AlertTriangle },
+  mismatch: { label: 'Identity key mismatch', className: 'text-red-500', Icon: ShieldAlert },
+  invalid: { label: 'Not authenticated', className: 'text-red-500', Icon: ShieldAlert },
+};
 
 export function ChatLayout() {
   const [roomId, setRoomId] = useState<string>('vortex-lab');
@@ -37,12 +45,22 @@ export function ChatLayout() {
         <div className="mt-6 text-xs uppercase text-zinc-500">Peers</div>
         <div className="mt-2 space-y-2">
           {peersList.length === 0 && <div className="text-zinc-600 text-sm">No peers</div>}
-          {peersList.map((p) => (
-            <div key={p} className="flex items-center gap-2 rounded border border-zinc-800 bg-zinc-900/60 p-2">
-              <Avatar name={p} />
-              <div className="truncate text-sm">{p}</div>
-            </div>
-          ))}
+          {peersList.map((p) => {
+            const { auth, contactName } = peers[p];
+            const { label, className, Icon } = authBadges[auth];
+            return (
+              <div key={p} className="flex items-center gap-2 rounded border border-zinc-800 bg-zinc-900/60 p-2">
+                <Avatar name={contactName ?? p} />
+                <div className="min-w-0">
+                  <div className="truncate text-sm">{contactName ?? p}</div>
+                  <div className={`flex items-center gap-1 text-xs ${className}`} title={label}>
+                    <Icon size={12} />
+                    <span>{label}</span>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
         </div>
       </aside>
 
@@ -92,6 +110,18 @@ export function ChatLayout() {
             />
           </div>
         </header>
+        {peersList.some((p) => peers[p].auth === 'mismatch' || peers[p].auth === 'invalid') && (
+          <div className="flex items-center gap-2 border-b border-red-900 bg-red-950/60 px-4 py-2 text-sm text-red-300">
+            <ShieldAlert size={16} />
+            <span>A peer could not be authenticated. Someone may be intercepting this room.</span>
+          </div>
+        )}
+        {peersList.some((p) => peers[p].auth === 'unknown') && (
+          <div className="flex items-center gap-2 border-b border-amber-900 bg-amber-950/60 px-4 py-2 text-sm text-amber-300">
+            <AlertTriangle size={16} />
+            <span>A peer's identity key is not in your contacts. Verify it before sharing anything sensitive.</span>
+          </div>
+        )}
         <ScrollArea className="flex-1 bg-zinc-950 p-4">
           <div className="space-y-3">
             {messages.map((m) => (
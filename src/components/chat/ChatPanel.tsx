@@ -33,18 +33,24 @@ import {
   AtSign,
   Hash,
   Timer,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn, formatChatTime, getInitials, stringToColor, copyToClipboard } from '../../lib/utils';
 import { useChatStore, usePeerStore, type Message, type Conversation } from '../../stores';
 import { MessageBubble } from './MessageBubble';
+import { MessageSearch } from './MessageSearch';
 import { TypingIndicator } from './TypingIndicator';
 import { EmojiPicker } from './EmojiPicker';
 import { messagingService } from '../../services/messaging';
 import { connectionManager } from '../../services/p2p';
 import { identityService } from '../../services/identity';
+import { contactService } from '../../services/contacts';
 import { db } from '../../services/database';
 import toast from 'react-hot-toast';
 
+// Virtuoso counts items from here so older pages can be put in front
+const FIRST_ITEM_INDEX = 1_000_000;
+
 interface ChatPanelProps {
   onToggleDetail: () => void;
 }
@@ -57,7 +63,12 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
     drafts,
     setDraft,
     clearDraft,
-    addMessage,
+    hasOlderMessages,
+    hasNewerMessages,
+    loadMessages,
+    loadOlderMessages,
+    loadNewerMessages,
+    loadMessagesAround,
   } = useChatStore();
   
   const { connectedPeers, startCall } = usePeerStore();
@@ -67,6 +78,13 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
+  const [keyChanges, setKeyChanges] = useState<string[]>([]);
+  const [showSearch, setShowSearch] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [firstItemIndex, setFirstItemIndex] = useState(FIRST_ITEM_INDEX);
+  // Bumped to open the list afresh at initialItem, e.g. at a search hit
+  const [listVersion, setListVersion] = useState(0);
+  const [initialItem, setInitialItem] = useState<number | null>(null);
   
   const virtuosoRef = useRef<VirtuosoHandle>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -75,6 +93,7 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
   const conversation = activeConversation();
   const messages = activeMessages();
   const draft = conversation ? drafts[conversation.id] : null;
+  const selfId = identityService.getIdentity()?.id;
 
   // Load draft on conversation change
   useEffect(() => {
@@ -92,24 +111,117 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
     }
   }, [inputValue, conversation, setDraft, replyingTo]);
 
+  // Participants whose safety number changed; sending to them is paused
+  useEffect(() => {
+    const refresh = () => {
+      setKeyChanges(
+        conversation?.participants
+          .filter(p => contactService.hasPendingKeyChange(p.id))
+          .map(p => p.displayName || p.id) ?? []
+      );
+    };
+
+    refresh();
+    contactService.on('identity-key-changed', refresh);
+    contactService.on('key-change-acknowledged', refresh);
+    return () => {
+      contactService.off('identity-key-changed', refresh);
+      contactService.off('key-change-acknowledged', refresh);
+    };
+  }, [conversation?.id]);
+
+  const acknowledgeKeyChanges = () => {
+    conversation?.participants.forEach(p => contactService.acknowledgeKeyChange(p.id));
+  };
+
   // Typing indicators for current conversation
   const activeTypers = typingIndicators.filter(
     t => t.conversationId === conversation?.id
   );
 
+  // Close search when switching conversations
+  useEffect(() => {
+    setShowSearch(false);
+    setHighlightedMessageId(null);
+    setFirstItemIndex(FIRST_ITEM_INDEX);
+    setInitialItem(null);
+  }, [conversation?.id]);
+
+  // Opening a conversation reads it
+  useEffect(() => {
+    if (conversation && conversation.unreadCount > 0) {
+      messagingService.markAsRead(conversation.id);
+    }
+  }, [conversation?.id, conversation?.unreadCount]);
+
+  // Page in older messages as the list is scrolled to the top
+  const loadOlder = useCallback(() => {
+    if (!conversation || !hasOlderMessages[conversation.id]) return 0;
+
+    const loaded = loadOlderMessages(conversation.id);
+    setFirstItemIndex(index => index - loaded);
+    return loaded;
+  }, [conversation?.id, hasOlderMessages, loadOlderMessages]);
+
+  // Page in newer messages when the list was opened away from the latest
+  const loadNewer = useCallback(() => {
+    if (conversation && hasNewerMessages[conversation.id]) {
+      loadNewerMessages(conversation.id);
+    }
+  }, [conversation?.id, hasNewerMessages, loadNewerMessages]);
+
+  // Open the list afresh, at an item or at the latest message
+  const reopenList = useCallback((index: number | null) => {
+    setFirstItemIndex(FIRST_ITEM_INDEX);
+    setInitialItem(index);
+    setListVersion(version => version + 1);
+  }, []);
+
+  // Open the message list at a search hit, centred among its neighbours
+  const navigateToMessage = useCallback((messageId: string) => {
+    if (!conversation) return;
+    const findHit = () => useChatStore.getState().activeMessages().findIndex(m => m.id === messageId);
+
+    const loadedIndex = findHit();
+    if (loadedIndex !== -1) {
+      virtuosoRef.current?.scrollToIndex({ index: loadedIndex, align: 'center', behavior: 'smooth' });
+      setHighlightedMessageId(messageId);
+      return;
+    }
+
+    // Hits outside the loaded pages bring a page of messages around them
+    if (!loadMessagesAround(conversation.id, messageId)) {
+      toast.error('Message is no longer in this conversation');
+      return;
+    }
+
+    reopenList(findHit());
+    setHighlightedMessageId(messageId);
+  }, [conversation?.id, loadMessagesAround, reopenList]);
+
+  const closeSearch = useCallback(() => {
+    setShowSearch(false);
+    setHighlightedMessageId(null);
+  }, []);
+
   // Handle scroll state
   const handleScroll = useCallback((scrolling: boolean) => {
     // Implementation for detecting if user is at bottom
   }, []);
 
-  // Scroll to bottom
+  // Scroll to bottom, reading the latest page first if it is not loaded
   const scrollToBottom = useCallback(() => {
-    virtuosoRef.current?.scrollToIndex({
-      index: messages.length - 1,
-      behavior: 'smooth',
-    });
+    if (conversation && hasNewerMessages[conversation.id]) {
+      loadMessages(conversation.id);
+      reopenList(null);
+    } else {
+      virtuosoRef.current?.scrollToIndex({
+        index: messages.length - 1,
+        behavior: 'smooth',
+      });
+    }
     setShowScrollButton(false);
-  }, [messages.length]);
+  }, [conversation?.id, hasNewerMessages, loadMessages, reopenList, messages.length]);
 
   // Send message using real messaging service
   const sendMessage = useCallback(async () => {
@@ -144,16 +256,6 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
         replyToId: replyingTo?.id,
       });
 
-      // Also add to local store for immediate display
-      addMessage({
-        conversationId: conversation.id,
-        senderId: identity.id,
-        type: 'text',
-        content: inputValue.trim(),
-        status: 'sent',
-        replyTo: replyingTo?.id,
-      });
-
       setInputValue('');
       setReplyingTo(null);
       setAttachments([]);
@@ -165,7 +267,7 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
       console.error('[Chat] Send error:', error);
       toast.error(error.message || 'Failed to send message');
     }
-  }, [inputValue, attachments, conversation, addMessage, replyingTo, clearDraft, scrollToBottom]);
+  }, [inputValue, attachments, conversation, replyingTo, clearDraft, scrollToBottom]);
 
   // Handle key press
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -260,7 +362,11 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
             <Video size={18} />
           </button>
           <button 
-            className="p-2 rounded-lg hover:bg-surface-3 text-text-tertiary hover:text-text-primary transition-colors"
+            onClick={() => (showSearch ? closeSearch() : setShowSearch(true))}
+            className={cn(
+              'p-2 rounded-lg hover:bg-surface-3 text-text-tertiary hover:text-text-primary transition-colors',
+              showSearch && 'bg-surface-3 text-text-primary'
+            )}
             title="Search in conversation"
           >
             <Search size={18} />
@@ -275,20 +381,52 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
         </div>
       </header>
 
+      {/* Safety number change */}
+      {keyChanges.length > 0 && (
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-warning/30 bg-warning/10 text-sm">
+          <ShieldAlert size={16} className="text-warning shrink-0" />
+          <span className="flex-1 text-text-primary">
+            Safety number changed for {keyChanges.join(', ')}. Messages to and from them are held until you acknowledge.
+          </span>
+          <button
+            onClick={acknowledgeKeyChanges}
+            className="px-3 py-1 rounded-lg bg-warning/20 hover:bg-warning/30 text-text-primary text-xs font-medium transition-colors"
+          >
+            Acknowledge
+          </button>
+        </div>
+      )}
+
       {/* Messages Area */}
       <div className="flex-1 relative">
+        <MessageSearch
+          conversationId={conversation.id}
+          participants={conversation.participants}
+          isOpen={showSearch}
+          onClose={closeSearch}
+          onNavigateToMessage={navigateToMessage}
+        />
+
         <Virtuoso
+          key={`${conversation.id}:${listVersion}`}
           ref={virtuosoRef}
           data={messages}
+          firstItemIndex={firstItemIndex}
+          initialTopMostItemIndex={initialItem === null
+            ? Math.max(messages.length - 1, 0)
+            : { index: initialItem, align: 'center' }}
+          startReached={loadOlder}
+          endReached={loadNewer}
           className="h-full"
-          followOutput="smooth"
+          followOutput={hasNewerMessages[conversation.id] ? false : 'smooth'}
           alignToBottom
           itemContent={(index, message) => (
             <MessageBubble
               key={message.id}
               message={message}
-              isOwn={message.senderId === 'self'}
-              showAvatar={index === 0 || messages[index - 1]?.senderId !== message.senderId}
+              isOwn={message.senderId === selfId}
+              showAvatar={index === firstItemIndex || messages[index - firstItemIndex - 1]?.senderId !== message.senderId}
+              isHighlighted={message.id === highlightedMessageId}
               onReply={() => setReplyingTo(message)}
             />
           )}
@@ -312,7 +450,7 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
 
         {/* Scroll to bottom button */}
         <AnimatePresence>
-          {showScrollButton && (
+          {(showScrollButton || hasNewerMessages[conversation.id]) && (
             <motion.button
               initial={{ opacity: 0, scale: 0.8 }}
               animate={{ opacity: 1, scale: 1 }}
@@ -339,7 +477,7 @@ export function ChatPanel({ onToggleDetail }: ChatPanelProps) {
               <Reply size={16} className="text-primary shrink-0" />
               <div className="flex-1 min-w-0">
                 <p className="text-xs text-primary font-medium">
-                  Reply to {replyingTo.senderId === 'self' ? 'yourself' : displayName}
+                  Reply to {replyingTo.senderId === selfId ? 'yourself' : displayName}
                 </p>
                 <p className="text-sm text-text-secondary truncate">
                   {replyingTo.content}
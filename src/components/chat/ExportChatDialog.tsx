@@ -0,0 +1,227 @@
+/**
+ * VORTEX Protocol - Export Chat Dialog
+ * Export one conversation as HTML, JSON or plain text
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Download, FileText, FileCode, Globe, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { cn, downloadBlob, isElectron } from '../../lib/utils';
+import { chatExportService, type ChatExportFormat } from '../../services/export';
+
+interface ExportChatDialogProps {
+  isOpen: boolean;
+  conversationId: string;
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ id: ChatExportFormat; icon: React.ElementType; label: string; description: string }> = [
+  { id: 'html', icon: Globe, label: 'HTML', description: 'Readable transcript, opens in a browser' },
+  { id: 'json', icon: FileCode, label: 'JSON', description: 'For other apps and scripts' },
+  { id: 'text', icon: FileText, label: 'Text', description: 'Plain text, one line per message' },
+];
+
+const FILE_FILTERS: Record<ChatExportFormat, { name: string; extensions: string[] }> = {
+  html: { name: 'HTML', extensions: ['html'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  text: { name: 'Text', extensions: ['txt'] },
+};
+
+// <input type="date"> value as local midnight
+function parseDay(value: string): number | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+export function ExportChatDialog({ isOpen, conversationId, onClose }: ExportChatDialogProps) {
+  const [format, setFormat] = useState<ChatExportFormat>('html');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [includeAttachments, setIncludeAttachments] = useState(true);
+  const [redactNames, setRedactNames] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const to = parseDay(toDate);
+      const exported = await chatExportService.exportConversation(conversationId, {
+        format,
+        after: parseDay(fromDate),
+        // Through the end of the last day
+        before: to === undefined ? undefined : new Date(to).setDate(new Date(to).getDate() + 1),
+        includeAttachments,
+        redactNames,
+      });
+
+      if (isElectron()) {
+        const path = await window.electronAPI.fs.showSaveDialog({
+          title: 'Export Chat',
+          defaultPath: exported.fileName,
+          filters: [FILE_FILTERS[format]],
+        });
+        if (!path) return;
+        await window.electronAPI.fs.writeFile(path, exported.data);
+      } else {
+        downloadBlob(new Blob([exported.data as BlobPart], { type: exported.mimeType }), exported.fileName);
+      }
+
+      toast.success(`Exported ${exported.messages} message${exported.messages === 1 ? '' : 's'}`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="w-full max-w-md bg-surface-1 rounded-2xl shadow-glass border border-border overflow-hidden"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-border">
+            <h2 className="text-lg font-semibold text-text-primary">Export Chat</h2>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-surface-3 text-text-tertiary hover:text-text-primary transition-colors"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">Format</label>
+              <div className="grid grid-cols-3 gap-2">
+                {FORMATS.map(({ id, icon: Icon, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => setFormat(id)}
+                    className={cn(
+                      'flex flex-col items-center gap-1 py-3 rounded-lg border transition-colors',
+                      format === id
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border bg-surface-2 text-text-secondary hover:text-text-primary'
+                    )}
+                  >
+                    <Icon size={18} />
+                    <span className="text-sm font-medium">{label}</span>
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-text-muted mt-2">
+                {FORMATS.find(({ id }) => id === format)?.description}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">From</label>
+                <input
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">To</label>
+                <input
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-text-muted -mt-2">Leave empty to export the whole conversation.</p>
+
+            <ExportToggle
+              label="Include attachments"
+              description={format === 'text' ? 'Text exports only list them' : 'Embed images and files in the export'}
+              checked={includeAttachments}
+              disabled={format === 'text'}
+              onChange={setIncludeAttachments}
+            />
+            <ExportToggle
+              label="Redact names"
+              description="Replace other participants' names with Participant 1, 2, ..."
+              checked={redactNames}
+              onChange={setRedactNames}
+            />
+
+            <p className="text-xs text-warning">
+              Exports are not encrypted. Anyone with the file can read these messages.
+            </p>
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-lg bg-primary hover:bg-primary-hover disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium transition-colors"
+            >
+              {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+              Export
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
+
+function ExportToggle({
+  label,
+  description,
+  checked,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <p className="text-sm font-medium text-text-primary">{label}</p>
+        <p className="text-xs text-text-secondary">{description}</p>
+      </div>
+      <button
+        onClick={() => onChange(!checked)}
+        disabled={disabled}
+        className={cn(
+          'relative w-11 h-6 rounded-full shrink-0 transition-colors disabled:opacity-50',
+          checked && !disabled ? 'bg-primary' : 'bg-surface-4'
+        )}
+      >
+        <motion.div
+          className="absolute top-1 w-4 h-4 rounded-full bg-white shadow-sm"
+          animate={{ left: checked && !disabled ? 24 : 4 }}
+          transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+        />
+      </button>
+    </div>
+  );
+}
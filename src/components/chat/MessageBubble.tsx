@@ -3,7 +3,7 @@
  * Individual message display with reactions, status, and context menu
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
   Check,
@@ -21,14 +21,17 @@ import {
   File,
   Image as ImageIcon,
   Lock,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn, formatChatTime, copyToClipboard, getInitials, stringToColor } from '../../lib/utils';
 import type { Message, MessageStatus } from '../../stores';
+import { attachmentStore } from '../../services/files';
 
 interface MessageBubbleProps {
   message: Message;
   isOwn: boolean;
   showAvatar?: boolean;
+  isHighlighted?: boolean;   // Search hit being shown
   onReply?: () => void;
   onForward?: () => void;
   onDelete?: () => void;
@@ -38,6 +41,7 @@ export function MessageBubble({
   message,
   isOwn,
   showAvatar = true,
+  isHighlighted = false,
   onReply,
   onForward,
   onDelete,
@@ -45,19 +49,51 @@ export function MessageBubble({
   const [showActions, setShowActions] = useState(false);
   const [showReactions, setShowReactions] = useState(false);
 
+  const image = message.type === 'image' ? message.attachments?.[0] : undefined;
+  const [imageUrl, setImageUrl] = useState(image?.thumbnailUrl ?? image?.url);
+
+  // Stored images are decrypted from the attachment store, thumbnail first
+  useEffect(() => {
+    if (!image || image.url) return;
+
+    let cancelled = false;
+    attachmentStore.getObjectUrl(image.id, 'thumbnail')
+      .then(url => url ?? attachmentStore.getObjectUrl(image.id))
+      .then(url => {
+        if (!cancelled && url) setImageUrl(url);
+      })
+      .catch(error => console.error('[Chat] Failed to load image:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [image?.id]);
+
   const handleCopy = async () => {
     await copyToClipboard(message.content);
   };
 
   const quickReactions = ['❤️', '👍', '😂', '😮', '😢', '🙏'];
 
+  if (message.type === 'system') {
+    return (
+      <div className="flex justify-center px-4 py-2">
+        <div className="flex items-center gap-2 max-w-[80%] px-3 py-1.5 rounded-lg bg-surface-2 text-xs text-text-secondary">
+          <ShieldAlert size={14} className="text-warning shrink-0" />
+          <span>{message.content}</span>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
       className={cn(
-        'group flex gap-2 px-4 py-1',
-        isOwn ? 'flex-row-reverse' : 'flex-row'
+        'group flex gap-2 px-4 py-1 transition-colors',
+        isOwn ? 'flex-row-reverse' : 'flex-row',
+        isHighlighted && 'bg-primary/10'
       )}
       onMouseEnter={() => setShowActions(true)}
       onMouseLeave={() => {
@@ -116,7 +152,7 @@ export function MessageBubble({
               {message.type === 'image' && message.attachments?.[0] && (
                 <div className="relative">
                   <img
-                    src={message.attachments[0].url}
+                    src={imageUrl}
                     alt={message.attachments[0].name}
                     className="max-w-[300px] rounded-lg"
                   />
@@ -5,9 +5,10 @@ import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Search, X, ChevronUp, ChevronDown, MessageSquare } from 'lucide-react';
-import { formatChatTime } from '../../lib/utils';
-import { db } from '../../services/database';
-export function MessageSearch({ conversationId, isOpen, onClose, onNavigateToMessage }) {
+import { cn, formatChatTime } from '../../lib/utils';
+import { db, parseSearchQuery, SNIPPET_MATCH_START, SNIPPET_MATCH_END, } from '../../services/database';
+import { identityService } from '../../services/identity';
+export function MessageSearch({ conversationId, participants, isOpen, onClose, onNavigateToMessage }) {
     const [query, setQuery] = useState('');
     const [results, setResults] = useState([]);
     const [currentIndex, setCurrentIndex] = useState(0);
@@ -33,17 +34,15 @@ export function MessageSearch({ conversationId, isOpen, onClose, onNavigateToMes
             return;
         }
         setIsSearching(true);
-        // Get all messages for the conversation
-        const messages = db.getMessages(conversationId, 1000);
-        const normalizedQuery = searchQuery.toLowerCase();
-        const matchingMessages = messages.filter(msg => msg.content.toLowerCase().includes(normalizedQuery) &&
-            msg.type === 'text' &&
-            !msg.isDeleted);
-        const searchResults = matchingMessages.map((message, index) => ({
-            message,
-            matchIndex: index + 1,
-            totalMatches: matchingMessages.length,
-        }));
+        // from: takes "me", a participant's name or an ID
+        const parsed = parseSearchQuery(searchQuery);
+        if (parsed.senderId) {
+            const sender = parsed.senderId.toLowerCase();
+            parsed.senderId = sender === 'me'
+                ? identityService.getIdentity()?.id
+                : participants.find(p => p.displayName.toLowerCase() === sender)?.id ?? parsed.senderId;
+        }
+        const searchResults = db.searchMessages({ ...parsed, conversationId });
         setResults(searchResults);
         setCurrentIndex(searchResults.length > 0 ? 0 : -1);
         setIsSearching(false);
@@ -51,7 +50,7 @@ export function MessageSearch({ conversationId, isOpen, onClose, onNavigateToMes
         if (searchResults.length > 0) {
             onNavigateToMessage(searchResults[0].message.id);
         }
-    }, [conversationId, onNavigateToMessage]);
+    }, [conversationId, participants, onNavigateToMessage]);
     // Handle query change with debounce
     useEffect(() => {
         if (debounceRef.current) {
@@ -94,15 +93,15 @@ export function MessageSearch({ conversationId, isOpen, onClose, onNavigateToMes
     };
     if (!isOpen)
         return null;
-    return (_jsx(AnimatePresence, { children: _jsxs(motion.div, { initial: { opacity: 0, y: -20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "absolute top-0 left-0 right-0 z-50 bg-surface-1 border-b border-border shadow-lg", children: [_jsxs("div", { className: "flex items-center gap-2 p-3", children: [_jsxs("div", { className: "flex-1 relative", children: [_jsx(Search, { className: "absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-muted" }), _jsx("input", { ref: inputRef, type: "text", value: query, onChange: (e) => setQuery(e.target.value), onKeyDown: handleKeyDown, placeholder: "Search in conversation...", className: "w-full h-10 pl-10 pr-4 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary" })] }), query && (_jsx("div", { className: "text-sm text-text-secondary whitespace-nowrap", children: isSearching ? ('Searching...') : results.length === 0 ? ('No results') : (`${currentIndex + 1} of ${results.length}`) })), results.length > 0 && (_jsxs("div", { className: "flex items-center gap-1", children: [_jsx("button", { onClick: () => navigateToResult('prev'), className: "p-2 rounded-lg hover:bg-surface-3 text-text-secondary hover:text-text-primary transition-colors", title: "Previous result (Shift+Enter)", children: _jsx(ChevronUp, { size: 18 }) }), _jsx("button", { onClick: () => navigateToResult('next'), className: "p-2 rounded-lg hover:bg-surface-3 text-text-secondary hover:text-text-primary transition-colors", title: "Next result (Enter)", children: _jsx(ChevronDown, { size: 18 }) })] })), _jsx("button", { onClick: onClose, className: "p-2 rounded-lg hover:bg-surface-3 text-text-secondary hover:text-text-primary transition-colors", title: "Close (Esc)", children: _jsx(X, { size: 18 }) })] }), results.length > 0 && currentIndex >= 0 && (_jsx(motion.div, { initial: { opacity: 0 }, animate: { opacity: 1 }, className: "px-3 pb-3", children: _jsx("div", { className: "p-3 rounded-lg bg-surface-2 border border-border", children: _jsxs("div", { className: "flex items-start gap-2", children: [_jsx(MessageSquare, { size: 16, className: "text-text-muted mt-0.5" }), _jsxs("div", { className: "flex-1 min-w-0", children: [_jsx("p", { className: "text-sm text-text-primary line-clamp-2", children: highlightMatch(results[currentIndex].message.content, query) }), _jsx("p", { className: "text-xs text-text-muted mt-1", children: formatChatTime(results[currentIndex].message.createdAt) })] })] }) }) }))] }) }));
-}
-// Helper function to highlight matching text
-function highlightMatch(text, query) {
-    if (!query)
-        return text;
-    const parts = text.split(new RegExp(`(${escapeRegex(query)})`, 'gi'));
-    return parts.map((part, index) => part.toLowerCase() === query.toLowerCase() ? (_jsx("mark", { className: "bg-primary/30 text-text-primary rounded px-0.5", children: part }, index)) : (part));
+    return (_jsx(AnimatePresence, { children: _jsxs(motion.div, { initial: { opacity: 0, y: -20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "absolute top-0 left-0 right-0 z-50 bg-surface-1 border-b border-border shadow-lg", children: [_jsxs("div", { className: "flex items-center gap-2 p-3", children: [_jsxs("div", { className: "flex-1 relative", children: [_jsx(Search, { className: "absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-muted" }), _jsx("input", { ref: inputRef, type: "text", value: query, onChange: (e) => setQuery(e.target.value), onKeyDown: handleKeyDown, placeholder: "Search in conversation... (from: has:file has:link type: after: before:)", className: "w-full h-10 pl-10 pr-4 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary" })] }), query && (_jsx("div", { className: "text-sm text-text-secondary whitespace-nowrap", children: isSearching ? ('Searching...') : results.length === 0 ? ('No results') : (`${currentIndex + 1} of ${results.length}`) })), results.length > 0 && (_jsxs("div", { className: "flex items-center gap-1", children: [_jsx("button", { onClick: () => navigateToResult('prev'), className: "p-2 rounded-lg hover:bg-surface-3 text-text-secondary hover:text-text-primary transition-colors", title: "Previous result (Shift+Enter)", children: _jsx(ChevronUp, { size: 18 }) }), _jsx("button", { onClick: () => navigateToResult('next'), className: "p-2 rounded-lg hover:bg-surface-3 text-text-secondary hover:text-text-primary transition-colors", title: "Next result (Enter)", children: _jsx(ChevronDown, { size: 18 }) })] })), _jsx("button", { onClick: onClose, className: "p-2 rounded-lg hover:bg-surface-3 text-text-secondary hover:text-text-primary transition-colors", title: "Close (Esc)", children: _jsx(X, { size: 18 }) })] }), results.length > 0 && currentIndex >= 0 && (_jsx(motion.div, { initial: { opacity: 0 }, animate: { opacity: 1 }, className: "px-3 pb-3 max-h-64 overflow-y-auto space-y-1", children: results.map((result, index) => (_jsx("button", { onClick: () => {
+                            setCurrentIndex(index);
+                            onNavigateToMessage(result.message.id);
+                        }, className: cn('w-full text-left p-3 rounded-lg border transition-colors', index === currentIndex
+                            ? 'bg-surface-2 border-primary/50'
+                            : 'bg-surface-1 border-transparent hover:bg-surface-2'), children: _jsxs("div", { className: "flex items-start gap-2", children: [_jsx(MessageSquare, { size: 16, className: "text-text-muted mt-0.5" }), _jsxs("div", { className: "flex-1 min-w-0", children: [_jsx("p", { className: "text-sm text-text-primary line-clamp-2", children: highlightSnippet(result.snippet) }), _jsx("p", { className: "text-xs text-text-muted mt-1", children: formatChatTime(result.message.createdAt) })] })] }) }, result.message.id))) }))] }) }));
 }
-function escapeRegex(string) {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+// Helper function to highlight the matches the search index marked
+function highlightSnippet(snippet) {
+    const parts = snippet.split(new RegExp(`(${SNIPPET_MATCH_START}[^${SNIPPET_MATCH_END}]*${SNIPPET_MATCH_END})`));
+    return parts.map((part, index) => part.startsWith(SNIPPET_MATCH_START) ? (_jsx("mark", { className: "bg-primary/30 text-text-primary rounded px-0.5", children: part.slice(1, -1) }, index)) : (part));
 }
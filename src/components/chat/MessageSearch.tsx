@@ -6,29 +6,33 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Search, X, ChevronUp, ChevronDown, MessageSquare } from 'lucide-react';
 import { cn, formatChatTime } from '../../lib/utils';
-import { db, type Message } from '../../services/database';
+import {
+  db,
+  parseSearchQuery,
+  SNIPPET_MATCH_START,
+  SNIPPET_MATCH_END,
+  type MessageSearchResult,
+} from '../../services/database';
+import { identityService } from '../../services/identity';
+import type { Participant } from '../../stores';
 
 interface MessageSearchProps {
   conversationId: string;
+  participants: Participant[];
   isOpen: boolean;
   onClose: () => void;
   onNavigateToMessage: (messageId: string) => void;
 }
 
-interface SearchResult {
-  message: Message;
-  matchIndex: number;
-  totalMatches: number;
-}
-
 export function MessageSearch({ 
   conversationId, 
+  participants,
   isOpen, 
   onClose, 
   onNavigateToMessage 
 }: MessageSearchProps) {
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isSearching, setIsSearching] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -55,21 +59,16 @@ export function MessageSearch({
 
     setIsSearching(true);
 
-    // Get all messages for the conversation
-    const messages = db.getMessages(conversationId, 1000);
-    const normalizedQuery = searchQuery.toLowerCase();
-
-    const matchingMessages = messages.filter(msg =>
-      msg.content.toLowerCase().includes(normalizedQuery) &&
-      msg.type === 'text' &&
-      !msg.isDeleted
-    );
+    // from: takes "me", a participant's name or an ID
+    const parsed = parseSearchQuery(searchQuery);
+    if (parsed.senderId) {
+      const sender = parsed.senderId.toLowerCase();
+      parsed.senderId = sender === 'me'
+        ? identityService.getIdentity()?.id
+        : participants.find(p => p.displayName.toLowerCase() === sender)?.id ?? parsed.senderId;
+    }
 
-    const searchResults: SearchResult[] = matchingMessages.map((message, index) => ({
-      message,
-      matchIndex: index + 1,
-      totalMatches: matchingMessages.length,
-    }));
+    const searchResults = db.searchMessages({ ...parsed, conversationId });
 
     setResults(searchResults);
     setCurrentIndex(searchResults.length > 0 ? 0 : -1);
@@ -79,7 +78,7 @@ export function MessageSearch({
     if (searchResults.length > 0) {
       onNavigateToMessage(searchResults[0].message.id);
     }
-  }, [conversationId, onNavigateToMessage]);
+  }, [conversationId, participants, onNavigateToMessage]);
 
   // Handle query change with debounce
   useEffect(() => {
@@ -144,7 +143,7 @@ export function MessageSearch({
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Search in conversation..."
+              placeholder="Search in conversation... (from: has:file has:link type: after: before:)"
               className="w-full h-10 pl-10 pr-4 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
             />
           </div>
@@ -192,26 +191,40 @@ export function MessageSearch({
           </button>
         </div>
 
-        {/* Results preview (optional) */}
+        {/* Ranked results */}
         {results.length > 0 && currentIndex >= 0 && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
-            className="px-3 pb-3"
+            className="px-3 pb-3 max-h-64 overflow-y-auto space-y-1"
           >
-            <div className="p-3 rounded-lg bg-surface-2 border border-border">
-              <div className="flex items-start gap-2">
-                <MessageSquare size={16} className="text-text-muted mt-0.5" />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm text-text-primary line-clamp-2">
-                    {highlightMatch(results[currentIndex].message.content, query)}
-                  </p>
-                  <p className="text-xs text-text-muted mt-1">
-                    {formatChatTime(results[currentIndex].message.createdAt)}
-                  </p>
+            {results.map((result, index) => (
+              <button
+                key={result.message.id}
+                onClick={() => {
+                  setCurrentIndex(index);
+                  onNavigateToMessage(result.message.id);
+                }}
+                className={cn(
+                  'w-full text-left p-3 rounded-lg border transition-colors',
+                  index === currentIndex
+                    ? 'bg-surface-2 border-primary/50'
+                    : 'bg-surface-1 border-transparent hover:bg-surface-2'
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  <MessageSquare size={16} className="text-text-muted mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-text-primary line-clamp-2">
+                      {highlightSnippet(result.snippet)}
+                    </p>
+                    <p className="text-xs text-text-muted mt-1">
+                      {formatChatTime(result.message.createdAt)}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            </div>
+              </button>
+            ))}
           </motion.div>
         )}
       </motion.div>
@@ -219,23 +232,17 @@ export function MessageSearch({
   );
 }
 
-// Helper function to highlight matching text
-function highlightMatch(text: string, query: string): React.ReactNode {
-  if (!query) return text;
-
-  const parts = text.split(new RegExp(`(${escapeRegex(query)})`, 'gi'));
+// Helper function to highlight the matches the search index marked
+function highlightSnippet(snippet: string): React.ReactNode {
+  const parts = snippet.split(new RegExp(`(${SNIPPET_MATCH_START}[^${SNIPPET_MATCH_END}]*${SNIPPET_MATCH_END})`));
 
   return parts.map((part, index) =>
-    part.toLowerCase() === query.toLowerCase() ? (
+    part.startsWith(SNIPPET_MATCH_START) ? (
       <mark key={index} className="bg-primary/30 text-text-primary rounded px-0.5">
-        {part}
+        {part.slice(1, -1)}
       </mark>
     ) : (
       part
     )
   );
 }
-
-function escapeRegex(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
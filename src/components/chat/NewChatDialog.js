@@ -8,33 +8,28 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, MessageSquarePlus, Copy, Check, UserPlus, Hash, } from 'lucide-react';
 import { cn, copyToClipboard } from '../../lib/utils';
 import { useChatStore } from '../../stores';
+import { messagingService } from '../../services/messaging';
 export function NewChatDialog({ isOpen, onClose }) {
     const [tab, setTab] = useState('join');
     const [roomId, setRoomId] = useState('');
     const [groupName, setGroupName] = useState('');
     const [contactId, setContactId] = useState('');
     const [copied, setCopied] = useState(false);
-    const { createConversation } = useChatStore();
+    const { setActiveConversation } = useChatStore();
     const generatedRoomId = React.useMemo(() => {
         return `vortex-${Math.random().toString(36).substring(2, 8)}-${Math.random().toString(36).substring(2, 8)}`;
     }, []);
     const handleJoinRoom = () => {
         if (!roomId.trim())
             return;
-        createConversation({
-            type: 'group',
-            name: `Room: ${roomId.trim()}`,
-            participants: [{ id: 'self', displayName: 'You', role: 'admin', publicKey: '', joinedAt: Date.now() }],
-        });
+        const conversation = messagingService.createGroupConversation(`Room: ${roomId.trim()}`, []);
+        setActiveConversation(conversation.id);
         onClose();
     };
     const handleCreateRoom = () => {
         const roomName = groupName || `Room ${generatedRoomId}`;
-        createConversation({
-            type: 'group',
-            name: roomName,
-            participants: [{ id: 'self', displayName: 'You', role: 'admin', publicKey: '', joinedAt: Date.now() }],
-        });
+        const conversation = messagingService.createGroupConversation(roomName, []);
+        setActiveConversation(conversation.id);
         onClose();
     };
     const handleCopyRoomId = async () => {
@@ -45,10 +40,8 @@ export function NewChatDialog({ isOpen, onClose }) {
     const handleAddContact = () => {
         if (!contactId.trim())
             return;
-        createConversation({
-            type: 'direct',
-            participants: [{ id: contactId.trim(), displayName: contactId.trim(), role: 'member', publicKey: '', joinedAt: Date.now() }],
-        });
+        const conversation = messagingService.createDirectConversation(contactId.trim(), contactId.trim());
+        setActiveConversation(conversation.id);
         onClose();
     };
     if (!isOpen)
@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { cn, copyToClipboard } from '../../lib/utils';
 import { useChatStore } from '../../stores';
+import { messagingService } from '../../services/messaging';
 
 interface NewChatDialogProps {
   isOpen: boolean;
@@ -30,7 +31,7 @@ export function NewChatDialog({ isOpen, onClose }: NewChatDialogProps) {
   const [groupName, setGroupName] = useState('');
   const [contactId, setContactId] = useState('');
   const [copied, setCopied] = useState(false);
-  const { createConversation } = useChatStore();
+  const { setActiveConversation } = useChatStore();
 
   const generatedRoomId = React.useMemo(() => {
     return `vortex-${Math.random().toString(36).substring(2, 8)}-${Math.random().toString(36).substring(2, 8)}`;
@@ -39,21 +40,15 @@ export function NewChatDialog({ isOpen, onClose }: NewChatDialogProps) {
   const handleJoinRoom = () => {
     if (!roomId.trim()) return;
     
-    createConversation({
-      type: 'group',
-      name: `Room: ${roomId.trim()}`,
-      participants: [{ id: 'self', displayName: 'You', role: 'admin', publicKey: '', joinedAt: Date.now() }],
-    });
+    const conversation = messagingService.createGroupConversation(`Room: ${roomId.trim()}`, []);
+    setActiveConversation(conversation.id);
     onClose();
   };
 
   const handleCreateRoom = () => {
     const roomName = groupName || `Room ${generatedRoomId}`;
-    createConversation({
-      type: 'group',
-      name: roomName,
-      participants: [{ id: 'self', displayName: 'You', role: 'admin', publicKey: '', joinedAt: Date.now() }],
-    });
+    const conversation = messagingService.createGroupConversation(roomName, []);
+    setActiveConversation(conversation.id);
     onClose();
   };
 
@@ -66,10 +61,8 @@ export function NewChatDialog({ isOpen, onClose }: NewChatDialogProps) {
   const handleAddContact = () => {
     if (!contactId.trim()) return;
     
-    createConversation({
-      type: 'direct',
-      participants: [{ id: contactId.trim(), displayName: contactId.trim(), role: 'member', publicKey: '', joinedAt: Date.now() }],
-    });
+    const conversation = messagingService.createDirectConversation(contactId.trim(), contactId.trim());
+    setActiveConversation(conversation.id);
     onClose();
   };
 
@@ -15,6 +15,7 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }) {
     const [mode, setMode] = useState('add');
     const [peerId, setPeerId] = useState('');
     const [displayName, setDisplayName] = useState('');
+    const [safetyCode, setSafetyCode] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isOnline, setIsOnline] = useState(null);
     const [copied, setCopied] = useState(false);
@@ -55,11 +56,27 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }) {
         }
         setIsLoading(true);
         try {
+            // The identity key comes from the contact's first message or their
+            // safety number code, never from the server
             const contact = await contactService.addContact({
-                identityKey: peerId.trim(),
+                peerId: peerId.trim(),
                 displayName: displayName.trim() || 'Unknown',
             });
             toast.success(`${contact.displayName} added to contacts`);
+            // A code scanned from the contact's screen verifies them right away
+            if (safetyCode.trim()) {
+                try {
+                    if (await contactService.verifyScannedCode(contact.id, safetyCode.trim())) {
+                        toast.success('Safety numbers match. Contact verified.');
+                    }
+                    else {
+                        toast.error('Safety numbers do not match. Contact not verified.');
+                    }
+                }
+                catch (error) {
+                    toast.error(error.message || 'Invalid safety number code');
+                }
+            }
             // Try to connect to the peer
             if (connectionManager.getStatus() === 'connected') {
                 connectionManager.connectToPeer(peerId.trim()).catch(console.error);
@@ -88,6 +105,7 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }) {
     const handleClose = () => {
         setPeerId('');
         setDisplayName('');
+        setSafetyCode('');
         setIsOnline(null);
         setMode('add');
         onClose();
@@ -101,7 +119,7 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }) {
                                         : 'text-text-secondary hover:text-text-primary'), children: [_jsx(QrCode, { size: 16, className: "inline mr-2" }), "My Info"] })] }), _jsx("div", { className: "p-4", children: mode === 'add' ? (_jsxs("div", { className: "space-y-4", children: [_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Peer ID" }), _jsxs("div", { className: "flex gap-2", children: [_jsx("input", { type: "text", value: peerId, onChange: (e) => {
                                                             setPeerId(e.target.value);
                                                             setIsOnline(null);
-                                                        }, placeholder: "Enter contact's Peer ID", className: "flex-1 px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 font-mono text-sm" }), _jsx("button", { onClick: handleCheckOnline, disabled: isLoading || !peerId.trim(), className: "px-3 py-2 rounded-lg bg-surface-3 hover:bg-surface-4 text-text-secondary hover:text-text-primary disabled:opacity-50 transition-colors", title: "Check if online", children: isLoading ? _jsx(Loader2, { size: 18, className: "animate-spin" }) : _jsx(Search, { size: 18 }) })] }), isOnline !== null && (_jsx("p", { className: cn('mt-1 text-xs', isOnline ? 'text-success' : 'text-text-muted'), children: isOnline ? '● User is online' : '○ User is offline' }))] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Display Name (optional)" }), _jsx("input", { type: "text", value: displayName, onChange: (e) => setDisplayName(e.target.value), placeholder: "Enter a name for this contact", className: "w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50" })] }), _jsx("button", { onClick: handleAddContact, disabled: isLoading || !peerId.trim(), className: "w-full py-3 rounded-lg bg-primary hover:bg-primary-hover text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2", children: isLoading ? (_jsxs(_Fragment, { children: [_jsx(Loader2, { size: 18, className: "animate-spin" }), "Adding..."] })) : (_jsxs(_Fragment, { children: [_jsx(UserPlus, { size: 18 }), "Add Contact"] })) })] })) : (_jsxs("div", { className: "space-y-4", children: [_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Your Peer ID" }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("div", { className: "flex-1 px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary font-mono text-xs break-all", children: myPeerId }), _jsx("button", { onClick: handleCopyMyId, className: "p-2 rounded-lg bg-surface-3 hover:bg-surface-4 text-text-secondary hover:text-text-primary transition-colors", title: "Copy Peer ID", children: copied ? _jsx(Check, { size: 18, className: "text-success" }) : _jsx(Copy, { size: 18 }) })] }), _jsx("p", { className: "mt-1 text-xs text-text-muted", children: "Share this ID with others so they can add you as a contact" })] }), myFingerprint && (_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Safety Number" }), _jsx("div", { className: "p-3 rounded-lg bg-surface-2 border border-border text-center font-mono text-sm text-text-primary tracking-wider", children: myFingerprint }), _jsx("p", { className: "mt-1 text-xs text-text-muted", children: "Compare this with your contact to verify identity" })] })), _jsx("div", { className: "pt-4 border-t border-border", children: _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("div", { className: cn('w-2 h-2 rounded-full', connectionManager.getStatus() === 'connected' ? 'bg-success' : 'bg-danger') }), _jsx("span", { className: "text-sm text-text-secondary", children: connectionManager.getStatus() === 'connected'
+                                                        }, placeholder: "Enter contact's Peer ID", className: "flex-1 px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 font-mono text-sm" }), _jsx("button", { onClick: handleCheckOnline, disabled: isLoading || !peerId.trim(), className: "px-3 py-2 rounded-lg bg-surface-3 hover:bg-surface-4 text-text-secondary hover:text-text-primary disabled:opacity-50 transition-colors", title: "Check if online", children: isLoading ? _jsx(Loader2, { size: 18, className: "animate-spin" }) : _jsx(Search, { size: 18 }) })] }), isOnline !== null && (_jsx("p", { className: cn('mt-1 text-xs', isOnline ? 'text-success' : 'text-text-muted'), children: isOnline ? '● User is online' : '○ User is offline' }))] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Display Name (optional)" }), _jsx("input", { type: "text", value: displayName, onChange: (e) => setDisplayName(e.target.value), placeholder: "Enter a name for this contact", className: "w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50" })] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Safety Number Code (optional)" }), _jsx("input", { type: "text", value: safetyCode, onChange: (e) => setSafetyCode(e.target.value), placeholder: "Scanned from your contact's screen", className: "w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 font-mono text-xs" }), _jsx("p", { className: "mt-1 text-xs text-text-muted", children: "Without it the contact stays unverified and their key is taken from their first message" })] }), _jsx("button", { onClick: handleAddContact, disabled: isLoading || !peerId.trim(), className: "w-full py-3 rounded-lg bg-primary hover:bg-primary-hover text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2", children: isLoading ? (_jsxs(_Fragment, { children: [_jsx(Loader2, { size: 18, className: "animate-spin" }), "Adding..."] })) : (_jsxs(_Fragment, { children: [_jsx(UserPlus, { size: 18 }), "Add Contact"] })) })] })) : (_jsxs("div", { className: "space-y-4", children: [_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Your Peer ID" }), _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("div", { className: "flex-1 px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary font-mono text-xs break-all", children: myPeerId }), _jsx("button", { onClick: handleCopyMyId, className: "p-2 rounded-lg bg-surface-3 hover:bg-surface-4 text-text-secondary hover:text-text-primary transition-colors", title: "Copy Peer ID", children: copied ? _jsx(Check, { size: 18, className: "text-success" }) : _jsx(Copy, { size: 18 }) })] }), _jsx("p", { className: "mt-1 text-xs text-text-muted", children: "Share this ID with others so they can add you as a contact" })] }), myFingerprint && (_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Safety Number" }), _jsx("div", { className: "p-3 rounded-lg bg-surface-2 border border-border text-center font-mono text-sm text-text-primary tracking-wider", children: myFingerprint }), _jsx("p", { className: "mt-1 text-xs text-text-muted", children: "Compare this with your contact to verify identity" })] })), _jsx("div", { className: "pt-4 border-t border-border", children: _jsxs("div", { className: "flex items-center gap-2", children: [_jsx("div", { className: cn('w-2 h-2 rounded-full', connectionManager.getStatus() === 'connected' ? 'bg-success' : 'bg-danger') }), _jsx("span", { className: "text-sm text-text-secondary", children: connectionManager.getStatus() === 'connected'
                                                         ? 'Connected to signaling server'
                                                         : 'Disconnected from signaling server' })] }) })] })) })] })] }) }));
 }
@@ -22,6 +22,7 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }: AddContactM
   const [mode, setMode] = useState<'add' | 'share'>('add');
   const [peerId, setPeerId] = useState('');
   const [displayName, setDisplayName] = useState('');
+  const [safetyCode, setSafetyCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isOnline, setIsOnline] = useState<boolean | null>(null);
   const [copied, setCopied] = useState(false);
@@ -65,12 +66,27 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }: AddContactM
 
     setIsLoading(true);
     try {
+      // The identity key comes from the contact's first message or their
+      // safety number code, never from the server
       const contact = await contactService.addContact({
-        identityKey: peerId.trim(),
+        peerId: peerId.trim(),
         displayName: displayName.trim() || 'Unknown',
       });
 
       toast.success(`${contact.displayName} added to contacts`);
+
+      // A code scanned from the contact's screen verifies them right away
+      if (safetyCode.trim()) {
+        try {
+          if (await contactService.verifyScannedCode(contact.id, safetyCode.trim())) {
+            toast.success('Safety numbers match. Contact verified.');
+          } else {
+            toast.error('Safety numbers do not match. Contact not verified.');
+          }
+        } catch (error: any) {
+          toast.error(error.message || 'Invalid safety number code');
+        }
+      }
       
       // Try to connect to the peer
       if (connectionManager.getStatus() === 'connected') {
@@ -100,6 +116,7 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }: AddContactM
   const handleClose = () => {
     setPeerId('');
     setDisplayName('');
+    setSafetyCode('');
     setIsOnline(null);
     setMode('add');
     onClose();
@@ -218,6 +235,23 @@ export function AddContactModal({ isOpen, onClose, onContactAdded }: AddContactM
                   />
                 </div>
 
+                {/* Safety Number Code */}
+                <div>
+                  <label className="block text-sm font-medium text-text-primary mb-2">
+                    Safety Number Code (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={safetyCode}
+                    onChange={(e) => setSafetyCode(e.target.value)}
+                    placeholder="Scanned from your contact's screen"
+                    className="w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 font-mono text-xs"
+                  />
+                  <p className="mt-1 text-xs text-text-muted">
+                    Without it the contact stays unverified and their key is taken from their first message
+                  </p>
+                </div>
+
                 {/* Add Button */}
                 <button
                   onClick={handleAddContact}
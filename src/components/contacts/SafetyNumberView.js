@@ -0,0 +1,62 @@
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+/**
+ * VORTEX Protocol - Safety Number View
+ * Shows the safety number with a contact and verifies a scanned code
+ */
+import { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { contactService } from '../../services/contacts';
+import toast from 'react-hot-toast';
+export function SafetyNumberView({ contactId }) {
+    const [verification, setVerification] = useState(null);
+    const [scanned, setScanned] = useState('');
+    const [isChecking, setIsChecking] = useState(false);
+    const [keyKnown, setKeyKnown] = useState(true);
+    useEffect(() => {
+        let cancelled = false;
+        setVerification(null);
+        const contact = contactService.getContact(contactId);
+        setKeyKnown(!!contact && contactService.hasIdentityKey(contact));
+        if (contact && !contactService.hasIdentityKey(contact))
+            return;
+        contactService.verifySafetyNumber(contactId)
+            .then((result) => !cancelled && setVerification(result))
+            .catch((error) => console.error('[SafetyNumber] Could not compute:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [contactId]);
+    const handleVerify = async () => {
+        if (!scanned.trim())
+            return;
+        setIsChecking(true);
+        try {
+            if (await contactService.verifyScannedCode(contactId, scanned.trim())) {
+                toast.success('Safety numbers match. Contact verified.');
+                setKeyKnown(true);
+                setVerification(await contactService.verifySafetyNumber(contactId));
+                setScanned('');
+            }
+            else {
+                toast.error('Safety numbers do not match');
+            }
+        }
+        catch (error) {
+            toast.error(error.message || 'Invalid safety number code');
+        }
+        finally {
+            setIsChecking(false);
+        }
+    };
+    const scanInput = (_jsxs("div", { className: "flex gap-2", children: [_jsx("input", { type: "text", value: scanned, onChange: (e) => setScanned(e.target.value), placeholder: "Scanned safety number code", className: "flex-1 px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 font-mono text-xs" }), _jsx("button", { onClick: handleVerify, disabled: isChecking || !scanned.trim(), className: "px-3 py-2 rounded-lg bg-primary hover:bg-primary-hover text-white text-sm font-medium disabled:opacity-50 transition-colors", children: isChecking ? _jsx(Loader2, { size: 16, className: "animate-spin" }) : 'Verify' })] }));
+    // Added by peer ID: no key to compare yet
+    if (!keyKnown) {
+        return (_jsxs("div", { className: "space-y-4", children: [_jsxs("div", { className: "flex items-center gap-2 text-sm text-text-secondary", children: [_jsx(ShieldAlert, { size: 16 }), _jsx("span", { children: "Identity key not known yet" })] }), _jsx("p", { className: "text-xs text-text-muted", children: "It arrives with your contact's first message. To verify them now, scan the code on their screen." }), scanInput] }));
+    }
+    if (!verification) {
+        return (_jsx("div", { className: "flex justify-center py-6", children: _jsx(Loader2, { size: 20, className: "animate-spin text-text-muted" }) }));
+    }
+    return (_jsxs("div", { className: "space-y-4", children: [_jsxs("div", { className: cn('flex items-center gap-2 text-sm', verification.verified ? 'text-success' : 'text-text-secondary'), children: [verification.verified ? _jsx(ShieldCheck, { size: 16 }) : _jsx(ShieldAlert, { size: 16 }), _jsx("span", { children: verification.verified ? 'Verified' : 'Not verified' })] }), _jsx("div", { className: "grid grid-cols-4 gap-2 p-3 rounded-lg bg-surface-2 border border-border font-mono text-sm text-text-primary text-center", children: verification.safetyNumber.split(' ').map((group, index) => (_jsx("span", { children: group }, index))) }), _jsx("div", { className: "flex justify-center p-3 rounded-lg bg-white", children: _jsx(QRCodeSVG, { value: verification.qrPayload, size: 160 }) }), _jsx("p", { className: "text-xs text-text-muted text-center", children: "Compare the numbers with your contact, or scan each other's code" }), scanInput] }));
+}
@@ -0,0 +1,130 @@
+/**
+ * VORTEX Protocol - Safety Number View
+ * Shows the safety number with a contact and verifies a scanned code
+ */
+
+import React, { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { contactService, type ContactVerification } from '../../services/contacts';
+import toast from 'react-hot-toast';
+
+interface SafetyNumberViewProps {
+  contactId: string;
+}
+
+export function SafetyNumberView({ contactId }: SafetyNumberViewProps) {
+  const [verification, setVerification] = useState<ContactVerification | null>(null);
+  const [scanned, setScanned] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [keyKnown, setKeyKnown] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVerification(null);
+
+    const contact = contactService.getContact(contactId);
+    setKeyKnown(!!contact && contactService.hasIdentityKey(contact));
+    if (contact && !contactService.hasIdentityKey(contact)) return;
+
+    contactService.verifySafetyNumber(contactId)
+      .then((result) => !cancelled && setVerification(result))
+      .catch((error) => console.error('[SafetyNumber] Could not compute:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contactId]);
+
+  const handleVerify = async () => {
+    if (!scanned.trim()) return;
+
+    setIsChecking(true);
+    try {
+      if (await contactService.verifyScannedCode(contactId, scanned.trim())) {
+        toast.success('Safety numbers match. Contact verified.');
+        setKeyKnown(true);
+        setVerification(await contactService.verifySafetyNumber(contactId));
+        setScanned('');
+      } else {
+        toast.error('Safety numbers do not match');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Invalid safety number code');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const scanInput = (
+    <div className="flex gap-2">
+      <input
+        type="text"
+        value={scanned}
+        onChange={(e) => setScanned(e.target.value)}
+        placeholder="Scanned safety number code"
+        className="flex-1 px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 font-mono text-xs"
+      />
+      <button
+        onClick={handleVerify}
+        disabled={isChecking || !scanned.trim()}
+        className="px-3 py-2 rounded-lg bg-primary hover:bg-primary-hover text-white text-sm font-medium disabled:opacity-50 transition-colors"
+      >
+        {isChecking ? <Loader2 size={16} className="animate-spin" /> : 'Verify'}
+      </button>
+    </div>
+  );
+
+  // Added by peer ID: no key to compare yet
+  if (!keyKnown) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-sm text-text-secondary">
+          <ShieldAlert size={16} />
+          <span>Identity key not known yet</span>
+        </div>
+        <p className="text-xs text-text-muted">
+          It arrives with your contact's first message. To verify them now, scan the code on their screen.
+        </p>
+        {scanInput}
+      </div>
+    );
+  }
+
+  if (!verification) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 size={20} className="animate-spin text-text-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className={cn(
+        'flex items-center gap-2 text-sm',
+        verification.verified ? 'text-success' : 'text-text-secondary'
+      )}>
+        {verification.verified ? <ShieldCheck size={16} /> : <ShieldAlert size={16} />}
+        <span>{verification.verified ? 'Verified' : 'Not verified'}</span>
+      </div>
+
+      {/* 60 digits in 12 groups */}
+      <div className="grid grid-cols-4 gap-2 p-3 rounded-lg bg-surface-2 border border-border font-mono text-sm text-text-primary text-center">
+        {verification.safetyNumber.split(' ').map((group, index) => (
+          <span key={index}>{group}</span>
+        ))}
+      </div>
+
+      <div className="flex justify-center p-3 rounded-lg bg-white">
+        <QRCodeSVG value={verification.qrPayload} size={160} />
+      </div>
+      <p className="text-xs text-text-muted text-center">
+        Compare the numbers with your contact, or scan each other's code
+      </p>
+
+      {scanInput}
+    </div>
+  );
+}
@@ -2,3 +2,4 @@
  * VORTEX Protocol - Contacts Components
  */
 export { AddContactModal } from './AddContactModal';
+export { SafetyNumberView } from './SafetyNumberView';
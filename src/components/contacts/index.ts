@@ -3,3 +3,4 @@
  */
 
 export { AddContactModal } from './AddContactModal';
+export { SafetyNumberView } from './SafetyNumberView';
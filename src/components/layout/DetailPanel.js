@@ -3,10 +3,13 @@ import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
  * VORTEX Protocol - Detail Panel Component
  * Shows conversation/contact details, media, and settings
  */
-import { useState } from 'react';
-import { X, Bell, Image, File, Link, Shield, Lock, Key, Trash2, Flag, Archive, Pin, Search, ChevronRight, UserPlus, } from 'lucide-react';
+import { useState, useMemo } from 'react';
+import { X, Bell, Image, File, Link, Shield, ShieldCheck, Lock, Key, Trash2, Flag, Archive, Pin, Search, ChevronRight, UserPlus, Download, } from 'lucide-react';
 import { cn, getInitials, stringToColor } from '../../lib/utils';
 import { useChatStore } from '../../stores';
+import { SafetyNumberView } from '../contacts';
+import { ExportChatDialog } from '../chat/ExportChatDialog';
+import { contactService } from '../../services/contacts';
 export function DetailPanel({ onClose }) {
     const [activeTab, setActiveTab] = useState('overview');
     const { activeConversation } = useChatStore();
@@ -23,10 +26,19 @@ function QuickAction({ icon: Icon, label }) {
     return (_jsxs("button", { className: "flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-surface-3 transition-colors", children: [_jsx("div", { className: "w-10 h-10 rounded-full bg-surface-3 flex items-center justify-center", children: _jsx(Icon, { size: 18, className: "text-text-secondary" }) }), _jsx("span", { className: "text-xs text-text-secondary", children: label })] }));
 }
 function OverviewTab({ conversation }) {
-    return (_jsxs("div", { className: "py-2", children: [_jsx("div", { className: "px-4 py-3", children: _jsxs("div", { className: "flex items-center gap-3 p-3 rounded-lg bg-success/10 border border-success/20", children: [_jsx(Shield, { className: "w-5 h-5 text-success shrink-0" }), _jsxs("div", { children: [_jsx("p", { className: "text-sm font-medium text-text-primary", children: "End-to-End Encrypted" }), _jsx("p", { className: "text-xs text-text-secondary mt-0.5", children: "Messages are secured with Double Ratchet protocol" })] })] }) }), _jsxs("div", { className: "px-2", children: [_jsx(OptionItem, { icon: Key, label: "Verify safety number" }), _jsx(OptionItem, { icon: Bell, label: "Notifications", value: "On" }), _jsx(OptionItem, { icon: Lock, label: "Disappearing messages", value: "Off" }), _jsx(OptionItem, { icon: Archive, label: "Archive chat" }), _jsx("div", { className: "my-2 border-t border-border" }), _jsx(OptionItem, { icon: Flag, label: "Report", danger: true }), _jsx(OptionItem, { icon: Trash2, label: "Delete chat", danger: true })] }), conversation.type === 'group' && (_jsx("div", { className: "mt-4 px-4", children: _jsxs("div", { className: "flex items-center justify-between mb-2", children: [_jsxs("h4", { className: "text-sm font-medium text-text-primary", children: ["Participants (", conversation.participants.length, ")"] }), _jsx("button", { className: "p-1 hover:bg-surface-3 rounded transition-colors", children: _jsx(UserPlus, { size: 16, className: "text-text-secondary" }) })] }) }))] }));
+    const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+    const [showExport, setShowExport] = useState(false);
+    const peerId = conversation.type === 'direct' ? conversation.participants[0]?.id : undefined;
+    // Post-quantum only once every device session started with ML-KEM
+    const sessions = useMemo(() => (peerId ? contactService.getSessionInfo(peerId) : []), [peerId]);
+    const postQuantum = sessions.length > 0 && sessions.every(session => session.postQuantum);
+    const EncryptionIcon = postQuantum ? ShieldCheck : Shield;
+    return (_jsxs("div", { className: "py-2", children: [_jsx("div", { className: "px-4 py-3", children: _jsxs("div", { className: "flex items-center gap-3 p-3 rounded-lg bg-success/10 border border-success/20", children: [_jsx(EncryptionIcon, { className: "w-5 h-5 text-success shrink-0" }), _jsxs("div", { children: [_jsx("p", { className: "text-sm font-medium text-text-primary", children: "End-to-End Encrypted" }), _jsx("p", { className: "text-xs text-text-secondary mt-0.5", children: postQuantum
+                                        ? 'Post-quantum protected: Double Ratchet with hybrid ML-KEM key agreement'
+                                        : 'Messages are secured with Double Ratchet protocol' })] })] }) }), _jsxs("div", { className: "px-2", children: [peerId && (_jsx(OptionItem, { icon: Key, label: "Verify safety number", onClick: () => setShowSafetyNumber(!showSafetyNumber) })), peerId && showSafetyNumber && (_jsx("div", { className: "px-3 py-3", children: _jsx(SafetyNumberView, { contactId: peerId }) })), _jsx(OptionItem, { icon: Bell, label: "Notifications", value: "On" }), _jsx(OptionItem, { icon: Lock, label: "Disappearing messages", value: "Off" }), _jsx(OptionItem, { icon: Archive, label: "Archive chat" }), _jsx(OptionItem, { icon: Download, label: "Export chat", onClick: () => setShowExport(true) }), _jsx("div", { className: "my-2 border-t border-border" }), _jsx(OptionItem, { icon: Flag, label: "Report", danger: true }), _jsx(OptionItem, { icon: Trash2, label: "Delete chat", danger: true })] }), conversation.type === 'group' && (_jsx("div", { className: "mt-4 px-4", children: _jsxs("div", { className: "flex items-center justify-between mb-2", children: [_jsxs("h4", { className: "text-sm font-medium text-text-primary", children: ["Participants (", conversation.participants.length, ")"] }), _jsx("button", { className: "p-1 hover:bg-surface-3 rounded transition-colors", children: _jsx(UserPlus, { size: 16, className: "text-text-secondary" }) })] }) })), _jsx(ExportChatDialog, { isOpen: showExport, conversationId: conversation.id, onClose: () => setShowExport(false) })] }));
 }
-function OptionItem({ icon: Icon, label, value, danger, }) {
-    return (_jsxs("button", { className: cn('w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors', danger
+function OptionItem({ icon: Icon, label, value, danger, onClick, }) {
+    return (_jsxs("button", { onClick: onClick, className: cn('w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors', danger
             ? 'hover:bg-danger/10 text-danger'
             : 'hover:bg-surface-3 text-text-primary'), children: [_jsx(Icon, { size: 18, className: danger ? 'text-danger' : 'text-text-secondary' }), _jsx("span", { className: "flex-1 text-sm text-left", children: label }), value && _jsx("span", { className: "text-sm text-text-muted", children: value }), _jsx(ChevronRight, { size: 16, className: "text-text-muted" })] }));
 }
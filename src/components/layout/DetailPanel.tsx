@@ -3,7 +3,7 @@
  * Shows conversation/contact details, media, and settings
  */
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import {
   X,
@@ -14,6 +14,7 @@ import {
   Link,
   Users,
   Shield,
+  ShieldCheck,
   Lock,
   Key,
   Trash2,
@@ -26,9 +27,13 @@ import {
   QrCode,
   UserPlus,
   Settings,
+  Download,
 } from 'lucide-react';
 import { cn, getInitials, stringToColor, copyToClipboard } from '../../lib/utils';
 import { useChatStore } from '../../stores';
+import { SafetyNumberView } from '../contacts';
+import { ExportChatDialog } from '../chat/ExportChatDialog';
+import { contactService } from '../../services/contacts';
 
 interface DetailPanelProps {
   onClose: () => void;
@@ -123,16 +128,27 @@ function QuickAction({ icon: Icon, label }: { icon: React.ElementType; label: st
 }
 
 function OverviewTab({ conversation }: { conversation: any }) {
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const peerId: string | undefined = conversation.type === 'direct' ? conversation.participants[0]?.id : undefined;
+
+  // Post-quantum only once every device session started with ML-KEM
+  const sessions = useMemo(() => (peerId ? contactService.getSessionInfo(peerId) : []), [peerId]);
+  const postQuantum = sessions.length > 0 && sessions.every(session => session.postQuantum);
+  const EncryptionIcon = postQuantum ? ShieldCheck : Shield;
+
   return (
     <div className="py-2">
       {/* Encryption Info */}
       <div className="px-4 py-3">
         <div className="flex items-center gap-3 p-3 rounded-lg bg-success/10 border border-success/20">
-          <Shield className="w-5 h-5 text-success shrink-0" />
+          <EncryptionIcon className="w-5 h-5 text-success shrink-0" />
           <div>
             <p className="text-sm font-medium text-text-primary">End-to-End Encrypted</p>
             <p className="text-xs text-text-secondary mt-0.5">
-              Messages are secured with Double Ratchet protocol
+              {postQuantum
+                ? 'Post-quantum protected: Double Ratchet with hybrid ML-KEM key agreement'
+                : 'Messages are secured with Double Ratchet protocol'}
             </p>
           </div>
         </div>
@@ -140,10 +156,22 @@ function OverviewTab({ conversation }: { conversation: any }) {
 
       {/* Options */}
       <div className="px-2">
-        <OptionItem icon={Key} label="Verify safety number" />
+        {peerId && (
+          <OptionItem
+            icon={Key}
+            label="Verify safety number"
+            onClick={() => setShowSafetyNumber(!showSafetyNumber)}
+          />
+        )}
+        {peerId && showSafetyNumber && (
+          <div className="px-3 py-3">
+            <SafetyNumberView contactId={peerId} />
+          </div>
+        )}
         <OptionItem icon={Bell} label="Notifications" value="On" />
         <OptionItem icon={Lock} label="Disappearing messages" value="Off" />
         <OptionItem icon={Archive} label="Archive chat" />
+        <OptionItem icon={Download} label="Export chat" onClick={() => setShowExport(true)} />
         
         <div className="my-2 border-t border-border" />
         
@@ -165,6 +193,12 @@ function OverviewTab({ conversation }: { conversation: any }) {
           {/* Participant list would go here */}
         </div>
       )}
+
+      <ExportChatDialog
+        isOpen={showExport}
+        conversationId={conversation.id}
+        onClose={() => setShowExport(false)}
+      />
     </div>
   );
 }
@@ -174,14 +208,17 @@ function OptionItem({
   label,
   value,
   danger,
+  onClick,
 }: {
   icon: React.ElementType;
   label: string;
   value?: string;
   danger?: boolean;
+  onClick?: () => void;
 }) {
   return (
     <button
+      onClick={onClick}
       className={cn(
         'w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors',
         danger
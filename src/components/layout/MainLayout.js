@@ -15,6 +15,7 @@ import { SettingsPanel } from '../settings/SettingsPanel';
 import { ConnectionStatus } from './ConnectionStatus';
 import { useSettingsStore, useChatStore } from '../../stores';
 import { useServiceSync } from '../../hooks/useServiceSync';
+import { useBackupSchedule } from '../../hooks/useBackupSchedule';
 export function MainLayout() {
     const [activeView, setActiveView] = useState('chats');
     const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -23,6 +24,7 @@ export function MainLayout() {
     const unreadTotal = useChatStore((state) => state.unreadTotal);
     // Sync services with store (handles incoming messages, typing, etc.)
     useServiceSync();
+    useBackupSchedule();
     // Get total unread count
     const totalUnreadCount = unreadTotal();
     // Listen for keyboard shortcuts
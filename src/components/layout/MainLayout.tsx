@@ -30,6 +30,7 @@ import { SettingsPanel } from '../settings/SettingsPanel';
 import { ConnectionStatus } from './ConnectionStatus';
 import { useSettingsStore, useChatStore } from '../../stores';
 import { useServiceSync } from '../../hooks/useServiceSync';
+import { useBackupSchedule } from '../../hooks/useBackupSchedule';
 
 type View = 'chats' | 'contacts' | 'calls' | 'settings';
 
@@ -42,6 +43,7 @@ export function MainLayout() {
 
   // Sync services with store (handles incoming messages, typing, etc.)
   useServiceSync();
+  useBackupSchedule();
 
   // Get total unread count
   const totalUnreadCount = unreadTotal();
@@ -11,6 +11,7 @@ import { useChatStore } from '../../stores';
 import { NewChatDialog } from '../chat/NewChatDialog';
 import { AddContactModal } from '../contacts/AddContactModal';
 import { connectionManager } from '../../services/p2p';
+import { messagingService } from '../../services/messaging';
 import { db } from '../../services/database';
 export function Sidebar({ view, onCollapse }) {
     const [searchQuery, setSearchQuery] = useState('');
@@ -110,20 +111,7 @@ function ContactList({ searchQuery }) {
         });
         if (!conv) {
             // Create new conversation
-            conv = {
-                id: crypto.randomUUID(),
-                type: 'direct',
-                name: contact.displayName,
-                participants: JSON.stringify([contact.identityKey]),
-                encryptionEnabled: true,
-                isPinned: false,
-                isMuted: false,
-                isArchived: false,
-                unreadCount: 0,
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-            };
-            db.saveConversation(conv);
+            conv = messagingService.createDirectConversation(contact.identityKey, contact.displayName);
         }
         setActiveConversation(conv.id);
     };
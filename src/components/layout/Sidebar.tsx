@@ -26,6 +26,7 @@ import { NewChatDialog } from '../chat/NewChatDialog';
 import { AddContactModal } from '../contacts/AddContactModal';
 import { contactService } from '../../services/contacts';
 import { connectionManager } from '../../services/p2p';
+import { messagingService } from '../../services/messaging';
 import { db, type Contact } from '../../services/database';
 
 interface SidebarProps {
@@ -363,20 +364,7 @@ function ContactList({ searchQuery }: { searchQuery: string }) {
 
     if (!conv) {
       // Create new conversation
-      conv = {
-        id: crypto.randomUUID(),
-        type: 'direct' as const,
-        name: contact.displayName,
-        participants: JSON.stringify([contact.identityKey]),
-        encryptionEnabled: true,
-        isPinned: false,
-        isMuted: false,
-        isArchived: false,
-        unreadCount: 0,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      };
-      db.saveConversation(conv);
+      conv = messagingService.createDirectConversation(contact.identityKey, contact.displayName);
     }
 
     setActiveConversation(conv.id);
@@ -3,10 +3,13 @@ import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-run
  * VORTEX Protocol - Onboarding Screen
  * First-time user setup and identity creation
  */
-import { useState } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Shield, Key, User, Fingerprint, ArrowRight, Check, Lock, Eye, Copy, Loader2, Sparkles, } from 'lucide-react';
-import { identityService } from '../../services/identity';
+import { Shield, Key, User, Fingerprint, ArrowRight, Check, Lock, Eye, Copy, Loader2, Sparkles, Link2, Upload, FileKey, HardDrive, AlertTriangle, } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { identityService, isValidRecoveryPhrase, RECOVERY_PHRASE_WORDS, } from '../../services/identity';
+import { deviceService } from '../../services/devices';
+import { backupService, readBackupHeader, BACKUP_FILE_EXTENSION } from '../../services/backup';
 export function OnboardingScreen({ onComplete }) {
     const [step, setStep] = useState('welcome');
     const [displayName, setDisplayName] = useState('');
@@ -14,6 +17,12 @@ export function OnboardingScreen({ onComplete }) {
     const [fingerprint, setFingerprint] = useState('');
     const [copied, setCopied] = useState(false);
     const [error, setError] = useState(null);
+    const [linkCode, setLinkCode] = useState('');
+    const [deviceName, setDeviceName] = useState('Desktop');
+    const [backup, setBackup] = useState(null);
+    const [backupSecret, setBackupSecret] = useState('');
+    const [accountBackup, setAccountBackup] = useState(null);
+    const [verifiedBackup, setVerifiedBackup] = useState(null);
     const handleCreateIdentity = async () => {
         if (!displayName.trim()) {
             setError('Please enter a display name');
@@ -35,6 +44,103 @@ export function OnboardingScreen({ onComplete }) {
             setIsCreating(false);
         }
     };
+    const handleLinkDevice = async () => {
+        if (!linkCode.trim() || !deviceName.trim())
+            return;
+        setIsCreating(true);
+        setError(null);
+        try {
+            const identity = await deviceService.linkToPrimary(linkCode, deviceName.trim());
+            setDisplayName(identity.displayName);
+            setFingerprint(identityService.getFingerprint());
+            setStep('verify');
+        }
+        catch (err) {
+            setError(err instanceof Error ? err.message : 'Linking failed. Please try again.');
+            console.error('[Onboarding] Link error:', err);
+        }
+        finally {
+            setIsCreating(false);
+        }
+    };
+    const handleSelectBackup = async (file) => {
+        setError(null);
+        setBackupSecret('');
+        try {
+            const contents = await file.text();
+            setBackup({ name: file.name, contents, secretType: identityService.getBackupSecretType(contents) });
+        }
+        catch (err) {
+            setBackup(null);
+            setError(err instanceof Error ? err.message : 'Could not read backup file');
+        }
+    };
+    const handleRestore = async () => {
+        if (!backup || !backupSecret.trim())
+            return;
+        setIsCreating(true);
+        setError(null);
+        try {
+            const identity = await identityService.importBackup(backup.contents, backupSecret);
+            setDisplayName(identity.displayName);
+            setFingerprint(identityService.getFingerprint());
+            setBackupSecret('');
+            setStep('verify');
+        }
+        catch (err) {
+            setError(err instanceof Error ? err.message : 'Restore failed. Please try again.');
+            console.error('[Onboarding] Restore error:', err);
+        }
+        finally {
+            setIsCreating(false);
+        }
+    };
+    const handleSelectAccountBackup = async (file) => {
+        setError(null);
+        setBackupSecret('');
+        setVerifiedBackup(null);
+        try {
+            const data = new Uint8Array(await file.arrayBuffer());
+            setAccountBackup({ name: file.name, data, createdAt: readBackupHeader(data).createdAt });
+        }
+        catch (err) {
+            setAccountBackup(null);
+            setError(err instanceof Error ? err.message : 'Could not read backup file');
+        }
+    };
+    const handleVerifyAccountBackup = async () => {
+        if (!accountBackup || !backupSecret)
+            return;
+        setIsCreating(true);
+        setError(null);
+        try {
+            setVerifiedBackup(await backupService.verifyBackup(accountBackup.data, backupSecret));
+            setBackupSecret('');
+        }
+        catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not open backup');
+            console.error('[Onboarding] Backup check failed:', err);
+        }
+        finally {
+            setIsCreating(false);
+        }
+    };
+    const handleRestoreAccountBackup = async () => {
+        if (!verifiedBackup)
+            return;
+        setIsCreating(true);
+        setError(null);
+        try {
+            await backupService.restoreBackup(verifiedBackup);
+            // Services start over with the restored account
+            window.location.reload();
+        }
+        catch (err) {
+            setError(err instanceof Error ? err.message : 'Restore failed. Please try again.');
+            console.error('[Onboarding] Account restore error:', err);
+            setIsCreating(false);
+        }
+    };
     const handleCopyFingerprint = async () => {
         try {
             await navigator.clipboard.writeText(fingerprint);
@@ -49,14 +155,57 @@ export function OnboardingScreen({ onComplete }) {
         setStep('complete');
         setTimeout(onComplete, 1500);
     };
-    return (_jsxs("div", { className: "fixed inset-0 bg-gradient-to-br from-surface-0 via-surface-1 to-surface-0 flex items-center justify-center p-4", children: [_jsxs("div", { className: "absolute inset-0 overflow-hidden pointer-events-none", children: [_jsx("div", { className: "absolute -top-1/2 -right-1/2 w-full h-full bg-gradient-radial from-primary/10 to-transparent rounded-full blur-3xl" }), _jsx("div", { className: "absolute -bottom-1/2 -left-1/2 w-full h-full bg-gradient-radial from-secondary/10 to-transparent rounded-full blur-3xl" })] }), _jsxs(AnimatePresence, { mode: "wait", children: [step === 'welcome' && (_jsx(WelcomeStep, { onNext: () => setStep('create') }, "welcome")), step === 'create' && (_jsx(CreateStep, { displayName: displayName, setDisplayName: setDisplayName, isCreating: isCreating, error: error, onSubmit: handleCreateIdentity }, "create")), step === 'verify' && (_jsx(VerifyStep, { displayName: displayName, fingerprint: fingerprint, copied: copied, onCopy: handleCopyFingerprint, onNext: handleComplete }, "verify")), step === 'complete' && _jsx(CompleteStep, {}, "complete")] })] }));
+    return (_jsxs("div", { className: "fixed inset-0 bg-gradient-to-br from-surface-0 via-surface-1 to-surface-0 flex items-center justify-center p-4", children: [_jsxs("div", { className: "absolute inset-0 overflow-hidden pointer-events-none", children: [_jsx("div", { className: "absolute -top-1/2 -right-1/2 w-full h-full bg-gradient-radial from-primary/10 to-transparent rounded-full blur-3xl" }), _jsx("div", { className: "absolute -bottom-1/2 -left-1/2 w-full h-full bg-gradient-radial from-secondary/10 to-transparent rounded-full blur-3xl" })] }), _jsxs(AnimatePresence, { mode: "wait", children: [step === 'welcome' && (_jsx(WelcomeStep, { onNext: () => setStep('create'), onLink: () => setStep('link'), onRestore: () => setStep('restore'), onRestoreAccount: () => setStep('restore-account') }, "welcome")), step === 'create' && (_jsx(CreateStep, { displayName: displayName, setDisplayName: setDisplayName, isCreating: isCreating, error: error, onSubmit: handleCreateIdentity }, "create")), step === 'link' && (_jsx(LinkStep, { linkCode: linkCode, setLinkCode: setLinkCode, deviceName: deviceName, setDeviceName: setDeviceName, isLinking: isCreating, error: error, onSubmit: handleLinkDevice, onBack: () => {
+                            setError(null);
+                            setStep('welcome');
+                        } }, "link")), step === 'restore' && (_jsx(RestoreStep, { backup: backup, onSelectBackup: handleSelectBackup, secret: backupSecret, setSecret: setBackupSecret, isRestoring: isCreating, error: error, onSubmit: handleRestore, onBack: () => {
+                            setError(null);
+                            setBackup(null);
+                            setBackupSecret('');
+                            setStep('welcome');
+                        } }, "restore")), step === 'restore-account' && (_jsx(AccountRestoreStep, { backup: accountBackup, verified: verifiedBackup, onSelectBackup: handleSelectAccountBackup, passphrase: backupSecret, setPassphrase: setBackupSecret, isWorking: isCreating, error: error, onVerify: handleVerifyAccountBackup, onRestore: handleRestoreAccountBackup, onBack: () => {
+                            setError(null);
+                            setAccountBackup(null);
+                            setVerifiedBackup(null);
+                            setBackupSecret('');
+                            setStep('welcome');
+                        } }, "restore-account")), step === 'verify' && (_jsx(VerifyStep, { displayName: displayName, fingerprint: fingerprint, copied: copied, onCopy: handleCopyFingerprint, onNext: handleComplete }, "verify")), step === 'complete' && _jsx(CompleteStep, {}, "complete")] })] }));
 }
-function WelcomeStep({ onNext }) {
-    return (_jsxs(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "max-w-md w-full text-center", children: [_jsx(motion.div, { initial: { scale: 0 }, animate: { scale: 1 }, transition: { type: 'spring', delay: 0.2 }, className: "w-24 h-24 mx-auto mb-8 rounded-3xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center shadow-glow", children: _jsx(Shield, { className: "w-12 h-12 text-white" }) }), _jsx(motion.h1, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.3 }, className: "text-4xl font-bold text-text-primary mb-4", children: "Welcome to VORTEX" }), _jsxs(motion.p, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.4 }, className: "text-text-secondary text-lg mb-8", children: ["Secure, private, peer-to-peer communication.", _jsx("br", {}), "No servers. No tracking. Just you."] }), _jsxs(motion.div, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.5 }, className: "grid grid-cols-3 gap-4 mb-8", children: [_jsx(FeatureItem, { icon: Lock, label: "End-to-End Encrypted" }), _jsx(FeatureItem, { icon: Eye, label: "Zero Knowledge" }), _jsx(FeatureItem, { icon: Key, label: "You Own Your Keys" })] }), _jsxs(motion.button, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.6 }, onClick: onNext, className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg shadow-primary/25", children: ["Get Started", _jsx(ArrowRight, { size: 20 })] })] }));
+function WelcomeStep({ onNext, onLink, onRestore, onRestoreAccount, }) {
+    return (_jsxs(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "max-w-md w-full text-center", children: [_jsx(motion.div, { initial: { scale: 0 }, animate: { scale: 1 }, transition: { type: 'spring', delay: 0.2 }, className: "w-24 h-24 mx-auto mb-8 rounded-3xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center shadow-glow", children: _jsx(Shield, { className: "w-12 h-12 text-white" }) }), _jsx(motion.h1, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.3 }, className: "text-4xl font-bold text-text-primary mb-4", children: "Welcome to VORTEX" }), _jsxs(motion.p, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.4 }, className: "text-text-secondary text-lg mb-8", children: ["Secure, private, peer-to-peer communication.", _jsx("br", {}), "No servers. No tracking. Just you."] }), _jsxs(motion.div, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.5 }, className: "grid grid-cols-3 gap-4 mb-8", children: [_jsx(FeatureItem, { icon: Lock, label: "End-to-End Encrypted" }), _jsx(FeatureItem, { icon: Eye, label: "Zero Knowledge" }), _jsx(FeatureItem, { icon: Key, label: "You Own Your Keys" })] }), _jsxs(motion.button, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.6 }, onClick: onNext, className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg shadow-primary/25", children: ["Get Started", _jsx(ArrowRight, { size: 20 })] }), _jsxs(motion.button, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.7 }, onClick: onLink, className: "w-full mt-3 py-3 px-6 text-text-secondary hover:text-text-primary font-medium rounded-xl transition-all flex items-center justify-center gap-2", children: [_jsx(Link2, { size: 18 }), "Link to an existing device"] }), _jsxs(motion.button, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.8 }, onClick: onRestore, className: "w-full py-3 px-6 text-text-secondary hover:text-text-primary font-medium rounded-xl transition-all flex items-center justify-center gap-2", children: [_jsx(Upload, { size: 18 }), "Restore from backup"] }), _jsxs(motion.button, { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { delay: 0.9 }, onClick: onRestoreAccount, className: "w-full py-3 px-6 text-text-secondary hover:text-text-primary font-medium rounded-xl transition-all flex items-center justify-center gap-2", children: [_jsx(HardDrive, { size: 18 }), "Restore a full account backup"] })] }));
 }
 function CreateStep({ displayName, setDisplayName, isCreating, error, onSubmit, }) {
     return (_jsx(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "max-w-md w-full", children: _jsxs("div", { className: "bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass", children: [_jsxs("div", { className: "text-center mb-8", children: [_jsx("div", { className: "w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center", children: _jsx(User, { className: "w-8 h-8 text-primary" }) }), _jsx("h2", { className: "text-2xl font-bold text-text-primary mb-2", children: "Create Your Identity" }), _jsx("p", { className: "text-text-secondary", children: "This will generate your unique cryptographic keys" })] }), _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Display Name" }), _jsx("input", { type: "text", value: displayName, onChange: (e) => setDisplayName(e.target.value), placeholder: "Enter your name", maxLength: 50, disabled: isCreating, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50", onKeyDown: (e) => e.key === 'Enter' && onSubmit() }), _jsx("p", { className: "mt-2 text-xs text-text-tertiary", children: "This is how others will see you. You can change it later." })] }), error && (_jsx(motion.p, { initial: { opacity: 0, y: -10 }, animate: { opacity: 1, y: 0 }, className: "text-danger text-sm text-center", children: error })), _jsx("button", { onClick: onSubmit, disabled: isCreating || !displayName.trim(), className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed", children: isCreating ? (_jsxs(_Fragment, { children: [_jsx(Loader2, { className: "w-5 h-5 animate-spin" }), "Generating Keys..."] })) : (_jsxs(_Fragment, { children: [_jsx(Key, { size: 20 }), "Create Identity"] })) })] }), _jsx("div", { className: "mt-6 p-4 rounded-xl bg-surface-2 border border-border", children: _jsxs("div", { className: "flex gap-3", children: [_jsx(Shield, { className: "w-5 h-5 text-success flex-shrink-0 mt-0.5" }), _jsxs("div", { className: "text-sm", children: [_jsx("p", { className: "text-text-primary font-medium", children: "Your keys never leave this device" }), _jsx("p", { className: "text-text-secondary mt-1", children: "All cryptographic operations happen locally. We cannot access your messages." })] })] }) })] }) }));
 }
+function LinkStep({ linkCode, setLinkCode, deviceName, setDeviceName, isLinking, error, onSubmit, onBack, }) {
+    return (_jsx(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "max-w-md w-full", children: _jsxs("div", { className: "bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass", children: [_jsxs("div", { className: "text-center mb-8", children: [_jsx("div", { className: "w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center", children: _jsx(Link2, { className: "w-8 h-8 text-primary" }) }), _jsx("h2", { className: "text-2xl font-bold text-text-primary mb-2", children: "Link This Device" }), _jsx("p", { className: "text-text-secondary", children: "On your primary device, open Settings \u2192 Devices \u2192 Link new device and enter the code shown there" })] }), _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Linking Code" }), _jsx("textarea", { value: linkCode, onChange: (e) => setLinkCode(e.target.value), placeholder: "vortex-link:...", rows: 3, disabled: isLinking, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary font-mono text-xs placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50 resize-none" })] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Device Name" }), _jsx("input", { type: "text", value: deviceName, onChange: (e) => setDeviceName(e.target.value), placeholder: "e.g. Laptop", maxLength: 64, disabled: isLinking, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50" }), _jsx("p", { className: "mt-2 text-xs text-text-tertiary", children: "Shown in the device list on your primary device" })] }), error && (_jsx(motion.p, { initial: { opacity: 0, y: -10 }, animate: { opacity: 1, y: 0 }, className: "text-danger text-sm text-center", children: error })), _jsx("button", { onClick: onSubmit, disabled: isLinking || !linkCode.trim() || !deviceName.trim(), className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed", children: isLinking ? (_jsxs(_Fragment, { children: [_jsx(Loader2, { className: "w-5 h-5 animate-spin" }), "Waiting for approval..."] })) : (_jsxs(_Fragment, { children: [_jsx(Link2, { size: 20 }), "Link Device"] })) }), _jsx("button", { onClick: onBack, disabled: isLinking, className: "w-full py-2 text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50", children: "Back" })] })] }) }));
+}
+function RestoreStep({ backup, onSelectBackup, secret, setSecret, isRestoring, error, onSubmit, onBack, }) {
+    const fileInputRef = React.useRef(null);
+    const usesPhrase = backup?.secretType === 'recovery-phrase';
+    const wordCount = secret.trim() ? secret.trim().split(/\s+/).length : 0;
+    const canSubmit = !!backup && (usesPhrase ? isValidRecoveryPhrase(secret) : secret.length > 0);
+    return (_jsx(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "max-w-md w-full", children: _jsxs("div", { className: "bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass", children: [_jsxs("div", { className: "text-center mb-8", children: [_jsx("div", { className: "w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center", children: _jsx(FileKey, { className: "w-8 h-8 text-primary" }) }), _jsx("h2", { className: "text-2xl font-bold text-text-primary mb-2", children: "Restore Your Identity" }), _jsx("p", { className: "text-text-secondary", children: "Choose your backup file, then unlock it with its recovery phrase or password" })] }), _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { children: [_jsx("input", { ref: fileInputRef, type: "file", accept: ".json,application/json", className: "hidden", onChange: (e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file)
+                                            onSelectBackup(file);
+                                        e.target.value = '';
+                                    } }), _jsxs("button", { onClick: () => fileInputRef.current?.click(), disabled: isRestoring, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-left text-text-primary hover:bg-surface-3 transition-all flex items-center gap-3 disabled:opacity-50", children: [_jsx(Upload, { size: 18, className: "text-text-secondary" }), _jsx("span", { className: cn('truncate', !backup && 'text-text-muted'), children: backup ? backup.name : 'Choose backup file' })] })] }), backup && (_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: usesPhrase ? 'Recovery Phrase' : 'Backup Password' }), usesPhrase ? (_jsxs(_Fragment, { children: [_jsx("textarea", { value: secret, onChange: (e) => setSecret(e.target.value), placeholder: `Enter your ${RECOVERY_PHRASE_WORDS} words, separated by spaces`, rows: 4, disabled: isRestoring, spellCheck: false, autoComplete: "off", className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary font-mono text-sm placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50 resize-none" }), _jsxs("p", { className: "mt-2 text-xs text-text-tertiary", children: [wordCount, " / ", RECOVERY_PHRASE_WORDS, " words", wordCount === RECOVERY_PHRASE_WORDS && !isValidRecoveryPhrase(secret) && ' — check for a misspelled word'] })] })) : (_jsx("input", { type: "password", value: secret, onChange: (e) => setSecret(e.target.value), placeholder: "Enter the password you chose when exporting", disabled: isRestoring, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50", onKeyDown: (e) => e.key === 'Enter' && canSubmit && onSubmit() }))] })), error && (_jsx(motion.p, { initial: { opacity: 0, y: -10 }, animate: { opacity: 1, y: 0 }, className: "text-danger text-sm text-center", children: error })), _jsx("button", { onClick: onSubmit, disabled: isRestoring || !canSubmit, className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed", children: isRestoring ? (_jsxs(_Fragment, { children: [_jsx(Loader2, { className: "w-5 h-5 animate-spin" }), "Restoring..."] })) : (_jsxs(_Fragment, { children: [_jsx(Key, { size: 20 }), "Restore Identity"] })) }), _jsx("button", { onClick: onBack, disabled: isRestoring, className: "w-full py-2 text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50", children: "Back" })] })] }) }));
+}
+function AccountRestoreStep({ backup, verified, onSelectBackup, passphrase, setPassphrase, isWorking, error, onVerify, onRestore, onBack, }) {
+    const fileInputRef = React.useRef(null);
+    return (_jsx(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "max-w-md w-full", children: _jsxs("div", { className: "bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass", children: [_jsxs("div", { className: "text-center mb-8", children: [_jsx("div", { className: "w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center", children: _jsx(HardDrive, { className: "w-8 h-8 text-primary" }) }), _jsx("h2", { className: "text-2xl font-bold text-text-primary mb-2", children: "Restore Your Account" }), _jsx("p", { className: "text-text-secondary", children: verified
+                                ? 'The backup is intact. Check what it holds before restoring.'
+                                : 'Choose an account backup, then unlock it with its backup passphrase' })] }), _jsxs("div", { className: "space-y-6", children: [verified ? (_jsxs(_Fragment, { children: [_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border space-y-2 text-sm", children: [_jsx(BackupDetail, { label: "Account", value: verified.database.identity?.displayName ?? 'Unknown' }), _jsx(BackupDetail, { label: "Backed up", value: new Date(verified.createdAt).toLocaleString() }), _jsx(BackupDetail, { label: "Contacts", value: String(verified.database.contacts) }), _jsx(BackupDetail, { label: "Conversations", value: String(verified.database.conversations) }), _jsx(BackupDetail, { label: "Messages", value: String(verified.database.messages) }), _jsx(BackupDetail, { label: "Attachments", value: String(verified.attachments) })] }), _jsxs("div", { className: "flex gap-3 p-3 rounded-xl bg-warning/10 text-sm text-text-secondary", children: [_jsx(AlertTriangle, { size: 18, className: "text-warning shrink-0 mt-0.5" }), _jsx("span", { children: "Restoring replaces everything stored by VORTEX on this device. Messages sent to you since the backup was made are not in it." })] })] })) : (_jsxs(_Fragment, { children: [_jsxs("div", { children: [_jsx("input", { ref: fileInputRef, type: "file", accept: `.${BACKUP_FILE_EXTENSION}`, className: "hidden", onChange: (e) => {
+                                                const file = e.target.files?.[0];
+                                                if (file)
+                                                    onSelectBackup(file);
+                                                e.target.value = '';
+                                            } }), _jsxs("button", { onClick: () => fileInputRef.current?.click(), disabled: isWorking, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-left text-text-primary hover:bg-surface-3 transition-all flex items-center gap-3 disabled:opacity-50", children: [_jsx(Upload, { size: 18, className: "text-text-secondary" }), _jsx("span", { className: cn('truncate', !backup && 'text-text-muted'), children: backup ? backup.name : 'Choose backup file' })] }), backup && (_jsxs("p", { className: "mt-2 text-xs text-text-tertiary", children: ["Made ", new Date(backup.createdAt).toLocaleString()] }))] }), backup && (_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Backup Passphrase" }), _jsx("input", { type: "password", value: passphrase, onChange: (e) => setPassphrase(e.target.value), placeholder: "Enter the passphrase backups were made with", disabled: isWorking, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50", onKeyDown: (e) => e.key === 'Enter' && passphrase && onVerify() })] }))] })), error && (_jsx(motion.p, { initial: { opacity: 0, y: -10 }, animate: { opacity: 1, y: 0 }, className: "text-danger text-sm text-center", children: error })), _jsx("button", { onClick: verified ? onRestore : onVerify, disabled: isWorking || (!verified && (!backup || !passphrase)), className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed", children: isWorking ? (_jsxs(_Fragment, { children: [_jsx(Loader2, { className: "w-5 h-5 animate-spin" }), verified ? 'Restoring...' : 'Checking backup...'] })) : verified ? (_jsxs(_Fragment, { children: [_jsx(HardDrive, { size: 20 }), "Restore Account"] })) : (_jsxs(_Fragment, { children: [_jsx(Key, { size: 20 }), "Unlock and Check"] })) }), _jsx("button", { onClick: onBack, disabled: isWorking, className: "w-full py-2 text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50", children: "Back" })] })] }) }));
+}
+function BackupDetail({ label, value }) {
+    return (_jsxs("div", { className: "flex justify-between gap-4", children: [_jsx("span", { className: "text-text-secondary", children: label }), _jsx("span", { className: "text-text-primary font-medium truncate", children: value })] }));
+}
 function VerifyStep({ displayName, fingerprint, copied, onCopy, onNext, }) {
     return (_jsx(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 }, className: "max-w-md w-full", children: _jsxs("div", { className: "bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass", children: [_jsxs("div", { className: "text-center mb-8", children: [_jsx(motion.div, { initial: { scale: 0 }, animate: { scale: 1 }, transition: { type: 'spring', delay: 0.2 }, className: "w-16 h-16 mx-auto mb-4 rounded-full bg-success/10 flex items-center justify-center", children: _jsx(Check, { className: "w-8 h-8 text-success" }) }), _jsxs("h2", { className: "text-2xl font-bold text-text-primary mb-2", children: ["Welcome, ", displayName, "!"] }), _jsx("p", { className: "text-text-secondary", children: "Your secure identity has been created" })] }), _jsxs("div", { className: "mb-6", children: [_jsxs("div", { className: "flex items-center justify-between mb-2", children: [_jsxs("label", { className: "text-sm font-medium text-text-primary flex items-center gap-2", children: [_jsx(Fingerprint, { size: 16 }), "Your Safety Number"] }), _jsxs("button", { onClick: onCopy, className: "text-xs text-primary hover:text-primary-hover flex items-center gap-1", children: [copied ? _jsx(Check, { size: 14 }) : _jsx(Copy, { size: 14 }), copied ? 'Copied!' : 'Copy'] })] }), _jsx("div", { className: "p-4 rounded-xl bg-surface-2 border border-border font-mono text-center text-lg text-text-primary tracking-wider", children: fingerprint }), _jsx("p", { className: "mt-2 text-xs text-text-tertiary text-center", children: "Compare this with your contacts to verify secure communication" })] }), _jsxs("button", { onClick: onNext, className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2", children: ["Start Messaging", _jsx(ArrowRight, { size: 20 })] })] }) }));
 }
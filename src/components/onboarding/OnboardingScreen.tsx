@@ -17,15 +17,33 @@ import {
   Copy,
   Loader2,
   Sparkles,
+  Link2,
+  Upload,
+  FileKey,
+  HardDrive,
+  AlertTriangle,
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
-import { identityService } from '../../services/identity';
+import {
+  identityService,
+  isValidRecoveryPhrase,
+  RECOVERY_PHRASE_WORDS,
+  type BackupSecretType,
+} from '../../services/identity';
+import { deviceService } from '../../services/devices';
+import { backupService, readBackupHeader, BACKUP_FILE_EXTENSION, type VerifiedBackup } from '../../services/backup';
 
 interface OnboardingScreenProps {
   onComplete: () => void;
 }
 
-type Step = 'welcome' | 'create' | 'verify' | 'complete';
+type Step = 'welcome' | 'create' | 'link' | 'restore' | 'restore-account' | 'verify' | 'complete';
+
+interface AccountBackupFile {
+  name: string;
+  data: Uint8Array;
+  createdAt: number;    // As the file says; checked once it is opened
+}
 
 export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
   const [step, setStep] = useState<Step>('welcome');
@@ -34,6 +52,12 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
   const [fingerprint, setFingerprint] = useState('');
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [linkCode, setLinkCode] = useState('');
+  const [deviceName, setDeviceName] = useState('Desktop');
+  const [backup, setBackup] = useState<{ name: string; contents: string; secretType: BackupSecretType } | null>(null);
+  const [backupSecret, setBackupSecret] = useState('');
+  const [accountBackup, setAccountBackup] = useState<AccountBackupFile | null>(null);
+  const [verifiedBackup, setVerifiedBackup] = useState<VerifiedBackup | null>(null);
 
   const handleCreateIdentity = async () => {
     if (!displayName.trim()) {
@@ -57,6 +81,106 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
     }
   };
 
+  const handleLinkDevice = async () => {
+    if (!linkCode.trim() || !deviceName.trim()) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const identity = await deviceService.linkToPrimary(linkCode, deviceName.trim());
+      setDisplayName(identity.displayName);
+      setFingerprint(identityService.getFingerprint());
+      setStep('verify');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Linking failed. Please try again.');
+      console.error('[Onboarding] Link error:', err);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSelectBackup = async (file: File) => {
+    setError(null);
+    setBackupSecret('');
+
+    try {
+      const contents = await file.text();
+      setBackup({ name: file.name, contents, secretType: identityService.getBackupSecretType(contents) });
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof Error ? err.message : 'Could not read backup file');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup || !backupSecret.trim()) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const identity = await identityService.importBackup(backup.contents, backupSecret);
+      setDisplayName(identity.displayName);
+      setFingerprint(identityService.getFingerprint());
+      setBackupSecret('');
+      setStep('verify');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed. Please try again.');
+      console.error('[Onboarding] Restore error:', err);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSelectAccountBackup = async (file: File) => {
+    setError(null);
+    setBackupSecret('');
+    setVerifiedBackup(null);
+
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      setAccountBackup({ name: file.name, data, createdAt: readBackupHeader(data).createdAt });
+    } catch (err) {
+      setAccountBackup(null);
+      setError(err instanceof Error ? err.message : 'Could not read backup file');
+    }
+  };
+
+  const handleVerifyAccountBackup = async () => {
+    if (!accountBackup || !backupSecret) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      setVerifiedBackup(await backupService.verifyBackup(accountBackup.data, backupSecret));
+      setBackupSecret('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open backup');
+      console.error('[Onboarding] Backup check failed:', err);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRestoreAccountBackup = async () => {
+    if (!verifiedBackup) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      await backupService.restoreBackup(verifiedBackup);
+      // Services start over with the restored account
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed. Please try again.');
+      console.error('[Onboarding] Account restore error:', err);
+      setIsCreating(false);
+    }
+  };
+
   const handleCopyFingerprint = async () => {
     try {
       await navigator.clipboard.writeText(fingerprint);
@@ -82,7 +206,13 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
 
       <AnimatePresence mode="wait">
         {step === 'welcome' && (
-          <WelcomeStep key="welcome" onNext={() => setStep('create')} />
+          <WelcomeStep
+            key="welcome"
+            onNext={() => setStep('create')}
+            onLink={() => setStep('link')}
+            onRestore={() => setStep('restore')}
+            onRestoreAccount={() => setStep('restore-account')}
+          />
         )}
 
         {step === 'create' && (
@@ -96,6 +226,64 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
           />
         )}
 
+        {step === 'link' && (
+          <LinkStep
+            key="link"
+            linkCode={linkCode}
+            setLinkCode={setLinkCode}
+            deviceName={deviceName}
+            setDeviceName={setDeviceName}
+            isLinking={isCreating}
+            error={error}
+            onSubmit={handleLinkDevice}
+            onBack={() => {
+              setError(null);
+              setStep('welcome');
+            }}
+          />
+        )}
+
+        {step === 'restore' && (
+          <RestoreStep
+            key="restore"
+            backup={backup}
+            onSelectBackup={handleSelectBackup}
+            secret={backupSecret}
+            setSecret={setBackupSecret}
+            isRestoring={isCreating}
+            error={error}
+            onSubmit={handleRestore}
+            onBack={() => {
+              setError(null);
+              setBackup(null);
+              setBackupSecret('');
+              setStep('welcome');
+            }}
+          />
+        )}
+
+        {step === 'restore-account' && (
+          <AccountRestoreStep
+            key="restore-account"
+            backup={accountBackup}
+            verified={verifiedBackup}
+            onSelectBackup={handleSelectAccountBackup}
+            passphrase={backupSecret}
+            setPassphrase={setBackupSecret}
+            isWorking={isCreating}
+            error={error}
+            onVerify={handleVerifyAccountBackup}
+            onRestore={handleRestoreAccountBackup}
+            onBack={() => {
+              setError(null);
+              setAccountBackup(null);
+              setVerifiedBackup(null);
+              setBackupSecret('');
+              setStep('welcome');
+            }}
+          />
+        )}
+
         {step === 'verify' && (
           <VerifyStep
             key="verify"
@@ -113,7 +301,17 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
   );
 }
 
-function WelcomeStep({ onNext }: { onNext: () => void }) {
+function WelcomeStep({
+  onNext,
+  onLink,
+  onRestore,
+  onRestoreAccount,
+}: {
+  onNext: () => void;
+  onLink: () => void;
+  onRestore: () => void;
+  onRestoreAccount: () => void;
+}) {
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -173,6 +371,39 @@ function WelcomeStep({ onNext }: { onNext: () => void }) {
         Get Started
         <ArrowRight size={20} />
       </motion.button>
+
+      <motion.button
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.7 }}
+        onClick={onLink}
+        className="w-full mt-3 py-3 px-6 text-text-secondary hover:text-text-primary font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+      >
+        <Link2 size={18} />
+        Link to an existing device
+      </motion.button>
+
+      <motion.button
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.8 }}
+        onClick={onRestore}
+        className="w-full py-3 px-6 text-text-secondary hover:text-text-primary font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+      >
+        <Upload size={18} />
+        Restore from backup
+      </motion.button>
+
+      <motion.button
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.9 }}
+        onClick={onRestoreAccount}
+        className="w-full py-3 px-6 text-text-secondary hover:text-text-primary font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+      >
+        <HardDrive size={18} />
+        Restore a full account backup
+      </motion.button>
     </motion.div>
   );
 }
@@ -276,6 +507,437 @@ function CreateStep({
   );
 }
 
+function LinkStep({
+  linkCode,
+  setLinkCode,
+  deviceName,
+  setDeviceName,
+  isLinking,
+  error,
+  onSubmit,
+  onBack,
+}: {
+  linkCode: string;
+  setLinkCode: (code: string) => void;
+  deviceName: string;
+  setDeviceName: (name: string) => void;
+  isLinking: boolean;
+  error: string | null;
+  onSubmit: () => void;
+  onBack: () => void;
+}) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="max-w-md w-full"
+    >
+      <div className="bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center">
+            <Link2 className="w-8 h-8 text-primary" />
+          </div>
+          <h2 className="text-2xl font-bold text-text-primary mb-2">Link This Device</h2>
+          <p className="text-text-secondary">
+            On your primary device, open Settings → Devices → Link new device and enter the code shown there
+          </p>
+        </div>
+
+        {/* Form */}
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              Linking Code
+            </label>
+            <textarea
+              value={linkCode}
+              onChange={(e) => setLinkCode(e.target.value)}
+              placeholder="vortex-link:..."
+              rows={3}
+              disabled={isLinking}
+              className="w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary font-mono text-xs placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50 resize-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              Device Name
+            </label>
+            <input
+              type="text"
+              value={deviceName}
+              onChange={(e) => setDeviceName(e.target.value)}
+              placeholder="e.g. Laptop"
+              maxLength={64}
+              disabled={isLinking}
+              className="w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50"
+            />
+            <p className="mt-2 text-xs text-text-tertiary">
+              Shown in the device list on your primary device
+            </p>
+          </div>
+
+          {error && (
+            <motion.p
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-danger text-sm text-center"
+            >
+              {error}
+            </motion.p>
+          )}
+
+          <button
+            onClick={onSubmit}
+            disabled={isLinking || !linkCode.trim() || !deviceName.trim()}
+            className="w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed"
+          >
+            {isLinking ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Waiting for approval...
+              </>
+            ) : (
+              <>
+                <Link2 size={20} />
+                Link Device
+              </>
+            )}
+          </button>
+
+          <button
+            onClick={onBack}
+            disabled={isLinking}
+            className="w-full py-2 text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+function RestoreStep({
+  backup,
+  onSelectBackup,
+  secret,
+  setSecret,
+  isRestoring,
+  error,
+  onSubmit,
+  onBack,
+}: {
+  backup: { name: string; secretType: BackupSecretType } | null;
+  onSelectBackup: (file: File) => void;
+  secret: string;
+  setSecret: (secret: string) => void;
+  isRestoring: boolean;
+  error: string | null;
+  onSubmit: () => void;
+  onBack: () => void;
+}) {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const usesPhrase = backup?.secretType === 'recovery-phrase';
+  const wordCount = secret.trim() ? secret.trim().split(/\s+/).length : 0;
+  const canSubmit = !!backup && (usesPhrase ? isValidRecoveryPhrase(secret) : secret.length > 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="max-w-md w-full"
+    >
+      <div className="bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center">
+            <FileKey className="w-8 h-8 text-primary" />
+          </div>
+          <h2 className="text-2xl font-bold text-text-primary mb-2">Restore Your Identity</h2>
+          <p className="text-text-secondary">
+            Choose your backup file, then unlock it with its recovery phrase or password
+          </p>
+        </div>
+
+        {/* Form */}
+        <div className="space-y-6">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onSelectBackup(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isRestoring}
+              className="w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-left text-text-primary hover:bg-surface-3 transition-all flex items-center gap-3 disabled:opacity-50"
+            >
+              <Upload size={18} className="text-text-secondary" />
+              <span className={cn('truncate', !backup && 'text-text-muted')}>
+                {backup ? backup.name : 'Choose backup file'}
+              </span>
+            </button>
+          </div>
+
+          {backup && (
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">
+                {usesPhrase ? 'Recovery Phrase' : 'Backup Password'}
+              </label>
+              {usesPhrase ? (
+                <>
+                  <textarea
+                    value={secret}
+                    onChange={(e) => setSecret(e.target.value)}
+                    placeholder={`Enter your ${RECOVERY_PHRASE_WORDS} words, separated by spaces`}
+                    rows={4}
+                    disabled={isRestoring}
+                    spellCheck={false}
+                    autoComplete="off"
+                    className="w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary font-mono text-sm placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50 resize-none"
+                  />
+                  <p className="mt-2 text-xs text-text-tertiary">
+                    {wordCount} / {RECOVERY_PHRASE_WORDS} words
+                    {wordCount === RECOVERY_PHRASE_WORDS && !isValidRecoveryPhrase(secret) && ' — check for a misspelled word'}
+                  </p>
+                </>
+              ) : (
+                <input
+                  type="password"
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                  placeholder="Enter the password you chose when exporting"
+                  disabled={isRestoring}
+                  className="w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50"
+                  onKeyDown={(e) => e.key === 'Enter' && canSubmit && onSubmit()}
+                />
+              )}
+            </div>
+          )}
+
+          {error && (
+            <motion.p
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-danger text-sm text-center"
+            >
+              {error}
+            </motion.p>
+          )}
+
+          <button
+            onClick={onSubmit}
+            disabled={isRestoring || !canSubmit}
+            className="w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed"
+          >
+            {isRestoring ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Key size={20} />
+                Restore Identity
+              </>
+            )}
+          </button>
+
+          <button
+            onClick={onBack}
+            disabled={isRestoring}
+            className="w-full py-2 text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+function AccountRestoreStep({
+  backup,
+  verified,
+  onSelectBackup,
+  passphrase,
+  setPassphrase,
+  isWorking,
+  error,
+  onVerify,
+  onRestore,
+  onBack,
+}: {
+  backup: AccountBackupFile | null;
+  verified: VerifiedBackup | null;
+  onSelectBackup: (file: File) => void;
+  passphrase: string;
+  setPassphrase: (passphrase: string) => void;
+  isWorking: boolean;
+  error: string | null;
+  onVerify: () => void;
+  onRestore: () => void;
+  onBack: () => void;
+}) {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="max-w-md w-full"
+    >
+      <div className="bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center">
+            <HardDrive className="w-8 h-8 text-primary" />
+          </div>
+          <h2 className="text-2xl font-bold text-text-primary mb-2">Restore Your Account</h2>
+          <p className="text-text-secondary">
+            {verified
+              ? 'The backup is intact. Check what it holds before restoring.'
+              : 'Choose an account backup, then unlock it with its backup passphrase'}
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {verified ? (
+            <>
+              {/* Review */}
+              <div className="p-4 rounded-xl bg-surface-2 border border-border space-y-2 text-sm">
+                <BackupDetail label="Account" value={verified.database.identity?.displayName ?? 'Unknown'} />
+                <BackupDetail label="Backed up" value={new Date(verified.createdAt).toLocaleString()} />
+                <BackupDetail label="Contacts" value={String(verified.database.contacts)} />
+                <BackupDetail label="Conversations" value={String(verified.database.conversations)} />
+                <BackupDetail label="Messages" value={String(verified.database.messages)} />
+                <BackupDetail label="Attachments" value={String(verified.attachments)} />
+              </div>
+
+              <div className="flex gap-3 p-3 rounded-xl bg-warning/10 text-sm text-text-secondary">
+                <AlertTriangle size={18} className="text-warning shrink-0 mt-0.5" />
+                <span>
+                  Restoring replaces everything stored by VORTEX on this device. Messages sent to you since the
+                  backup was made are not in it.
+                </span>
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={`.${BACKUP_FILE_EXTENSION}`}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onSelectBackup(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isWorking}
+                  className="w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-left text-text-primary hover:bg-surface-3 transition-all flex items-center gap-3 disabled:opacity-50"
+                >
+                  <Upload size={18} className="text-text-secondary" />
+                  <span className={cn('truncate', !backup && 'text-text-muted')}>
+                    {backup ? backup.name : 'Choose backup file'}
+                  </span>
+                </button>
+                {backup && (
+                  <p className="mt-2 text-xs text-text-tertiary">
+                    Made {new Date(backup.createdAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+
+              {backup && (
+                <div>
+                  <label className="block text-sm font-medium text-text-primary mb-2">
+                    Backup Passphrase
+                  </label>
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Enter the passphrase backups were made with"
+                    disabled={isWorking}
+                    className="w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50"
+                    onKeyDown={(e) => e.key === 'Enter' && passphrase && onVerify()}
+                  />
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <motion.p
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-danger text-sm text-center"
+            >
+              {error}
+            </motion.p>
+          )}
+
+          <button
+            onClick={verified ? onRestore : onVerify}
+            disabled={isWorking || (!verified && (!backup || !passphrase))}
+            className="w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed"
+          >
+            {isWorking ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                {verified ? 'Restoring...' : 'Checking backup...'}
+              </>
+            ) : verified ? (
+              <>
+                <HardDrive size={20} />
+                Restore Account
+              </>
+            ) : (
+              <>
+                <Key size={20} />
+                Unlock and Check
+              </>
+            )}
+          </button>
+
+          <button
+            onClick={onBack}
+            disabled={isWorking}
+            className="w-full py-2 text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+function BackupDetail({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-text-secondary">{label}</span>
+      <span className="text-text-primary font-medium truncate">{value}</span>
+    </div>
+  );
+}
+
 function VerifyStep({
   displayName,
   fingerprint,
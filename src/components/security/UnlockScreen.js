@@ -0,0 +1,36 @@
+import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-runtime";
+/**
+ * VORTEX Protocol - Unlock Screen
+ * Asks for the PIN that opens the encrypted database
+ */
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Loader2 } from 'lucide-react';
+import { db } from '../../services/database';
+export function UnlockScreen({ onUnlock }) {
+    const [pin, setPin] = useState('');
+    const [isUnlocking, setIsUnlocking] = useState(false);
+    const [error, setError] = useState(null);
+    // Without secure storage the lock is a passphrase rather than a PIN
+    const secretName = db.hasSecureStorage() ? 'PIN' : 'passphrase';
+    const handleUnlock = async () => {
+        if (!pin)
+            return;
+        setIsUnlocking(true);
+        setError(null);
+        try {
+            if (!(await onUnlock(pin))) {
+                setError(`Incorrect ${secretName}`);
+            }
+        }
+        catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not unlock');
+            console.error('[Unlock] Error:', err);
+        }
+        finally {
+            setPin('');
+            setIsUnlocking(false);
+        }
+    };
+    return (_jsx("div", { className: "fixed inset-0 bg-gradient-to-br from-surface-0 via-surface-1 to-surface-0 flex items-center justify-center p-4", children: _jsx(motion.div, { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, className: "max-w-sm w-full", children: _jsxs("div", { className: "bg-surface-1/80 backdrop-blur-xl rounded-2xl border border-border p-8 shadow-glass", children: [_jsxs("div", { className: "text-center mb-8", children: [_jsx("div", { className: "w-16 h-16 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center", children: _jsx(Lock, { className: "w-8 h-8 text-primary" }) }), _jsx("h2", { className: "text-2xl font-bold text-text-primary mb-2", children: "VORTEX is Locked" }), _jsxs("p", { className: "text-text-secondary", children: ["Enter your ", secretName, " to decrypt your messages"] })] }), _jsxs("div", { className: "space-y-6", children: [_jsx("input", { type: "password", inputMode: secretName === 'PIN' ? 'numeric' : 'text', value: pin, onChange: (e) => setPin(e.target.value), placeholder: secretName === 'PIN' ? 'PIN' : 'Passphrase', autoFocus: true, disabled: isUnlocking, className: "w-full px-4 py-3 rounded-xl bg-surface-2 border border-border text-text-primary text-center tracking-widest placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all disabled:opacity-50", onKeyDown: (e) => e.key === 'Enter' && handleUnlock() }), error && (_jsx(motion.p, { initial: { opacity: 0, y: -10 }, animate: { opacity: 1, y: 0 }, className: "text-danger text-sm text-center", children: error })), _jsx("button", { onClick: handleUnlock, disabled: isUnlocking || !pin, className: "w-full py-4 px-6 bg-primary hover:bg-primary-hover disabled:bg-primary/50 text-white font-semibold rounded-xl transition-all flex items-center justify-center gap-2 disabled:cursor-not-allowed", children: isUnlocking ? (_jsxs(_Fragment, { children: [_jsx(Loader2, { className: "w-5 h-5 animate-spin" }), "Unlocking..."] })) : ('Unlock') })] })] }) }) }));
+}
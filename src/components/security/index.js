@@ -0,0 +1,4 @@
+/**
+ * VORTEX Protocol - Security Module
+ */
+export { UnlockScreen } from './UnlockScreen';
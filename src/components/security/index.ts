@@ -0,0 +1,5 @@
+/**
+ * VORTEX Protocol - Security Module
+ */
+
+export { UnlockScreen } from './UnlockScreen';
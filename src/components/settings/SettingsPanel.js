@@ -5,13 +5,16 @@ import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-run
  */
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Sun, Moon, Monitor, Palette, Bell, Lock, Shield, HardDrive, Info, Trash2, Download, ChevronRight, Check, User, Camera, Copy, Fingerprint, } from 'lucide-react';
+import { Sun, Moon, Monitor, Palette, Bell, Lock, Shield, HardDrive, Info, Trash2, Download, ChevronRight, Check, User, Camera, Copy, Fingerprint, Laptop, Link2, Loader2, Key, FolderOpen, RefreshCw, } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { cn } from '../../lib/utils';
-import { useSettingsStore } from '../../stores';
-import { identityService } from '../../services/identity';
-import { db } from '../../services/database';
+import { useSettingsStore, useChatStore } from '../../stores';
+import { identityService, keyMaintenanceService } from '../../services/identity';
+import { deviceService } from '../../services/devices';
+import { db, MIN_STANDALONE_PASSPHRASE_LENGTH } from '../../services/database';
 import { securityService } from '../../services/security';
 import { notificationService } from '../../services/notifications';
+import { backupService, BACKUP_FILE_EXTENSION } from '../../services/backup';
 import toast from 'react-hot-toast';
 export function SettingsPanel() {
     const [activeTab, setActiveTab] = useState('appearance');
@@ -19,13 +22,14 @@ export function SettingsPanel() {
         { id: 'profile', icon: User, label: 'Profile' },
         { id: 'appearance', icon: Palette, label: 'Appearance' },
         { id: 'privacy', icon: Lock, label: 'Privacy & Security' },
+        { id: 'devices', icon: Laptop, label: 'Devices' },
         { id: 'notifications', icon: Bell, label: 'Notifications' },
         { id: 'storage', icon: HardDrive, label: 'Storage' },
         { id: 'about', icon: Info, label: 'About' },
     ];
     return (_jsxs("div", { className: "flex-1 flex h-full", children: [_jsxs("div", { className: "w-56 border-r border-border bg-surface-1 p-2", children: [_jsx("h2", { className: "px-3 py-2 text-lg font-semibold text-text-primary", children: "Settings" }), _jsx("nav", { className: "space-y-1", children: tabs.map((tab) => (_jsxs("button", { onClick: () => setActiveTab(tab.id), className: cn('w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors', activeTab === tab.id
                                 ? 'bg-primary text-white'
-                                : 'text-text-secondary hover:bg-surface-3 hover:text-text-primary'), children: [_jsx(tab.icon, { size: 18 }), _jsx("span", { children: tab.label })] }, tab.id))) })] }), _jsxs("div", { className: "flex-1 overflow-y-auto p-6", children: [activeTab === 'profile' && _jsx(ProfileSettings, {}), activeTab === 'appearance' && _jsx(AppearanceSettings, {}), activeTab === 'privacy' && _jsx(PrivacySettings, {}), activeTab === 'notifications' && _jsx(NotificationSettings, {}), activeTab === 'storage' && _jsx(StorageSettings, {}), activeTab === 'about' && _jsx(AboutSettings, {})] })] }));
+                                : 'text-text-secondary hover:bg-surface-3 hover:text-text-primary'), children: [_jsx(tab.icon, { size: 18 }), _jsx("span", { children: tab.label })] }, tab.id))) })] }), _jsxs("div", { className: "flex-1 overflow-y-auto p-6", children: [activeTab === 'profile' && _jsx(ProfileSettings, {}), activeTab === 'appearance' && _jsx(AppearanceSettings, {}), activeTab === 'privacy' && _jsx(PrivacySettings, {}), activeTab === 'devices' && _jsx(DeviceSettings, {}), activeTab === 'notifications' && _jsx(NotificationSettings, {}), activeTab === 'storage' && _jsx(StorageSettings, {}), activeTab === 'about' && _jsx(AboutSettings, {})] })] }));
 }
 function ProfileSettings() {
     const [displayName, setDisplayName] = useState('');
@@ -148,6 +152,9 @@ function PrivacySettings() {
     const [pin, setPin] = useState('');
     const [confirmPin, setConfirmPin] = useState('');
     const [pinError, setPinError] = useState('');
+    // Without OS secure storage the lock secret alone protects the database
+    const passphraseRequired = !db.hasSecureStorage();
+    const toLockSecret = (value) => passphraseRequired ? value : value.replace(/\D/g, '');
     // Sync with security service
     useEffect(() => {
         const settings = securityService.getSettings();
@@ -170,12 +177,16 @@ function PrivacySettings() {
         db.setSetting('privacy_lock_timeout', timeout.toString());
     };
     const handleSetPin = async () => {
+        if (passphraseRequired && pin.length < MIN_STANDALONE_PASSPHRASE_LENGTH) {
+            setPinError(`Passphrase must be at least ${MIN_STANDALONE_PASSPHRASE_LENGTH} characters`);
+            return;
+        }
         if (pin.length < 4) {
             setPinError('PIN must be at least 4 digits');
             return;
         }
         if (pin !== confirmPin) {
-            setPinError('PINs do not match');
+            setPinError(passphraseRequired ? 'Passphrases do not match' : 'PINs do not match');
             return;
         }
         try {
@@ -187,19 +198,158 @@ function PrivacySettings() {
             toast.success('PIN set successfully');
         }
         catch (error) {
-            setPinError('Failed to set PIN');
+            setPinError(error instanceof Error ? error.message : 'Failed to set PIN');
         }
     };
     const handlePrivacyToggle = (key, value) => {
         updatePrivacy({ [key]: value });
         db.setSetting(`privacy_${key}`, value ? 'true' : 'false');
     };
-    return (_jsx(SettingsSection, { title: "Privacy & Security", description: "Control your privacy settings", children: _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { className: "flex items-center gap-3 p-4 rounded-xl bg-success/10 border border-success/20", children: [_jsx(Shield, { className: "w-8 h-8 text-success" }), _jsxs("div", { children: [_jsx("p", { className: "font-medium text-text-primary", children: "End-to-End Encryption" }), _jsx("p", { className: "text-sm text-text-secondary", children: "All messages are encrypted with Signal Protocol" })] })] }), _jsx(SettingsToggle, { label: "Show Online Status", description: "Let others see when you're online", checked: privacy.showOnlineStatus, onChange: (v) => handlePrivacyToggle('showOnlineStatus', v) }), _jsx(SettingsToggle, { label: "Show Last Seen", description: "Let others see when you were last active", checked: privacy.showLastSeen, onChange: (v) => handlePrivacyToggle('showLastSeen', v) }), _jsx(SettingsToggle, { label: "Read Receipts", description: "Let others know when you've read their messages", checked: privacy.showReadReceipts, onChange: (v) => handlePrivacyToggle('showReadReceipts', v) }), _jsx(SettingsToggle, { label: "Typing Indicators", description: "Let others see when you're typing", checked: privacy.showTypingIndicators, onChange: (v) => handlePrivacyToggle('showTypingIndicators', v) }), _jsx(SettingsToggle, { label: "Auto-Lock", description: "Lock app after period of inactivity", checked: privacy.autoLockEnabled, onChange: handleAutoLockChange }), privacy.autoLockEnabled && (_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Lock after (minutes)" }), _jsxs("select", { value: privacy.autoLockTimeout, onChange: (e) => handleTimeoutChange(Number(e.target.value)), className: "w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary", children: [_jsx("option", { value: 1, children: "1 minute" }), _jsx("option", { value: 5, children: "5 minutes" }), _jsx("option", { value: 15, children: "15 minutes" }), _jsx("option", { value: 30, children: "30 minutes" }), _jsx("option", { value: 60, children: "1 hour" })] })] })), showPinSetup && (_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border space-y-4", children: [_jsx("h4", { className: "font-medium text-text-primary", children: "Set up PIN" }), _jsx("input", { type: "password", placeholder: "Enter PIN (min 4 digits)", value: pin, onChange: (e) => setPin(e.target.value.replace(/\D/g, '')), maxLength: 8, className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), _jsx("input", { type: "password", placeholder: "Confirm PIN", value: confirmPin, onChange: (e) => setConfirmPin(e.target.value.replace(/\D/g, '')), maxLength: 8, className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), pinError && _jsx("p", { className: "text-sm text-danger", children: pinError }), _jsxs("div", { className: "flex gap-2", children: [_jsx("button", { onClick: () => {
+    return (_jsx(SettingsSection, { title: "Privacy & Security", description: "Control your privacy settings", children: _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { className: "flex items-center gap-3 p-4 rounded-xl bg-success/10 border border-success/20", children: [_jsx(Shield, { className: "w-8 h-8 text-success" }), _jsxs("div", { children: [_jsx("p", { className: "font-medium text-text-primary", children: "End-to-End Encryption" }), _jsx("p", { className: "text-sm text-text-secondary", children: "All messages are encrypted with Signal Protocol" })] })] }), _jsx(SettingsToggle, { label: "Show Online Status", description: "Let others see when you're online", checked: privacy.showOnlineStatus, onChange: (v) => handlePrivacyToggle('showOnlineStatus', v) }), _jsx(SettingsToggle, { label: "Show Last Seen", description: "Let others see when you were last active", checked: privacy.showLastSeen, onChange: (v) => handlePrivacyToggle('showLastSeen', v) }), _jsx(SettingsToggle, { label: "Read Receipts", description: "Let others know when you've read their messages", checked: privacy.showReadReceipts, onChange: (v) => handlePrivacyToggle('showReadReceipts', v) }), _jsx(SettingsToggle, { label: "Typing Indicators", description: "Let others see when you're typing", checked: privacy.showTypingIndicators, onChange: (v) => handlePrivacyToggle('showTypingIndicators', v) }), _jsx(SettingsToggle, { label: "Auto-Lock", description: "Lock app after period of inactivity", checked: privacy.autoLockEnabled, onChange: handleAutoLockChange }), privacy.autoLockEnabled && (_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Lock after (minutes)" }), _jsxs("select", { value: privacy.autoLockTimeout, onChange: (e) => handleTimeoutChange(Number(e.target.value)), className: "w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary", children: [_jsx("option", { value: 1, children: "1 minute" }), _jsx("option", { value: 5, children: "5 minutes" }), _jsx("option", { value: 15, children: "15 minutes" }), _jsx("option", { value: 30, children: "30 minutes" }), _jsx("option", { value: 60, children: "1 hour" })] })] })), showPinSetup && (_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border space-y-4", children: [_jsx("h4", { className: "font-medium text-text-primary", children: passphraseRequired ? 'Set up passphrase' : 'Set up PIN' }), passphraseRequired && (_jsx("p", { className: "text-xs text-text-muted", children: "This device has no secure key storage, so the passphrase alone protects your messages." })), _jsx("input", { type: "password", placeholder: passphraseRequired
+                                ? `Enter passphrase (min ${MIN_STANDALONE_PASSPHRASE_LENGTH} characters)`
+                                : 'Enter PIN (min 4 digits)', value: pin, onChange: (e) => setPin(toLockSecret(e.target.value)), maxLength: passphraseRequired ? undefined : 8, className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), _jsx("input", { type: "password", placeholder: passphraseRequired ? 'Confirm passphrase' : 'Confirm PIN', value: confirmPin, onChange: (e) => setConfirmPin(toLockSecret(e.target.value)), maxLength: passphraseRequired ? undefined : 8, className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), pinError && _jsx("p", { className: "text-sm text-danger", children: pinError }), _jsxs("div", { className: "flex gap-2", children: [_jsx("button", { onClick: () => {
                                         setShowPinSetup(false);
                                         setPin('');
                                         setConfirmPin('');
                                         updatePrivacy({ autoLockEnabled: false });
-                                    }, className: "flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4", children: "Cancel" }), _jsx("button", { onClick: handleSetPin, className: "flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover", children: "Set PIN" })] })] }))] }) }));
+                                    }, className: "flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4", children: "Cancel" }), _jsx("button", { onClick: handleSetPin, className: "flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover", children: passphraseRequired ? 'Set Passphrase' : 'Set PIN' })] })] })), _jsx(PreKeySettings, {})] }) }));
+}
+const KEY_EVENT_LOG_LIMIT = 20;
+function describeKeyEvent(event) {
+    switch (event.type) {
+        case 'signed-prekey-rotated':
+            return `Signed pre-key ${event.keyId} created`;
+        case 'signed-prekey-expired':
+            return `Signed pre-key ${event.keyId} discarded`;
+        case 'prekeys-replenished':
+            return `${event.count} one-time pre-keys generated`;
+    }
+}
+function PreKeySettings() {
+    const [settings, setSettings] = useState(() => keyMaintenanceService.getSettings());
+    const [events, setEvents] = useState([]);
+    const [isRotating, setIsRotating] = useState(false);
+    useEffect(() => {
+        const refresh = () => setEvents(keyMaintenanceService.getKeyEvents(KEY_EVENT_LOG_LIMIT));
+        const handleSettingsChanged = (updated) => setSettings(updated);
+        refresh();
+        keyMaintenanceService.on('key-event', refresh);
+        keyMaintenanceService.on('settings-changed', handleSettingsChanged);
+        return () => {
+            keyMaintenanceService.off('key-event', refresh);
+            keyMaintenanceService.off('settings-changed', handleSettingsChanged);
+        };
+    }, []);
+    const handleChange = async (updates) => {
+        try {
+            await keyMaintenanceService.updateSettings(updates);
+        }
+        catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update key settings');
+        }
+    };
+    const handleRotate = async () => {
+        setIsRotating(true);
+        try {
+            await keyMaintenanceService.rotateSignedPreKey();
+            toast.success('Signed pre-key rotated');
+        }
+        catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Rotation failed');
+        }
+        finally {
+            setIsRotating(false);
+        }
+    };
+    const selectClassName = 'w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary';
+    return (_jsxs("div", { className: "pt-6 border-t border-border space-y-4", children: [_jsxs("div", { children: [_jsx("h3", { className: "font-medium text-text-primary", children: "Encryption Keys" }), _jsx("p", { className: "text-sm text-text-secondary", children: "Pre-keys let contacts start encrypted sessions with you while you are offline" })] }), _jsxs("div", { className: "grid grid-cols-2 gap-4", children: [_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Rotate signed pre-key every" }), _jsx("select", { value: settings.signedPreKeyRotationInterval, onChange: (e) => handleChange({ signedPreKeyRotationInterval: Number(e.target.value) }), className: selectClassName, children: [1, 7, 14, 30].map(value => (_jsx("option", { value: value, disabled: value < settings.signedPreKeyGracePeriod, children: value === 1 ? '1 day' : `${value} days` }, value))) })] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Keep retired ones for" }), _jsx("select", { value: settings.signedPreKeyGracePeriod, onChange: (e) => handleChange({ signedPreKeyGracePeriod: Number(e.target.value) }), className: selectClassName, children: [1, 7, 14].map(value => (_jsx("option", { value: value, disabled: value > settings.signedPreKeyRotationInterval, children: value === 1 ? '1 day' : `${value} days` }, value))) })] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Top up one-time pre-keys below" }), _jsx("select", { value: settings.preKeyLowThreshold, onChange: (e) => handleChange({ preKeyLowThreshold: Number(e.target.value) }), className: selectClassName, children: [10, 20, 50].map(value => (_jsx("option", { value: value, disabled: value >= settings.preKeyTarget, children: value }, value))) })] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Up to" }), _jsx("select", { value: settings.preKeyTarget, onChange: (e) => handleChange({ preKeyTarget: Number(e.target.value) }), className: selectClassName, children: [50, 100, 200].map(value => (_jsx("option", { value: value, disabled: value <= settings.preKeyLowThreshold, children: value }, value))) })] })] }), _jsxs("button", { onClick: handleRotate, disabled: isRotating, className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors disabled:opacity-50", children: [_jsx("span", { children: "Rotate Signed Pre-Key Now" }), isRotating ? _jsx(Loader2, { size: 18, className: "animate-spin" }) : _jsx(RefreshCw, { size: 18 })] }), _jsxs("div", { children: [_jsx("p", { className: "text-sm font-medium text-text-primary mb-2", children: "Recent key changes" }), events.length === 0 ? (_jsx("p", { className: "text-sm text-text-muted", children: "No key changes yet" })) : (_jsx("div", { className: "rounded-lg bg-surface-2 border border-border divide-y divide-border", children: events.map((event, index) => (_jsxs("div", { className: "flex items-center justify-between px-4 py-2 text-sm", children: [_jsx("span", { className: "text-text-primary", children: describeKeyEvent(event) }), _jsx("span", { className: "text-xs text-text-secondary", children: new Date(event.createdAt).toLocaleString() })] }, event.id ?? index))) }))] })] }));
+}
+function DeviceSettings() {
+    const isPrimary = identityService.isPrimaryDevice();
+    const [devices, setDevices] = useState([]);
+    const [linkCode, setLinkCode] = useState(null);
+    const [pendingLink, setPendingLink] = useState(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [revokeTarget, setRevokeTarget] = useState(null);
+    useEffect(() => {
+        setDevices(deviceService.getDevices());
+        const handleDevicesChanged = (list) => setDevices(list);
+        const handleLinkRequested = (link) => setPendingLink(link);
+        deviceService.on('devices-changed', handleDevicesChanged);
+        deviceService.on('link-requested', handleLinkRequested);
+        return () => {
+            deviceService.off('devices-changed', handleDevicesChanged);
+            deviceService.off('link-requested', handleLinkRequested);
+            deviceService.cancelLinking();
+        };
+    }, []);
+    const handleStartLinking = async () => {
+        setIsWorking(true);
+        try {
+            setLinkCode(await deviceService.startLinking());
+            setPendingLink(null);
+        }
+        catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Could not start linking');
+        }
+        finally {
+            setIsWorking(false);
+        }
+    };
+    const handleCancelLinking = () => {
+        deviceService.cancelLinking();
+        setLinkCode(null);
+        setPendingLink(null);
+    };
+    const handleApprove = async () => {
+        setIsWorking(true);
+        try {
+            const device = await deviceService.approveLink();
+            toast.success(`${device.name} linked`);
+            setLinkCode(null);
+            setPendingLink(null);
+        }
+        catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Linking failed');
+        }
+        finally {
+            setIsWorking(false);
+        }
+    };
+    const handleCopyCode = async () => {
+        if (!linkCode)
+            return;
+        try {
+            await navigator.clipboard.writeText(linkCode);
+            toast.success('Linking code copied');
+        }
+        catch {
+            toast.error('Failed to copy');
+        }
+    };
+    const handleRevoke = async () => {
+        if (!revokeTarget)
+            return;
+        setIsWorking(true);
+        try {
+            await deviceService.revokeDevice(revokeTarget.id);
+            toast.success(`${revokeTarget.name} unlinked`);
+            setRevokeTarget(null);
+        }
+        catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to unlink device');
+        }
+        finally {
+            setIsWorking(false);
+        }
+    };
+    if (!isPrimary) {
+        const device = devices[0];
+        return (_jsx(SettingsSection, { title: "Devices", description: "Devices that share your identity", children: _jsxs("div", { className: "flex items-center gap-3 p-4 rounded-xl bg-surface-2 border border-border", children: [_jsx(Laptop, { className: "w-8 h-8 text-primary" }), _jsxs("div", { children: [_jsxs("p", { className: "font-medium text-text-primary", children: [device ? device.name : 'This device', " (device ", identityService.getDeviceId(), ")"] }), _jsx("p", { className: "text-sm text-text-secondary", children: "Linked to your primary device. Devices are managed from there." })] })] }) }));
+    }
+    return (_jsx(SettingsSection, { title: "Devices", description: "Devices that share your identity", children: _jsxs("div", { className: "space-y-6", children: [_jsx("div", { className: "space-y-2", children: devices.map((device) => (_jsxs("div", { className: "flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 border border-border", children: [_jsxs("div", { className: "flex items-center gap-3", children: [_jsx(Laptop, { size: 20, className: device.revokedAt ? 'text-text-muted' : 'text-primary' }), _jsxs("div", { children: [_jsxs("p", { className: cn('font-medium', device.revokedAt ? 'text-text-muted line-through' : 'text-text-primary'), children: [device.name, device.id === identityService.getDeviceId() && (_jsx("span", { className: "ml-2 text-xs text-text-tertiary", children: "(this device)" }))] }), _jsx("p", { className: "text-xs text-text-secondary", children: device.revokedAt
+                                                    ? `Unlinked ${new Date(device.revokedAt).toLocaleDateString()}`
+                                                    : `Linked ${new Date(device.linkedAt).toLocaleDateString()}` })] })] }), device.id !== identityService.getDeviceId() && !device.revokedAt && (_jsx("button", { onClick: () => setRevokeTarget(device), className: "px-3 py-1.5 rounded-lg text-sm bg-danger/10 text-danger hover:bg-danger/20 transition-colors", children: "Unlink" }))] }, device.id))) }), !linkCode ? (_jsxs("button", { onClick: handleStartLinking, disabled: isWorking, className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors disabled:opacity-50", children: [_jsx("span", { children: "Link New Device" }), isWorking ? _jsx(Loader2, { size: 18, className: "animate-spin" }) : _jsx(Link2, { size: 18 })] })) : (_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border space-y-4", children: [!pendingLink ? (_jsxs(_Fragment, { children: [_jsx("h4", { className: "font-medium text-text-primary", children: "Link a new device" }), _jsx("p", { className: "text-sm text-text-secondary", children: "On the new device, choose \"Link to an existing device\" and scan or paste this code. It expires in 5 minutes." }), _jsx("div", { className: "flex justify-center p-4 bg-white rounded-xl", children: _jsx(QRCodeSVG, { value: linkCode, size: 200, level: "M" }) }), _jsxs("button", { onClick: handleCopyCode, className: "w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4", children: [_jsx(Copy, { size: 16 }), "Copy Code"] })] })) : (_jsxs(_Fragment, { children: [_jsxs("h4", { className: "font-medium text-text-primary", children: ["Link \"", pendingLink.deviceName, "\"?"] }), _jsx("p", { className: "text-sm text-text-secondary", children: "This device will get your identity and receive your messages. Only approve a device you just set up yourself." })] })), _jsxs("div", { className: "flex gap-2", children: [_jsx("button", { onClick: handleCancelLinking, disabled: isWorking, className: "flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50", children: "Cancel" }), pendingLink && (_jsx("button", { onClick: handleApprove, disabled: isWorking, className: "flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50", children: isWorking ? 'Linking...' : 'Approve' }))] })] })), revokeTarget && (_jsx("div", { className: "fixed inset-0 bg-black/50 flex items-center justify-center z-50", children: _jsxs("div", { className: "bg-surface-1 rounded-xl border border-border p-6 max-w-md w-full mx-4", children: [_jsxs("h3", { className: "text-lg font-bold text-text-primary mb-2", children: ["Unlink ", revokeTarget.name, "?"] }), _jsx("p", { className: "text-text-secondary mb-6", children: "The device will stop receiving your messages and its copy of your identity will be deleted." }), _jsxs("div", { className: "flex gap-3", children: [_jsx("button", { onClick: () => setRevokeTarget(null), disabled: isWorking, className: "flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50", children: "Cancel" }), _jsx("button", { onClick: handleRevoke, disabled: isWorking, className: "flex-1 px-4 py-2 rounded-lg bg-danger text-white hover:bg-danger/80 disabled:opacity-50", children: isWorking ? 'Unlinking...' : 'Unlink' })] })] }) }))] }) }));
 }
 function NotificationSettings() {
     const { notifications, updateNotifications } = useSettingsStore();
@@ -285,6 +435,7 @@ function StorageSettings() {
             conversations.forEach(conv => {
                 db.deleteConversation(conv.id);
             });
+            useChatStore.getState().loadConversations();
             toast.success('All messages cleared');
             setShowDeleteConfirm(null);
             calculateStorageUsage();
@@ -321,10 +472,161 @@ function StorageSettings() {
         }
     };
     const usagePercent = Math.min(100, (storageSize.used / storageSize.total) * 100);
-    return (_jsx(SettingsSection, { title: "Storage", description: "Manage local data and storage", children: _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border", children: [_jsxs("div", { className: "flex justify-between mb-2", children: [_jsx("span", { className: "text-text-secondary", children: "Storage Used" }), _jsxs("span", { className: "text-text-primary font-medium", children: [formatBytes(storageSize.used), " / ", formatBytes(storageSize.total)] })] }), _jsx("div", { className: "w-full h-2 bg-surface-3 rounded-full overflow-hidden", children: _jsx("div", { className: cn("h-full rounded-full transition-all", usagePercent > 80 ? 'bg-danger' : usagePercent > 50 ? 'bg-warning' : 'bg-primary'), style: { width: `${usagePercent}%` } }) })] }), _jsx(SettingsToggle, { label: "Encrypt Local Storage", description: "Encrypt all local data (already encrypted)", checked: storage.encryptLocalStorage, onChange: (v) => handleStorageToggle('encryptLocalStorage', v) }), _jsx(SettingsToggle, { label: "Clear on Exit", description: "Delete all data when closing the app", checked: storage.clearCacheOnExit, onChange: (v) => handleStorageToggle('clearCacheOnExit', v) }), _jsxs("div", { className: "pt-4 border-t border-border", children: [_jsx("h4", { className: "text-sm font-medium text-text-primary mb-3", children: "Backup" }), _jsxs("button", { onClick: handleExportData, className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors", children: [_jsx("span", { children: "Export Backup" }), _jsx(Download, { size: 18 })] })] }), _jsxs("div", { className: "pt-4 border-t border-border", children: [_jsx("h4", { className: "text-sm font-medium text-danger mb-3", children: "Danger Zone" }), _jsxs("div", { className: "space-y-2", children: [_jsxs("button", { onClick: () => setShowDeleteConfirm('messages'), className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-danger/10 text-danger hover:bg-danger/20 transition-colors", children: [_jsx("span", { children: "Clear All Messages" }), _jsx(Trash2, { size: 18 })] }), _jsxs("button", { onClick: () => setShowDeleteConfirm('all'), className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-danger/10 text-danger hover:bg-danger/20 transition-colors", children: [_jsx("span", { children: "Delete All Data" }), _jsx(Trash2, { size: 18 })] })] })] }), showDeleteConfirm && (_jsx("div", { className: "fixed inset-0 bg-black/50 flex items-center justify-center z-50", children: _jsxs("div", { className: "bg-surface-1 rounded-xl border border-border p-6 max-w-md w-full mx-4", children: [_jsx("h3", { className: "text-lg font-bold text-text-primary mb-2", children: showDeleteConfirm === 'messages' ? 'Clear All Messages?' : 'Delete All Data?' }), _jsx("p", { className: "text-text-secondary mb-6", children: showDeleteConfirm === 'messages'
+    return (_jsx(SettingsSection, { title: "Storage", description: "Manage local data and storage", children: _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border", children: [_jsxs("div", { className: "flex justify-between mb-2", children: [_jsx("span", { className: "text-text-secondary", children: "Storage Used" }), _jsxs("span", { className: "text-text-primary font-medium", children: [formatBytes(storageSize.used), " / ", formatBytes(storageSize.total)] })] }), _jsx("div", { className: "w-full h-2 bg-surface-3 rounded-full overflow-hidden", children: _jsx("div", { className: cn("h-full rounded-full transition-all", usagePercent > 80 ? 'bg-danger' : usagePercent > 50 ? 'bg-warning' : 'bg-primary'), style: { width: `${usagePercent}%` } }) })] }), _jsx(SettingsToggle, { label: "Encrypt Local Storage", description: "Encrypt all local data (already encrypted)", checked: storage.encryptLocalStorage, onChange: (v) => handleStorageToggle('encryptLocalStorage', v) }), _jsx(SettingsToggle, { label: "Clear on Exit", description: "Delete all data when closing the app", checked: storage.clearCacheOnExit, onChange: (v) => handleStorageToggle('clearCacheOnExit', v) }), _jsxs("div", { className: "pt-4 border-t border-border", children: [_jsx("h4", { className: "text-sm font-medium text-text-primary mb-3", children: "Backup" }), _jsx(AccountBackupSettings, {}), _jsxs("div", { className: "space-y-2 mt-4", children: [_jsxs("button", { onClick: handleExportData, className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors", children: [_jsx("span", { children: "Export Backup" }), _jsx(Download, { size: 18 })] }), _jsx(IdentityBackupExport, {})] })] }), _jsxs("div", { className: "pt-4 border-t border-border", children: [_jsx("h4", { className: "text-sm font-medium text-danger mb-3", children: "Danger Zone" }), _jsxs("div", { className: "space-y-2", children: [_jsxs("button", { onClick: () => setShowDeleteConfirm('messages'), className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-danger/10 text-danger hover:bg-danger/20 transition-colors", children: [_jsx("span", { children: "Clear All Messages" }), _jsx(Trash2, { size: 18 })] }), _jsxs("button", { onClick: () => setShowDeleteConfirm('all'), className: "w-full flex items-center justify-between px-4 py-3 rounded-lg bg-danger/10 text-danger hover:bg-danger/20 transition-colors", children: [_jsx("span", { children: "Delete All Data" }), _jsx(Trash2, { size: 18 })] })] })] }), showDeleteConfirm && (_jsx("div", { className: "fixed inset-0 bg-black/50 flex items-center justify-center z-50", children: _jsxs("div", { className: "bg-surface-1 rounded-xl border border-border p-6 max-w-md w-full mx-4", children: [_jsx("h3", { className: "text-lg font-bold text-text-primary mb-2", children: showDeleteConfirm === 'messages' ? 'Clear All Messages?' : 'Delete All Data?' }), _jsx("p", { className: "text-text-secondary mb-6", children: showDeleteConfirm === 'messages'
                                     ? 'This will permanently delete all your messages. This action cannot be undone.'
                                     : 'This will permanently delete ALL data including your identity. You will need to create a new account. This action cannot be undone.' }), _jsxs("div", { className: "flex gap-3", children: [_jsx("button", { onClick: () => setShowDeleteConfirm(null), disabled: isDeleting, className: "flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50", children: "Cancel" }), _jsx("button", { onClick: showDeleteConfirm === 'messages' ? handleClearMessages : handleDeleteAllData, disabled: isDeleting, className: "flex-1 px-4 py-2 rounded-lg bg-danger text-white hover:bg-danger/80 disabled:opacity-50", children: isDeleting ? 'Deleting...' : 'Delete' })] })] }) }))] }) }));
 }
+function AccountBackupSettings() {
+    const { storage, updateStorage } = useSettingsStore();
+    const [hasPassphrase, setHasPassphrase] = useState(() => backupService.hasPassphrase());
+    const [editingPassphrase, setEditingPassphrase] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isBackingUp, setIsBackingUp] = useState(false);
+    const canWriteToFolder = backupService.canWriteToFolder();
+    const resetPassphrase = () => {
+        setEditingPassphrase(false);
+        setPassphrase('');
+        setConfirmPassphrase('');
+        setError('');
+    };
+    const handleSavePassphrase = async () => {
+        if (passphrase.length < 8) {
+            setError('Passphrase must be at least 8 characters');
+            return;
+        }
+        if (passphrase !== confirmPassphrase) {
+            setError('Passphrases do not match');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await backupService.setPassphrase(passphrase);
+            setHasPassphrase(true);
+            toast.success('Backup passphrase set');
+            resetPassphrase();
+        }
+        catch (error) {
+            setError(error instanceof Error ? error.message : 'Failed to set passphrase');
+        }
+        finally {
+            setIsSaving(false);
+        }
+    };
+    const handleChooseFolder = async () => {
+        const folders = await window.electronAPI.fs.showOpenDialog({
+            title: 'Choose a folder for backups',
+            defaultPath: storage.backupFolder,
+            properties: ['openDirectory'],
+        });
+        if (folders?.[0])
+            updateStorage({ backupFolder: folders[0] });
+    };
+    const handleScheduleToggle = (enabled) => {
+        if (enabled && (!hasPassphrase || !storage.backupFolder)) {
+            toast.error('Set a backup passphrase and folder first');
+            return;
+        }
+        updateStorage({ backupEnabled: enabled });
+    };
+    const handleBackupNow = async () => {
+        setIsBackingUp(true);
+        try {
+            if (canWriteToFolder && storage.backupFolder) {
+                await backupService.backupToFolder(storage.backupFolder, storage.backupsRetained);
+                toast.success('Backup saved');
+                return;
+            }
+            // No folder to write to: download it instead
+            const { name, data } = await backupService.createBackup();
+            const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = name;
+            a.click();
+            URL.revokeObjectURL(url);
+            updateStorage({ lastBackup: Date.now() });
+            toast.success('Backup exported');
+        }
+        catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Backup failed');
+        }
+        finally {
+            setIsBackingUp(false);
+        }
+    };
+    return (_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border space-y-4", children: [_jsxs("div", { children: [_jsx("h4", { className: "font-medium text-text-primary", children: "Account backup" }), _jsxs("p", { className: "text-sm text-text-secondary", children: ["Your identity, contacts, messages, attachments and settings in one file (.", BACKUP_FILE_EXTENSION, "), encrypted with a backup passphrase. Restore it when setting up VORTEX on a new device."] })] }), editingPassphrase ? (_jsxs("div", { className: "space-y-3", children: [_jsx("input", { type: "password", placeholder: "Backup passphrase (min 8 characters)", value: passphrase, onChange: (e) => setPassphrase(e.target.value), className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), _jsx("input", { type: "password", placeholder: "Confirm passphrase", value: confirmPassphrase, onChange: (e) => setConfirmPassphrase(e.target.value), className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), _jsx("p", { className: "text-xs text-text-tertiary", children: "Without it, backups cannot be restored. Backups made before a change still need their old passphrase." }), error && _jsx("p", { className: "text-sm text-danger", children: error }), _jsxs("div", { className: "flex gap-2", children: [_jsx("button", { onClick: resetPassphrase, disabled: isSaving, className: "flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50", children: "Cancel" }), _jsx("button", { onClick: handleSavePassphrase, disabled: isSaving, className: "flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50", children: isSaving ? 'Saving...' : 'Save' })] })] })) : (_jsxs("div", { className: "flex items-center justify-between", children: [_jsx("span", { className: "text-sm text-text-secondary", children: hasPassphrase ? 'Backup passphrase set' : 'No backup passphrase yet' }), _jsxs("button", { onClick: () => setEditingPassphrase(true), className: "px-3 py-1.5 rounded-lg bg-surface-3 text-sm text-text-primary hover:bg-surface-4 flex items-center gap-2", children: [_jsx(Lock, { size: 14 }), hasPassphrase ? 'Change passphrase' : 'Set passphrase'] })] })), canWriteToFolder ? (_jsxs(_Fragment, { children: [_jsxs("div", { className: "flex items-center justify-between gap-3", children: [_jsx("span", { className: cn('text-sm truncate', storage.backupFolder ? 'text-text-primary' : 'text-text-muted'), children: storage.backupFolder ?? 'No backup folder chosen' }), _jsxs("button", { onClick: handleChooseFolder, className: "px-3 py-1.5 rounded-lg bg-surface-3 text-sm text-text-primary hover:bg-surface-4 flex items-center gap-2 shrink-0", children: [_jsx(FolderOpen, { size: 14 }), "Choose folder"] })] }), _jsx(SettingsToggle, { label: "Scheduled Backups", description: "Back up to this folder automatically while VORTEX is open", checked: storage.backupEnabled, onChange: handleScheduleToggle }), storage.backupEnabled && (_jsxs("div", { className: "grid grid-cols-2 gap-3", children: [_jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Frequency" }), _jsxs("select", { value: storage.backupFrequency, onChange: (e) => updateStorage({ backupFrequency: e.target.value }), className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary", children: [_jsx("option", { value: "daily", children: "Daily" }), _jsx("option", { value: "weekly", children: "Weekly" }), _jsx("option", { value: "monthly", children: "Monthly" })] })] }), _jsxs("div", { children: [_jsx("label", { className: "block text-sm font-medium text-text-primary mb-2", children: "Backups to keep" }), _jsx("select", { value: storage.backupsRetained, onChange: (e) => updateStorage({ backupsRetained: Number(e.target.value) }), className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary", children: [1, 2, 3, 5, 10, 20].map(count => (_jsx("option", { value: count, children: count }, count))) })] })] }))] })) : (_jsx("p", { className: "text-sm text-text-tertiary", children: "Scheduled backups to a folder need the desktop app." })), _jsxs("div", { className: "flex items-center justify-between", children: [_jsx("span", { className: "text-sm text-text-secondary", children: storage.lastBackup ? `Last backup ${new Date(storage.lastBackup).toLocaleString()}` : 'Never backed up' }), _jsxs("button", { onClick: handleBackupNow, disabled: !hasPassphrase || isBackingUp, className: "px-3 py-1.5 rounded-lg bg-primary text-sm text-white hover:bg-primary-hover disabled:opacity-50 flex items-center gap-2", children: [isBackingUp ? _jsx(Loader2, { size: 14, className: "animate-spin" }) : _jsx(Download, { size: 14 }), isBackingUp ? 'Backing up...' : 'Back up now'] })] })] }));
+}
+function IdentityBackupExport() {
+    const [mode, setMode] = useState(null);
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [recoveryPhrase, setRecoveryPhrase] = useState(null);
+    const [error, setError] = useState('');
+    const [isExporting, setIsExporting] = useState(false);
+    const reset = () => {
+        setMode(null);
+        setPassword('');
+        setConfirmPassword('');
+        setRecoveryPhrase(null);
+        setError('');
+    };
+    const saveBackup = (backup) => {
+        const blob = new Blob([backup], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `vortex-identity-${new Date().toISOString().split('T')[0]}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+    const handleExportWithPassword = async () => {
+        if (password.length < 8) {
+            setError('Password must be at least 8 characters');
+            return;
+        }
+        if (password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+        setIsExporting(true);
+        try {
+            saveBackup(await identityService.exportBackup(password));
+            toast.success('Identity backup exported');
+            reset();
+        }
+        catch (error) {
+            setError(error instanceof Error ? error.message : 'Failed to export backup');
+        }
+        finally {
+            setIsExporting(false);
+        }
+    };
+    const handleExportWithPhrase = async () => {
+        setMode('recovery-phrase');
+        setIsExporting(true);
+        try {
+            const { backup, recoveryPhrase } = await identityService.exportRecoveryBackup();
+            saveBackup(backup);
+            setRecoveryPhrase(recoveryPhrase);
+        }
+        catch (error) {
+            setError(error instanceof Error ? error.message : 'Failed to export backup');
+        }
+        finally {
+            setIsExporting(false);
+        }
+    };
+    if (!mode) {
+        return (_jsxs("div", { className: "grid grid-cols-2 gap-2", children: [_jsxs("button", { onClick: () => setMode('password'), className: "flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors", children: [_jsx("span", { children: "Identity Backup (Password)" }), _jsx(Lock, { size: 18 })] }), _jsxs("button", { onClick: handleExportWithPhrase, className: "flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors", children: [_jsx("span", { children: "Identity Backup (Recovery Phrase)" }), _jsx(Key, { size: 18 })] })] }));
+    }
+    if (mode === 'password') {
+        return (_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border space-y-4", children: [_jsx("h4", { className: "font-medium text-text-primary", children: "Export identity backup" }), _jsx("p", { className: "text-sm text-text-secondary", children: "The backup file is encrypted with this password. You will need both to restore your identity." }), _jsx("input", { type: "password", placeholder: "Password (min 8 characters)", value: password, onChange: (e) => setPassword(e.target.value), className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), _jsx("input", { type: "password", placeholder: "Confirm password", value: confirmPassword, onChange: (e) => setConfirmPassword(e.target.value), className: "w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary" }), error && _jsx("p", { className: "text-sm text-danger", children: error }), _jsxs("div", { className: "flex gap-2", children: [_jsx("button", { onClick: reset, disabled: isExporting, className: "flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50", children: "Cancel" }), _jsx("button", { onClick: handleExportWithPassword, disabled: isExporting, className: "flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50", children: isExporting ? 'Encrypting...' : 'Export' })] })] }));
+    }
+    return (_jsxs("div", { className: "p-4 rounded-xl bg-surface-2 border border-border space-y-4", children: [_jsx("h4", { className: "font-medium text-text-primary", children: "Your recovery phrase" }), recoveryPhrase ? (_jsxs(_Fragment, { children: [_jsx("p", { className: "text-sm text-text-secondary", children: "Write these words down in order and keep them somewhere safe. Together with the backup file you just saved, they restore your identity. They will not be shown again." }), _jsx("ol", { className: "grid grid-cols-3 gap-2", children: recoveryPhrase.split(' ').map((word, i) => (_jsxs("li", { className: "px-2 py-1.5 rounded-lg bg-surface-3 font-mono text-sm text-text-primary", children: [_jsxs("span", { className: "text-text-muted mr-2", children: [i + 1, "."] }), word] }, i))) })] })) : error ? (_jsx("p", { className: "text-sm text-danger", children: error })) : (_jsxs("div", { className: "flex items-center gap-2 text-sm text-text-secondary", children: [_jsx(Loader2, { size: 16, className: "animate-spin" }), "Generating..."] })), _jsx("button", { onClick: reset, disabled: isExporting, className: "w-full px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50", children: recoveryPhrase ? "I've written it down" : 'Close' })] }));
+}
 function AboutSettings() {
     return (_jsx(SettingsSection, { title: "About", description: "Information about VORTEX Protocol", children: _jsxs("div", { className: "space-y-6", children: [_jsxs("div", { className: "text-center py-6", children: [_jsx("div", { className: "w-20 h-20 rounded-2xl bg-gradient-to-br from-primary to-secondary mx-auto mb-4 flex items-center justify-center", children: _jsx(Shield, { className: "w-10 h-10 text-white" }) }), _jsx("h3", { className: "text-xl font-bold text-text-primary", children: "VORTEX Protocol" }), _jsx("p", { className: "text-text-secondary", children: "Version 1.0.0" })] }), _jsxs("div", { className: "space-y-3", children: [_jsx(AboutItem, { label: "Build", value: "Production" }), _jsx(AboutItem, { label: "Electron", value: "31.x" }), _jsx(AboutItem, { label: "React", value: "18.x" }), _jsx(AboutItem, { label: "Encryption", value: "Signal Protocol" })] }), _jsxs("div", { className: "pt-4 border-t border-border space-y-2", children: [_jsxs("button", { className: "w-full flex items-center justify-between px-4 py-3 rounded-lg hover:bg-surface-2 transition-colors", children: [_jsx("span", { className: "text-text-primary", children: "Privacy Policy" }), _jsx(ChevronRight, { size: 18, className: "text-text-muted" })] }), _jsxs("button", { className: "w-full flex items-center justify-between px-4 py-3 rounded-lg hover:bg-surface-2 transition-colors", children: [_jsx("span", { className: "text-text-primary", children: "Terms of Service" }), _jsx(ChevronRight, { size: 18, className: "text-text-muted" })] }), _jsxs("button", { className: "w-full flex items-center justify-between px-4 py-3 rounded-lg hover:bg-surface-2 transition-colors", children: [_jsx("span", { className: "text-text-primary", children: "Open Source Licenses" }), _jsx(ChevronRight, { size: 18, className: "text-text-muted" })] })] })] }) }));
 }
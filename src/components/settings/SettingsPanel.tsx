@@ -31,16 +31,25 @@ import {
   Camera,
   Copy,
   Fingerprint,
+  Laptop,
+  Link2,
+  Loader2,
+  Key,
+  FolderOpen,
+  RefreshCw,
 } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { cn } from '../../lib/utils';
-import { useSettingsStore, useAuthStore, type Theme } from '../../stores';
-import { identityService } from '../../services/identity';
-import { db } from '../../services/database';
+import { useSettingsStore, useAuthStore, useChatStore, type Theme } from '../../stores';
+import { identityService, keyMaintenanceService, type KeyMaintenanceSettings } from '../../services/identity';
+import { deviceService, type PendingLink } from '../../services/devices';
+import { db, MIN_STANDALONE_PASSPHRASE_LENGTH, type Device, type KeyEvent } from '../../services/database';
 import { securityService } from '../../services/security';
 import { notificationService } from '../../services/notifications';
+import { backupService, BACKUP_FILE_EXTENSION } from '../../services/backup';
 import toast from 'react-hot-toast';
 
-type SettingsTab = 'profile' | 'appearance' | 'privacy' | 'notifications' | 'storage' | 'about';
+type SettingsTab = 'profile' | 'appearance' | 'privacy' | 'devices' | 'notifications' | 'storage' | 'about';
 
 export function SettingsPanel() {
   const [activeTab, setActiveTab] = useState<SettingsTab>('appearance');
@@ -49,6 +58,7 @@ export function SettingsPanel() {
     { id: 'profile' as const, icon: User, label: 'Profile' },
     { id: 'appearance' as const, icon: Palette, label: 'Appearance' },
     { id: 'privacy' as const, icon: Lock, label: 'Privacy & Security' },
+    { id: 'devices' as const, icon: Laptop, label: 'Devices' },
     { id: 'notifications' as const, icon: Bell, label: 'Notifications' },
     { id: 'storage' as const, icon: HardDrive, label: 'Storage' },
     { id: 'about' as const, icon: Info, label: 'About' },
@@ -83,6 +93,7 @@ export function SettingsPanel() {
         {activeTab === 'profile' && <ProfileSettings />}
         {activeTab === 'appearance' && <AppearanceSettings />}
         {activeTab === 'privacy' && <PrivacySettings />}
+        {activeTab === 'devices' && <DeviceSettings />}
         {activeTab === 'notifications' && <NotificationSettings />}
         {activeTab === 'storage' && <StorageSettings />}
         {activeTab === 'about' && <AboutSettings />}
@@ -426,6 +437,9 @@ function PrivacySettings() {
   const [pin, setPin] = useState('');
   const [confirmPin, setConfirmPin] = useState('');
   const [pinError, setPinError] = useState('');
+  // Without OS secure storage the lock secret alone protects the database
+  const passphraseRequired = !db.hasSecureStorage();
+  const toLockSecret = (value: string) => passphraseRequired ? value : value.replace(/\D/g, '');
 
   // Sync with security service
   useEffect(() => {
@@ -453,12 +467,16 @@ function PrivacySettings() {
   };
 
   const handleSetPin = async () => {
+    if (passphraseRequired && pin.length < MIN_STANDALONE_PASSPHRASE_LENGTH) {
+      setPinError(`Passphrase must be at least ${MIN_STANDALONE_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
     if (pin.length < 4) {
       setPinError('PIN must be at least 4 digits');
       return;
     }
     if (pin !== confirmPin) {
-      setPinError('PINs do not match');
+      setPinError(passphraseRequired ? 'Passphrases do not match' : 'PINs do not match');
       return;
     }
 
@@ -470,7 +488,7 @@ function PrivacySettings() {
       setPinError('');
       toast.success('PIN set successfully');
     } catch (error) {
-      setPinError('Failed to set PIN');
+      setPinError(error instanceof Error ? error.message : 'Failed to set PIN');
     }
   };
 
@@ -548,21 +566,28 @@ function PrivacySettings() {
         {/* PIN Setup Modal */}
         {showPinSetup && (
           <div className="p-4 rounded-xl bg-surface-2 border border-border space-y-4">
-            <h4 className="font-medium text-text-primary">Set up PIN</h4>
+            <h4 className="font-medium text-text-primary">{passphraseRequired ? 'Set up passphrase' : 'Set up PIN'}</h4>
+            {passphraseRequired && (
+              <p className="text-xs text-text-muted">
+                This device has no secure key storage, so the passphrase alone protects your messages.
+              </p>
+            )}
             <input
               type="password"
-              placeholder="Enter PIN (min 4 digits)"
+              placeholder={passphraseRequired
+                ? `Enter passphrase (min ${MIN_STANDALONE_PASSPHRASE_LENGTH} characters)`
+                : 'Enter PIN (min 4 digits)'}
               value={pin}
-              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
-              maxLength={8}
+              onChange={(e) => setPin(toLockSecret(e.target.value))}
+              maxLength={passphraseRequired ? undefined : 8}
               className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
             />
             <input
               type="password"
-              placeholder="Confirm PIN"
+              placeholder={passphraseRequired ? 'Confirm passphrase' : 'Confirm PIN'}
               value={confirmPin}
-              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
-              maxLength={8}
+              onChange={(e) => setConfirmPin(toLockSecret(e.target.value))}
+              maxLength={passphraseRequired ? undefined : 8}
               className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
             />
             {pinError && <p className="text-sm text-danger">{pinError}</p>}
@@ -582,11 +607,388 @@ function PrivacySettings() {
                 onClick={handleSetPin}
                 className="flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover"
               >
-                Set PIN
+                {passphraseRequired ? 'Set Passphrase' : 'Set PIN'}
               </button>
             </div>
           </div>
         )}
+
+        <PreKeySettings />
+      </div>
+    </SettingsSection>
+  );
+}
+
+const KEY_EVENT_LOG_LIMIT = 20;
+
+function describeKeyEvent(event: KeyEvent): string {
+  switch (event.type) {
+    case 'signed-prekey-rotated':
+      return `Signed pre-key ${event.keyId} created`;
+    case 'signed-prekey-expired':
+      return `Signed pre-key ${event.keyId} discarded`;
+    case 'prekeys-replenished':
+      return `${event.count} one-time pre-keys generated`;
+  }
+}
+
+function PreKeySettings() {
+  const [settings, setSettings] = useState<KeyMaintenanceSettings>(() => keyMaintenanceService.getSettings());
+  const [events, setEvents] = useState<KeyEvent[]>([]);
+  const [isRotating, setIsRotating] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => setEvents(keyMaintenanceService.getKeyEvents(KEY_EVENT_LOG_LIMIT));
+    const handleSettingsChanged = (updated: KeyMaintenanceSettings) => setSettings(updated);
+
+    refresh();
+    keyMaintenanceService.on('key-event', refresh);
+    keyMaintenanceService.on('settings-changed', handleSettingsChanged);
+    return () => {
+      keyMaintenanceService.off('key-event', refresh);
+      keyMaintenanceService.off('settings-changed', handleSettingsChanged);
+    };
+  }, []);
+
+  const handleChange = async (updates: Partial<KeyMaintenanceSettings>) => {
+    try {
+      await keyMaintenanceService.updateSettings(updates);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update key settings');
+    }
+  };
+
+  const handleRotate = async () => {
+    setIsRotating(true);
+    try {
+      await keyMaintenanceService.rotateSignedPreKey();
+      toast.success('Signed pre-key rotated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Rotation failed');
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const selectClassName = 'w-full px-3 py-2 rounded-lg bg-surface-2 border border-border text-text-primary';
+
+  return (
+    <div className="pt-6 border-t border-border space-y-4">
+      <div>
+        <h3 className="font-medium text-text-primary">Encryption Keys</h3>
+        <p className="text-sm text-text-secondary">
+          Pre-keys let contacts start encrypted sessions with you while you are offline
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">Rotate signed pre-key every</label>
+          <select
+            value={settings.signedPreKeyRotationInterval}
+            onChange={(e) => handleChange({ signedPreKeyRotationInterval: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {[1, 7, 14, 30].map(value => (
+              <option key={value} value={value} disabled={value < settings.signedPreKeyGracePeriod}>
+                {value === 1 ? '1 day' : `${value} days`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">Keep retired ones for</label>
+          <select
+            value={settings.signedPreKeyGracePeriod}
+            onChange={(e) => handleChange({ signedPreKeyGracePeriod: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {[1, 7, 14].map(value => (
+              <option key={value} value={value} disabled={value > settings.signedPreKeyRotationInterval}>
+                {value === 1 ? '1 day' : `${value} days`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">Top up one-time pre-keys below</label>
+          <select
+            value={settings.preKeyLowThreshold}
+            onChange={(e) => handleChange({ preKeyLowThreshold: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {[10, 20, 50].map(value => (
+              <option key={value} value={value} disabled={value >= settings.preKeyTarget}>{value}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">Up to</label>
+          <select
+            value={settings.preKeyTarget}
+            onChange={(e) => handleChange({ preKeyTarget: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {[50, 100, 200].map(value => (
+              <option key={value} value={value} disabled={value <= settings.preKeyLowThreshold}>{value}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={handleRotate}
+        disabled={isRotating}
+        className="w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors disabled:opacity-50"
+      >
+        <span>Rotate Signed Pre-Key Now</span>
+        {isRotating ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
+      </button>
+
+      {/* Key Event Log */}
+      <div>
+        <p className="text-sm font-medium text-text-primary mb-2">Recent key changes</p>
+        {events.length === 0 ? (
+          <p className="text-sm text-text-muted">No key changes yet</p>
+        ) : (
+          <div className="rounded-lg bg-surface-2 border border-border divide-y divide-border">
+            {events.map((event, index) => (
+              <div key={event.id ?? index} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="text-text-primary">{describeKeyEvent(event)}</span>
+                <span className="text-xs text-text-secondary">{new Date(event.createdAt).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DeviceSettings() {
+  const isPrimary = identityService.isPrimaryDevice();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [linkCode, setLinkCode] = useState<string | null>(null);
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<Device | null>(null);
+
+  useEffect(() => {
+    setDevices(deviceService.getDevices());
+
+    const handleDevicesChanged = (list: Device[]) => setDevices(list);
+    const handleLinkRequested = (link: PendingLink) => setPendingLink(link);
+
+    deviceService.on('devices-changed', handleDevicesChanged);
+    deviceService.on('link-requested', handleLinkRequested);
+
+    return () => {
+      deviceService.off('devices-changed', handleDevicesChanged);
+      deviceService.off('link-requested', handleLinkRequested);
+      deviceService.cancelLinking();
+    };
+  }, []);
+
+  const handleStartLinking = async () => {
+    setIsWorking(true);
+    try {
+      setLinkCode(await deviceService.startLinking());
+      setPendingLink(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start linking');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancelLinking = () => {
+    deviceService.cancelLinking();
+    setLinkCode(null);
+    setPendingLink(null);
+  };
+
+  const handleApprove = async () => {
+    setIsWorking(true);
+    try {
+      const device = await deviceService.approveLink();
+      toast.success(`${device.name} linked`);
+      setLinkCode(null);
+      setPendingLink(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Linking failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopyCode = async () => {
+    if (!linkCode) return;
+    try {
+      await navigator.clipboard.writeText(linkCode);
+      toast.success('Linking code copied');
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+
+    setIsWorking(true);
+    try {
+      await deviceService.revokeDevice(revokeTarget.id);
+      toast.success(`${revokeTarget.name} unlinked`);
+      setRevokeTarget(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unlink device');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isPrimary) {
+    const device = devices[0];
+    return (
+      <SettingsSection title="Devices" description="Devices that share your identity">
+        <div className="flex items-center gap-3 p-4 rounded-xl bg-surface-2 border border-border">
+          <Laptop className="w-8 h-8 text-primary" />
+          <div>
+            <p className="font-medium text-text-primary">
+              {device ? device.name : 'This device'} (device {identityService.getDeviceId()})
+            </p>
+            <p className="text-sm text-text-secondary">
+              Linked to your primary device. Devices are managed from there.
+            </p>
+          </div>
+        </div>
+      </SettingsSection>
+    );
+  }
+
+  return (
+    <SettingsSection title="Devices" description="Devices that share your identity">
+      <div className="space-y-6">
+        {/* Device List */}
+        <div className="space-y-2">
+          {devices.map((device) => (
+            <div
+              key={device.id}
+              className="flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 border border-border"
+            >
+              <div className="flex items-center gap-3">
+                <Laptop size={20} className={device.revokedAt ? 'text-text-muted' : 'text-primary'} />
+                <div>
+                  <p className={cn('font-medium', device.revokedAt ? 'text-text-muted line-through' : 'text-text-primary')}>
+                    {device.name}
+                    {device.id === identityService.getDeviceId() && (
+                      <span className="ml-2 text-xs text-text-tertiary">(this device)</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-text-secondary">
+                    {device.revokedAt
+                      ? `Unlinked ${new Date(device.revokedAt).toLocaleDateString()}`
+                      : `Linked ${new Date(device.linkedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              </div>
+              {device.id !== identityService.getDeviceId() && !device.revokedAt && (
+                <button
+                  onClick={() => setRevokeTarget(device)}
+                  className="px-3 py-1.5 rounded-lg text-sm bg-danger/10 text-danger hover:bg-danger/20 transition-colors"
+                >
+                  Unlink
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Linking */}
+        {!linkCode ? (
+          <button
+            onClick={handleStartLinking}
+            disabled={isWorking}
+            className="w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors disabled:opacity-50"
+          >
+            <span>Link New Device</span>
+            {isWorking ? <Loader2 size={18} className="animate-spin" /> : <Link2 size={18} />}
+          </button>
+        ) : (
+          <div className="p-4 rounded-xl bg-surface-2 border border-border space-y-4">
+            {!pendingLink ? (
+              <>
+                <h4 className="font-medium text-text-primary">Link a new device</h4>
+                <p className="text-sm text-text-secondary">
+                  On the new device, choose "Link to an existing device" and scan or paste this code.
+                  It expires in 5 minutes.
+                </p>
+                <div className="flex justify-center p-4 bg-white rounded-xl">
+                  <QRCodeSVG value={linkCode} size={200} level="M" />
+                </div>
+                <button
+                  onClick={handleCopyCode}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4"
+                >
+                  <Copy size={16} />
+                  Copy Code
+                </button>
+              </>
+            ) : (
+              <>
+                <h4 className="font-medium text-text-primary">Link "{pendingLink.deviceName}"?</h4>
+                <p className="text-sm text-text-secondary">
+                  This device will get your identity and receive your messages. Only approve a device you just set up yourself.
+                </p>
+              </>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={handleCancelLinking}
+                disabled={isWorking}
+                className="flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              {pendingLink && (
+                <button
+                  onClick={handleApprove}
+                  disabled={isWorking}
+                  className="flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50"
+                >
+                  {isWorking ? 'Linking...' : 'Approve'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Unlink Confirmation Modal */}
+        {revokeTarget && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-surface-1 rounded-xl border border-border p-6 max-w-md w-full mx-4">
+              <h3 className="text-lg font-bold text-text-primary mb-2">Unlink {revokeTarget.name}?</h3>
+              <p className="text-text-secondary mb-6">
+                The device will stop receiving your messages and its copy of your identity will be deleted.
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setRevokeTarget(null)}
+                  disabled={isWorking}
+                  className="flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRevoke}
+                  disabled={isWorking}
+                  className="flex-1 px-4 py-2 rounded-lg bg-danger text-white hover:bg-danger/80 disabled:opacity-50"
+                >
+                  {isWorking ? 'Unlinking...' : 'Unlink'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </SettingsSection>
   );
@@ -742,6 +1144,7 @@ function StorageSettings() {
       conversations.forEach(conv => {
         db.deleteConversation(conv.id);
       });
+      useChatStore.getState().loadConversations();
       
       toast.success('All messages cleared');
       setShowDeleteConfirm(null);
@@ -819,13 +1222,17 @@ function StorageSettings() {
         {/* Backup */}
         <div className="pt-4 border-t border-border">
           <h4 className="text-sm font-medium text-text-primary mb-3">Backup</h4>
-          <button
-            onClick={handleExportData}
-            className="w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors"
-          >
-            <span>Export Backup</span>
-            <Download size={18} />
-          </button>
+          <AccountBackupSettings />
+          <div className="space-y-2 mt-4">
+            <button
+              onClick={handleExportData}
+              className="w-full flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors"
+            >
+              <span>Export Backup</span>
+              <Download size={18} />
+            </button>
+            <IdentityBackupExport />
+          </div>
         </div>
 
         {/* Danger Zone */}
@@ -886,6 +1293,386 @@ function StorageSettings() {
   );
 }
 
+function AccountBackupSettings() {
+  const { storage, updateStorage } = useSettingsStore();
+  const [hasPassphrase, setHasPassphrase] = useState(() => backupService.hasPassphrase());
+  const [editingPassphrase, setEditingPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const canWriteToFolder = backupService.canWriteToFolder();
+
+  const resetPassphrase = () => {
+    setEditingPassphrase(false);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError('');
+  };
+
+  const handleSavePassphrase = async () => {
+    if (passphrase.length < 8) {
+      setError('Passphrase must be at least 8 characters');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await backupService.setPassphrase(passphrase);
+      setHasPassphrase(true);
+      toast.success('Backup passphrase set');
+      resetPassphrase();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to set passphrase');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    const folders = await window.electronAPI.fs.showOpenDialog({
+      title: 'Choose a folder for backups',
+      defaultPath: storage.backupFolder,
+      properties: ['openDirectory'],
+    });
+    if (folders?.[0]) updateStorage({ backupFolder: folders[0] });
+  };
+
+  const handleScheduleToggle = (enabled: boolean) => {
+    if (enabled && (!hasPassphrase || !storage.backupFolder)) {
+      toast.error('Set a backup passphrase and folder first');
+      return;
+    }
+    updateStorage({ backupEnabled: enabled });
+  };
+
+  const handleBackupNow = async () => {
+    setIsBackingUp(true);
+    try {
+      if (canWriteToFolder && storage.backupFolder) {
+        await backupService.backupToFolder(storage.backupFolder, storage.backupsRetained);
+        toast.success('Backup saved');
+        return;
+      }
+
+      // No folder to write to: download it instead
+      const { name, data } = await backupService.createBackup();
+      const url = URL.createObjectURL(new Blob([data as BlobPart], { type: 'application/octet-stream' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+      updateStorage({ lastBackup: Date.now() });
+      toast.success('Backup exported');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Backup failed');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-surface-2 border border-border space-y-4">
+      <div>
+        <h4 className="font-medium text-text-primary">Account backup</h4>
+        <p className="text-sm text-text-secondary">
+          Your identity, contacts, messages, attachments and settings in one file (.{BACKUP_FILE_EXTENSION}),
+          encrypted with a backup passphrase. Restore it when setting up VORTEX on a new device.
+        </p>
+      </div>
+
+      {editingPassphrase ? (
+        <div className="space-y-3">
+          <input
+            type="password"
+            placeholder="Backup passphrase (min 8 characters)"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
+          />
+          <input
+            type="password"
+            placeholder="Confirm passphrase"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
+          />
+          <p className="text-xs text-text-tertiary">
+            Without it, backups cannot be restored. Backups made before a change still need their old passphrase.
+          </p>
+          {error && <p className="text-sm text-danger">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={resetPassphrase}
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSavePassphrase}
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-text-secondary">
+            {hasPassphrase ? 'Backup passphrase set' : 'No backup passphrase yet'}
+          </span>
+          <button
+            onClick={() => setEditingPassphrase(true)}
+            className="px-3 py-1.5 rounded-lg bg-surface-3 text-sm text-text-primary hover:bg-surface-4 flex items-center gap-2"
+          >
+            <Lock size={14} />
+            {hasPassphrase ? 'Change passphrase' : 'Set passphrase'}
+          </button>
+        </div>
+      )}
+
+      {canWriteToFolder ? (
+        <>
+          <div className="flex items-center justify-between gap-3">
+            <span className={cn('text-sm truncate', storage.backupFolder ? 'text-text-primary' : 'text-text-muted')}>
+              {storage.backupFolder ?? 'No backup folder chosen'}
+            </span>
+            <button
+              onClick={handleChooseFolder}
+              className="px-3 py-1.5 rounded-lg bg-surface-3 text-sm text-text-primary hover:bg-surface-4 flex items-center gap-2 shrink-0"
+            >
+              <FolderOpen size={14} />
+              Choose folder
+            </button>
+          </div>
+
+          <SettingsToggle
+            label="Scheduled Backups"
+            description="Back up to this folder automatically while VORTEX is open"
+            checked={storage.backupEnabled}
+            onChange={handleScheduleToggle}
+          />
+
+          {storage.backupEnabled && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">Frequency</label>
+                <select
+                  value={storage.backupFrequency}
+                  onChange={(e) => updateStorage({ backupFrequency: e.target.value as typeof storage.backupFrequency })}
+                  className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">Backups to keep</label>
+                <select
+                  value={storage.backupsRetained}
+                  onChange={(e) => updateStorage({ backupsRetained: Number(e.target.value) })}
+                  className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
+                >
+                  {[1, 2, 3, 5, 10, 20].map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-text-tertiary">Scheduled backups to a folder need the desktop app.</p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-text-secondary">
+          {storage.lastBackup ? `Last backup ${new Date(storage.lastBackup).toLocaleString()}` : 'Never backed up'}
+        </span>
+        <button
+          onClick={handleBackupNow}
+          disabled={!hasPassphrase || isBackingUp}
+          className="px-3 py-1.5 rounded-lg bg-primary text-sm text-white hover:bg-primary-hover disabled:opacity-50 flex items-center gap-2"
+        >
+          {isBackingUp ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+          {isBackingUp ? 'Backing up...' : 'Back up now'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function IdentityBackupExport() {
+  const [mode, setMode] = useState<'password' | 'recovery-phrase' | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const reset = () => {
+    setMode(null);
+    setPassword('');
+    setConfirmPassword('');
+    setRecoveryPhrase(null);
+    setError('');
+  };
+
+  const saveBackup = (backup: string) => {
+    const blob = new Blob([backup], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `vortex-identity-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportWithPassword = async () => {
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      saveBackup(await identityService.exportBackup(password));
+      toast.success('Identity backup exported');
+      reset();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportWithPhrase = async () => {
+    setMode('recovery-phrase');
+    setIsExporting(true);
+    try {
+      const { backup, recoveryPhrase } = await identityService.exportRecoveryBackup();
+      saveBackup(backup);
+      setRecoveryPhrase(recoveryPhrase);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!mode) {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => setMode('password')}
+          className="flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors"
+        >
+          <span>Identity Backup (Password)</span>
+          <Lock size={18} />
+        </button>
+        <button
+          onClick={handleExportWithPhrase}
+          className="flex items-center justify-between px-4 py-3 rounded-lg bg-surface-2 text-text-primary hover:bg-surface-3 transition-colors"
+        >
+          <span>Identity Backup (Recovery Phrase)</span>
+          <Key size={18} />
+        </button>
+      </div>
+    );
+  }
+
+  if (mode === 'password') {
+    return (
+      <div className="p-4 rounded-xl bg-surface-2 border border-border space-y-4">
+        <h4 className="font-medium text-text-primary">Export identity backup</h4>
+        <p className="text-sm text-text-secondary">
+          The backup file is encrypted with this password. You will need both to restore your identity.
+        </p>
+        <input
+          type="password"
+          placeholder="Password (min 8 characters)"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
+        />
+        <input
+          type="password"
+          placeholder="Confirm password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className="w-full px-3 py-2 rounded-lg bg-surface-3 border border-border text-text-primary"
+        />
+        {error && <p className="text-sm text-danger">{error}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={reset}
+            disabled={isExporting}
+            className="flex-1 px-4 py-2 rounded-lg bg-surface-3 text-text-primary hover:bg-surface-4 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExportWithPassword}
+            disabled={isExporting}
+            className="flex-1 px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50"
+          >
+            {isExporting ? 'Encrypting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-xl bg-surface-2 border border-border space-y-4">
+      <h4 className="font-medium text-text-primary">Your recovery phrase</h4>
+      {recoveryPhrase ? (
+        <>
+          <p className="text-sm text-text-secondary">
+            Write these words down in order and keep them somewhere safe. Together with the backup file
+            you just saved, they restore your identity. They will not be shown again.
+          </p>
+          <ol className="grid grid-cols-3 gap-2">
+            {recoveryPhrase.split(' ').map((word, i) => (
+              <li key={i} className="px-2 py-1.5 rounded-lg bg-surface-3 font-mono text-sm text-text-primary">
+                <span className="text-text-muted mr-2">{i + 1}.</span>
+                {word}
+              </li>
+            ))}
+          </ol>
+        </>
+      ) : error ? (
+        <p className="text-sm text-danger">{error}</p>
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-text-secondary">
+          <Loader2 size={16} className="animate-spin" />
+          Generating...
+        </div>
+      )}
+      <button
+        onClick={reset}
+        disabled={isExporting}
+        className="w-full px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover disabled:opacity-50"
+      >
+        {recoveryPhrase ? "I've written it down" : 'Close'}
+      </button>
+    </div>
+  );
+}
+
 function AboutSettings() {
   return (
     <SettingsSection title="About" description="Information about VORTEX Protocol">
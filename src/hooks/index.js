@@ -5,4 +5,5 @@ export { useMessaging } from './useMessaging';
 export { useP2P } from './useP2P';
 export { useMedia } from './useMedia';
 export { useServiceSync } from './useServiceSync';
+export { useBackupSchedule } from './useBackupSchedule';
 export { useCall } from './useCall';
@@ -3,7 +3,8 @@
  */
 
 export { useMessaging, type UseMessagingReturn } from './useMessaging';
-export { useP2P } from './useP2P';
+export { useP2P, type PeerAuthStatus } from './useP2P';
 export { useMedia } from './useMedia';
 export { useServiceSync } from './useServiceSync';
+export { useBackupSchedule } from './useBackupSchedule';
 export { useCall } from './useCall';
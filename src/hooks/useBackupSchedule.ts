@@ -0,0 +1,48 @@
+/**
+ * VORTEX Protocol - Backup Schedule Hook
+ * Runs scheduled backups with the storage settings
+ */
+
+import { useEffect } from 'react';
+import { backupService, type BackupResult } from '../services/backup';
+import { useSettingsStore } from '../stores';
+import toast from 'react-hot-toast';
+
+/**
+ * Backups run while this is mounted, i.e. while the app is open and
+ * unlocked. It should be used once at the app level, next to
+ * useServiceSync.
+ */
+export function useBackupSchedule() {
+  const { storage, updateStorage } = useSettingsStore();
+  const { backupEnabled, backupFrequency, backupFolder, backupsRetained, lastBackup } = storage;
+
+  useEffect(() => {
+    backupService.setSchedule({
+      enabled: backupEnabled,
+      frequency: backupFrequency,
+      folder: backupFolder,
+      retain: backupsRetained,
+      lastBackup,
+    });
+
+    return () => backupService.stopSchedule();
+  }, [backupEnabled, backupFrequency, backupFolder, backupsRetained, lastBackup]);
+
+  useEffect(() => {
+    const handleCompleted = ({ createdAt }: BackupResult) => {
+      updateStorage({ lastBackup: createdAt });
+    };
+
+    const handleFailed = (error: unknown) => {
+      toast.error(`Scheduled backup failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    };
+
+    backupService.on('backup-completed', handleCompleted);
+    backupService.on('backup-failed', handleFailed);
+    return () => {
+      backupService.off('backup-completed', handleCompleted);
+      backupService.off('backup-failed', handleFailed);
+    };
+  }, [updateStorage]);
+}
@@ -2,6 +2,48 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { io } from 'socket.io-client';
 import SimplePeer from 'simple-peer';
 import { CryptoService } from '../services/CryptoService';
+import { identityService, toAddress, PRIMARY_DEVICE_ID } from '../services/identity';
+import { deviceService } from '../services/devices';
+import { db } from '../services/database';
+// What the device's identity key signs: the sender's address and ephemeral key
+function keyExchangeTranscript(address, ephemeralPub) {
+    const prefix = new TextEncoder().encode(`VORTEX_KX|${address}|`);
+    const out = new Uint8Array(prefix.length + ephemeralPub.length);
+    out.set(prefix, 0);
+    out.set(ephemeralPub, prefix.length);
+    return out;
+}
+async function authenticateKeyExchange(json) {
+    if (typeof json.id !== 'string' || typeof json.ik !== 'string' || typeof json.sig !== 'string') {
+        return { auth: 'invalid' };
+    }
+    // Older clients send no device ID and always sign as the primary
+    const deviceId = json.d === undefined ? PRIMARY_DEVICE_ID : json.d;
+    if (!Number.isInteger(deviceId) || deviceId < PRIMARY_DEVICE_ID)
+        return { auth: 'invalid' };
+    const address = toAddress(json.id, deviceId);
+    const transcript = keyExchangeTranscript(address, CryptoService.decode(json.pub));
+    if (!identityService.verify(transcript, CryptoService.decode(json.sig), json.ik)) {
+        return { auth: 'invalid' };
+    }
+    const known = db.getContact(json.id);
+    if (deviceId !== PRIMARY_DEVICE_ID) {
+        // A linked device's key must be the one its primary certified
+        if (await deviceService.getIdentityKey(address) !== json.ik) {
+            return { auth: 'mismatch', identityKey: json.ik, contactName: known?.displayName };
+        }
+        return known
+            ? { auth: 'authenticated', identityKey: json.ik, contactName: known.displayName }
+            : { auth: 'unknown', identityKey: json.ik };
+    }
+    if (known && known.identityKey !== json.ik) {
+        return { auth: 'mismatch', identityKey: json.ik, contactName: known.displayName };
+    }
+    const contact = known ?? db.getContactByIdentityKey(json.ik);
+    if (!contact)
+        return { auth: 'unknown', identityKey: json.ik };
+    return { auth: 'authenticated', identityKey: json.ik, contactName: contact.displayName };
+}
 export function useP2P(roomId, options) {
     const signalingUrl = import.meta.env?.VITE_SIGNALING_URL || 'http://localhost:8443';
     const [socket, setSocket] = useState(null);
@@ -68,7 +110,7 @@ export function useP2P(roomId, options) {
         const p = new SimplePeer({ initiator, trickle: true, config: { iceServers } });
         const role = selectRole(myIdRef.current, peerId);
         const eph = CryptoService.generateKeyPair();
-        const state = { peer: p, role, ephemeral: { pub: eph.publicKey, sec: eph.privateKey }, ready: false };
+        const state = { peer: p, role, ephemeral: { pub: eph.publicKey, sec: eph.privateKey }, ready: false, auth: 'pending' };
         peersRef.current[peerId] = state;
         setPeers({ ...peersRef.current });
         p.on('signal', (data) => {
@@ -76,11 +118,21 @@ export function useP2P(roomId, options) {
             socket?.emit('signal', payload);
         });
         p.on('connect', async () => {
-            // send ephemeral pubkey
-            const msg = {
-                t: 'key_exchange',
-                pub: CryptoService.encode(state.ephemeral.pub),
-            };
+            // send ephemeral pubkey, signed with our identity key when we have one
+            const identity = identityService.getIdentity();
+            const msg = identity
+                ? {
+                    t: 'key_exchange',
+                    pub: CryptoService.encode(state.ephemeral.pub),
+                    id: identity.id,
+                    d: identityService.getDeviceId(),
+                    ik: identityService.getDeviceKey(),
+                    sig: CryptoService.encode(identityService.sign(keyExchangeTranscript(identityService.getAddress(), state.ephemeral.pub))),
+                }
+                : {
+                    t: 'key_exchange',
+                    pub: CryptoService.encode(state.ephemeral.pub),
+                };
             p.send(JSON.stringify(msg));
             // attach media tracks if present
             if (options?.micStream) {
@@ -98,6 +150,13 @@ export function useP2P(roomId, options) {
                 const decoded = new TextDecoder().decode(raw);
                 const json = JSON.parse(decoded);
                 if (json.t === 'key_exchange') {
+                    const auth = await authenticateKeyExchange(json);
+                    Object.assign(state, auth);
+                    if (auth.auth === 'invalid') {
+                        // never derive keys from an ephemeral key nobody vouches for
+                        setPeers({ ...peersRef.current });
+                        return;
+                    }
                     const theirPub = CryptoService.decode(json.pub);
                     const { rx, tx } = CryptoService.deriveSessionKeys({ publicKey: state.ephemeral.pub, privateKey: state.ephemeral.sec }, theirPub, state.role);
                     // choose a single symmetric by hashing rx||tx
@@ -2,6 +2,9 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import SimplePeer, { Instance as Peer, SignalData } from 'simple-peer';
 import { CryptoService, Role } from '../services/CryptoService';
+import { identityService, toAddress, PRIMARY_DEVICE_ID } from '../services/identity';
+import { deviceService } from '../services/devices';
+import { db } from '../services/database';
 
 export interface ChatMessage {
   id: string;
@@ -24,12 +27,64 @@ export interface FileChunkMeta {
 
 type SignalPayload = { roomId: string; data: unknown; targetId?: string };
 
-interface PeerState {
+// pending: no key exchange yet; authenticated: signed by a known contact's key;
+// unknown: validly signed by a key we have no contact for; mismatch: signed, but
+// not with the key we know for that contact; invalid: unsigned or bad signature
+export type PeerAuthStatus = 'pending' | 'authenticated' | 'unknown' | 'mismatch' | 'invalid';
+
+export interface PeerState {
   peer: Peer;
   sessionKey?: Uint8Array; // tx/rx will be same size, we use tx for outgoing, rx for incoming depending on role
   role?: Role;
   ephemeral?: { pub: Uint8Array; sec: Uint8Array };
   ready: boolean;
+  auth: PeerAuthStatus;
+  identityKey?: string;
+  contactName?: string;
+}
+
+// What the device's identity key signs: the sender's address and ephemeral key
+function keyExchangeTranscript(address: string, ephemeralPub: Uint8Array): Uint8Array {
+  const prefix = new TextEncoder().encode(`VORTEX_KX|${address}|`);
+  const out = new Uint8Array(prefix.length + ephemeralPub.length);
+  out.set(prefix, 0); out.set(ephemeralPub, prefix.length);
+  return out;
+}
+
+async function authenticateKeyExchange(json: any): Promise<Pick<PeerState, 'auth' | 'identityKey' | 'contactName'>> {
+  if (typeof json.id !== 'string' || typeof json.ik !== 'string' || typeof json.sig !== 'string') {
+    return { auth: 'invalid' };
+  }
+
+  // Older clients send no device ID and always sign as the primary
+  const deviceId = json.d === undefined ? PRIMARY_DEVICE_ID : json.d;
+  if (!Number.isInteger(deviceId) || deviceId < PRIMARY_DEVICE_ID) return { auth: 'invalid' };
+  const address = toAddress(json.id, deviceId);
+
+  const transcript = keyExchangeTranscript(address, CryptoService.decode(json.pub));
+  if (!identityService.verify(transcript, CryptoService.decode(json.sig), json.ik)) {
+    return { auth: 'invalid' };
+  }
+
+  const known = db.getContact(json.id);
+  if (deviceId !== PRIMARY_DEVICE_ID) {
+    // A linked device's key must be the one its primary certified
+    if (await deviceService.getIdentityKey(address) !== json.ik) {
+      return { auth: 'mismatch', identityKey: json.ik, contactName: known?.displayName };
+    }
+    return known
+      ? { auth: 'authenticated', identityKey: json.ik, contactName: known.displayName }
+      : { auth: 'unknown', identityKey: json.ik };
+  }
+
+  if (known && known.identityKey !== json.ik) {
+    return { auth: 'mismatch', identityKey: json.ik, contactName: known.displayName };
+  }
+
+  const contact = known ?? db.getContactByIdentityKey(json.ik);
+  if (!contact) return { auth: 'unknown', identityKey: json.ik };
+
+  return { auth: 'authenticated', identityKey: json.ik, contactName: contact.displayName };
 }
 
 export function useP2P(
@@ -113,7 +168,7 @@ export function useP2P(
 
     const eph = CryptoService.generateKeyPair();
 
-    const state: PeerState = { peer: p, role, ephemeral: { pub: eph.publicKey, sec: eph.privateKey }, ready: false };
+    const state: PeerState = { peer: p, role, ephemeral: { pub: eph.publicKey, sec: eph.privateKey }, ready: false, auth: 'pending' };
     peersRef.current[peerId] = state;
     setPeers({ ...peersRef.current });
 
@@ -123,11 +178,21 @@ export function useP2P(
     });
 
     p.on('connect', async () => {
-      // send ephemeral pubkey
-      const msg = {
-        t: 'key_exchange' as const,
-        pub: CryptoService.encode(state.ephemeral!.pub),
-      };
+      // send ephemeral pubkey, signed with our identity key when we have one
+      const identity = identityService.getIdentity();
+      const msg = identity
+        ? {
+            t: 'key_exchange' as const,
+            pub: CryptoService.encode(state.ephemeral!.pub),
+            id: identity.id,
+            d: identityService.getDeviceId(),
+            ik: identityService.getDeviceKey(),
+            sig: CryptoService.encode(identityService.sign(keyExchangeTranscript(identityService.getAddress()!, state.ephemeral!.pub))),
+          }
+        : {
+            t: 'key_exchange' as const,
+            pub: CryptoService.encode(state.ephemeral!.pub),
+          };
       p.send(JSON.stringify(msg));
 
       // attach media tracks if present
@@ -145,6 +210,14 @@ export function useP2P(
         const decoded = new TextDecoder().decode(raw);
         const json = JSON.parse(decoded) as any;
         if (json.t === 'key_exchange') {
+          const auth = await authenticateKeyExchange(json);
+          Object.assign(state, auth);
+          if (auth.auth === 'invalid') {
+            // never derive keys from an ephemeral key nobody vouches for
+            setPeers({ ...peersRef.current });
+            return;
+          }
+
           const theirPub = CryptoService.decode(json.pub);
           const { rx, tx } = CryptoService.deriveSessionKeys(
             { publicKey: state.ephemeral!.pub, privateKey: state.ephemeral!.sec },
@@ -1,63 +1,56 @@
 /**
  * VORTEX Protocol - Service Sync Hook
- * Syncs service events with Zustand stores
+ * Refreshes the Zustand chat store from the database as services change it
  */
 import { useEffect, useCallback } from 'react';
 import { messagingService } from '../services/messaging';
 import { connectionManager } from '../services/p2p';
+import { securityService } from '../services/security';
 import { db } from '../services/database';
 import { useChatStore } from '../stores';
 import toast from 'react-hot-toast';
 /**
- * This hook syncs the messaging service events with the Zustand chat store.
+ * This hook keeps the chat store in step with the messaging service. The
+ * services write to the database; events only say what to read again.
  * It should be used once at the app level (e.g., in App.tsx or MainLayout).
  */
 export function useServiceSync() {
-    const { addMessage, updateMessage, createConversation, updateConversation, setTyping, conversations, } = useChatStore();
+    const { loadConversations, loadMessages, refreshConversation, refreshMessage, setTyping, unload, } = useChatStore();
     // Handle incoming messages
     const handleMessageReceived = useCallback((data) => {
         console.log('[ServiceSync] Message received:', data.id);
-        // Add message to store
-        addMessage({
-            conversationId: data.conversationId,
-            senderId: data.senderId,
-            type: data.type,
-            content: data.content,
-            status: 'delivered',
-            replyTo: data.replyToId,
-        });
-        // Update conversation unread count
-        updateConversation(data.conversationId, {
-            unreadCount: (conversations[data.conversationId]?.unreadCount || 0) + 1
-        });
+        refreshMessage(data.id);
+        // Already on screen, so it counts as read
+        if (useChatStore.getState().activeConversationId === data.conversationId) {
+            messagingService.markAsRead(data.conversationId, data.id);
+        }
+        refreshConversation(data.conversationId);
         // Show toast notification
         toast(data.senderName || 'New message', {
             icon: '💬',
             duration: 3000,
         });
-    }, [addMessage, updateConversation, conversations]);
-    // Handle message sent confirmation
-    const handleMessageSent = useCallback((data) => {
-        console.log('[ServiceSync] Message sent:', data.id);
-        updateMessage(data.conversationId, data.id, { status: 'sent' });
-    }, [updateMessage]);
-    // Handle delivery receipt
-    const handleMessageDelivered = useCallback(({ messageId, peerId }) => {
-        console.log('[ServiceSync] Message delivered:', messageId);
-        // Find the conversation with this message
-        const msg = db.getMessage(messageId);
-        if (msg) {
-            updateMessage(msg.conversationId, messageId, { status: 'delivered' });
-        }
-    }, [updateMessage]);
-    // Handle read receipt
-    const handleMessageRead = useCallback(({ messageId, peerId }) => {
-        console.log('[ServiceSync] Message read:', messageId);
-        const msg = db.getMessage(messageId);
-        if (msg) {
-            updateMessage(msg.conversationId, messageId, { status: 'read' });
-        }
-    }, [updateMessage]);
+    }, [refreshMessage, refreshConversation]);
+    // Handle our own messages, new or edited
+    const handleMessageSaved = useCallback((data) => {
+        console.log('[ServiceSync] Message saved:', data.id);
+        refreshMessage(data.id);
+        refreshConversation(data.conversationId);
+    }, [refreshMessage, refreshConversation]);
+    // Handle receipts, status changes and reactions
+    const handleMessageChanged = useCallback(({ messageId }) => {
+        refreshMessage(messageId);
+    }, [refreshMessage]);
+    const handleMessageDeleted = useCallback(({ conversationId, messageId }) => {
+        refreshMessage(messageId);
+        refreshConversation(conversationId);
+    }, [refreshMessage, refreshConversation]);
+    // Handle system notices (e.g. a contact's safety number changed)
+    const handleSystemMessage = useCallback((data) => {
+        refreshMessage(data.id);
+        refreshConversation(data.conversationId);
+        toast(data.content, { icon: '⚠️', duration: 5000 });
+    }, [refreshMessage, refreshConversation]);
     // Handle typing indicator
     const handleTyping = useCallback(({ peerId, isTyping }) => {
         console.log('[ServiceSync] Typing:', peerId, isTyping);
@@ -73,24 +66,15 @@ export function useServiceSync() {
             setTyping(peerId, conv.id, isTyping);
         }
     }, [setTyping]);
-    // Handle new conversation created
-    const handleConversationCreated = useCallback((conv) => {
-        console.log('[ServiceSync] Conversation created:', conv.id);
-        const participants = typeof conv.participants === 'string'
-            ? JSON.parse(conv.participants)
-            : conv.participants;
-        createConversation({
-            type: conv.type,
-            name: conv.name,
-            participants: participants.map((p) => ({
-                id: typeof p === 'string' ? p : p.id,
-                displayName: typeof p === 'string' ? conv.name || 'Unknown' : p.displayName || 'Unknown',
-                publicKey: '',
-                role: 'member',
-                joinedAt: Date.now(),
-            })),
-        });
-    }, [createConversation]);
+    // Handle conversations created or changed
+    const handleConversationSaved = useCallback((conv) => {
+        console.log('[ServiceSync] Conversation saved:', conv.id);
+        refreshConversation(conv.id);
+    }, [refreshConversation]);
+    // Handle conversations read or deleted
+    const handleConversationChanged = useCallback((conversationId) => {
+        refreshConversation(conversationId);
+    }, [refreshConversation]);
     // Handle peer online/offline
     const handlePeerOnline = useCallback(({ peerId, displayName }) => {
         console.log('[ServiceSync] Peer online:', peerId, displayName);
@@ -104,64 +88,66 @@ export function useServiceSync() {
         console.log('[ServiceSync] Setting up event listeners');
         // Messaging service events
         messagingService.on('message-received', handleMessageReceived);
-        messagingService.on('message-sent', handleMessageSent);
-        messagingService.on('message-delivered', handleMessageDelivered);
-        messagingService.on('message-read', handleMessageRead);
+        messagingService.on('message-sent', handleMessageSaved);
+        messagingService.on('message-edited', handleMessageSaved);
+        messagingService.on('message-status', handleMessageChanged);
+        messagingService.on('message-delivered', handleMessageChanged);
+        messagingService.on('message-read', handleMessageChanged);
+        messagingService.on('message-reaction', handleMessageChanged);
+        messagingService.on('message-reaction-removed', handleMessageChanged);
+        messagingService.on('message-deleted', handleMessageDeleted);
         messagingService.on('typing', handleTyping);
-        messagingService.on('conversation-created', handleConversationCreated);
+        messagingService.on('system-message', handleSystemMessage);
+        messagingService.on('conversation-created', handleConversationSaved);
+        messagingService.on('conversation-updated', handleConversationSaved);
+        messagingService.on('conversation-read', handleConversationChanged);
+        messagingService.on('conversation-deleted', handleConversationChanged);
         // Connection manager events
         connectionManager.on('peer-online', handlePeerOnline);
         connectionManager.on('peer-offline', handlePeerOffline);
+        // Nothing read from the database stays in memory while it is locked
+        securityService.on('locked', unload);
         return () => {
             console.log('[ServiceSync] Cleaning up event listeners');
             messagingService.off('message-received', handleMessageReceived);
-            messagingService.off('message-sent', handleMessageSent);
-            messagingService.off('message-delivered', handleMessageDelivered);
-            messagingService.off('message-read', handleMessageRead);
+            messagingService.off('message-sent', handleMessageSaved);
+            messagingService.off('message-edited', handleMessageSaved);
+            messagingService.off('message-status', handleMessageChanged);
+            messagingService.off('message-delivered', handleMessageChanged);
+            messagingService.off('message-read', handleMessageChanged);
+            messagingService.off('message-reaction', handleMessageChanged);
+            messagingService.off('message-reaction-removed', handleMessageChanged);
+            messagingService.off('message-deleted', handleMessageDeleted);
             messagingService.off('typing', handleTyping);
-            messagingService.off('conversation-created', handleConversationCreated);
+            messagingService.off('system-message', handleSystemMessage);
+            messagingService.off('conversation-created', handleConversationSaved);
+            messagingService.off('conversation-updated', handleConversationSaved);
+            messagingService.off('conversation-read', handleConversationChanged);
+            messagingService.off('conversation-deleted', handleConversationChanged);
             connectionManager.off('peer-online', handlePeerOnline);
             connectionManager.off('peer-offline', handlePeerOffline);
+            securityService.off('locked', unload);
         };
     }, [
         handleMessageReceived,
-        handleMessageSent,
-        handleMessageDelivered,
-        handleMessageRead,
+        handleMessageSaved,
+        handleMessageChanged,
+        handleMessageDeleted,
         handleTyping,
-        handleConversationCreated,
+        handleSystemMessage,
+        handleConversationSaved,
+        handleConversationChanged,
         handlePeerOnline,
         handlePeerOffline,
+        unload,
     ]);
-    // Load initial data from database on mount
+    // Load from the database on mount, also after unlocking
     useEffect(() => {
-        const loadInitialData = () => {
-            console.log('[ServiceSync] Loading initial data from database');
-            // Load conversations from database
-            const dbConversations = db.getAllConversations();
-            dbConversations.forEach((conv) => {
-                const participants = typeof conv.participants === 'string'
-                    ? JSON.parse(conv.participants)
-                    : conv.participants;
-                // Check if conversation already exists in store
-                const state = useChatStore.getState();
-                if (!state.conversations[conv.id]) {
-                    createConversation({
-                        type: conv.type,
-                        name: conv.name,
-                        participants: participants.map((p) => ({
-                            id: typeof p === 'string' ? p : p.id,
-                            displayName: typeof p === 'string' ? conv.name || 'Unknown' : p.displayName || 'Unknown',
-                            publicKey: '',
-                            role: 'member',
-                            joinedAt: Date.now(),
-                        })),
-                    });
-                }
-            });
-        };
-        // Small delay to ensure services are initialized
-        const timer = setTimeout(loadInitialData, 500);
-        return () => clearTimeout(timer);
-    }, [createConversation]);
+        console.log('[ServiceSync] Loading conversations from database');
+        loadConversations();
+        const { activeConversationId } = useChatStore.getState();
+        if (activeConversationId) {
+            loadMessages(activeConversationId);
+        }
+    }, [loadConversations, loadMessages]);
 }
@@ -0,0 +1,168 @@
+/**
+ * VORTEX Protocol - Backup Format
+ * Account backup file, encrypted with a key derived from the backup
+ * passphrase.
+ *
+ * File: [magic "VXBK"][format u8][header length u32][header JSON][records]
+ * Record: [length u32][nonce][ciphertext], XChaCha20-Poly1305. Everything
+ * before the records, the record's index and whether it is the last are
+ * authenticated with each record, so records cannot be dropped, reordered
+ * or moved between backups.
+ *
+ * The first record is the manifest: the entries that follow, in order,
+ * with their size and digest.
+ */
+import sodium from 'libsodium-wrappers';
+export const BACKUP_FILE_EXTENSION = 'vxbackup';
+const MAGIC = [0x56, 0x58, 0x42, 0x4b];
+const FORMAT_VERSION = 1;
+const PREFIX_SIZE = MAGIC.length + 1 + 4;
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+export function createBackupKdf() {
+    return {
+        alg: 'argon2id13',
+        opslimit: sodium.crypto_pwhash_OPSLIMIT_MODERATE,
+        memlimit: sodium.crypto_pwhash_MEMLIMIT_MODERATE,
+        salt: sodium.to_base64(sodium.randombytes_buf(sodium.crypto_pwhash_SALTBYTES)),
+    };
+}
+/**
+ * Key for a backup passphrase. The parameters may come from a file:
+ * ones too weak to trust or too expensive to run are refused.
+ */
+export function deriveBackupKey(passphrase, kdf) {
+    if (kdf.alg !== 'argon2id13' ||
+        kdf.opslimit < sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE ||
+        kdf.opslimit > sodium.crypto_pwhash_OPSLIMIT_SENSITIVE ||
+        kdf.memlimit < sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE ||
+        kdf.memlimit > sodium.crypto_pwhash_MEMLIMIT_SENSITIVE) {
+        throw new Error('Unsupported backup key derivation parameters');
+    }
+    return sodium.crypto_pwhash(sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES, passphrase, sodium.from_base64(kdf.salt), kdf.opslimit, kdf.memlimit, sodium.crypto_pwhash_ALG_ARGON2ID13);
+}
+export function digestOf(data) {
+    return sodium.to_hex(sodium.crypto_generichash(32, data));
+}
+export function createBackupHeader(kdf, createdAt = Date.now()) {
+    return { v: FORMAT_VERSION, id: sodium.to_hex(sodium.randombytes_buf(16)), createdAt, kdf };
+}
+/**
+ * Seal the contents into a backup file
+ */
+export function writeBackup(header, key, contents) {
+    const manifest = {
+        entries: contents.map(({ type, name, data }) => ({ type, name, size: data.length, digest: digestOf(data) })),
+    };
+    const headerJson = textEncoder.encode(JSON.stringify(header));
+    const prefix = new Uint8Array(PREFIX_SIZE + headerJson.length);
+    prefix.set(MAGIC, 0);
+    prefix[MAGIC.length] = FORMAT_VERSION;
+    new DataView(prefix.buffer).setUint32(MAGIC.length + 1, headerJson.length);
+    prefix.set(headerJson, PREFIX_SIZE);
+    const plaintexts = [textEncoder.encode(JSON.stringify(manifest)), ...contents.map(content => content.data)];
+    const records = plaintexts.map((data, index) => {
+        const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+        const ad = recordAdditionalData(prefix, index, index === plaintexts.length - 1);
+        const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(data, ad, null, nonce, key);
+        const record = new Uint8Array(4 + nonce.length + ciphertext.length);
+        new DataView(record.buffer).setUint32(0, nonce.length + ciphertext.length);
+        record.set(nonce, 4);
+        record.set(ciphertext, 4 + nonce.length);
+        return record;
+    });
+    const file = new Uint8Array(prefix.length + records.reduce((total, record) => total + record.length, 0));
+    file.set(prefix, 0);
+    let offset = prefix.length;
+    for (const record of records) {
+        file.set(record, offset);
+        offset += record.length;
+    }
+    return file;
+}
+/**
+ * Header of a backup file, e.g. for the key derivation parameters
+ */
+export function readBackupHeader(file) {
+    return parsePrefix(file).header;
+}
+/**
+ * Open and check every record of a backup file. Throws unless the whole
+ * file is intact.
+ */
+export function readBackup(file, key) {
+    const { header, prefix } = parsePrefix(file);
+    const nonceLength = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    const plaintexts = [];
+    let offset = prefix.length;
+    while (offset < file.length) {
+        if (offset + 4 > file.length)
+            throw new Error('Backup failed integrity check');
+        const length = view.getUint32(offset);
+        const end = offset + 4 + length;
+        if (length < nonceLength || end > file.length)
+            throw new Error('Backup failed integrity check');
+        const index = plaintexts.length;
+        try {
+            plaintexts.push(sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(null, file.subarray(offset + 4 + nonceLength, end), recordAdditionalData(prefix, index, end === file.length), file.subarray(offset + 4, offset + 4 + nonceLength), key));
+        }
+        catch {
+            // Only the right key opens the first record
+            throw new Error(index === 0 ? 'Wrong backup passphrase' : 'Backup failed integrity check');
+        }
+        offset = end;
+    }
+    if (plaintexts.length === 0)
+        throw new Error('Backup failed integrity check');
+    let manifest;
+    try {
+        manifest = JSON.parse(textDecoder.decode(plaintexts[0]));
+    }
+    catch {
+        throw new Error('Backup failed integrity check');
+    }
+    const data = plaintexts.slice(1);
+    if (!Array.isArray(manifest.entries) || manifest.entries.length !== data.length) {
+        throw new Error('Backup failed integrity check');
+    }
+    const contents = manifest.entries.map((entry, i) => {
+        if (entry.size !== data[i].length || entry.digest !== digestOf(data[i])) {
+            throw new Error('Backup failed integrity check');
+        }
+        return { type: entry.type, name: entry.name, data: data[i], entry };
+    });
+    return { header, contents };
+}
+function parsePrefix(file) {
+    if (file.length < PREFIX_SIZE || MAGIC.some((byte, i) => file[i] !== byte)) {
+        throw new Error('Not a VORTEX account backup');
+    }
+    const version = file[MAGIC.length];
+    if (version > FORMAT_VERSION)
+        throw new Error('This backup was made by a newer version of VORTEX');
+    if (version !== FORMAT_VERSION)
+        throw new Error('Unsupported backup version');
+    const headerLength = new DataView(file.buffer, file.byteOffset, file.byteLength).getUint32(MAGIC.length + 1);
+    if (PREFIX_SIZE + headerLength > file.length)
+        throw new Error('Backup failed integrity check');
+    let header;
+    try {
+        header = JSON.parse(textDecoder.decode(file.subarray(PREFIX_SIZE, PREFIX_SIZE + headerLength)));
+    }
+    catch {
+        throw new Error('Backup failed integrity check');
+    }
+    if (header?.v !== FORMAT_VERSION || !header.id || !header.kdf || typeof header.createdAt !== 'number') {
+        throw new Error('Backup failed integrity check');
+    }
+    return { header, prefix: file.subarray(0, PREFIX_SIZE + headerLength) };
+}
+function recordAdditionalData(prefix, index, last) {
+    const ad = new Uint8Array(prefix.length + 5);
+    ad.set(prefix, 0);
+    const view = new DataView(ad.buffer);
+    view.setUint32(prefix.length, index);
+    view.setUint8(prefix.length + 4, last ? 1 : 0);
+    return ad;
+}
@@ -0,0 +1,124 @@
+/**
+ * VORTEX Protocol - Backup Format Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { BackupKdfParams } from '../identity';
+import {
+  createBackupHeader,
+  digestOf,
+  readBackup,
+  readBackupHeader,
+  writeBackup,
+  type BackupContent,
+} from './BackupFormat';
+
+const textEncoder = new TextEncoder();
+
+// Only carried in the header here; records are sealed with a random key
+const kdf: BackupKdfParams = {
+  alg: 'argon2id13',
+  opslimit: 3,
+  memlimit: 256 * 1024 * 1024,
+  salt: 'c2FsdHNhbHRzYWx0c2FsdA',
+};
+
+let key: Uint8Array;
+let contents: BackupContent[];
+
+beforeAll(async () => {
+  await sodium.ready;
+  key = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES);
+
+  const attachment = textEncoder.encode('attachment bytes');
+  contents = [
+    { type: 'database', data: textEncoder.encode('database image') },
+    { type: 'settings', data: textEncoder.encode('{"theme":"dark"}') },
+    { type: 'attachment', name: digestOf(attachment), data: attachment },
+  ];
+});
+
+// Offsets of each record: [start, end)
+function recordBounds(file: Uint8Array): Array<[number, number]> {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const bounds: Array<[number, number]> = [];
+  let offset = 9 + view.getUint32(5);
+  while (offset < file.length) {
+    const end = offset + 4 + view.getUint32(offset);
+    bounds.push([offset, end]);
+    offset = end;
+  }
+  return bounds;
+}
+
+describe('backup files', () => {
+  it('round-trips the header and every entry', () => {
+    const header = createBackupHeader(kdf, 1234);
+    const file = writeBackup(header, key, contents);
+
+    expect(readBackupHeader(file)).toEqual(header);
+
+    const backup = readBackup(file, key);
+    expect(backup.header).toEqual(header);
+    expect(backup.contents.map(({ type, name, data }) => ({ type, name, data }))).toEqual(contents);
+    expect(backup.contents[2].entry.digest).toBe(contents[2].name);
+  });
+
+  it('keeps the contents unreadable without the key', () => {
+    const file = writeBackup(createBackupHeader(kdf), key, contents);
+
+    expect(Buffer.from(file).includes(Buffer.from('database image'))).toBe(false);
+    expect(() => readBackup(file, sodium.randombytes_buf(32))).toThrow('Wrong backup passphrase');
+  });
+
+  it('detects a changed byte', () => {
+    const file = writeBackup(createBackupHeader(kdf), key, contents);
+    const [, [start]] = recordBounds(file);
+    file[start + 40] ^= 1;
+
+    expect(() => readBackup(file, key)).toThrow('Backup failed integrity check');
+  });
+
+  it('detects a backup cut short after a whole record', () => {
+    const file = writeBackup(createBackupHeader(kdf), key, contents);
+    const bounds = recordBounds(file);
+
+    expect(() => readBackup(file.slice(0, bounds[bounds.length - 1][0]), key))
+      .toThrow('Backup failed integrity check');
+  });
+
+  it('detects reordered records', () => {
+    const file = writeBackup(createBackupHeader(kdf), key, contents);
+    const [, first, second] = recordBounds(file);
+    const swapped = new Uint8Array(file.length);
+    swapped.set(file.subarray(0, first[0]), 0);
+    let offset = first[0];
+    for (const [start, end] of [second, first]) {
+      swapped.set(file.subarray(start, end), offset);
+      offset += end - start;
+    }
+    swapped.set(file.subarray(offset), offset);
+
+    expect(() => readBackup(swapped, key)).toThrow('Backup failed integrity check');
+  });
+
+  it('detects records moved from another backup', () => {
+    const file = writeBackup(createBackupHeader(kdf), key, contents);
+    const other = writeBackup(createBackupHeader(kdf), key, contents);
+    const [, [start, end]] = recordBounds(file);
+    const [, [otherStart]] = recordBounds(other);
+    const spliced = file.slice();
+    spliced.set(other.subarray(otherStart, otherStart + (end - start)), start);
+
+    expect(() => readBackup(spliced, key)).toThrow('Backup failed integrity check');
+  });
+
+  it('refuses files that are not backups or from a newer version', () => {
+    expect(() => readBackupHeader(textEncoder.encode('{"v":2}'))).toThrow('Not a VORTEX account backup');
+
+    const file = writeBackup(createBackupHeader(kdf), key, contents);
+    file[4] = 2;
+    expect(() => readBackupHeader(file)).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * VORTEX Protocol - Backup Service
+ * Full account backups: the database (identity, contacts, conversations,
+ * messages and keys), attachment files and app settings, in one file
+ * encrypted with a backup passphrase (see BackupFormat).
+ *
+ * Backups run on a schedule into a folder the user chose, where the
+ * newest few are kept. A restore opens and checks the whole backup
+ * before it replaces anything on this device.
+ */
+import { EventEmitter } from 'eventemitter3';
+import _sodium from 'libsodium-wrappers';
+import { db } from '../database';
+import { identityService } from '../identity';
+import { attachmentStore } from '../files';
+import { BACKUP_FILE_EXTENSION, createBackupHeader, createBackupKdf, deriveBackupKey, readBackup, readBackupHeader, writeBackup, } from './BackupFormat';
+const BACKUP_KEY_SETTING = 'backup_key';
+// Where the settings store persists app settings
+const APP_SETTINGS_STORAGE_KEY = 'vortex-settings';
+const BACKUP_NAME_PREFIX = 'vortex-backup-';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKUP_INTERVALS = {
+    daily: DAY_MS,
+    weekly: 7 * DAY_MS,
+    monthly: 30 * DAY_MS,
+};
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+function backupFolders() {
+    return typeof window !== 'undefined' ? window.electronAPI?.backups ?? null : null;
+}
+class BackupService extends EventEmitter {
+    constructor() {
+        super(...arguments);
+        this.sodium = null;
+        this.schedule = null;
+        this.scheduleTimer = null;
+        this.running = null;
+        this.initialized = false;
+    }
+    async initialize() {
+        if (this.initialized)
+            return;
+        await _sodium.ready;
+        this.sodium = _sodium;
+        this.initialized = true;
+        console.log('[Backup] Service initialized');
+    }
+    // ==================== Passphrase ====================
+    hasPassphrase() {
+        return !!db.getSetting(BACKUP_KEY_SETTING);
+    }
+    /**
+     * Set the passphrase backups are encrypted with from now on. Backups
+     * made before keep needing the passphrase they were made with.
+     */
+    async setPassphrase(passphrase) {
+        const sodium = this.requireSodium();
+        if (passphrase.length < 8)
+            throw new Error('Passphrase must be at least 8 characters');
+        const kdf = createBackupKdf();
+        const key = deriveBackupKey(passphrase, kdf);
+        const stored = { kdf, key: sodium.to_base64(key) };
+        sodium.memzero(key);
+        db.setSetting(BACKUP_KEY_SETTING, JSON.stringify(stored));
+        this.emit('passphrase-set');
+    }
+    // ==================== Backing Up ====================
+    /**
+     * Whether backups can be written to a folder, i.e. in Electron
+     */
+    canWriteToFolder() {
+        return backupFolders() !== null;
+    }
+    /**
+     * Create a backup file of everything on this device
+     */
+    async createBackup() {
+        const sodium = this.requireSodium();
+        const stored = db.getSetting(BACKUP_KEY_SETTING);
+        if (!stored)
+            throw new Error('Set a backup passphrase first');
+        const database = db.exportDatabase();
+        if (!database)
+            throw new Error('Database not initialized');
+        const contents = [{ type: 'database', data: database }];
+        const settings = typeof localStorage !== 'undefined' ? localStorage.getItem(APP_SETTINGS_STORAGE_KEY) : null;
+        if (settings)
+            contents.push({ type: 'settings', data: textEncoder.encode(settings) });
+        for (const hash of db.getAttachmentBlobHashes()) {
+            try {
+                const data = await attachmentStore.read(hash);
+                if (!data) {
+                    console.warn('[Backup] Attachment file missing:', hash);
+                    continue;
+                }
+                contents.push({ type: 'attachment', name: hash, data });
+                const thumbnail = await attachmentStore.readThumbnail(hash);
+                if (thumbnail)
+                    contents.push({ type: 'thumbnail', name: hash, data: thumbnail });
+            }
+            catch (error) {
+                console.warn('[Backup] Skipping unreadable attachment:', hash, error);
+            }
+        }
+        const { kdf, key: encodedKey } = JSON.parse(stored);
+        const key = sodium.from_base64(encodedKey);
+        const header = createBackupHeader(kdf);
+        try {
+            return {
+                name: `${BACKUP_NAME_PREFIX}${new Date(header.createdAt).toISOString().replace(/[:.]/g, '-')}.${BACKUP_FILE_EXTENSION}`,
+                data: writeBackup(header, key, contents),
+            };
+        }
+        finally {
+            sodium.memzero(key);
+        }
+    }
+    /**
+     * Write a backup into the folder and remove all but the newest `retain`
+     * there. One runs at a time; a second call waits for the first.
+     */
+    backupToFolder(folder, retain) {
+        if (this.running)
+            return this.running;
+        this.running = (async () => {
+            const folders = backupFolders();
+            if (!folders)
+                throw new Error('Backups to a folder need the desktop app');
+            const { name, data } = await this.createBackup();
+            await folders.write(folder, name, data);
+            await this.rotate(folder, retain);
+            const result = { name, createdAt: readBackupHeader(data).createdAt, size: data.length };
+            if (this.schedule)
+                this.schedule.lastBackup = result.createdAt;
+            console.log('[Backup] Backup written:', name);
+            this.emit('backup-completed', result);
+            return result;
+        })();
+        return this.running.finally(() => {
+            this.running = null;
+        });
+    }
+    async rotate(folder, retain) {
+        const folders = backupFolders();
+        if (!folders)
+            return;
+        // Names sort by the time they were made
+        const names = (await folders.list(folder)).sort();
+        for (const name of names.slice(0, Math.max(0, names.length - Math.max(1, retain)))) {
+            try {
+                await folders.remove(folder, name);
+                console.log('[Backup] Removed old backup:', name);
+            }
+            catch (error) {
+                console.warn('[Backup] Failed to remove old backup:', name, error);
+            }
+        }
+    }
+    // ==================== Schedule ====================
+    /**
+     * Run backups on this schedule while the app is open, starting with
+     * one now if it is due
+     */
+    setSchedule(schedule) {
+        this.stopSchedule();
+        this.schedule = { ...schedule };
+        if (!schedule.enabled || schedule.frequency === 'never')
+            return;
+        this.scheduleTimer = setInterval(() => this.runScheduledBackup(), SCHEDULE_CHECK_INTERVAL_MS);
+        this.runScheduledBackup();
+    }
+    stopSchedule() {
+        if (this.scheduleTimer) {
+            clearInterval(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+        this.schedule = null;
+    }
+    async runScheduledBackup() {
+        const schedule = this.schedule;
+        if (!schedule?.enabled || schedule.frequency === 'never' || !schedule.folder)
+            return;
+        if (db.isLocked() || !this.hasPassphrase())
+            return;
+        if (Date.now() - (schedule.lastBackup ?? 0) < BACKUP_INTERVALS[schedule.frequency])
+            return;
+        try {
+            await this.backupToFolder(schedule.folder, schedule.retain);
+        }
+        catch (error) {
+            // Tried again at the next check
+            console.error('[Backup] Scheduled backup failed:', error);
+            this.emit('backup-failed', error);
+        }
+    }
+    // ==================== Restoring ====================
+    /**
+     * Open a backup file and check all of it: every record against its
+     * digest and the database image. Attachments are checked against their
+     * database rows as they are restored. Nothing on this device changes.
+     */
+    async verifyBackup(file, passphrase) {
+        const sodium = this.requireSodium();
+        const header = readBackupHeader(file);
+        const key = deriveBackupKey(passphrase, header.kdf);
+        let backup;
+        try {
+            backup = readBackup(file, key);
+        }
+        finally {
+            sodium.memzero(key);
+        }
+        const databases = backup.contents.filter(content => content.type === 'database');
+        if (databases.length !== 1)
+            throw new Error('Backup failed integrity check');
+        const database = db.inspectImage(databases[0].data);
+        if (!database.identity)
+            throw new Error('The backup holds no identity');
+        let attachments = 0;
+        for (const content of backup.contents) {
+            if (content.type === 'attachment') {
+                if (!content.name)
+                    throw new Error('Backup failed integrity check');
+                attachments++;
+            }
+            else if (content.type === 'settings') {
+                try {
+                    JSON.parse(textDecoder.decode(content.data));
+                }
+                catch {
+                    throw new Error('Backup failed integrity check');
+                }
+            }
+        }
+        return { createdAt: backup.header.createdAt, database, attachments, contents: backup.contents };
+    }
+    /**
+     * Replace everything on this device with a verified backup. Only on a
+     * device without an identity; the app should reload afterwards.
+     */
+    async restoreBackup(backup) {
+        if (identityService.hasIdentity())
+            throw new Error('An identity is already set up on this device');
+        const database = backup.contents.find(content => content.type === 'database');
+        if (!database)
+            throw new Error('Backup failed integrity check');
+        await db.importDatabase(database.data);
+        await attachmentStore.clear();
+        const thumbnails = new Map(backup.contents
+            .filter(content => content.type === 'thumbnail')
+            .map(content => [content.name, content.data]));
+        for (const content of backup.contents) {
+            if (content.type !== 'attachment' || !content.name)
+                continue;
+            await attachmentStore.restore(content.name, content.data, thumbnails.get(content.name) ?? null);
+        }
+        const settings = backup.contents.find(content => content.type === 'settings');
+        if (settings && typeof localStorage !== 'undefined') {
+            localStorage.setItem(APP_SETTINGS_STORAGE_KEY, textDecoder.decode(settings.data));
+        }
+        await db.flush();
+        console.log('[Backup] Restored backup from', new Date(backup.createdAt).toISOString());
+        this.emit('restored', { createdAt: backup.createdAt });
+    }
+    requireSodium() {
+        if (!this.sodium)
+            throw new Error('Not initialized');
+        return this.sodium;
+    }
+}
+// Singleton instance
+export const backupService = new BackupService();
+export default backupService;
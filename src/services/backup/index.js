@@ -0,0 +1,5 @@
+/**
+ * VORTEX Protocol - Backup Module
+ */
+export { backupService, default } from './BackupService';
+export { BACKUP_FILE_EXTENSION, readBackupHeader } from './BackupFormat';
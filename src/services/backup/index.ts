@@ -0,0 +1,8 @@
+/**
+ * VORTEX Protocol - Backup Module
+ */
+
+export { backupService, default } from './BackupService';
+export type { BackupFrequency, BackupSchedule, BackupResult, VerifiedBackup } from './BackupService';
+export { BACKUP_FILE_EXTENSION, readBackupHeader } from './BackupFormat';
+export type { BackupHeader } from './BackupFormat';
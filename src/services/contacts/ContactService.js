@@ -5,6 +5,8 @@
 import { EventEmitter } from 'eventemitter3';
 import { db } from '../database';
 import { identityService } from '../identity';
+import { computeSafetyNumber, matchesScannedSafetyNumber, scannedIdentityKey, } from '../crypto/SafetyNumber';
+import { sessionManager } from '../crypto/SessionManager';
 import _sodium from 'libsodium-wrappers';
 class ContactService extends EventEmitter {
     constructor() {
@@ -24,20 +26,24 @@ class ContactService extends EventEmitter {
     async addContact(options) {
         if (!this.sodium)
             throw new Error('Not initialized');
-        const { identityKey, displayName, avatarUrl, notes } = options;
+        const { peerId, identityKey, displayName, avatarUrl, notes } = options;
         // Validate identity key
-        if (!this.isValidIdentityKey(identityKey)) {
+        if (identityKey !== undefined && !this.isValidIdentityKey(identityKey)) {
             throw new Error('Invalid identity key');
         }
+        if (identityKey === undefined && !peerId) {
+            throw new Error('A contact needs a peer ID or an identity key');
+        }
         // Check if contact already exists
-        const existing = db.getContactByIdentityKey(identityKey);
+        const existing = (identityKey ? db.getContactByIdentityKey(identityKey) : null) || (peerId ? db.getContact(peerId) : null);
         if (existing) {
             throw new Error('Contact already exists');
         }
-        // Create contact
+        // Create contact. Until the key is known the peer ID stands in for it,
+        // which no identity key can collide with.
         const contact = {
-            id: crypto.randomUUID(),
-            identityKey,
+            id: peerId || crypto.randomUUID(),
+            identityKey: identityKey ?? peerId,
             displayName,
             avatarUrl,
             notes,
@@ -108,26 +114,58 @@ class ContactService extends EventEmitter {
             return '';
         }
     }
-    verifySafetyNumber(contactId) {
+    /**
+     * Encryption sessions with each of the contact's devices
+     */
+    getSessionInfo(contactId) {
+        return sessionManager.getSessionInfo(contactId);
+    }
+    async verifySafetyNumber(contactId) {
         const contact = db.getContact(contactId);
         if (!contact)
             throw new Error('Contact not found');
-        const myIdentity = identityService.getIdentity();
-        if (!myIdentity)
-            throw new Error('No identity');
-        // Generate combined fingerprint
-        const myFingerprint = identityService.getFingerprint();
-        const theirFingerprint = this.getContactFingerprint(contact.identityKey);
-        // Sort to ensure both parties get same result
-        const sortedFingerprints = [myFingerprint, theirFingerprint].sort();
-        const combinedFingerprint = sortedFingerprints.join(' ');
+        const safetyNumber = await this.getSafetyNumber(contact);
         return {
             contactId,
-            fingerprint: combinedFingerprint,
+            safetyNumber: safetyNumber.groups.join(' '),
+            qrPayload: safetyNumber.qrPayload,
             verified: contact.verified,
             verifiedAt: contact.verified ? contact.lastSeen : undefined,
         };
     }
+    /**
+     * Check a safety number code scanned from the contact's device.
+     * A match marks the contact verified. A contact whose key is not known
+     * yet takes the one the code carries, if the code matches with it.
+     */
+    async verifyScannedCode(contactId, scanned) {
+        const contact = db.getContact(contactId);
+        if (!contact)
+            throw new Error('Contact not found');
+        if (!this.hasIdentityKey(contact)) {
+            const identityKey = scannedIdentityKey(scanned);
+            if (!identityKey)
+                throw new Error('This code does not include an identity key');
+            const candidate = { ...contact, identityKey };
+            if (!(await matchesScannedSafetyNumber(await this.getSafetyNumber(candidate), scanned)))
+                return false;
+            this.learnIdentityKey(contact, identityKey);
+            this.markAsVerified(contactId);
+            return true;
+        }
+        const matches = await matchesScannedSafetyNumber(await this.getSafetyNumber(contact), scanned);
+        if (matches && !contact.verified) {
+            this.markAsVerified(contactId);
+        }
+        return matches;
+    }
+    /**
+     * Whether we know the contact's identity key; contacts added by peer ID
+     * alone do not until they send a pre-key message or a code is scanned
+     */
+    hasIdentityKey(contact) {
+        return this.isValidIdentityKey(contact.identityKey);
+    }
     markAsVerified(id) {
         this.updateContact(id, { verified: true });
         this.emit('contact-verified', id);
@@ -136,6 +174,75 @@ class ContactService extends EventEmitter {
         this.updateContact(id, { verified: false });
         this.emit('contact-unverified', id);
     }
+    // ==================== Key Changes ====================
+    /**
+     * Compare the identity key a peer proved it holds, by a pre-key message
+     * that decrypted, with the one stored for them. A different key goes
+     * into the key history as pending; the stored key stays until the user
+     * acknowledges the change. Returns true while the presented key is
+     * pending.
+     */
+    checkIdentityKey(peerId, identityKey) {
+        const contact = db.getContact(peerId);
+        if (!contact || contact.identityKey === identityKey || !this.isValidIdentityKey(identityKey))
+            return false;
+        const owner = db.getContactByIdentityKey(identityKey);
+        if (owner && owner.id !== contact.id) {
+            console.warn('[Contacts] Presented key belongs to another contact:', peerId);
+            return false;
+        }
+        // Added without a key: the first one proven is theirs, unverified
+        if (!this.hasIdentityKey(contact)) {
+            this.learnIdentityKey(contact, identityKey);
+            return false;
+        }
+        if (this.getPendingIdentityKey(contact.id) === identityKey)
+            return true;
+        const previousKey = contact.identityKey;
+        db.addIdentityKeyChange({
+            contactId: contact.id,
+            previousKey,
+            newKey: identityKey,
+            changedAt: Date.now(),
+        });
+        console.warn('[Contacts] Identity key changed for:', contact.displayName);
+        this.emit('identity-key-changed', { contact, previousKey, identityKey });
+        return true;
+    }
+    hasPendingKeyChange(id) {
+        return this.getPendingIdentityKey(id) !== null;
+    }
+    /**
+     * The newest key the contact presented that the user has not acknowledged
+     */
+    getPendingIdentityKey(id) {
+        const pending = db.getIdentityKeyHistory(id).filter(change => !change.acknowledgedAt);
+        return pending.length ? pending[pending.length - 1].newKey : null;
+    }
+    /**
+     * Accept the contact's new identity key. It replaces the stored one,
+     * unverified.
+     */
+    acknowledgeKeyChange(id) {
+        const contact = db.getContact(id);
+        const identityKey = this.getPendingIdentityKey(id);
+        if (!contact || !identityKey)
+            return;
+        db.acknowledgeIdentityKeyChanges(id, Date.now());
+        const updated = { ...contact, identityKey, verified: false };
+        db.saveContact(updated);
+        this.emit('contact-updated', updated);
+        this.emit('key-change-acknowledged', id);
+    }
+    learnIdentityKey(contact, identityKey) {
+        const updated = { ...contact, identityKey, verified: false };
+        db.saveContact(updated);
+        console.log('[Contacts] Learned identity key for:', contact.displayName);
+        this.emit('contact-updated', updated);
+    }
+    getKeyHistory(id) {
+        return db.getIdentityKeyHistory(id);
+    }
     // ==================== Search ====================
     searchContacts(query) {
         if (!query.trim())
@@ -149,7 +256,7 @@ class ContactService extends EventEmitter {
     // ==================== Import/Export ====================
     exportContact(id) {
         const contact = db.getContact(id);
-        if (!contact)
+        if (!contact || !this.hasIdentityKey(contact))
             return null;
         const exportData = {
             identityKey: contact.identityKey,
@@ -202,6 +309,14 @@ class ContactService extends EventEmitter {
         }
     }
     // ==================== Utilities ====================
+    async getSafetyNumber(contact) {
+        const myIdentity = identityService.getIdentity();
+        if (!myIdentity)
+            throw new Error('No identity');
+        if (!this.hasIdentityKey(contact))
+            throw new Error('Identity key not known yet');
+        return computeSafetyNumber({ id: myIdentity.id, identityKey: myIdentity.publicKey }, { id: contact.id, identityKey: contact.identityKey });
+    }
     isValidIdentityKey(key) {
         if (!this.sodium)
             return false;
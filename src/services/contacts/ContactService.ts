@@ -4,12 +4,22 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
-import { db, type Contact } from '../database';
+import { db, type Contact, type IdentityKeyChange } from '../database';
 import { identityService } from '../identity';
+import {
+  computeSafetyNumber,
+  matchesScannedSafetyNumber,
+  scannedIdentityKey,
+  type SafetyNumber,
+} from '../crypto/SafetyNumber';
+import { sessionManager, type SessionInfo } from '../crypto/SessionManager';
 import _sodium from 'libsodium-wrappers';
 
 export interface AddContactOptions {
-  identityKey: string;
+  peerId?: string;       // Becomes the contact ID
+  // Without one the contact takes the key from their first pre-key
+  // message or a scanned safety number
+  identityKey?: string;
   displayName: string;
   avatarUrl?: string;
   notes?: string;
@@ -17,7 +27,8 @@ export interface AddContactOptions {
 
 export interface ContactVerification {
   contactId: string;
-  fingerprint: string;
+  safetyNumber: string;  // 12 groups of 5 digits
+  qrPayload: string;
   verified: boolean;
   verifiedAt?: number;
 }
@@ -40,23 +51,27 @@ class ContactService extends EventEmitter {
   async addContact(options: AddContactOptions): Promise<Contact> {
     if (!this.sodium) throw new Error('Not initialized');
 
-    const { identityKey, displayName, avatarUrl, notes } = options;
+    const { peerId, identityKey, displayName, avatarUrl, notes } = options;
 
     // Validate identity key
-    if (!this.isValidIdentityKey(identityKey)) {
+    if (identityKey !== undefined && !this.isValidIdentityKey(identityKey)) {
       throw new Error('Invalid identity key');
     }
+    if (identityKey === undefined && !peerId) {
+      throw new Error('A contact needs a peer ID or an identity key');
+    }
 
     // Check if contact already exists
-    const existing = db.getContactByIdentityKey(identityKey);
+    const existing = (identityKey ? db.getContactByIdentityKey(identityKey) : null) || (peerId ? db.getContact(peerId) : null);
     if (existing) {
       throw new Error('Contact already exists');
     }
 
-    // Create contact
+    // Create contact. Until the key is known the peer ID stands in for it,
+    // which no identity key can collide with.
     const contact: Contact = {
-      id: crypto.randomUUID(),
-      identityKey,
+      id: peerId || crypto.randomUUID(),
+      identityKey: identityKey ?? peerId!,
       displayName,
       avatarUrl,
       notes,
@@ -143,29 +158,65 @@ class ContactService extends EventEmitter {
     }
   }
 
-  verifySafetyNumber(contactId: string): ContactVerification {
+  /**
+   * Encryption sessions with each of the contact's devices
+   */
+  getSessionInfo(contactId: string): SessionInfo[] {
+    return sessionManager.getSessionInfo(contactId);
+  }
+
+  async verifySafetyNumber(contactId: string): Promise<ContactVerification> {
     const contact = db.getContact(contactId);
     if (!contact) throw new Error('Contact not found');
 
-    const myIdentity = identityService.getIdentity();
-    if (!myIdentity) throw new Error('No identity');
-
-    // Generate combined fingerprint
-    const myFingerprint = identityService.getFingerprint();
-    const theirFingerprint = this.getContactFingerprint(contact.identityKey);
-
-    // Sort to ensure both parties get same result
-    const sortedFingerprints = [myFingerprint, theirFingerprint].sort();
-    const combinedFingerprint = sortedFingerprints.join(' ');
+    const safetyNumber = await this.getSafetyNumber(contact);
 
     return {
       contactId,
-      fingerprint: combinedFingerprint,
+      safetyNumber: safetyNumber.groups.join(' '),
+      qrPayload: safetyNumber.qrPayload,
       verified: contact.verified,
       verifiedAt: contact.verified ? contact.lastSeen : undefined,
     };
   }
 
+  /**
+   * Check a safety number code scanned from the contact's device.
+   * A match marks the contact verified. A contact whose key is not known
+   * yet takes the one the code carries, if the code matches with it.
+   */
+  async verifyScannedCode(contactId: string, scanned: string): Promise<boolean> {
+    const contact = db.getContact(contactId);
+    if (!contact) throw new Error('Contact not found');
+
+    if (!this.hasIdentityKey(contact)) {
+      const identityKey = scannedIdentityKey(scanned);
+      if (!identityKey) throw new Error('This code does not include an identity key');
+
+      const candidate: Contact = { ...contact, identityKey };
+      if (!(await matchesScannedSafetyNumber(await this.getSafetyNumber(candidate), scanned))) return false;
+
+      this.learnIdentityKey(contact, identityKey);
+      this.markAsVerified(contactId);
+      return true;
+    }
+
+    const matches = await matchesScannedSafetyNumber(await this.getSafetyNumber(contact), scanned);
+    if (matches && !contact.verified) {
+      this.markAsVerified(contactId);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Whether we know the contact's identity key; contacts added by peer ID
+   * alone do not until they send a pre-key message or a code is scanned
+   */
+  hasIdentityKey(contact: Contact): boolean {
+    return this.isValidIdentityKey(contact.identityKey);
+  }
+
   markAsVerified(id: string): void {
     this.updateContact(id, { verified: true });
     this.emit('contact-verified', id);
@@ -176,6 +227,87 @@ class ContactService extends EventEmitter {
     this.emit('contact-unverified', id);
   }
 
+  // ==================== Key Changes ====================
+
+  /**
+   * Compare the identity key a peer proved it holds, by a pre-key message
+   * that decrypted, with the one stored for them. A different key goes
+   * into the key history as pending; the stored key stays until the user
+   * acknowledges the change. Returns true while the presented key is
+   * pending.
+   */
+  checkIdentityKey(peerId: string, identityKey: string): boolean {
+    const contact = db.getContact(peerId);
+    if (!contact || contact.identityKey === identityKey || !this.isValidIdentityKey(identityKey)) return false;
+
+    const owner = db.getContactByIdentityKey(identityKey);
+    if (owner && owner.id !== contact.id) {
+      console.warn('[Contacts] Presented key belongs to another contact:', peerId);
+      return false;
+    }
+
+    // Added without a key: the first one proven is theirs, unverified
+    if (!this.hasIdentityKey(contact)) {
+      this.learnIdentityKey(contact, identityKey);
+      return false;
+    }
+    if (this.getPendingIdentityKey(contact.id) === identityKey) return true;
+
+    const previousKey = contact.identityKey;
+    db.addIdentityKeyChange({
+      contactId: contact.id,
+      previousKey,
+      newKey: identityKey,
+      changedAt: Date.now(),
+    });
+
+    console.warn('[Contacts] Identity key changed for:', contact.displayName);
+    this.emit('identity-key-changed', { contact, previousKey, identityKey });
+    return true;
+  }
+
+  hasPendingKeyChange(id: string): boolean {
+    return this.getPendingIdentityKey(id) !== null;
+  }
+
+  /**
+   * The newest key the contact presented that the user has not acknowledged
+   */
+  getPendingIdentityKey(id: string): string | null {
+    const pending = db.getIdentityKeyHistory(id).filter(change => !change.acknowledgedAt);
+    return pending.length ? pending[pending.length - 1].newKey : null;
+  }
+
+  /**
+   * Accept the contact's new identity key. It replaces the stored one,
+   * unverified.
+   */
+  acknowledgeKeyChange(id: string): void {
+    const contact = db.getContact(id);
+    const identityKey = this.getPendingIdentityKey(id);
+    if (!contact || !identityKey) return;
+
+    db.acknowledgeIdentityKeyChanges(id, Date.now());
+
+    const updated: Contact = { ...contact, identityKey, verified: false };
+    db.saveContact(updated);
+
+    this.emit('contact-updated', updated);
+    this.emit('key-change-acknowledged', id);
+  }
+
+  private learnIdentityKey(contact: Contact, identityKey: string): void {
+    const updated: Contact = { ...contact, identityKey, verified: false };
+    db.saveContact(updated);
+
+    console.log('[Contacts] Learned identity key for:', contact.displayName);
+    this.emit('contact-updated', updated);
+  }
+
+  getKeyHistory(id: string): IdentityKeyChange[] {
+    return db.getIdentityKeyHistory(id);
+  }
+
   // ==================== Search ====================
 
   searchContacts(query: string): Contact[] {
@@ -195,7 +327,7 @@ class ContactService extends EventEmitter {
 
   exportContact(id: string): string | null {
     const contact = db.getContact(id);
-    if (!contact) return null;
+    if (!contact || !this.hasIdentityKey(contact)) return null;
 
     const exportData = {
       identityKey: contact.identityKey,
@@ -258,6 +390,17 @@ class ContactService extends EventEmitter {
 
   // ==================== Utilities ====================
 
+  private async getSafetyNumber(contact: Contact): Promise<SafetyNumber> {
+    const myIdentity = identityService.getIdentity();
+    if (!myIdentity) throw new Error('No identity');
+    if (!this.hasIdentityKey(contact)) throw new Error('Identity key not known yet');
+
+    return computeSafetyNumber(
+      { id: myIdentity.id, identityKey: myIdentity.publicKey },
+      { id: contact.id, identityKey: contact.identityKey }
+    );
+  }
+
   private isValidIdentityKey(key: string): boolean {
     if (!this.sodium) return false;
 
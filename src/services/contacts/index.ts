@@ -4,3 +4,4 @@
 
 export { contactService, default } from './ContactService';
 export type { AddContactOptions, ContactVerification } from './ContactService';
+export type { SessionInfo } from '../crypto/SessionManager';
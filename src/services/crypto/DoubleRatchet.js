@@ -9,9 +9,11 @@
  * - Header encryption
  */
 import sodium from 'libsodium-wrappers';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
 // Constants
 const MAX_SKIP = 1000;
 const INFO_RATCHET = new TextEncoder().encode('VORTEX_RATCHET');
+const INFO_PQXDH = new TextEncoder().encode('VORTEX_PQXDH');
 const INFO_MESSAGE = new TextEncoder().encode('VORTEX_MESSAGE');
 // Utility functions
 function toBase64(b) {
@@ -30,6 +32,15 @@ function concat(...arrays) {
     }
     return result;
 }
+/**
+ * X3DH shared secret, or PQXDH when an ML-KEM shared secret is mixed in.
+ * The info string keeps hybrid and classical secrets apart.
+ */
+function agreeSharedSecret(dhOutputs, kemSecret) {
+    return kemSecret
+        ? hkdf(concat(...dhOutputs, kemSecret), new Uint8Array(32), INFO_PQXDH, 32)
+        : hkdf(concat(...dhOutputs), new Uint8Array(32), INFO_RATCHET, 32);
+}
 function constantTimeEqual(a, b) {
     if (a.length !== b.length)
         return false;
@@ -137,6 +148,7 @@ export class DoubleRatchetSession {
             Nr: 0,
             PN: 0,
             MKSKIPPED: new Map(),
+            postQuantum: false,
             sessionId: sessionId ?? crypto.randomUUID(),
             createdAt: Date.now(),
             lastActivity: Date.now(),
@@ -144,7 +156,8 @@ export class DoubleRatchetSession {
     }
     /**
      * Initialize as sender (Alice)
-     * Uses X3DH to establish initial shared secret
+     * Uses X3DH to establish initial shared secret, hybrid with ML-KEM
+     * (PQXDH) when the bundle carries a KEM pre-key
      */
     async initializeSender(localIdentityKey, remotePreKeyBundle) {
         await sodium.ready;
@@ -157,17 +170,18 @@ export class DoubleRatchetSession {
         const dh2 = dh(ephemeral.privateKey, remotePreKeyBundle.identityKey);
         // DH3 = DH(EKa, SPKb)
         const dh3 = dh(ephemeral.privateKey, remotePreKeyBundle.signedPreKey);
-        let sk;
+        const dhOutputs = [dh1, dh2, dh3];
         let usedOneTimePreKey = false;
         if (remotePreKeyBundle.oneTimePreKey) {
             // DH4 = DH(EKa, OPKb)
-            const dh4 = dh(ephemeral.privateKey, remotePreKeyBundle.oneTimePreKey);
-            sk = hkdf(concat(dh1, dh2, dh3, dh4), new Uint8Array(32), INFO_RATCHET, 32);
+            dhOutputs.push(dh(ephemeral.privateKey, remotePreKeyBundle.oneTimePreKey));
             usedOneTimePreKey = true;
         }
-        else {
-            sk = hkdf(concat(dh1, dh2, dh3), new Uint8Array(32), INFO_RATCHET, 32);
-        }
+        // SS = ML-KEM-Encaps(PQSPKb)
+        const kem = remotePreKeyBundle.kemPreKey
+            ? ml_kem768.encapsulate(remotePreKeyBundle.kemPreKey)
+            : null;
+        const sk = agreeSharedSecret(dhOutputs, kem?.sharedSecret ?? null);
         // Initialize sending ratchet
         this.state.DHs = generateDH();
         this.state.DHr = remotePreKeyBundle.signedPreKey;
@@ -180,13 +194,22 @@ export class DoubleRatchetSession {
         this.state.NHKs = sodium.randombytes_buf(32);
         this.state.remoteIdentityKey = remotePreKeyBundle.identityKey;
         this.state.localIdentityKey = localIdentityKey.publicKey;
+        this.state.pendingPreKey = {
+            ephemeralKey: ephemeral.publicKey,
+            usedOneTimePreKey,
+            signedPreKeyId: remotePreKeyBundle.signedPreKeyId,
+            oneTimePreKeyId: usedOneTimePreKey ? remotePreKeyBundle.oneTimePreKeyId : undefined,
+            kemCiphertext: kem?.cipherText,
+        };
+        this.state.postQuantum = kem !== null;
         this.ready = true;
         return { ephemeralPublic: ephemeral.publicKey, usedOneTimePreKey };
     }
     /**
      * Initialize as receiver (Bob)
+     * The KEM pre-key and ciphertext are present only for PQXDH sessions
      */
-    async initializeReceiver(localIdentityKey, localSignedPreKey, localOneTimePreKey, remoteIdentityKey, remoteEphemeralKey) {
+    async initializeReceiver(localIdentityKey, localSignedPreKey, localOneTimePreKey, remoteIdentityKey, remoteEphemeralKey, kem = null) {
         await sodium.ready;
         // X3DH key agreement
         // DH1 = DH(SPKb, IKa)
@@ -195,19 +218,19 @@ export class DoubleRatchetSession {
         const dh2 = dh(localIdentityKey.privateKey, remoteEphemeralKey);
         // DH3 = DH(SPKb, EKa)
         const dh3 = dh(localSignedPreKey.privateKey, remoteEphemeralKey);
-        let sk;
+        const dhOutputs = [dh1, dh2, dh3];
         if (localOneTimePreKey) {
             // DH4 = DH(OPKb, EKa)
-            const dh4 = dh(localOneTimePreKey.privateKey, remoteEphemeralKey);
-            sk = hkdf(concat(dh1, dh2, dh3, dh4), new Uint8Array(32), INFO_RATCHET, 32);
-        }
-        else {
-            sk = hkdf(concat(dh1, dh2, dh3), new Uint8Array(32), INFO_RATCHET, 32);
+            dhOutputs.push(dh(localOneTimePreKey.privateKey, remoteEphemeralKey));
         }
+        // SS = ML-KEM-Decaps(CT, PQSPKb)
+        const kemSecret = kem ? ml_kem768.decapsulate(kem.ciphertext, kem.secretKey) : null;
+        const sk = agreeSharedSecret(dhOutputs, kemSecret);
         this.state.DHs = localSignedPreKey;
         this.state.RK = sk;
         this.state.remoteIdentityKey = remoteIdentityKey;
         this.state.localIdentityKey = localIdentityKey.publicKey;
+        this.state.postQuantum = kem !== null;
         this.ready = true;
     }
     /**
@@ -257,7 +280,10 @@ export class DoubleRatchetSession {
         this.state.CKr = ck;
         this.state.Nr++;
         this.state.lastActivity = Date.now();
-        return this.decryptWithKey(message, mk);
+        const plaintext = this.decryptWithKey(message, mk);
+        // A reply proves the remote party has the session
+        this.state.pendingPreKey = undefined;
+        return plaintext;
     }
     decryptWithKey(message, mk) {
         // Reconstruct associated data
@@ -309,14 +335,38 @@ export class DoubleRatchetSession {
     }
     /**
      * Clean up old skipped message keys
+     * Returns the number of keys removed
      */
     cleanupSkippedKeys(maxAgeMs = 7 * 24 * 60 * 60 * 1000) {
         const now = Date.now();
+        let removed = 0;
         for (const [key, value] of this.state.MKSKIPPED.entries()) {
             if (now - value.timestamp > maxAgeMs) {
+                sodium.memzero(value.mk);
                 this.state.MKSKIPPED.delete(key);
+                removed++;
             }
         }
+        return removed;
+    }
+    /**
+     * Zero all key material held in memory. The session is unusable afterwards.
+     */
+    destroy() {
+        const keys = [
+            this.state.DHs.privateKey,
+            this.state.RK,
+            this.state.CKs,
+            this.state.CKr,
+            this.state.HKs,
+            this.state.HKr,
+            this.state.NHKs,
+            this.state.NHKr,
+        ];
+        keys.forEach(key => key && sodium.memzero(key));
+        this.state.MKSKIPPED.forEach(skipped => sodium.memzero(skipped.mk));
+        this.state.MKSKIPPED.clear();
+        this.ready = false;
     }
     /**
      * Export session state for storage
@@ -338,6 +388,13 @@ export class DoubleRatchetSession {
             NHKr: this.state.NHKr ? toBase64(this.state.NHKr) : null,
             remoteIdentityKey: this.state.remoteIdentityKey ? toBase64(this.state.remoteIdentityKey) : null,
             localIdentityKey: this.state.localIdentityKey ? toBase64(this.state.localIdentityKey) : null,
+            pendingPreKey: this.state.pendingPreKey ? {
+                ...this.state.pendingPreKey,
+                ephemeralKey: toBase64(this.state.pendingPreKey.ephemeralKey),
+                kemCiphertext: this.state.pendingPreKey.kemCiphertext
+                    ? toBase64(this.state.pendingPreKey.kemCiphertext)
+                    : undefined,
+            } : null,
             MKSKIPPED: Array.from(this.state.MKSKIPPED.entries()).map(([k, v]) => [
                 k,
                 { mk: toBase64(v.mk), timestamp: v.timestamp },
@@ -368,10 +425,19 @@ export class DoubleRatchetSession {
             NHKr: parsed.NHKr ? fromBase64(parsed.NHKr) : undefined,
             remoteIdentityKey: parsed.remoteIdentityKey ? fromBase64(parsed.remoteIdentityKey) : undefined,
             localIdentityKey: parsed.localIdentityKey ? fromBase64(parsed.localIdentityKey) : undefined,
+            pendingPreKey: parsed.pendingPreKey ? {
+                ...parsed.pendingPreKey,
+                ephemeralKey: fromBase64(parsed.pendingPreKey.ephemeralKey),
+                kemCiphertext: parsed.pendingPreKey.kemCiphertext
+                    ? fromBase64(parsed.pendingPreKey.kemCiphertext)
+                    : undefined,
+            } : undefined,
             MKSKIPPED: new Map(parsed.MKSKIPPED.map(([k, v]) => [
                 k,
                 { mk: fromBase64(v.mk), timestamp: v.timestamp },
             ])),
+            // Sessions stored before post-quantum support were classical
+            postQuantum: parsed.postQuantum ?? false,
             sessionId: parsed.sessionId,
             createdAt: parsed.createdAt,
             lastActivity: parsed.lastActivity,
@@ -384,5 +450,44 @@ export class DoubleRatchetSession {
     get isReady() {
         return this.ready;
     }
+    get isPostQuantum() {
+        return this.state.postQuantum;
+    }
+    get createdAt() {
+        return this.state.createdAt;
+    }
+    get pendingPreKey() {
+        return this.state.pendingPreKey;
+    }
+    get remoteIdentityKey() {
+        return this.state.remoteIdentityKey;
+    }
+    get localIdentityKey() {
+        return this.state.localIdentityKey;
+    }
+}
+/**
+ * Serialize an encrypted message for transport
+ */
+export function serializeMessage(message) {
+    return {
+        h: { dh: toBase64(message.header.dh), pn: message.header.pn, n: message.header.n },
+        hc: toBase64(message.headerCipher),
+        hn: toBase64(message.headerNonce),
+        c: toBase64(message.ciphertext),
+        nc: toBase64(message.nonce),
+    };
+}
+/**
+ * Deserialize an encrypted message received from transport
+ */
+export function deserializeMessage(data) {
+    return {
+        header: { dh: fromBase64(data.h.dh), pn: data.h.pn, n: data.h.n },
+        headerCipher: fromBase64(data.hc),
+        headerNonce: fromBase64(data.hn),
+        ciphertext: fromBase64(data.c),
+        nonce: fromBase64(data.nc),
+    };
 }
-export { toBase64, fromBase64, generateDH, dh, encrypt, decrypt, hkdf };
+export { toBase64, fromBase64, generateDH, dh, encrypt, decrypt, hkdf, kdfCK };
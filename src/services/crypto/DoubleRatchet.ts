@@ -10,6 +10,7 @@
  */
 
 import sodium from 'libsodium-wrappers';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
 
 /**
  * Bytes type for cryptographic operations
@@ -21,6 +22,7 @@ export type Base64 = string;
 // Constants
 const MAX_SKIP = 1000;
 const INFO_RATCHET = new TextEncoder().encode('VORTEX_RATCHET');
+const INFO_PQXDH = new TextEncoder().encode('VORTEX_PQXDH');
 const INFO_MESSAGE = new TextEncoder().encode('VORTEX_MESSAGE');
 
 export interface KeyPair {
@@ -31,8 +33,12 @@ export interface KeyPair {
 export interface PreKeyBundle {
   identityKey: Bytes;      // Long-term identity public key
   signedPreKey: Bytes;     // Signed pre-key public
+  signedPreKeyId: number;
   signedPreKeySig: Bytes;  // Signature over signedPreKey
   oneTimePreKey?: Bytes;   // Optional one-time pre-key
+  oneTimePreKeyId?: number;
+  kemPreKey?: Bytes;       // ML-KEM-768 key, shares signedPreKeyId; absent from older clients
+  kemPreKeySig?: Bytes;    // Signature over kemPreKey
   registrationId: number;
 }
 
@@ -50,6 +56,28 @@ export interface EncryptedMessage {
   nonce: Bytes;
 }
 
+/**
+ * Wire form of an EncryptedMessage (base64 fields, JSON-safe)
+ */
+export interface SerializedMessage {
+  h: { dh: Base64; pn: number; n: number };
+  hc: Base64;
+  hn: Base64;
+  c: Base64;
+  nc: Base64;
+}
+
+/**
+ * X3DH data the initiator keeps attaching until the first reply arrives
+ */
+export interface PendingPreKey {
+  ephemeralKey: Bytes;
+  usedOneTimePreKey: boolean;
+  signedPreKeyId: number;
+  oneTimePreKeyId?: number;
+  kemCiphertext?: Bytes;    // Only when the remote party published a KEM key
+}
+
 interface SkippedKey {
   mk: Bytes;
   timestamp: number;
@@ -88,9 +116,13 @@ export interface SessionState {
   // Skipped message keys
   MKSKIPPED: Map<string, SkippedKey>;
   
+  // Initiator data not yet acknowledged by the remote party
+  pendingPreKey?: PendingPreKey;
+  
   // Metadata
   remoteIdentityKey?: Bytes;
   localIdentityKey?: Bytes;
+  postQuantum: boolean;   // Initial agreement included an ML-KEM shared secret
   sessionId: string;
   createdAt: number;
   lastActivity: number;
@@ -116,6 +148,16 @@ function concat(...arrays: Bytes[]): Bytes {
   return result;
 }
 
+/**
+ * X3DH shared secret, or PQXDH when an ML-KEM shared secret is mixed in.
+ * The info string keeps hybrid and classical secrets apart.
+ */
+function agreeSharedSecret(dhOutputs: Bytes[], kemSecret: Bytes | null): Bytes {
+  return kemSecret
+    ? hkdf(concat(...dhOutputs, kemSecret), new Uint8Array(32), INFO_PQXDH, 32)
+    : hkdf(concat(...dhOutputs), new Uint8Array(32), INFO_RATCHET, 32);
+}
+
 function constantTimeEqual(a: Bytes, b: Bytes): boolean {
   if (a.length !== b.length) return false;
   return sodium.memcmp(a, b);
@@ -256,6 +298,7 @@ export class DoubleRatchetSession {
       Nr: 0,
       PN: 0,
       MKSKIPPED: new Map(),
+      postQuantum: false,
       sessionId: sessionId ?? crypto.randomUUID(),
       createdAt: Date.now(),
       lastActivity: Date.now(),
@@ -264,7 +307,8 @@ export class DoubleRatchetSession {
   
   /**
    * Initialize as sender (Alice)
-   * Uses X3DH to establish initial shared secret
+   * Uses X3DH to establish initial shared secret, hybrid with ML-KEM
+   * (PQXDH) when the bundle carries a KEM pre-key
    */
   async initializeSender(
     localIdentityKey: KeyPair,
@@ -285,18 +329,21 @@ export class DoubleRatchetSession {
     // DH3 = DH(EKa, SPKb)
     const dh3 = dh(ephemeral.privateKey, remotePreKeyBundle.signedPreKey);
     
-    let sk: Bytes;
+    const dhOutputs = [dh1, dh2, dh3];
     let usedOneTimePreKey = false;
     
     if (remotePreKeyBundle.oneTimePreKey) {
       // DH4 = DH(EKa, OPKb)
-      const dh4 = dh(ephemeral.privateKey, remotePreKeyBundle.oneTimePreKey);
-      sk = hkdf(concat(dh1, dh2, dh3, dh4), new Uint8Array(32), INFO_RATCHET, 32);
+      dhOutputs.push(dh(ephemeral.privateKey, remotePreKeyBundle.oneTimePreKey));
       usedOneTimePreKey = true;
-    } else {
-      sk = hkdf(concat(dh1, dh2, dh3), new Uint8Array(32), INFO_RATCHET, 32);
     }
     
+    // SS = ML-KEM-Encaps(PQSPKb)
+    const kem = remotePreKeyBundle.kemPreKey
+      ? ml_kem768.encapsulate(remotePreKeyBundle.kemPreKey)
+      : null;
+    const sk = agreeSharedSecret(dhOutputs, kem?.sharedSecret ?? null);
+    
     // Initialize sending ratchet
     this.state.DHs = generateDH();
     this.state.DHr = remotePreKeyBundle.signedPreKey;
@@ -312,6 +359,14 @@ export class DoubleRatchetSession {
     
     this.state.remoteIdentityKey = remotePreKeyBundle.identityKey;
     this.state.localIdentityKey = localIdentityKey.publicKey;
+    this.state.pendingPreKey = {
+      ephemeralKey: ephemeral.publicKey,
+      usedOneTimePreKey,
+      signedPreKeyId: remotePreKeyBundle.signedPreKeyId,
+      oneTimePreKeyId: usedOneTimePreKey ? remotePreKeyBundle.oneTimePreKeyId : undefined,
+      kemCiphertext: kem?.cipherText,
+    };
+    this.state.postQuantum = kem !== null;
     
     this.ready = true;
     
@@ -320,13 +375,15 @@ export class DoubleRatchetSession {
   
   /**
    * Initialize as receiver (Bob)
+   * The KEM pre-key and ciphertext are present only for PQXDH sessions
    */
   async initializeReceiver(
     localIdentityKey: KeyPair,
     localSignedPreKey: KeyPair,
     localOneTimePreKey: KeyPair | null,
     remoteIdentityKey: Bytes,
-    remoteEphemeralKey: Bytes
+    remoteEphemeralKey: Bytes,
+    kem: { secretKey: Bytes; ciphertext: Bytes } | null = null
   ): Promise<void> {
     await sodium.ready;
     
@@ -340,20 +397,22 @@ export class DoubleRatchetSession {
     // DH3 = DH(SPKb, EKa)
     const dh3 = dh(localSignedPreKey.privateKey, remoteEphemeralKey);
     
-    let sk: Bytes;
+    const dhOutputs = [dh1, dh2, dh3];
     
     if (localOneTimePreKey) {
       // DH4 = DH(OPKb, EKa)
-      const dh4 = dh(localOneTimePreKey.privateKey, remoteEphemeralKey);
-      sk = hkdf(concat(dh1, dh2, dh3, dh4), new Uint8Array(32), INFO_RATCHET, 32);
-    } else {
-      sk = hkdf(concat(dh1, dh2, dh3), new Uint8Array(32), INFO_RATCHET, 32);
+      dhOutputs.push(dh(localOneTimePreKey.privateKey, remoteEphemeralKey));
     }
     
+    // SS = ML-KEM-Decaps(CT, PQSPKb)
+    const kemSecret = kem ? ml_kem768.decapsulate(kem.ciphertext, kem.secretKey) : null;
+    const sk = agreeSharedSecret(dhOutputs, kemSecret);
+    
     this.state.DHs = localSignedPreKey;
     this.state.RK = sk;
     this.state.remoteIdentityKey = remoteIdentityKey;
     this.state.localIdentityKey = localIdentityKey.publicKey;
+    this.state.postQuantum = kem !== null;
     
     this.ready = true;
   }
@@ -423,7 +482,12 @@ export class DoubleRatchetSession {
     this.state.Nr++;
     this.state.lastActivity = Date.now();
     
-    return this.decryptWithKey(message, mk);
+    const plaintext = this.decryptWithKey(message, mk);
+    
+    // A reply proves the remote party has the session
+    this.state.pendingPreKey = undefined;
+    
+    return plaintext;
   }
   
   private decryptWithKey(message: EncryptedMessage, mk: Bytes): Bytes {
@@ -493,14 +557,39 @@ export class DoubleRatchetSession {
   
   /**
    * Clean up old skipped message keys
+   * Returns the number of keys removed
    */
-  cleanupSkippedKeys(maxAgeMs: number = 7 * 24 * 60 * 60 * 1000): void {
+  cleanupSkippedKeys(maxAgeMs: number = 7 * 24 * 60 * 60 * 1000): number {
     const now = Date.now();
+    let removed = 0;
     for (const [key, value] of this.state.MKSKIPPED.entries()) {
       if (now - value.timestamp > maxAgeMs) {
+        sodium.memzero(value.mk);
         this.state.MKSKIPPED.delete(key);
+        removed++;
       }
     }
+    return removed;
+  }
+
+  /**
+   * Zero all key material held in memory. The session is unusable afterwards.
+   */
+  destroy(): void {
+    const keys = [
+      this.state.DHs.privateKey,
+      this.state.RK,
+      this.state.CKs,
+      this.state.CKr,
+      this.state.HKs,
+      this.state.HKr,
+      this.state.NHKs,
+      this.state.NHKr,
+    ];
+    keys.forEach(key => key && sodium.memzero(key));
+    this.state.MKSKIPPED.forEach(skipped => sodium.memzero(skipped.mk));
+    this.state.MKSKIPPED.clear();
+    this.ready = false;
   }
   
   /**
@@ -523,6 +612,13 @@ export class DoubleRatchetSession {
       NHKr: this.state.NHKr ? toBase64(this.state.NHKr) : null,
       remoteIdentityKey: this.state.remoteIdentityKey ? toBase64(this.state.remoteIdentityKey) : null,
       localIdentityKey: this.state.localIdentityKey ? toBase64(this.state.localIdentityKey) : null,
+      pendingPreKey: this.state.pendingPreKey ? {
+        ...this.state.pendingPreKey,
+        ephemeralKey: toBase64(this.state.pendingPreKey.ephemeralKey),
+        kemCiphertext: this.state.pendingPreKey.kemCiphertext
+          ? toBase64(this.state.pendingPreKey.kemCiphertext)
+          : undefined,
+      } : null,
       MKSKIPPED: Array.from(this.state.MKSKIPPED.entries()).map(([k, v]) => [
         k,
         { mk: toBase64(v.mk), timestamp: v.timestamp },
@@ -554,12 +650,21 @@ export class DoubleRatchetSession {
       NHKr: parsed.NHKr ? fromBase64(parsed.NHKr) : undefined,
       remoteIdentityKey: parsed.remoteIdentityKey ? fromBase64(parsed.remoteIdentityKey) : undefined,
       localIdentityKey: parsed.localIdentityKey ? fromBase64(parsed.localIdentityKey) : undefined,
+      pendingPreKey: parsed.pendingPreKey ? {
+        ...parsed.pendingPreKey,
+        ephemeralKey: fromBase64(parsed.pendingPreKey.ephemeralKey),
+        kemCiphertext: parsed.pendingPreKey.kemCiphertext
+          ? fromBase64(parsed.pendingPreKey.kemCiphertext)
+          : undefined,
+      } : undefined,
       MKSKIPPED: new Map(
         parsed.MKSKIPPED.map(([k, v]: [string, { mk: string; timestamp: number }]) => [
           k,
           { mk: fromBase64(v.mk), timestamp: v.timestamp },
         ])
       ),
+      // Sessions stored before post-quantum support were classical
+      postQuantum: parsed.postQuantum ?? false,
       sessionId: parsed.sessionId,
       createdAt: parsed.createdAt,
       lastActivity: parsed.lastActivity,
@@ -574,6 +679,52 @@ export class DoubleRatchetSession {
   get isReady(): boolean {
     return this.ready;
   }
+  
+  get isPostQuantum(): boolean {
+    return this.state.postQuantum;
+  }
+  
+  get createdAt(): number {
+    return this.state.createdAt;
+  }
+  
+  get pendingPreKey(): PendingPreKey | undefined {
+    return this.state.pendingPreKey;
+  }
+  
+  get remoteIdentityKey(): Bytes | undefined {
+    return this.state.remoteIdentityKey;
+  }
+  
+  get localIdentityKey(): Bytes | undefined {
+    return this.state.localIdentityKey;
+  }
+}
+
+/**
+ * Serialize an encrypted message for transport
+ */
+export function serializeMessage(message: EncryptedMessage): SerializedMessage {
+  return {
+    h: { dh: toBase64(message.header.dh), pn: message.header.pn, n: message.header.n },
+    hc: toBase64(message.headerCipher),
+    hn: toBase64(message.headerNonce),
+    c: toBase64(message.ciphertext),
+    nc: toBase64(message.nonce),
+  };
+}
+
+/**
+ * Deserialize an encrypted message received from transport
+ */
+export function deserializeMessage(data: SerializedMessage): EncryptedMessage {
+  return {
+    header: { dh: fromBase64(data.h.dh), pn: data.h.pn, n: data.h.n },
+    headerCipher: fromBase64(data.hc),
+    headerNonce: fromBase64(data.hn),
+    ciphertext: fromBase64(data.c),
+    nonce: fromBase64(data.nc),
+  };
 }
 
-export { toBase64, fromBase64, generateDH, dh, encrypt, decrypt, hkdf };
+export { toBase64, fromBase64, generateDH, dh, encrypt, decrypt, hkdf, kdfCK };
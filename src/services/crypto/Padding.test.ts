@@ -0,0 +1,74 @@
+/**
+ * VORTEX Protocol - Padding Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { pad, unpad, paddedLength } from './Padding';
+
+function bytes(length: number, fill = 0x41): Uint8Array {
+  return new Uint8Array(length).fill(fill);
+}
+
+describe('pad', () => {
+  it('round-trips payloads of any length', () => {
+    for (const length of [0, 1, 2, 100, 255, 256, 257, 1000, 4096, 65536]) {
+      const data = bytes(length);
+      expect(unpad(pad(data))).toEqual(data);
+    }
+  });
+
+  it('keeps trailing zeros and marker bytes of the payload', () => {
+    const data = new Uint8Array([1, 0x80, 0, 0]);
+    expect(unpad(pad(data))).toEqual(data);
+  });
+
+  it('puts short payloads in the same bucket', () => {
+    expect(pad(bytes(0)).length).toBe(256);
+    expect(pad(bytes(10)).length).toBe(256);
+    expect(pad(bytes(255)).length).toBe(256);
+  });
+
+  it('hides the exact length of longer payloads', () => {
+    expect(paddedLength(1000)).toBe(paddedLength(1001));
+    expect(new Set([5000, 5001, 5010, 5020].map(paddedLength)).size).toBe(1);
+  });
+
+  it('adds at most about 12% above the minimum bucket', () => {
+    for (let length = 256; length < 100000; length += 997) {
+      const padded = paddedLength(length);
+      expect(padded).toBeGreaterThan(length);
+      expect(padded / (length + 1)).toBeLessThanOrEqual(1.125);
+    }
+  });
+});
+
+describe('unpad', () => {
+  it('rejects all-zero input', () => {
+    expect(() => unpad(new Uint8Array(256))).toThrow('Invalid padding');
+  });
+
+  it('rejects empty input', () => {
+    expect(() => unpad(new Uint8Array(0))).toThrow('Invalid padding');
+  });
+
+  it('rejects a missing marker', () => {
+    const padded = pad(bytes(10));
+    padded[10] = 0x81;
+    expect(() => unpad(padded)).toThrow('Invalid padding');
+  });
+
+  it('rejects padding cut short', () => {
+    expect(() => unpad(pad(bytes(10)).slice(0, 255))).toThrow('Invalid padded length');
+  });
+
+  it('rejects extra padding', () => {
+    const padded = pad(bytes(10));
+    const longer = new Uint8Array(padded.length + 16);
+    longer.set(padded, 0);
+    expect(() => unpad(longer)).toThrow('Invalid padded length');
+  });
+
+  it('rejects unpadded data', () => {
+    expect(() => unpad(bytes(300))).toThrow('Invalid padding');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * VORTEX Protocol - Length-Hiding Padding
+ * Pads plaintexts to Padmé buckets before encryption so ciphertext length
+ * reveals little about the payload. Padding is ISO/IEC 7816-4 style: a
+ * 0x80 marker followed by zero bytes.
+ */
+
+import type { Bytes } from './DoubleRatchet';
+
+// Typing indicators, receipts and short texts all land in this bucket
+const MIN_PADDED_LENGTH = 256;
+
+const PADDING_MARKER = 0x80;
+
+/**
+ * Padmé bucket for a length: leaks O(log log n) bits of it,
+ * with at most ~12% overhead
+ */
+function padme(length: number): number {
+  if (length < 2) return length;
+
+  const e = Math.floor(Math.log2(length));
+  const s = Math.floor(Math.log2(e)) + 1;
+  const lastBits = e - s;
+  const bitMask = 2 ** lastBits - 1;
+  return Math.ceil(length / (bitMask + 1)) * (bitMask + 1);
+}
+
+/**
+ * Padded size for a payload of the given length (marker included)
+ */
+export function paddedLength(length: number): number {
+  return Math.max(MIN_PADDED_LENGTH, padme(length + 1));
+}
+
+export function pad(data: Bytes): Bytes {
+  const padded = new Uint8Array(paddedLength(data.length));
+  padded.set(data, 0);
+  padded[data.length] = PADDING_MARKER;
+  return padded;
+}
+
+/**
+ * Strip padding, rejecting anything that is not exactly what pad() produces
+ */
+export function unpad(padded: Bytes): Bytes {
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+
+  if (end < 0 || padded[end] !== PADDING_MARKER) {
+    throw new Error('Invalid padding');
+  }
+  if (padded.length !== paddedLength(end)) {
+    throw new Error('Invalid padded length');
+  }
+
+  return padded.slice(0, end);
+}
@@ -0,0 +1,122 @@
+/**
+ * VORTEX Protocol - Safety Number Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import {
+  computeSafetyNumber,
+  isSafetyNumberPayload,
+  matchesScannedSafetyNumber,
+  scannedIdentityKey,
+  type SafetyNumberParty,
+} from './SafetyNumber';
+
+let alice: SafetyNumberParty;
+let bob: SafetyNumberParty;
+let mallory: SafetyNumberParty;
+
+beforeAll(async () => {
+  await sodium.ready;
+  const party = (id: string) => ({ id, identityKey: sodium.to_hex(sodium.crypto_sign_keypair().publicKey) });
+  alice = party('alice');
+  bob = party('bob');
+  mallory = party('mallory');
+});
+
+describe('computeSafetyNumber', () => {
+  it('gives both sides the same 60 digits', async () => {
+    const ours = await computeSafetyNumber(alice, bob);
+    const theirs = await computeSafetyNumber(bob, alice);
+
+    expect(ours.digits).toMatch(/^\d{60}$/);
+    expect(ours.digits).toBe(theirs.digits);
+    expect(ours.groups).toHaveLength(12);
+    expect(ours.groups.join('')).toBe(ours.digits);
+  });
+
+  it('changes with either identity key', async () => {
+    const genuine = await computeSafetyNumber(alice, bob);
+    const intercepted = await computeSafetyNumber(alice, { id: 'bob', identityKey: mallory.identityKey });
+
+    expect(intercepted.digits).not.toBe(genuine.digits);
+  });
+
+  it('changes with the peer ID', async () => {
+    const genuine = await computeSafetyNumber(alice, bob);
+    const renamed = await computeSafetyNumber(alice, { id: 'bob2', identityKey: bob.identityKey });
+
+    expect(renamed.digits).not.toBe(genuine.digits);
+  });
+});
+
+describe('matchesScannedSafetyNumber', () => {
+  it("matches the contact's code", async () => {
+    const ours = await computeSafetyNumber(alice, bob);
+    const theirs = await computeSafetyNumber(bob, alice);
+
+    expect(await matchesScannedSafetyNumber(ours, theirs.qrPayload)).toBe(true);
+    expect(await matchesScannedSafetyNumber(theirs, ours.qrPayload)).toBe(true);
+  });
+
+  it('does not match our own code', async () => {
+    const ours = await computeSafetyNumber(alice, bob);
+    expect(await matchesScannedSafetyNumber(ours, ours.qrPayload)).toBe(false);
+  });
+
+  it('does not match when someone sits in between', async () => {
+    const ours = await computeSafetyNumber(alice, { id: 'bob', identityKey: mallory.identityKey });
+    const theirs = await computeSafetyNumber(bob, alice);
+
+    expect(await matchesScannedSafetyNumber(ours, theirs.qrPayload)).toBe(false);
+  });
+
+  it('does not match truncated fingerprints', async () => {
+    const ours = await computeSafetyNumber(alice, bob);
+    const theirs = JSON.parse((await computeSafetyNumber(bob, alice)).qrPayload);
+    theirs.local = theirs.local.slice(0, 20);
+
+    expect(await matchesScannedSafetyNumber(ours, JSON.stringify(theirs))).toBe(false);
+  });
+
+  it('rejects codes that are not safety numbers', async () => {
+    const ours = await computeSafetyNumber(alice, bob);
+
+    await expect(matchesScannedSafetyNumber(ours, 'not json')).rejects.toThrow('Invalid safety number code');
+    await expect(matchesScannedSafetyNumber(ours, JSON.stringify({ type: 'other' })))
+      .rejects.toThrow('Invalid safety number code');
+  });
+
+  it('rejects codes from another version', async () => {
+    const ours = await computeSafetyNumber(alice, bob);
+    const theirs = JSON.parse((await computeSafetyNumber(bob, alice)).qrPayload);
+    theirs.version = 1;
+
+    await expect(matchesScannedSafetyNumber(ours, JSON.stringify(theirs)))
+      .rejects.toThrow('Safety number version mismatch');
+  });
+});
+
+describe('scanned codes', () => {
+  it('recognizes safety number codes', async () => {
+    const ours = await computeSafetyNumber(alice, bob);
+
+    expect(isSafetyNumberPayload(ours.qrPayload)).toBe(true);
+    expect(isSafetyNumberPayload('{"type":"contact"}')).toBe(false);
+    expect(isSafetyNumberPayload('vortex://add')).toBe(false);
+  });
+
+  it('carries the identity key of whoever shows the code', async () => {
+    const theirs = await computeSafetyNumber(bob, alice);
+    expect(scannedIdentityKey(theirs.qrPayload)).toBe(bob.identityKey);
+  });
+
+  it('ignores malformed identity keys', async () => {
+    const payload = JSON.parse((await computeSafetyNumber(bob, alice)).qrPayload);
+
+    expect(scannedIdentityKey(JSON.stringify({ ...payload, key: 'abcd' }))).toBeNull();
+    expect(scannedIdentityKey(JSON.stringify({ ...payload, key: undefined }))).toBeNull();
+    expect(scannedIdentityKey(JSON.stringify({ ...payload, type: 'other' }))).toBeNull();
+    expect(scannedIdentityKey('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * VORTEX Protocol - Safety Numbers
+ * Numeric and scannable fingerprints of a pair of identity keys, for
+ * checking out of band that no one sits between two contacts
+ */
+
+import sodium from 'libsodium-wrappers';
+import { toBase64, fromBase64, type Bytes } from './DoubleRatchet';
+
+const SAFETY_NUMBER_VERSION = 0;
+const ITERATIONS = 5200;
+
+// Each side contributes 30 digits: six 5-byte chunks, each mod 100000
+const CHUNKS = 6;
+const CHUNK_BYTES = 5;
+
+// Bytes of each side's fingerprint in the scannable form
+const SCANNABLE_BYTES = 32;
+
+const QR_TYPE = 'vortex-safety-number';
+
+export interface SafetyNumberParty {
+  id: string;            // Stable peer ID
+  identityKey: string;   // Ed25519, hex
+}
+
+export interface SafetyNumber {
+  digits: string;        // 60 digits, the same on both sides
+  groups: string[];      // 12 groups of 5 digits
+  qrPayload: string;     // What the other side scans
+}
+
+interface ScannablePayload {
+  type: typeof QR_TYPE;
+  version: number;
+  local: string;         // Fingerprint of whoever shows the code
+  remote: string;        // Fingerprint of whoever scans it
+  key?: string;          // Identity key of whoever shows the code, hex
+}
+
+/**
+ * Iterated SHA-512 over the identity key and stable ID
+ */
+function fingerprint(party: SafetyNumberParty): Bytes {
+  const key = sodium.from_hex(party.identityKey);
+  const id = sodium.from_string(party.id);
+
+  let hash: Bytes = new Uint8Array(2 + key.length + id.length);
+  new DataView(hash.buffer).setUint16(0, SAFETY_NUMBER_VERSION);
+  hash.set(key, 2);
+  hash.set(id, 2 + key.length);
+
+  for (let i = 0; i < ITERATIONS; i++) {
+    const input = new Uint8Array(hash.length + key.length);
+    input.set(hash, 0);
+    input.set(key, hash.length);
+    hash = sodium.crypto_hash(input);
+  }
+
+  return hash;
+}
+
+function displayable(hash: Bytes): string {
+  let digits = '';
+  for (let i = 0; i < CHUNKS; i++) {
+    let chunk = 0;
+    for (let j = 0; j < CHUNK_BYTES; j++) {
+      chunk = chunk * 256 + hash[i * CHUNK_BYTES + j];
+    }
+    digits += String(chunk % 100000).padStart(5, '0');
+  }
+  return digits;
+}
+
+/**
+ * Compute the safety number between us and a contact. Both sides get
+ * the same digits; each side's QR code carries its own view of the pair.
+ */
+export async function computeSafetyNumber(
+  local: SafetyNumberParty,
+  remote: SafetyNumberParty
+): Promise<SafetyNumber> {
+  await sodium.ready;
+
+  const localHash = fingerprint(local);
+  const remoteHash = fingerprint(remote);
+
+  const localDigits = displayable(localHash);
+  const remoteDigits = displayable(remoteHash);
+  const digits = localDigits < remoteDigits ? localDigits + remoteDigits : remoteDigits + localDigits;
+
+  const payload: ScannablePayload = {
+    type: QR_TYPE,
+    version: SAFETY_NUMBER_VERSION,
+    local: toBase64(localHash.slice(0, SCANNABLE_BYTES)),
+    remote: toBase64(remoteHash.slice(0, SCANNABLE_BYTES)),
+    key: local.identityKey,
+  };
+
+  return {
+    digits,
+    groups: digits.match(/.{5}/g) ?? [],
+    qrPayload: JSON.stringify(payload),
+  };
+}
+
+export function isSafetyNumberPayload(data: string): boolean {
+  try {
+    return (JSON.parse(data) as ScannablePayload).type === QR_TYPE;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The identity key a scanned code carries, for a contact added without
+ * one. It only counts once the code matches with that key.
+ */
+export function scannedIdentityKey(scanned: string): string | null {
+  try {
+    const payload = JSON.parse(scanned) as ScannablePayload;
+    return payload.type === QR_TYPE && typeof payload.key === 'string' && /^[0-9a-f]{64}$/i.test(payload.key)
+      ? payload.key.toLowerCase()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a code scanned from the contact's screen against our own view:
+ * their local fingerprint must be our remote one and the reverse
+ */
+export async function matchesScannedSafetyNumber(ours: SafetyNumber, scanned: string): Promise<boolean> {
+  await sodium.ready;
+
+  let theirs: ScannablePayload;
+  let mine: ScannablePayload;
+  try {
+    theirs = JSON.parse(scanned) as ScannablePayload;
+    mine = JSON.parse(ours.qrPayload) as ScannablePayload;
+  } catch {
+    throw new Error('Invalid safety number code');
+  }
+
+  if (theirs.type !== QR_TYPE || typeof theirs.local !== 'string' || typeof theirs.remote !== 'string') {
+    throw new Error('Invalid safety number code');
+  }
+  if (theirs.version !== mine.version) {
+    throw new Error('Safety number version mismatch');
+  }
+
+  const theirLocal = fromBase64(theirs.local);
+  const theirRemote = fromBase64(theirs.remote);
+  if (theirLocal.length !== SCANNABLE_BYTES || theirRemote.length !== SCANNABLE_BYTES) {
+    return false;
+  }
+
+  return sodium.memcmp(theirLocal, fromBase64(mine.remote)) &&
+    sodium.memcmp(theirRemote, fromBase64(mine.local));
+}
@@ -0,0 +1,183 @@
+/**
+ * VORTEX Protocol - Sealed Sender Tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { PeerMessage } from '../p2p';
+import { sealMessage, unsealMessage, type SealedContent } from './SealedSender';
+import { toBase64, fromBase64, type KeyPair } from './DoubleRatchet';
+import { pad, unpad } from './Padding';
+
+interface Device {
+  address: string;
+  keys: KeyPair;    // Ed25519
+}
+
+// The identity of whichever device is acting
+const devices = vi.hoisted(() => ({ active: null as Device | null }));
+
+function active(): Device {
+  if (!devices.active) throw new Error('No active device');
+  return devices.active;
+}
+
+vi.mock('../identity', async () => {
+  const { userIdOf } = await import('../identity/DeviceAddress');
+  return {
+    userIdOf,
+    identityService: {
+      getIdentity: () => ({ id: userIdOf(active().address) }),
+      getIdentityKeyPair: () => active().keys,
+      getDeviceKey: () => sodium.to_hex(active().keys.publicKey),
+      getAddress: () => active().address,
+      sign: (message: Uint8Array) => sodium.crypto_sign_detached(message, active().keys.privateKey),
+      verify: (message: Uint8Array, signature: Uint8Array, publicKeyHex: string) => {
+        try {
+          return sodium.crypto_sign_verify_detached(signature, message, sodium.from_hex(publicKeyHex));
+        } catch {
+          return false;
+        }
+      },
+    },
+  };
+});
+
+const MESSAGE: PeerMessage = { type: 'text', id: 'msg-1', payload: { content: 'hello' }, timestamp: 1 };
+
+function createDevice(address: string): Device {
+  return { address, keys: sodium.crypto_sign_keypair() };
+}
+
+function keyOf(device: Device): string {
+  return sodium.to_hex(device.keys.publicKey);
+}
+
+async function as<T>(device: Device, action: () => Promise<T>): Promise<T> {
+  devices.active = device;
+  return action();
+}
+
+// Box sealed content as sealMessage does, without signing it again
+function box(content: SealedContent, recipient: Device): string {
+  const recipientKey = sodium.crypto_sign_ed25519_pk_to_curve25519(recipient.keys.publicKey);
+  return toBase64(sodium.crypto_box_seal(pad(sodium.from_string(JSON.stringify(content))), recipientKey));
+}
+
+// What the recipient finds inside, without checking it
+function open(sealed: string, recipient: Device): SealedContent {
+  const opened = sodium.crypto_box_seal_open(
+    fromBase64(sealed),
+    sodium.crypto_sign_ed25519_pk_to_curve25519(recipient.keys.publicKey),
+    sodium.crypto_sign_ed25519_sk_to_curve25519(recipient.keys.privateKey)
+  );
+  return JSON.parse(sodium.to_string(unpad(opened)));
+}
+
+let alice: Device;
+let bob: Device;
+let carol: Device;
+
+beforeAll(async () => {
+  await sodium.ready;
+});
+
+beforeEach(() => {
+  alice = createDevice('alice');
+  bob = createDevice('bob');
+  carol = createDevice('carol');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function seal(from: Device, to: Device, message: PeerMessage = MESSAGE): Promise<string> {
+  return as(from, () => sealMessage(to.address, keyOf(to), message));
+}
+
+function unseal(by: Device, sealed: string): Promise<SealedContent> {
+  return as(by, () => unsealMessage(sealed));
+}
+
+describe('sealed sender', () => {
+  it('round-trips a message with the sender inside', async () => {
+    const content = await unseal(bob, await seal(alice, bob));
+
+    expect(content.message).toEqual(MESSAGE);
+    expect(content.certificate.peerId).toBe('alice');
+    expect(content.certificate.identityKey).toBe(keyOf(alice));
+    expect(content.certificate.expires).toBeGreaterThan(Date.now());
+  });
+
+  it('names the sending device', async () => {
+    const laptop = createDevice('alice.2');
+    const content = await unseal(bob, await seal(laptop, bob));
+
+    expect(content.certificate.peerId).toBe('alice.2');
+    expect(content.certificate.identityKey).toBe(keyOf(laptop));
+  });
+
+  it('cannot be opened by anyone else', async () => {
+    await expect(unseal(carol, await seal(alice, bob))).rejects.toThrow();
+  });
+
+  it('rejects a tampered box', async () => {
+    const sealed = fromBase64(await seal(alice, bob));
+    sealed[sealed.length - 1] ^= 0x01;
+
+    await expect(unseal(bob, toBase64(sealed))).rejects.toThrow();
+  });
+
+  it('rejects a message sealed again to another recipient', async () => {
+    const content = open(await seal(alice, bob), bob);
+
+    await expect(unseal(carol, box(content, carol))).rejects.toThrow('Invalid sender signature');
+  });
+
+  it('rejects a changed message', async () => {
+    const content = open(await seal(alice, bob), bob);
+    const changed = { ...content, message: { ...MESSAGE, payload: { content: 'send money' } } };
+
+    await expect(unseal(bob, box(changed, bob))).rejects.toThrow('Invalid sender signature');
+  });
+
+  it('rejects a certificate claiming another sender', async () => {
+    const content = open(await seal(alice, bob), bob);
+    const claimed = { ...content, certificate: { ...content.certificate, peerId: 'carol' } };
+
+    await expect(unseal(bob, box(claimed, bob))).rejects.toThrow('Invalid sender signature');
+  });
+
+  it('rejects a certificate with the wrong identity key', async () => {
+    const content = open(await seal(alice, bob), bob);
+    const swapped = { ...content, certificate: { ...content.certificate, identityKey: keyOf(carol) } };
+
+    await expect(unseal(bob, box(swapped, bob))).rejects.toThrow('Invalid sender signature');
+  });
+
+  it('rejects a signature from a key other than the certificate names', async () => {
+    const content = open(await seal(alice, bob), bob);
+    // A valid signature, but Carol's and over her own certificate
+    const forged = await as(carol, async () => {
+      const resealed = open(await sealMessage('bob', keyOf(bob), MESSAGE), bob);
+      return { ...content, signature: resealed.signature };
+    });
+
+    await expect(unseal(bob, box(forged, bob))).rejects.toThrow('Invalid sender signature');
+  });
+
+  it('rejects an expired certificate', async () => {
+    const sealed = await seal(alice, bob);
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 25 * 60 * 60 * 1000);
+
+    await expect(unseal(bob, sealed)).rejects.toThrow('Sender certificate expired');
+  });
+
+  it('rejects a malformed certificate', async () => {
+    const content = open(await seal(alice, bob), bob);
+    const malformed = { ...content, certificate: { expires: content.certificate.expires } } as unknown as SealedContent;
+
+    await expect(unseal(bob, box(malformed, bob))).rejects.toThrow('Malformed sender certificate');
+  });
+});
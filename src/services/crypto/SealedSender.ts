@@ -0,0 +1,107 @@
+/**
+ * VORTEX Protocol - Sealed Sender
+ * Hides who sent a relayed message from the signaling server: the sender's
+ * identity travels inside a box that only the recipient can open
+ */
+
+import sodium from 'libsodium-wrappers';
+import { identityService } from '../identity';
+import type { PeerMessage } from '../p2p';
+import { toBase64, fromBase64, type Bytes, type Base64 } from './DoubleRatchet';
+import { pad, unpad } from './Padding';
+
+const CERTIFICATE_LIFETIME = 24 * 60 * 60 * 1000;
+
+/**
+ * Who the sender claims to be. Only trusted once the signature checks out
+ * and the identity key matches what the recipient knows for that peer.
+ */
+export interface SenderCertificate {
+  peerId: string;        // Sending device's address
+  identityKey: string;   // Sending device's identity key (Ed25519, hex)
+  expires: number;
+}
+
+export interface SealedContent {
+  certificate: SenderCertificate;
+  message: PeerMessage;
+  signature: Base64;     // Identity key signature over certificate, recipient and message
+}
+
+// Binding the recipient stops a sealed message being re-sealed to someone else
+function signedBytes(certificate: SenderCertificate, recipientPeerId: string, message: PeerMessage): Bytes {
+  return sodium.from_string(JSON.stringify([
+    'VORTEX_SEALED',
+    certificate.peerId,
+    certificate.identityKey,
+    certificate.expires,
+    recipientPeerId,
+    message,
+  ]));
+}
+
+/**
+ * Seal a message to the recipient device's identity key
+ */
+export async function sealMessage(
+  recipientPeerId: string,
+  recipientIdentityKey: string,
+  message: PeerMessage
+): Promise<Base64> {
+  await sodium.ready;
+
+  const identityKey = identityService.getDeviceKey();
+  if (!identityKey) throw new Error('No identity');
+
+  const certificate: SenderCertificate = {
+    peerId: identityService.getAddress()!,
+    identityKey,
+    expires: Date.now() + CERTIFICATE_LIFETIME,
+  };
+
+  const content: SealedContent = {
+    certificate,
+    message,
+    signature: toBase64(identityService.sign(signedBytes(certificate, recipientPeerId, message))),
+  };
+
+  const recipientKey = sodium.crypto_sign_ed25519_pk_to_curve25519(sodium.from_hex(recipientIdentityKey));
+  return toBase64(sodium.crypto_box_seal(pad(sodium.from_string(JSON.stringify(content))), recipientKey));
+}
+
+/**
+ * Open a sealed message addressed to us and check the sender's signature.
+ * Callers must still check the certificate's identity key against the
+ * key they know for the claimed peer.
+ */
+export async function unsealMessage(sealed: Base64): Promise<SealedContent> {
+  await sodium.ready;
+
+  const identity = identityService.getIdentity();
+  const keyPair = identityService.getIdentityKeyPair();
+  if (!identity || !keyPair) throw new Error('No identity');
+
+  const opened = sodium.crypto_box_seal_open(
+    fromBase64(sealed),
+    sodium.crypto_sign_ed25519_pk_to_curve25519(keyPair.publicKey),
+    sodium.crypto_sign_ed25519_sk_to_curve25519(keyPair.privateKey)
+  );
+  const content = JSON.parse(sodium.to_string(unpad(opened))) as SealedContent;
+
+  const { certificate } = content;
+  if (!certificate || typeof certificate.peerId !== 'string' || typeof certificate.identityKey !== 'string') {
+    throw new Error('Malformed sender certificate');
+  }
+  if (certificate.expires < Date.now()) {
+    throw new Error('Sender certificate expired');
+  }
+
+  const valid = identityService.verify(
+    signedBytes(certificate, identityService.getAddress()!, content.message),
+    fromBase64(content.signature),
+    certificate.identityKey
+  );
+  if (!valid) throw new Error('Invalid sender signature');
+
+  return content;
+}
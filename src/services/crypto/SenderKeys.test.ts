@@ -0,0 +1,213 @@
+/**
+ * VORTEX Protocol - Sender Key Tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import type { SenderKeyRecord } from '../database';
+import { senderKeyManager, type SenderKeyDistribution, type SenderKeyMessage } from './SenderKeys';
+import { toBase64, fromBase64 } from './DoubleRatchet';
+
+// Each member's sender key table; the manager works on the active one
+const members = vi.hoisted(() => ({
+  tables: new Map<string, Map<string, SenderKeyRecord>>(),
+  active: '',
+}));
+
+function table(): Map<string, SenderKeyRecord> {
+  let records = members.tables.get(members.active);
+  if (!records) {
+    records = new Map();
+    members.tables.set(members.active, records);
+  }
+  return records;
+}
+
+vi.mock('../database', () => ({
+  db: {
+    getSenderKey: (groupId: string, senderId: string) => table().get(`${groupId}|${senderId}`) ?? null,
+    saveSenderKey: (record: SenderKeyRecord) => { table().set(`${record.groupId}|${record.senderId}`, record); },
+    deleteSenderKey: (groupId: string, senderId: string) => { table().delete(`${groupId}|${senderId}`); },
+    deleteSenderKeys: (groupId: string) => {
+      [...table().keys()].filter(key => key.startsWith(`${groupId}|`)).forEach(key => table().delete(key));
+    },
+    getSenderKeySenderIds: (groupId: string) =>
+      [...table().values()].filter(record => record.groupId === groupId).map(record => record.senderId),
+  },
+}));
+
+vi.mock('../identity', async () => {
+  const { userIdOf } = await import('../identity/DeviceAddress');
+  const storageKey = new Uint8Array(32).fill(9);
+  return {
+    userIdOf,
+    identityService: {
+      getStorageKey: () => storageKey.slice(),
+      getLegacyStorageKey: () => null,
+    },
+  };
+});
+
+const GROUP = 'group-1';
+
+function as<T>(member: string, action: () => T): T {
+  members.active = member;
+  return action();
+}
+
+function distribute(from: string, to: string[]): SenderKeyDistribution {
+  const distribution = as(from, () => senderKeyManager.getDistribution(GROUP, from));
+  to.forEach(member => as(member, () => senderKeyManager.processDistribution(from, distribution)));
+  return distribution;
+}
+
+function send(from: string, text: string): SenderKeyMessage {
+  return as(from, () => senderKeyManager.encrypt(GROUP, from, text));
+}
+
+function receive(by: string, from: string, message: SenderKeyMessage): string {
+  return as(by, () => senderKeyManager.decrypt(from, message));
+}
+
+function flipByte(base64: string): string {
+  const bytes = fromBase64(base64);
+  bytes[0] ^= 0x01;
+  return toBase64(bytes);
+}
+
+beforeAll(async () => {
+  await senderKeyManager.initialize();
+});
+
+beforeEach(() => {
+  members.tables.clear();
+});
+
+describe('SenderKeyManager', () => {
+  it('encrypts once for every member', () => {
+    distribute('alice', ['bob', 'carol']);
+    const message = send('alice', 'hello group');
+
+    expect(receive('bob', 'alice', message)).toBe('hello group');
+    expect(receive('carol', 'alice', message)).toBe('hello group');
+  });
+
+  it('ratchets forward with every message', () => {
+    distribute('alice', ['bob']);
+    const first = send('alice', 'one');
+    const second = send('alice', 'two');
+
+    expect([first.i, second.i]).toEqual([0, 1]);
+    expect(receive('bob', 'alice', first)).toBe('one');
+    expect(receive('bob', 'alice', second)).toBe('two');
+  });
+
+  it('pads messages so short ones look alike', () => {
+    distribute('alice', ['bob']);
+    expect(send('alice', 'ok').c.length).toBe(send('alice', 'see you at eight tonight').c.length);
+  });
+
+  it('decrypts skipped messages when they arrive', () => {
+    distribute('alice', ['bob']);
+    const [one, two, three] = ['one', 'two', 'three'].map(text => send('alice', text));
+
+    expect(receive('bob', 'alice', three)).toBe('three');
+    expect(receive('bob', 'alice', one)).toBe('one');
+    expect(receive('bob', 'alice', two)).toBe('two');
+  });
+
+  it('rejects a duplicate message', () => {
+    distribute('alice', ['bob']);
+    const message = send('alice', 'once');
+    receive('bob', 'alice', message);
+
+    expect(() => receive('bob', 'alice', message)).toThrow('Duplicate group message');
+  });
+
+  it('rejects a duplicate skipped message', () => {
+    distribute('alice', ['bob']);
+    const [one, two] = ['one', 'two'].map(text => send('alice', text));
+    receive('bob', 'alice', two);
+    receive('bob', 'alice', one);
+
+    expect(() => receive('bob', 'alice', one)).toThrow('Duplicate group message');
+  });
+
+  it('rejects messages too far ahead', () => {
+    distribute('alice', ['bob']);
+    let message = send('alice', 'first');
+    for (let i = 0; i < 2001; i++) message = send('alice', 'more');
+
+    expect(() => receive('bob', 'alice', message)).toThrow('Too many skipped messages');
+  });
+
+  it('rejects a tampered message and keeps the chain', () => {
+    distribute('alice', ['bob']);
+    const message = send('alice', 'intact');
+
+    expect(() => receive('bob', 'alice', { ...message, c: flipByte(message.c) }))
+      .toThrow('Invalid group message signature');
+    expect(() => receive('bob', 'alice', { ...message, i: message.i + 1 }))
+      .toThrow('Invalid group message signature');
+    expect(() => receive('bob', 'alice', { ...message, s: flipByte(message.s) }))
+      .toThrow('Invalid group message signature');
+    expect(receive('bob', 'alice', message)).toBe('intact');
+  });
+
+  it('rejects a message signed by another member', () => {
+    distribute('alice', ['bob']);
+    distribute('mallory', ['bob']);
+    const forged = send('mallory', 'trust me');
+    const genuine = send('alice', 'hello');
+
+    expect(() => receive('bob', 'alice', { ...forged, k: genuine.k }))
+      .toThrow('Invalid group message signature');
+  });
+
+  it('rejects messages without a matching sender key', () => {
+    distribute('alice', ['bob']);
+    const message = send('alice', 'hello');
+
+    expect(() => receive('carol', 'alice', message)).toThrow('No sender key from member');
+    expect(() => receive('bob', 'alice', { ...message, k: message.k + 1 })).toThrow('Unknown sender key');
+  });
+
+  it('never rewinds a chain from an old distribution', () => {
+    const distribution = distribute('alice', ['bob']);
+    const message = send('alice', 'once');
+    receive('bob', 'alice', message);
+
+    as('bob', () => senderKeyManager.processDistribution('alice', distribution));
+    expect(() => receive('bob', 'alice', message)).toThrow('Duplicate group message');
+  });
+
+  it('starts a new sender key after rotation', () => {
+    const old = distribute('alice', ['bob']);
+    as('alice', () => senderKeyManager.rotate(GROUP, 'alice'));
+    expect(() => send('alice', 'hello')).toThrow('No sender key for group');
+
+    const fresh = as('alice', () => senderKeyManager.getDistribution(GROUP, 'alice'));
+    const message = send('alice', 'hello');
+
+    expect(fresh.keyId).not.toBe(old.keyId);
+    expect(() => receive('bob', 'alice', message)).toThrow('Unknown sender key');
+  });
+
+  it('tracks which members have our sender key', () => {
+    as('alice', () => senderKeyManager.getDistribution(GROUP, 'alice'));
+    as('alice', () => senderKeyManager.markDistributed(GROUP, 'alice', ['bob']));
+
+    expect(as('alice', () => senderKeyManager.getUndistributed(GROUP, 'alice', ['bob', 'carol']))).toEqual(['carol']);
+  });
+
+  it("forgets the sender keys of all of a member's devices", () => {
+    distribute('alice', ['bob']);
+    distribute('alice.2', ['bob']);
+    const fromPhone = send('alice', 'from phone');
+    const fromLaptop = send('alice.2', 'from laptop');
+
+    as('bob', () => senderKeyManager.removeMember(GROUP, 'alice'));
+
+    expect(() => receive('bob', 'alice', fromPhone)).toThrow('No sender key from member');
+    expect(() => receive('bob', 'alice.2', fromLaptop)).toThrow('No sender key from member');
+  });
+});
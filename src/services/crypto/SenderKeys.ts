@@ -0,0 +1,295 @@
+/**
+ * VORTEX Protocol - Sender Keys
+ * Group encryption: each member ratchets its own chain key and signs what
+ * it sends, so a group message is encrypted once for all members
+ */
+
+import sodium from 'libsodium-wrappers';
+import { db } from '../database';
+import { userIdOf } from '../identity';
+import { kdfCK, encrypt, decrypt, toBase64, fromBase64, type Bytes, type Base64 } from './DoubleRatchet';
+import { pad, unpad } from './Padding';
+import { sessionStore } from './SessionStore';
+
+// Messages further ahead than this in a chain are rejected
+const MAX_SKIP = 2000;
+
+/**
+ * A member's chain key and signing key, sent to each other member over
+ * the pairwise session. Each of a member's devices has its own.
+ */
+export interface SenderKeyDistribution {
+  groupId: string;
+  keyId: number;
+  iteration: number;
+  chainKey: Base64;
+  signingKey: Base64;   // Ed25519 public key
+}
+
+/**
+ * Group message, identical for every recipient
+ */
+export interface SenderKeyMessage {
+  g: string;    // Group ID
+  k: number;    // Sender key ID
+  i: number;    // Iteration
+  n: Base64;    // Nonce
+  c: Base64;    // Ciphertext
+  s: Base64;    // Signature over the fields above
+}
+
+interface SenderKeyState {
+  keyId: number;
+  iteration: number;
+  chainKey: Bytes;
+  signingKey: Bytes;
+  signingPrivateKey?: Bytes;      // Only for our own sender key
+  distributedTo: string[];        // Only for our own sender key
+  skipped: Map<number, Bytes>;    // Message keys of messages not yet received
+}
+
+function messageHeader(groupId: string, keyId: number, iteration: number): Bytes {
+  return sodium.from_string(`${groupId}|${keyId}|${iteration}`);
+}
+
+function signedContent(message: Omit<SenderKeyMessage, 's'>): Bytes {
+  return sodium.from_string(`${message.g}|${message.k}|${message.i}|${message.n}|${message.c}`);
+}
+
+function stateContext(groupId: string, senderId: string): string {
+  return `sender_keys|${groupId}|${senderId}`;
+}
+
+function serializeState(state: SenderKeyState): string {
+  return JSON.stringify({
+    ...state,
+    chainKey: toBase64(state.chainKey),
+    signingKey: toBase64(state.signingKey),
+    signingPrivateKey: state.signingPrivateKey ? toBase64(state.signingPrivateKey) : undefined,
+    skipped: Array.from(state.skipped.entries()).map(([i, mk]) => [i, toBase64(mk)]),
+  });
+}
+
+function deserializeState(json: string): SenderKeyState {
+  const parsed = JSON.parse(json);
+  return {
+    ...parsed,
+    chainKey: fromBase64(parsed.chainKey),
+    signingKey: fromBase64(parsed.signingKey),
+    signingPrivateKey: parsed.signingPrivateKey ? fromBase64(parsed.signingPrivateKey) : undefined,
+    skipped: new Map(parsed.skipped.map(([i, mk]: [number, string]) => [i, fromBase64(mk)])),
+  };
+}
+
+class SenderKeyManager {
+  private initialized = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    await sodium.ready;
+    this.initialized = true;
+  }
+
+  /**
+   * Get our sender key for a group as a distribution message,
+   * creating a new sender key if we have none
+   */
+  getDistribution(groupId: string, ownId: string): SenderKeyDistribution {
+    const state = this.loadState(groupId, ownId) ?? this.createOwnKey(groupId, ownId);
+
+    return {
+      groupId,
+      keyId: state.keyId,
+      iteration: state.iteration,
+      chainKey: toBase64(state.chainKey),
+      signingKey: toBase64(state.signingKey),
+    };
+  }
+
+  /**
+   * Members that have not yet received our current sender key
+   */
+  getUndistributed(groupId: string, ownId: string, members: string[]): string[] {
+    const state = this.loadState(groupId, ownId);
+    if (!state) return members;
+
+    return members.filter(id => !state.distributedTo.includes(id));
+  }
+
+  markDistributed(groupId: string, ownId: string, members: string[]): void {
+    const state = this.loadState(groupId, ownId);
+    if (!state) return;
+
+    state.distributedTo = Array.from(new Set([...state.distributedTo, ...members]));
+    this.saveState(groupId, ownId, state);
+  }
+
+  /**
+   * Encrypt once for the whole group with our sender key
+   */
+  encrypt(groupId: string, ownId: string, plaintext: string): SenderKeyMessage {
+    const state = this.loadState(groupId, ownId);
+    if (!state?.signingPrivateKey) throw new Error('No sender key for group');
+
+    const { ck, mk } = kdfCK(state.chainKey);
+    const iteration = state.iteration;
+    const { ciphertext, nonce } = encrypt(
+      pad(sodium.from_string(plaintext)),
+      mk,
+      messageHeader(groupId, state.keyId, iteration)
+    );
+
+    const unsigned = { g: groupId, k: state.keyId, i: iteration, n: toBase64(nonce), c: toBase64(ciphertext) };
+    const signature = sodium.crypto_sign_detached(signedContent(unsigned), state.signingPrivateKey);
+
+    state.chainKey = ck;
+    state.iteration = iteration + 1;
+    this.saveState(groupId, ownId, state);
+
+    return { ...unsigned, s: toBase64(signature) };
+  }
+
+  /**
+   * Store another member's sender key. A distribution for the key we
+   * already hold never rewinds its chain.
+   */
+  processDistribution(senderId: string, distribution: SenderKeyDistribution): void {
+    const existing = this.loadState(distribution.groupId, senderId);
+    if (existing && existing.keyId === distribution.keyId && existing.iteration >= distribution.iteration) {
+      return;
+    }
+
+    this.saveState(distribution.groupId, senderId, {
+      keyId: distribution.keyId,
+      iteration: distribution.iteration,
+      chainKey: fromBase64(distribution.chainKey),
+      signingKey: fromBase64(distribution.signingKey),
+      distributedTo: [],
+      skipped: new Map(),
+    });
+  }
+
+  /**
+   * Decrypt a group message from another member. State is only
+   * committed once the message authenticates.
+   */
+  decrypt(senderId: string, message: SenderKeyMessage): string {
+    const state = this.loadState(message.g, senderId);
+    if (!state) throw new Error('No sender key from member');
+    if (state.keyId !== message.k) throw new Error('Unknown sender key');
+
+    const { s, ...unsigned } = message;
+    if (!sodium.crypto_sign_verify_detached(fromBase64(s), signedContent(unsigned), state.signingKey)) {
+      throw new Error('Invalid group message signature');
+    }
+
+    let mk: Bytes;
+    const skipped = state.skipped.get(message.i);
+    if (skipped) {
+      mk = skipped;
+      state.skipped.delete(message.i);
+    } else {
+      if (message.i < state.iteration) throw new Error('Duplicate group message');
+      if (message.i - state.iteration > MAX_SKIP) throw new Error('Too many skipped messages');
+
+      let chainKey = state.chainKey;
+      for (let i = state.iteration; i < message.i; i++) {
+        const step = kdfCK(chainKey);
+        state.skipped.set(i, step.mk);
+        chainKey = step.ck;
+      }
+      const step = kdfCK(chainKey);
+      mk = step.mk;
+      state.chainKey = step.ck;
+      state.iteration = message.i + 1;
+    }
+
+    const plaintext = unpad(decrypt(
+      fromBase64(message.c),
+      mk,
+      fromBase64(message.n),
+      messageHeader(message.g, message.k, message.i)
+    ));
+
+    // Oldest skipped keys go first
+    while (state.skipped.size > MAX_SKIP) {
+      state.skipped.delete(state.skipped.keys().next().value!);
+    }
+
+    this.saveState(message.g, senderId, state);
+    return sodium.to_string(plaintext);
+  }
+
+  /**
+   * Drop our sender key so the next message starts a new one.
+   * Used whenever group membership changes.
+   */
+  rotate(groupId: string, ownId: string): void {
+    db.deleteSenderKey(groupId, ownId);
+  }
+
+  removeSender(groupId: string, senderId: string): void {
+    db.deleteSenderKey(groupId, senderId);
+  }
+
+  /**
+   * Forget the sender keys of all of a member's devices
+   */
+  removeMember(groupId: string, userId: string): void {
+    db.getSenderKeySenderIds(groupId)
+      .filter(senderId => userIdOf(senderId) === userId)
+      .forEach(senderId => db.deleteSenderKey(groupId, senderId));
+  }
+
+  deleteGroup(groupId: string): void {
+    db.deleteSenderKeys(groupId);
+  }
+
+  // ==================== Private Methods ====================
+
+  private createOwnKey(groupId: string, ownId: string): SenderKeyState {
+    const signing = sodium.crypto_sign_keypair();
+    const bytes = sodium.randombytes_buf(4);
+    const state: SenderKeyState = {
+      keyId: new DataView(bytes.buffer).getUint32(0) & 0x7fffffff,
+      iteration: 0,
+      chainKey: sodium.randombytes_buf(32),
+      signingKey: signing.publicKey,
+      signingPrivateKey: signing.privateKey,
+      distributedTo: [],
+      skipped: new Map(),
+    };
+
+    this.saveState(groupId, ownId, state);
+    return state;
+  }
+
+  private loadState(groupId: string, senderId: string): SenderKeyState | null {
+    const record = db.getSenderKey(groupId, senderId);
+    if (!record) return null;
+
+    // Throws while locked rather than looking like a missing key
+    const state = sessionStore.open(record.state, stateContext(groupId, senderId));
+
+    try {
+      return deserializeState(state);
+    } catch (error) {
+      console.error('[SenderKeys] Failed to load sender key:', groupId, error);
+      return null;
+    }
+  }
+
+  private saveState(groupId: string, senderId: string, state: SenderKeyState): void {
+    db.saveSenderKey({
+      groupId,
+      senderId,
+      state: sessionStore.seal(serializeState(state), stateContext(groupId, senderId)),
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+// Singleton instance
+export const senderKeyManager = new SenderKeyManager();
+export default senderKeyManager;
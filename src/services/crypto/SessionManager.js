@@ -0,0 +1,350 @@
+/**
+ * VORTEX Protocol - Session Manager
+ * Per-peer Double Ratchet sessions, persisted in the crypto_sessions table
+ */
+import sodium from 'libsodium-wrappers';
+import { db } from '../database';
+import { identityService, userIdOf } from '../identity';
+import { DoubleRatchetSession, serializeMessage, deserializeMessage, toBase64, } from './DoubleRatchet';
+import { initiateSession, createPreKeyMessage, acceptPreKeyMessage, isPreKeyMessage, } from './X3DH';
+import { pad, unpad } from './Padding';
+import { sessionStore } from './SessionStore';
+// How often skipped message keys past their lifetime are pruned
+const SKIPPED_KEY_CLEANUP_INTERVAL = 60 * 60 * 1000;
+// Signed pre-key ID 0 stands for the identity key itself, used when the
+// peer had no bundle in the pre-key directory
+const IDENTITY_PRE_KEY_ID = 0;
+// Identity keys are Ed25519; key agreement runs on their X25519 form
+function identityToCurve(identityKeyHex) {
+    return sodium.crypto_sign_ed25519_pk_to_curve25519(sodium.from_hex(identityKeyHex));
+}
+// Pre-key directory bundles carry base64 keys for an Ed25519 identity
+function toPreKeyBundle(remoteIdentityKey, bundle) {
+    return {
+        identityKey: identityToCurve(remoteIdentityKey),
+        signedPreKey: sodium.from_base64(bundle.signedPreKey.publicKey),
+        signedPreKeyId: bundle.signedPreKey.keyId,
+        signedPreKeySig: sodium.from_base64(bundle.signedPreKey.signature),
+        oneTimePreKey: bundle.oneTimePreKey ? sodium.from_base64(bundle.oneTimePreKey.publicKey) : undefined,
+        oneTimePreKeyId: bundle.oneTimePreKey?.keyId,
+        // Older clients publish no KEM pre-key; the session is then classical
+        kemPreKey: bundle.kemPreKey ? sodium.from_base64(bundle.kemPreKey.publicKey) : undefined,
+        kemPreKeySig: bundle.kemPreKey ? sodium.from_base64(bundle.kemPreKey.signature) : undefined,
+        registrationId: 0,
+    };
+}
+// A session from a new, not yet accepted identity key is kept apart from
+// the peer's current one
+function pendingSlot(peerId) {
+    return `pending:${peerId}`;
+}
+// Set once a peer has used post-quantum key agreement. A classical
+// session with them after that is refused as a likely downgrade, such as
+// a directory serving their bundle without its KEM pre-key.
+function postQuantumSetting(peerId) {
+    return `post_quantum_peer:${peerId}`;
+}
+// Key agreements already accepted from a peer, by identity and ephemeral
+// key. A replayed pre-key message would otherwise start its session over.
+function preKeyMessagesSetting(peerId) {
+    return `prekey_messages_seen:${peerId}`;
+}
+// How many accepted key agreements are remembered per peer
+const MAX_SEEN_PRE_KEY_MESSAGES = 100;
+function sessionContext(peerId) {
+    return `crypto_sessions|${peerId}`;
+}
+function cloneSession(session) {
+    const copy = new DoubleRatchetSession(session.sessionId);
+    copy.importState(session.exportState());
+    return copy;
+}
+class SessionManager {
+    constructor() {
+        this.sessions = new Map();
+        this.cleanupTimer = null;
+        this.initialized = false;
+        this.preKeyStore = {
+            getIdentityKeyPair: () => this.getLocalKeyPair(),
+            getSignedPreKeyById: (keyId) => keyId === IDENTITY_PRE_KEY_ID ? this.getLocalKeyPair() : identityService.getSignedPreKeyById(keyId),
+            getKemPreKeyById: (keyId) => identityService.getKemPreKeyById(keyId),
+            getOneTimePreKeyById: (keyId) => {
+                const preKey = identityService.getPreKeyById(keyId);
+                return preKey ? { keyId, keyPair: preKey, used: false } : null;
+            },
+            markOneTimePreKeyUsed: (publicKey) => identityService.removePreKey(publicKey),
+        };
+    }
+    async initialize() {
+        if (this.initialized)
+            return;
+        await sodium.ready;
+        this.cleanupTimer = setInterval(() => this.pruneSkippedKeys(), SKIPPED_KEY_CLEANUP_INTERVAL);
+        this.initialized = true;
+        console.log('[Sessions] Manager initialized');
+    }
+    /**
+     * Wipe sessions from memory and lock the session store
+     */
+    lock() {
+        this.sessions.forEach(session => session.destroy());
+        this.sessions.clear();
+        sessionStore.lock();
+        console.log('[Sessions] Locked');
+    }
+    unlock() {
+        sessionStore.unlock();
+        console.log('[Sessions] Unlocked');
+    }
+    isLocked() {
+        return sessionStore.isLocked();
+    }
+    /**
+     * Drop skipped message keys that are too old to still be needed
+     */
+    pruneSkippedKeys() {
+        if (this.isLocked())
+            return;
+        for (const peerId of db.getCryptoSessionPeerIds()) {
+            try {
+                const session = this.loadSession(peerId);
+                if (session && session.cleanupSkippedKeys() > 0) {
+                    this.saveSession(peerId, session);
+                }
+            }
+            catch (error) {
+                console.error('[Sessions] Failed to prune skipped keys:', peerId, error);
+            }
+        }
+    }
+    hasSession(peerId) {
+        return this.loadSession(peerId) !== null;
+    }
+    /**
+     * Sessions with each of a user's devices
+     */
+    getSessionInfo(userId) {
+        if (this.isLocked())
+            return [];
+        return db.getCryptoSessionPeerIds()
+            .filter(peerId => userIdOf(peerId) === userId)
+            .flatMap(peerId => {
+            const session = this.loadSession(peerId);
+            return session ? [{
+                    peerId,
+                    sessionId: session.sessionId,
+                    createdAt: session.createdAt,
+                    postQuantum: session.isPostQuantum,
+                }] : [];
+        });
+    }
+    /**
+     * Encrypt a payload for a peer, starting a new session if needed.
+     * Without a bundle from the pre-key directory the session is keyed
+     * to the peer's identity key alone. Peers that have used post-quantum
+     * agreement only get a new session from a bundle with a KEM pre-key.
+     */
+    async encrypt(peerId, remoteIdentityKey, plaintext, bundle) {
+        await this.initialize();
+        let session = this.loadSession(peerId);
+        if (!session) {
+            if (this.hasSeenPostQuantum(peerId) && !bundle?.kemPreKey) {
+                throw new Error('Peer supports post-quantum key agreement but offered no KEM pre-key');
+            }
+            session = bundle
+                ? await initiateSession(this.getLocalKeyPair(), toPreKeyBundle(remoteIdentityKey, bundle), sodium.from_hex(remoteIdentityKey))
+                : await this.initiateWithIdentityKey(remoteIdentityKey);
+            this.sessions.set(peerId, session);
+        }
+        this.rememberPostQuantum(peerId, session);
+        const message = session.encrypt(pad(sodium.from_string(plaintext)));
+        this.saveSession(peerId, session);
+        if (session.pendingPreKey) {
+            return {
+                v: 1,
+                ik: identityService.getDeviceKey(),
+                m: createPreKeyMessage(session, identityService.getRegistrationId(), message),
+            };
+        }
+        return { v: 1, m: serializeMessage(message) };
+    }
+    /**
+     * Decrypt a payload from a peer. Session state is only committed
+     * once the message authenticates. A pre-key message from an identity
+     * key other than the trusted one starts a pending session, which only
+     * replaces the current session once promoted.
+     */
+    async decrypt(peerId, envelope, trustedIdentityKey) {
+        await this.initialize();
+        const preKeyMessage = isPreKeyMessage(envelope.m) ? envelope.m : null;
+        const message = deserializeMessage(preKeyMessage ? preKeyMessage.message : envelope.m);
+        const existing = this.loadSession(peerId);
+        if (existing) {
+            const trial = cloneSession(existing);
+            try {
+                const plaintext = unpad(trial.decrypt(message));
+                this.sessions.set(peerId, trial);
+                this.saveSession(peerId, trial);
+                return sodium.to_string(plaintext);
+            }
+            catch (error) {
+                if (!preKeyMessage)
+                    throw error;
+            }
+        }
+        if (!preKeyMessage || !envelope.ik) {
+            throw new Error('No session with peer');
+        }
+        // The pre-key message must come from the identity it claims
+        if (preKeyMessage.identityKey !== toBase64(identityToCurve(envelope.ik))) {
+            throw new Error('Identity key mismatch');
+        }
+        const untrusted = !!trustedIdentityKey && envelope.ik !== trustedIdentityKey;
+        const slot = untrusted ? pendingSlot(peerId) : peerId;
+        // Further pre-key messages of a pending session
+        const pending = untrusted ? this.loadSession(slot) : null;
+        if (pending) {
+            const trial = cloneSession(pending);
+            try {
+                const plaintext = unpad(trial.decrypt(message));
+                this.sessions.set(slot, trial);
+                this.saveSession(slot, trial);
+                return sodium.to_string(plaintext);
+            }
+            catch {
+                // A new session from the same key
+            }
+        }
+        // Downgrade check; a new key is a new install, left to the key change flow
+        if (!untrusted && preKeyMessage.kemCiphertext === undefined && this.hasSeenPostQuantum(peerId)) {
+            throw new Error('Classical pre-key message from a peer that supports post-quantum key agreement');
+        }
+        // Its session has moved on, or been replaced, since we accepted it
+        const agreement = `${preKeyMessage.identityKey}|${preKeyMessage.ephemeralKey}`;
+        const seen = this.getSeenPreKeyMessages(peerId);
+        if (seen.includes(agreement)) {
+            throw new Error('Duplicate pre-key message');
+        }
+        // The peer started a new session
+        const { session, plaintext: padded } = await acceptPreKeyMessage(this.preKeyStore, preKeyMessage);
+        const plaintext = unpad(padded);
+        db.setSetting(preKeyMessagesSetting(peerId), JSON.stringify([...seen, agreement].slice(-MAX_SEEN_PRE_KEY_MESSAGES)));
+        // Both sides started a session at once: the lower identity key keeps its own
+        const keepExisting = !untrusted && !!existing?.pendingPreKey &&
+            identityService.getDeviceKey() < envelope.ik;
+        if (!keepExisting) {
+            this.sessions.set(slot, session);
+            this.saveSession(slot, session);
+            if (!untrusted)
+                this.rememberPostQuantum(peerId, session);
+        }
+        return sodium.to_string(plaintext);
+    }
+    /**
+     * The user accepted the peer's new identity key: its pending session
+     * becomes the current one. Without one, the old session is dropped so
+     * the next message starts over with the new key.
+     */
+    promotePendingSession(peerId) {
+        const pending = this.loadSession(pendingSlot(peerId));
+        this.deleteSession(peerId);
+        // What the old install supported says nothing about the new one
+        db.setSetting(postQuantumSetting(peerId), pending?.isPostQuantum ? '1' : '0');
+        if (!pending)
+            return;
+        this.sessions.delete(pendingSlot(peerId));
+        db.deleteCryptoSession(pendingSlot(peerId));
+        this.sessions.set(peerId, pending);
+        this.saveSession(peerId, pending);
+    }
+    deleteSession(peerId) {
+        this.sessions.delete(peerId);
+        db.deleteCryptoSession(peerId);
+    }
+    /**
+     * Addresses with a pending session, for one user
+     */
+    getPendingSessionPeerIds(userId) {
+        const prefix = pendingSlot('');
+        return db.getCryptoSessionPeerIds()
+            .filter(peerId => peerId.startsWith(prefix))
+            .map(peerId => peerId.slice(prefix.length))
+            .filter(peerId => userIdOf(peerId) === userId);
+    }
+    // ==================== Private Methods ====================
+    async initiateWithIdentityKey(remoteIdentityKey) {
+        const remoteKey = identityToCurve(remoteIdentityKey);
+        const session = new DoubleRatchetSession();
+        await session.initializeSender(this.getLocalKeyPair(), {
+            identityKey: remoteKey,
+            signedPreKey: remoteKey,
+            signedPreKeyId: IDENTITY_PRE_KEY_ID,
+            signedPreKeySig: new Uint8Array(0),
+            registrationId: 0,
+        });
+        return session;
+    }
+    hasSeenPostQuantum(peerId) {
+        return db.getSetting(postQuantumSetting(peerId)) === '1';
+    }
+    rememberPostQuantum(peerId, session) {
+        if (session.isPostQuantum && !this.hasSeenPostQuantum(peerId)) {
+            db.setSetting(postQuantumSetting(peerId), '1');
+        }
+    }
+    getSeenPreKeyMessages(peerId) {
+        const stored = db.getSetting(preKeyMessagesSetting(peerId));
+        if (!stored)
+            return [];
+        try {
+            const seen = JSON.parse(stored);
+            return Array.isArray(seen) ? seen : [];
+        }
+        catch {
+            return [];
+        }
+    }
+    getLocalKeyPair() {
+        const identityKeyPair = identityService.getIdentityKeyPair();
+        if (!identityKeyPair)
+            throw new Error('No identity');
+        return {
+            publicKey: sodium.crypto_sign_ed25519_pk_to_curve25519(identityKeyPair.publicKey),
+            privateKey: sodium.crypto_sign_ed25519_sk_to_curve25519(identityKeyPair.privateKey),
+        };
+    }
+    loadSession(peerId) {
+        const cached = this.sessions.get(peerId);
+        if (cached)
+            return cached;
+        const stored = db.getCryptoSession(peerId);
+        if (!stored?.state)
+            return null;
+        // Throws while locked rather than looking like a missing session
+        const state = sessionStore.open(stored.state, sessionContext(peerId));
+        try {
+            const session = new DoubleRatchetSession(stored.id);
+            session.importState(state);
+            this.sessions.set(peerId, session);
+            return session;
+        }
+        catch (error) {
+            console.error('[Sessions] Failed to load session:', peerId, error);
+            return null;
+        }
+    }
+    saveSession(peerId, session) {
+        const stored = db.getCryptoSession(peerId);
+        const now = Date.now();
+        db.saveCryptoSession({
+            id: session.sessionId,
+            peerId,
+            state: sessionStore.seal(session.exportState(), sessionContext(peerId)),
+            createdAt: stored && stored.id === session.sessionId ? stored.createdAt : now,
+            updatedAt: now,
+        });
+    }
+}
+// Singleton instance
+export const sessionManager = new SessionManager();
+export default sessionManager;
@@ -0,0 +1,375 @@
+/**
+ * VORTEX Protocol - Session Manager Tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
+import type { CryptoSession } from '../database';
+import type { PreKeyBundleResponse } from '../p2p';
+import { toBase64, fromBase64, type KeyPair, type SerializedMessage } from './DoubleRatchet';
+import type { PreKeyMessage } from './X3DH';
+import type { SessionEnvelope } from './SessionManager';
+
+interface Party {
+  id: string;
+  identity: KeyPair;    // Ed25519
+  signedPreKey: KeyPair & { keyId: number; signature: Uint8Array };
+  kemPreKey: { publicKey: Uint8Array; secretKey: Uint8Array; signature: Uint8Array };
+  preKeys: Array<KeyPair & { keyId: number }>;
+  sessions: Map<string, CryptoSession>;
+  settings: Map<string, string>;
+}
+
+// The database and identity of whichever party is acting
+const parties = vi.hoisted(() => ({
+  active: null as Party | null,
+  storageKey: new Uint8Array(32).fill(7),
+}));
+
+function active(): Party {
+  if (!parties.active) throw new Error('No active party');
+  return parties.active;
+}
+
+vi.mock('../database', () => ({
+  db: {
+    getCryptoSession: (peerId: string) => active().sessions.get(peerId) ?? null,
+    saveCryptoSession: (session: CryptoSession) => { active().sessions.set(session.peerId, session); },
+    deleteCryptoSession: (peerId: string) => { active().sessions.delete(peerId); },
+    getCryptoSessionPeerIds: () => [...active().sessions.keys()],
+    getSetting: (key: string) => active().settings.get(key) ?? null,
+    setSetting: (key: string, value: string) => { active().settings.set(key, value); },
+  },
+}));
+
+vi.mock('../identity', async () => {
+  const { userIdOf } = await import('../identity/DeviceAddress');
+  return {
+    userIdOf,
+    identityService: {
+      getIdentityKeyPair: () => active().identity,
+      getDeviceKey: () => sodium.to_hex(active().identity.publicKey),
+      getRegistrationId: () => 1,
+      getSignedPreKeyById: (keyId: number) => keyId === active().signedPreKey.keyId ? active().signedPreKey : null,
+      getKemPreKeyById: (keyId: number) => keyId === active().signedPreKey.keyId ? active().kemPreKey.secretKey : null,
+      getPreKeyById: (keyId: number) => active().preKeys.find(k => k.keyId === keyId) ?? null,
+      removePreKey: (publicKey: Uint8Array) => {
+        active().preKeys = active().preKeys.filter(k => !sodium.memcmp(k.publicKey, publicKey));
+      },
+      getStorageKey: () => parties.storageKey.slice(),
+      getLegacyStorageKey: () => null,
+    },
+  };
+});
+
+type SessionManager = typeof import('./SessionManager')['sessionManager'];
+
+function createParty(id: string): Party {
+  const identity = sodium.crypto_sign_keypair();
+  const signedPreKey = sodium.crypto_kx_keypair();
+  const kem = ml_kem768.keygen();
+
+  return {
+    id,
+    identity,
+    signedPreKey: {
+      ...signedPreKey,
+      keyId: 1,
+      signature: sodium.crypto_sign_detached(signedPreKey.publicKey, identity.privateKey),
+    },
+    kemPreKey: { ...kem, signature: sodium.crypto_sign_detached(kem.publicKey, identity.privateKey) },
+    preKeys: [1, 2, 3].map(keyId => ({ keyId, ...sodium.crypto_kx_keypair() })),
+    sessions: new Map(),
+    settings: new Map(),
+  };
+}
+
+function keyOf(party: Party): string {
+  return sodium.to_hex(party.identity.publicKey);
+}
+
+// What the pre-key directory serves for a party
+function bundleOf(party: Party, options: { kem?: boolean } = {}): PreKeyBundleResponse {
+  const { kem = true } = options;
+  return {
+    peerId: party.id,
+    identityKey: keyOf(party),
+    signedPreKey: {
+      keyId: party.signedPreKey.keyId,
+      publicKey: sodium.to_base64(party.signedPreKey.publicKey),
+      signature: sodium.to_base64(party.signedPreKey.signature),
+    },
+    oneTimePreKey: party.preKeys[0] && {
+      keyId: party.preKeys[0].keyId,
+      publicKey: sodium.to_base64(party.preKeys[0].publicKey),
+    },
+    kemPreKey: kem ? {
+      keyId: party.signedPreKey.keyId,
+      publicKey: sodium.to_base64(party.kemPreKey.publicKey),
+      signature: sodium.to_base64(party.kemPreKey.signature),
+    } : undefined,
+  };
+}
+
+function tamper(envelope: SessionEnvelope): SessionEnvelope {
+  const copy = JSON.parse(JSON.stringify(envelope)) as SessionEnvelope;
+  const message = 'message' in copy.m ? (copy.m as PreKeyMessage).message : copy.m as SerializedMessage;
+  const ciphertext = fromBase64(message.c);
+  ciphertext[0] ^= 0x01;
+  message.c = toBase64(ciphertext);
+  return copy;
+}
+
+let alice: Party;
+let bob: Party;
+
+// Each party runs its own copy of the module; dropping it is a restart
+const managers = new Map<Party, SessionManager>();
+
+async function as<T>(party: Party, action: (manager: SessionManager) => Promise<T> | T): Promise<T> {
+  let manager = managers.get(party);
+  if (!manager) {
+    vi.resetModules();
+    manager = (await import('./SessionManager')).sessionManager;
+    managers.set(party, manager);
+  }
+
+  parties.active = party;
+  return action(manager);
+}
+
+function send(from: Party, to: Party, text: string, bundle?: PreKeyBundleResponse | null): Promise<SessionEnvelope> {
+  return as(from, manager => manager.encrypt(to.id, keyOf(to), text, bundle));
+}
+
+function receive(by: Party, from: Party, envelope: SessionEnvelope, trustedKey: string | undefined = keyOf(from)): Promise<string> {
+  return as(by, manager => manager.decrypt(from.id, envelope, trustedKey));
+}
+
+beforeAll(async () => {
+  await sodium.ready;
+});
+
+beforeEach(() => {
+  managers.clear();
+  alice = createParty('alice');
+  bob = createParty('bob');
+});
+
+describe('SessionManager', () => {
+  describe('sessions from a pre-key bundle', () => {
+    it('round-trips messages both ways', async () => {
+      const first = await send(alice, bob, 'hello bob', bundleOf(bob));
+      expect(first.ik).toBe(keyOf(alice));
+      expect(await receive(bob, alice, first)).toBe('hello bob');
+
+      const reply = await send(bob, alice, 'hi alice');
+      expect(reply.ik).toBeUndefined();
+      expect(await receive(alice, bob, reply)).toBe('hi alice');
+
+      // The reply ends the pre-key phase
+      const next = await send(alice, bob, 'how are you?');
+      expect(next.ik).toBeUndefined();
+      expect(await receive(bob, alice, next)).toBe('how are you?');
+    });
+
+    it('uses post-quantum key agreement when the bundle offers it', async () => {
+      await receive(bob, alice, await send(alice, bob, 'hello', bundleOf(bob)));
+
+      const [info] = await as(alice, manager => manager.getSessionInfo('bob'));
+      expect(info).toMatchObject({ peerId: 'bob', postQuantum: true });
+      expect((await as(bob, manager => manager.getSessionInfo('alice')))[0].postQuantum).toBe(true);
+    });
+
+    it('consumes the one-time pre-key', async () => {
+      await receive(bob, alice, await send(alice, bob, 'hello', bundleOf(bob)));
+      expect(bob.preKeys.map(k => k.keyId)).toEqual([2, 3]);
+    });
+
+    it('keeps sending pre-key messages until the first reply', async () => {
+      const first = await send(alice, bob, 'one', bundleOf(bob));
+      const second = await send(alice, bob, 'two');
+
+      expect(second.ik).toBe(keyOf(alice));
+      expect(await receive(bob, alice, first)).toBe('one');
+      expect(await receive(bob, alice, second)).toBe('two');
+    });
+
+    it('persists sessions across restarts', async () => {
+      await receive(bob, alice, await send(alice, bob, 'hello', bundleOf(bob)));
+
+      managers.delete(bob);
+      const reply = await send(bob, alice, 'still here');
+      expect(await receive(alice, bob, reply)).toBe('still here');
+    });
+  });
+
+  it('starts a session from the identity key alone without a bundle', async () => {
+    const first = await send(alice, bob, 'no directory', null);
+    expect(await receive(bob, alice, first)).toBe('no directory');
+    expect(await receive(alice, bob, await send(bob, alice, 'fine'))).toBe('fine');
+  });
+
+  describe('out of order and repeated messages', () => {
+    beforeEach(async () => {
+      await receive(bob, alice, await send(alice, bob, 'hello', bundleOf(bob)));
+      await receive(alice, bob, await send(bob, alice, 'hi'));
+    });
+
+    it('decrypts skipped messages when they arrive', async () => {
+      const one = await send(alice, bob, 'one');
+      const two = await send(alice, bob, 'two');
+      const three = await send(alice, bob, 'three');
+
+      expect(await receive(bob, alice, three)).toBe('three');
+      expect(await receive(bob, alice, one)).toBe('one');
+      expect(await receive(bob, alice, two)).toBe('two');
+    });
+
+    it('rejects a duplicate message', async () => {
+      const message = await send(alice, bob, 'once');
+      expect(await receive(bob, alice, message)).toBe('once');
+
+      await expect(receive(bob, alice, message)).rejects.toThrow();
+    });
+
+    it('rejects a duplicate skipped message', async () => {
+      const one = await send(alice, bob, 'one');
+      const two = await send(alice, bob, 'two');
+      await receive(bob, alice, two);
+      await receive(bob, alice, one);
+
+      await expect(receive(bob, alice, one)).rejects.toThrow();
+    });
+
+    it('rejects a tampered message and keeps the session', async () => {
+      const message = await send(alice, bob, 'intact');
+
+      await expect(receive(bob, alice, tamper(message))).rejects.toThrow();
+      expect(await receive(bob, alice, message)).toBe('intact');
+    });
+
+    it('rejects messages without a session', async () => {
+      const message = await send(alice, bob, 'hello');
+      const carol = createParty('carol');
+
+      await expect(receive(carol, alice, message)).rejects.toThrow('No session with peer');
+    });
+  });
+
+  describe('pre-key messages', () => {
+    it('rejects a tampered first message without using the one-time pre-key', async () => {
+      const first = await send(alice, bob, 'hello', bundleOf(bob));
+
+      await expect(receive(bob, alice, tamper(first))).rejects.toThrow();
+      expect(bob.preKeys).toHaveLength(3);
+      expect(await receive(bob, alice, first)).toBe('hello');
+    });
+
+    it('rejects a message whose identity key does not match its key agreement', async () => {
+      const first = await send(alice, bob, 'hello', bundleOf(bob));
+      const mallory = createParty('mallory');
+
+      await expect(receive(bob, alice, { ...first, ik: keyOf(mallory) }, keyOf(mallory)))
+        .rejects.toThrow('Identity key mismatch');
+    });
+
+    it('drops a replayed pre-key message instead of starting the session over', async () => {
+      // No one-time pre-key, so nothing else stops the key agreement running again
+      const first = await send(alice, bob, 'hello', null);
+      expect(await receive(bob, alice, first)).toBe('hello');
+      expect(await receive(alice, bob, await send(bob, alice, 'hi'))).toBe('hi');
+      expect(await receive(bob, alice, await send(alice, bob, 'how are you?'))).toBe('how are you?');
+
+      await expect(receive(bob, alice, first)).rejects.toThrow('Duplicate pre-key message');
+      await expect(receive(bob, alice, first)).rejects.toThrow('Duplicate pre-key message');
+
+      // The live session carries on
+      expect(await receive(bob, alice, await send(alice, bob, 'still here'))).toBe('still here');
+      expect(await receive(alice, bob, await send(bob, alice, 'good'))).toBe('good');
+    });
+
+    it('rejects a bundle with a forged signed pre-key', async () => {
+      const bundle = bundleOf(bob);
+      bundle.signedPreKey.publicKey = sodium.to_base64(sodium.crypto_kx_keypair().publicKey);
+
+      await expect(send(alice, bob, 'hello', bundle)).rejects.toThrow('Invalid signed pre-key signature');
+    });
+
+    it('rejects a bundle signed by someone else', async () => {
+      const mallory = createParty('mallory');
+      const bundle = { ...bundleOf(mallory), identityKey: keyOf(bob) };
+
+      await expect(send(alice, bob, 'hello', bundle)).rejects.toThrow('Invalid signed pre-key signature');
+    });
+  });
+
+  describe('new identity keys', () => {
+    beforeEach(async () => {
+      await receive(bob, alice, await send(alice, bob, 'hello', bundleOf(bob)));
+      await receive(alice, bob, await send(bob, alice, 'hi'));
+    });
+
+    it('keeps a session from an untrusted key pending until promoted', async () => {
+      // Alice reinstalls with a new identity key
+      const previousKey = keyOf(alice);
+      alice = createParty('alice');
+
+      const first = await send(alice, bob, 'new phone', bundleOf(bob));
+      expect(await receive(bob, alice, first, previousKey)).toBe('new phone');
+      expect(await as(bob, manager => manager.getPendingSessionPeerIds('alice'))).toEqual(['alice']);
+
+      await as(bob, manager => manager.promotePendingSession('alice'));
+      expect(await as(bob, manager => manager.getPendingSessionPeerIds('alice'))).toEqual([]);
+      expect(await receive(alice, bob, await send(bob, alice, 'welcome back'))).toBe('welcome back');
+    });
+
+    it('drops the old session when promoting without a pending one', async () => {
+      await as(bob, manager => manager.promotePendingSession('alice'));
+      expect(await as(bob, manager => manager.hasSession('alice'))).toBe(false);
+    });
+  });
+
+  describe('post-quantum downgrades', () => {
+    beforeEach(async () => {
+      await receive(bob, alice, await send(alice, bob, 'hello', bundleOf(bob)));
+      await receive(alice, bob, await send(bob, alice, 'hi'));
+    });
+
+    it('refuses a classical session with a peer that used post-quantum agreement', async () => {
+      await as(alice, manager => manager.deleteSession('bob'));
+
+      await expect(send(alice, bob, 'again', bundleOf(bob, { kem: false })))
+        .rejects.toThrow('Peer supports post-quantum key agreement but offered no KEM pre-key');
+      await expect(send(alice, bob, 'again', null))
+        .rejects.toThrow('Peer supports post-quantum key agreement but offered no KEM pre-key');
+    });
+
+    it('still starts a new post-quantum session', async () => {
+      await as(alice, manager => manager.deleteSession('bob'));
+
+      const first = await send(alice, bob, 'again', bundleOf(bob));
+      expect(await receive(bob, alice, first)).toBe('again');
+    });
+
+    it('rejects a classical pre-key message from the same identity', async () => {
+      // A sender that lost track of the peer's post-quantum support
+      alice.sessions.clear();
+      alice.settings.clear();
+      managers.delete(alice);
+      const classical = await send(alice, bob, 'downgraded', bundleOf(bob, { kem: false }));
+
+      await expect(receive(bob, alice, classical))
+        .rejects.toThrow('Classical pre-key message from a peer that supports post-quantum key agreement');
+    });
+
+    it('forgets post-quantum support when a new identity key is accepted', async () => {
+      await as(bob, manager => manager.promotePendingSession('alice'));
+
+      alice = createParty('alice');
+      const classical = await send(alice, bob, 'older client', bundleOf(bob, { kem: false }));
+      expect(await receive(bob, alice, classical)).toBe('older client');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * VORTEX Protocol - Session Store
+ * Seals ratchet and sender key state with a local storage key before it
+ * is written to the database. The key is only held while the app is unlocked.
+ */
+
+import sodium from 'libsodium-wrappers';
+import { identityService } from '../identity';
+import { toBase64, fromBase64, type Bytes } from './DoubleRatchet';
+
+// Stored state without a prefix predates sealing and is plain JSON
+const SEALED_PREFIX = 'sealed:v2:';
+// Sealed with the key derived from the identity key; sealed again with
+// the storage key on the next save
+const LEGACY_SEALED_PREFIX = 'sealed:v1:';
+
+class SessionStore {
+  private storageKey: Bytes | null = null;
+  private legacyKey: Bytes | null = null;
+  private locked = false;
+
+  /**
+   * Load the storage key. Called when the app unlocks; until the first
+   * lock the key is also loaded on first use.
+   */
+  unlock(): void {
+    this.locked = false;
+    this.loadKey();
+  }
+
+  /**
+   * Wipe the storage key. Sealing and opening fail until unlock().
+   */
+  lock(): void {
+    this.locked = true;
+    this.wipeKeys();
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * Seal exported state. The context names the row it is stored in,
+   * so sealed state cannot be moved to another peer or group.
+   */
+  seal(state: string, context: string): string {
+    const key = this.requireKey();
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      sodium.from_string(state),
+      sodium.from_string(context),
+      null,
+      nonce,
+      key
+    );
+
+    const sealed = new Uint8Array(nonce.length + ciphertext.length);
+    sealed.set(nonce, 0);
+    sealed.set(ciphertext, nonce.length);
+    return SEALED_PREFIX + toBase64(sealed);
+  }
+
+  open(stored: string, context: string): string {
+    const legacy = stored.startsWith(LEGACY_SEALED_PREFIX);
+    if (!legacy && !stored.startsWith(SEALED_PREFIX)) return stored;
+
+    const key = legacy ? this.requireLegacyKey() : this.requireKey();
+    const sealed = fromBase64(stored.slice(SEALED_PREFIX.length));
+    const nonceLength = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+
+    const state = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      sealed.slice(nonceLength),
+      sodium.from_string(context),
+      sealed.slice(0, nonceLength),
+      key
+    );
+    return sodium.to_string(state);
+  }
+
+  // ==================== Private Methods ====================
+
+  private requireKey(): Bytes {
+    if (!this.storageKey && !this.locked) {
+      this.loadKey();
+    }
+    if (!this.storageKey) throw new Error('Session store is locked');
+
+    return this.storageKey;
+  }
+
+  private requireLegacyKey(): Bytes {
+    this.requireKey();
+    if (!this.legacyKey) this.legacyKey = identityService.getLegacyStorageKey();
+    if (!this.legacyKey) throw new Error('Session store is locked');
+
+    return this.legacyKey;
+  }
+
+  private loadKey(): void {
+    this.wipeKeys();
+    this.storageKey = identityService.getStorageKey();
+  }
+
+  private wipeKeys(): void {
+    [this.storageKey, this.legacyKey].forEach(key => key && sodium.memzero(key));
+    this.storageKey = null;
+    this.legacyKey = null;
+  }
+}
+
+// Singleton instance
+export const sessionStore = new SessionStore();
+export default sessionStore;
@@ -0,0 +1,255 @@
+/**
+ * VORTEX Protocol - X3DH Tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
+import { toBase64, fromBase64, type KeyPair, type Bytes, type PreKeyBundle } from './DoubleRatchet';
+import {
+  initiateSession,
+  createPreKeyMessage,
+  acceptPreKeyMessage,
+  isPreKeyMessage,
+  type OneTimePreKey,
+  type PreKeyMessage,
+  type PreKeyStore,
+} from './X3DH';
+
+interface Party {
+  identity: KeyPair;        // X25519
+  signing: KeyPair;         // Ed25519
+  signedPreKey: KeyPair;
+  kemPreKey: { publicKey: Bytes; secretKey: Bytes };
+  oneTimePreKeys: OneTimePreKey[];
+}
+
+const SIGNED_PRE_KEY_ID = 7;
+
+function createParty(): Party {
+  return {
+    identity: sodium.crypto_kx_keypair(),
+    signing: sodium.crypto_sign_keypair(),
+    signedPreKey: sodium.crypto_kx_keypair(),
+    kemPreKey: ml_kem768.keygen(),
+    oneTimePreKeys: [1, 2].map(keyId => ({ keyId, keyPair: sodium.crypto_kx_keypair(), used: false })),
+  };
+}
+
+function bundleOf(party: Party, options: { oneTime?: boolean; kem?: boolean } = {}): PreKeyBundle {
+  const { oneTime = true, kem = true } = options;
+  const oneTimePreKey = party.oneTimePreKeys[0];
+
+  return {
+    identityKey: party.identity.publicKey,
+    signedPreKey: party.signedPreKey.publicKey,
+    signedPreKeyId: SIGNED_PRE_KEY_ID,
+    signedPreKeySig: sodium.crypto_sign_detached(party.signedPreKey.publicKey, party.signing.privateKey),
+    oneTimePreKey: oneTime ? oneTimePreKey.keyPair.publicKey : undefined,
+    oneTimePreKeyId: oneTime ? oneTimePreKey.keyId : undefined,
+    kemPreKey: kem ? party.kemPreKey.publicKey : undefined,
+    kemPreKeySig: kem ? sodium.crypto_sign_detached(party.kemPreKey.publicKey, party.signing.privateKey) : undefined,
+    registrationId: 2,
+  };
+}
+
+function storeOf(party: Party): PreKeyStore {
+  return {
+    getIdentityKeyPair: () => party.identity,
+    getSignedPreKeyById: (keyId) => keyId === SIGNED_PRE_KEY_ID ? party.signedPreKey : null,
+    getKemPreKeyById: (keyId) => keyId === SIGNED_PRE_KEY_ID ? party.kemPreKey.secretKey : null,
+    getOneTimePreKeyById: (keyId) => party.oneTimePreKeys.find(k => k.keyId === keyId) ?? null,
+    markOneTimePreKeyUsed: (publicKey) => {
+      party.oneTimePreKeys.filter(k => sodium.memcmp(k.keyPair.publicKey, publicKey)).forEach(k => { k.used = true; });
+    },
+  };
+}
+
+function flipByte(base64: string, index = 0): string {
+  const bytes = fromBase64(base64);
+  bytes[index] ^= 0x01;
+  return toBase64(bytes);
+}
+
+let alice: Party;
+let bob: Party;
+
+beforeAll(async () => {
+  await sodium.ready;
+});
+
+beforeEach(() => {
+  alice = createParty();
+  bob = createParty();
+});
+
+async function firstMessage(bundle: PreKeyBundle, text = 'hello bob'): Promise<PreKeyMessage> {
+  const session = await initiateSession(alice.identity, bundle, bob.signing.publicKey);
+  return createPreKeyMessage(session, 1, session.encrypt(sodium.from_string(text)));
+}
+
+describe('initiateSession', () => {
+  it('starts a post-quantum session from a bundle with a KEM pre-key', async () => {
+    const session = await initiateSession(alice.identity, bundleOf(bob), bob.signing.publicKey);
+
+    expect(session.isPostQuantum).toBe(true);
+    expect(session.pendingPreKey?.kemCiphertext).toBeDefined();
+    expect(session.pendingPreKey?.oneTimePreKeyId).toBe(1);
+  });
+
+  it('starts a classical session from a bundle without one', async () => {
+    const session = await initiateSession(alice.identity, bundleOf(bob, { kem: false }), bob.signing.publicKey);
+
+    expect(session.isPostQuantum).toBe(false);
+    expect(session.pendingPreKey?.kemCiphertext).toBeUndefined();
+  });
+
+  it('rejects a tampered signed pre-key signature', async () => {
+    const bundle = bundleOf(bob);
+    bundle.signedPreKeySig[0] ^= 0x01;
+
+    await expect(initiateSession(alice.identity, bundle, bob.signing.publicKey))
+      .rejects.toThrow('Invalid signed pre-key signature');
+  });
+
+  it('rejects a signed pre-key swapped for another', async () => {
+    const bundle = { ...bundleOf(bob), signedPreKey: sodium.crypto_kx_keypair().publicKey };
+
+    await expect(initiateSession(alice.identity, bundle, bob.signing.publicKey))
+      .rejects.toThrow('Invalid signed pre-key signature');
+  });
+
+  it('rejects a bundle signed by another identity', async () => {
+    const mallory = createParty();
+
+    await expect(initiateSession(alice.identity, bundleOf(bob), mallory.signing.publicKey))
+      .rejects.toThrow('Invalid signed pre-key signature');
+  });
+
+  it('rejects a KEM pre-key with a bad or missing signature', async () => {
+    const tampered = bundleOf(bob);
+    tampered.kemPreKeySig![0] ^= 0x01;
+    const unsigned = { ...bundleOf(bob), kemPreKeySig: undefined };
+
+    await expect(initiateSession(alice.identity, tampered, bob.signing.publicKey))
+      .rejects.toThrow('Invalid KEM pre-key signature');
+    await expect(initiateSession(alice.identity, unsigned, bob.signing.publicKey))
+      .rejects.toThrow('Invalid KEM pre-key signature');
+  });
+});
+
+describe('acceptPreKeyMessage', () => {
+  it('completes the key agreement and decrypts the first message', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+
+    const accepted = await acceptPreKeyMessage(storeOf(bob), preKeyMessage);
+
+    expect(sodium.to_string(accepted.plaintext)).toBe('hello bob');
+    expect(accepted.remoteIdentityKey).toEqual(alice.identity.publicKey);
+    expect(accepted.registrationId).toBe(1);
+    expect(accepted.session.isPostQuantum).toBe(true);
+  });
+
+  it('continues into a working session both ways', async () => {
+    const aliceSession = await initiateSession(alice.identity, bundleOf(bob), bob.signing.publicKey);
+    const preKeyMessage = createPreKeyMessage(aliceSession, 1, aliceSession.encrypt(sodium.from_string('ping')));
+    const { session: bobSession } = await acceptPreKeyMessage(storeOf(bob), preKeyMessage);
+
+    const reply = bobSession.encrypt(sodium.from_string('pong'));
+    expect(sodium.to_string(aliceSession.decrypt(reply))).toBe('pong');
+
+    // The reply ends the pre-key phase
+    expect(aliceSession.pendingPreKey).toBeUndefined();
+    expect(() => createPreKeyMessage(aliceSession, 1, aliceSession.encrypt(sodium.from_string('again'))))
+      .toThrow('Session has no pending key agreement');
+  });
+
+  it('works without a one-time pre-key or KEM pre-key', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob, { oneTime: false, kem: false }));
+
+    expect(preKeyMessage.oneTimePreKeyId).toBeUndefined();
+    expect(preKeyMessage.kemCiphertext).toBeUndefined();
+
+    const accepted = await acceptPreKeyMessage(storeOf(bob), preKeyMessage);
+    expect(sodium.to_string(accepted.plaintext)).toBe('hello bob');
+    expect(accepted.session.isPostQuantum).toBe(false);
+  });
+
+  it('consumes the one-time pre-key only once', async () => {
+    const store = storeOf(bob);
+    await acceptPreKeyMessage(store, await firstMessage(bundleOf(bob)));
+
+    expect(bob.oneTimePreKeys[0].used).toBe(true);
+    await expect(acceptPreKeyMessage(store, await firstMessage(bundleOf(bob))))
+      .rejects.toThrow('One-time pre-key not available');
+  });
+
+  it('rejects unknown pre-keys', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+
+    await expect(acceptPreKeyMessage(storeOf(bob), { ...preKeyMessage, signedPreKeyId: 99 }))
+      .rejects.toThrow('Unknown signed pre-key');
+    await expect(acceptPreKeyMessage(storeOf(bob), { ...preKeyMessage, oneTimePreKeyId: 99 }))
+      .rejects.toThrow('One-time pre-key not available');
+  });
+
+  it('rejects a KEM ciphertext without a KEM pre-key', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+    const store = { ...storeOf(bob), getKemPreKeyById: () => null };
+
+    await expect(acceptPreKeyMessage(store, preKeyMessage)).rejects.toThrow('Unknown KEM pre-key');
+  });
+
+  it('rejects a message claiming another identity key, keeping the one-time pre-key', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+    const mallory = createParty();
+
+    await expect(acceptPreKeyMessage(storeOf(bob), {
+      ...preKeyMessage,
+      identityKey: toBase64(mallory.identity.publicKey),
+    })).rejects.toThrow();
+    expect(bob.oneTimePreKeys[0].used).toBe(false);
+  });
+
+  it('rejects a tampered ephemeral key or KEM ciphertext', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+
+    await expect(acceptPreKeyMessage(storeOf(bob), {
+      ...preKeyMessage,
+      ephemeralKey: flipByte(preKeyMessage.ephemeralKey),
+    })).rejects.toThrow();
+    await expect(acceptPreKeyMessage(storeOf(bob), {
+      ...preKeyMessage,
+      kemCiphertext: flipByte(preKeyMessage.kemCiphertext!),
+    })).rejects.toThrow();
+    expect(bob.oneTimePreKeys[0].used).toBe(false);
+  });
+
+  it('rejects a downgrade that strips the KEM ciphertext', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+
+    await expect(acceptPreKeyMessage(storeOf(bob), { ...preKeyMessage, kemCiphertext: undefined }))
+      .rejects.toThrow();
+  });
+
+  it('rejects a tampered message body', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+
+    await expect(acceptPreKeyMessage(storeOf(bob), {
+      ...preKeyMessage,
+      message: { ...preKeyMessage.message, c: flipByte(preKeyMessage.message.c) },
+    })).rejects.toThrow();
+    expect(bob.oneTimePreKeys[0].used).toBe(false);
+  });
+});
+
+describe('isPreKeyMessage', () => {
+  it('recognizes pre-key messages', async () => {
+    const preKeyMessage = await firstMessage(bundleOf(bob));
+
+    expect(isPreKeyMessage(preKeyMessage)).toBe(true);
+    expect(isPreKeyMessage(preKeyMessage.message)).toBe(false);
+    expect(isPreKeyMessage(null)).toBe(false);
+    expect(isPreKeyMessage('prekey')).toBe(false);
+  });
+});
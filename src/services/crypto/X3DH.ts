@@ -0,0 +1,188 @@
+/**
+ * VORTEX Protocol - X3DH Key Agreement
+ * Starts Double Ratchet sessions from pre-key bundles, so the first
+ * message can reach an offline peer without a round trip
+ */
+
+import sodium from 'libsodium-wrappers';
+import {
+  DoubleRatchetSession,
+  serializeMessage,
+  deserializeMessage,
+  toBase64,
+  fromBase64,
+  type KeyPair,
+  type Bytes,
+  type Base64,
+  type PreKeyBundle,
+  type EncryptedMessage,
+  type SerializedMessage,
+} from './DoubleRatchet';
+
+/**
+ * Initial message of a session. Carries what the receiver needs to
+ * repeat the key agreement with its own pre-keys.
+ */
+export interface PreKeyMessage {
+  type: 'prekey';
+  registrationId: number;
+  identityKey: Base64;      // Sender identity key (X25519)
+  ephemeralKey: Base64;     // Sender ephemeral key (EKa)
+  signedPreKeyId: number;
+  oneTimePreKeyId?: number;
+  kemCiphertext?: Base64;   // ML-KEM ciphertext, only for PQXDH sessions
+  message: SerializedMessage;
+}
+
+export interface OneTimePreKey {
+  keyId: number;
+  keyPair: KeyPair;
+  used: boolean;
+}
+
+/**
+ * Receiver-side key material (implemented by SessionManager on top of
+ * the identity service)
+ */
+export interface PreKeyStore {
+  getIdentityKeyPair(): KeyPair | null;
+  getSignedPreKeyById(keyId: number): KeyPair | null;
+  getKemPreKeyById(keyId: number): Bytes | null;
+  getOneTimePreKeyById(keyId: number): OneTimePreKey | null;
+  markOneTimePreKeyUsed(publicKey: Bytes): void;
+}
+
+export interface AcceptedPreKeyMessage {
+  session: DoubleRatchetSession;
+  plaintext: Bytes;
+  remoteIdentityKey: Bytes;
+  registrationId: number;
+}
+
+export function isPreKeyMessage(data: unknown): data is PreKeyMessage {
+  return typeof data === 'object' && data !== null && (data as PreKeyMessage).type === 'prekey';
+}
+
+/**
+ * Start a session from a peer's pre-key bundle (Alice)
+ *
+ * DH1 = DH(IKa, SPKb), DH2 = DH(EKa, IKb), DH3 = DH(EKa, SPKb)
+ * and, when the bundle has a one-time pre-key, DH4 = DH(EKa, OPKb).
+ * Bundles from clients with post-quantum support also carry a signed
+ * ML-KEM pre-key, whose shared secret is mixed in (PQXDH).
+ */
+export async function initiateSession(
+  localIdentityKey: KeyPair,
+  bundle: PreKeyBundle,
+  signingPublicKey: Bytes
+): Promise<DoubleRatchetSession> {
+  await sodium.ready;
+
+  if (!verifySignature(bundle.signedPreKeySig, bundle.signedPreKey, signingPublicKey)) {
+    throw new Error('Invalid signed pre-key signature');
+  }
+
+  if (bundle.kemPreKey && !verifySignature(bundle.kemPreKeySig, bundle.kemPreKey, signingPublicKey)) {
+    throw new Error('Invalid KEM pre-key signature');
+  }
+
+  const session = new DoubleRatchetSession();
+  await session.initializeSender(localIdentityKey, bundle);
+  return session;
+}
+
+function verifySignature(signature: Bytes | undefined, message: Bytes, publicKey: Bytes): boolean {
+  if (!signature) return false;
+  try {
+    return sodium.crypto_sign_verify_detached(signature, message, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wrap a message in a pre-key message. The initiator sends every message
+ * this way until the peer's first reply arrives.
+ */
+export function createPreKeyMessage(
+  session: DoubleRatchetSession,
+  registrationId: number,
+  message: EncryptedMessage
+): PreKeyMessage {
+  const pending = session.pendingPreKey;
+  const identityKey = session.localIdentityKey;
+  if (!pending || !identityKey) {
+    throw new Error('Session has no pending key agreement');
+  }
+
+  return {
+    type: 'prekey',
+    registrationId,
+    identityKey: toBase64(identityKey),
+    ephemeralKey: toBase64(pending.ephemeralKey),
+    signedPreKeyId: pending.signedPreKeyId,
+    oneTimePreKeyId: pending.oneTimePreKeyId,
+    kemCiphertext: pending.kemCiphertext ? toBase64(pending.kemCiphertext) : undefined,
+    message: serializeMessage(message),
+  };
+}
+
+/**
+ * Complete the key agreement from a pre-key message (Bob)
+ *
+ * The one-time pre-key is consumed only after the message authenticates,
+ * so forged messages cannot exhaust the pool. Later pre-key messages for
+ * the same session reference an already consumed key: callers should try
+ * their existing session with the sender first.
+ */
+export async function acceptPreKeyMessage(
+  store: PreKeyStore,
+  preKeyMessage: PreKeyMessage
+): Promise<AcceptedPreKeyMessage> {
+  await sodium.ready;
+
+  const identityKeyPair = store.getIdentityKeyPair();
+  if (!identityKeyPair) throw new Error('Identity not initialized');
+
+  const signedPreKey = store.getSignedPreKeyById(preKeyMessage.signedPreKeyId);
+  if (!signedPreKey) throw new Error('Unknown signed pre-key');
+
+  let oneTimePreKey: OneTimePreKey | null = null;
+  if (preKeyMessage.oneTimePreKeyId !== undefined) {
+    oneTimePreKey = store.getOneTimePreKeyById(preKeyMessage.oneTimePreKeyId);
+    if (!oneTimePreKey || oneTimePreKey.used) {
+      throw new Error('One-time pre-key not available');
+    }
+  }
+
+  let kem: { secretKey: Bytes; ciphertext: Bytes } | null = null;
+  if (preKeyMessage.kemCiphertext !== undefined) {
+    const kemPreKey = store.getKemPreKeyById(preKeyMessage.signedPreKeyId);
+    if (!kemPreKey) throw new Error('Unknown KEM pre-key');
+    kem = { secretKey: kemPreKey, ciphertext: fromBase64(preKeyMessage.kemCiphertext) };
+  }
+
+  const remoteIdentityKey = fromBase64(preKeyMessage.identityKey);
+  const session = new DoubleRatchetSession();
+  await session.initializeReceiver(
+    identityKeyPair,
+    signedPreKey,
+    oneTimePreKey?.keyPair ?? null,
+    remoteIdentityKey,
+    fromBase64(preKeyMessage.ephemeralKey),
+    kem
+  );
+
+  const plaintext = session.decrypt(deserializeMessage(preKeyMessage.message));
+
+  if (oneTimePreKey) {
+    store.markOneTimePreKeyUsed(oneTimePreKey.keyPair.publicKey);
+  }
+
+  return {
+    session,
+    plaintext,
+    remoteIdentityKey,
+    registrationId: preKeyMessage.registrationId,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * VORTEX Protocol - Database Key
+ * Key the stored database image is encrypted with. It is held in OS
+ * secure storage, or wrapped with a key derived from the app lock PIN,
+ * in which case the database only opens once the PIN is entered. Where
+ * secure storage exists, the wrapping key also needs a secret kept there,
+ * so a copied database cannot be opened by guessing the PIN offline.
+ */
+import sodium from 'libsodium-wrappers';
+const KEY_INFO_STORAGE_KEY = 'vortex_db_key';
+const SECURE_STORAGE_ENTRY = 'vortex_db_key';
+const SECURE_STORAGE_SECRET_ENTRY = 'vortex_db_key_secret';
+const KEY_WRAP_AD = 'VORTEX_DB_KEY';
+// Without the keychain secret the passphrase alone stands against offline
+// guessing, so a short PIN is not enough
+export const MIN_STANDALONE_PASSPHRASE_LENGTH = 10;
+function localStore() {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+}
+function secureStore() {
+    return typeof window !== 'undefined' ? window.electronAPI?.secureStorage ?? null : null;
+}
+function readKeyInfo() {
+    const stored = localStore()?.getItem(KEY_INFO_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+}
+function writeKeyInfo(info) {
+    localStore()?.setItem(KEY_INFO_STORAGE_KEY, JSON.stringify(info));
+}
+function deriveWrappingKey(passphrase, kdf, secret) {
+    const derived = sodium.crypto_pwhash(sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES, passphrase, sodium.from_base64(kdf.salt), kdf.opslimit, kdf.memlimit, sodium.crypto_pwhash_ALG_ARGON2ID13);
+    if (!secret)
+        return derived;
+    const wrappingKey = sodium.crypto_generichash(sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES, derived, secret);
+    sodium.memzero(derived);
+    return wrappingKey;
+}
+// A new random secret in secure storage, or null where there is none
+async function createWrappingSecret() {
+    const secure = secureStore();
+    if (!secure)
+        return null;
+    const secret = sodium.randombytes_buf(sodium.crypto_generichash_KEYBYTES);
+    try {
+        await secure.set(SECURE_STORAGE_SECRET_ENTRY, sodium.to_base64(secret));
+        return secret;
+    }
+    catch (error) {
+        console.warn('[DB] Secure storage unavailable:', error);
+        sodium.memzero(secret);
+        return null;
+    }
+}
+async function loadWrappingSecret() {
+    const stored = await secureStore()?.get(SECURE_STORAGE_SECRET_ENTRY);
+    if (!stored)
+        throw new Error('Database key secret missing from secure storage');
+    return sodium.from_base64(stored);
+}
+/**
+ * How the database key is stored, or null before one exists
+ */
+export function getKeyProtection() {
+    return readKeyInfo()?.protection ?? null;
+}
+/**
+ * Whether OS secure storage can hold the keychain secret. Without it,
+ * passphrases need MIN_STANDALONE_PASSPHRASE_LENGTH characters.
+ */
+export function hasSecureStorage() {
+    return secureStore() !== null;
+}
+/**
+ * A passphrase-protected key wrapped before the keychain secret and the
+ * current Argon2 limits, to be wrapped again once the passphrase is known
+ */
+export function needsRewrap() {
+    const info = readKeyInfo();
+    if (info?.protection !== 'passphrase')
+        return false;
+    return info.kdf.opslimit < sodium.crypto_pwhash_OPSLIMIT_MODERATE ||
+        info.kdf.memlimit < sodium.crypto_pwhash_MEMLIMIT_MODERATE ||
+        (!info.secret && hasSecureStorage());
+}
+export function generateDatabaseKey() {
+    return sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES);
+}
+/**
+ * Load a key stored without a passphrase
+ */
+export async function loadDatabaseKey() {
+    const info = readKeyInfo();
+    if (!info)
+        throw new Error('No database key');
+    switch (info.protection) {
+        case 'secure-storage': {
+            const stored = await secureStore()?.get(SECURE_STORAGE_ENTRY);
+            if (!stored)
+                throw new Error('Database key missing from secure storage');
+            return sodium.from_base64(stored);
+        }
+        case 'local':
+            return sodium.from_base64(info.key);
+        case 'passphrase':
+            throw new Error('Database key is protected by a passphrase');
+    }
+}
+/**
+ * Unwrap a passphrase-protected key. Null when the passphrase is wrong.
+ */
+export async function unwrapDatabaseKey(passphrase) {
+    const info = readKeyInfo();
+    if (info?.protection !== 'passphrase')
+        throw new Error('Database key is not protected by a passphrase');
+    const secret = info.secret === 'secure-storage' ? await loadWrappingSecret() : null;
+    const wrappingKey = deriveWrappingKey(passphrase, info.kdf, secret);
+    if (secret)
+        sodium.memzero(secret);
+    try {
+        return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(null, sodium.from_base64(info.key), sodium.from_string(KEY_WRAP_AD), sodium.from_base64(info.nonce), wrappingKey);
+    }
+    catch {
+        return null;
+    }
+    finally {
+        sodium.memzero(wrappingKey);
+    }
+}
+/**
+ * Protect the key with a passphrase, and with a keychain secret where
+ * there is secure storage, replacing any other copy of it
+ */
+export async function wrapDatabaseKey(key, passphrase) {
+    const secret = await createWrappingSecret();
+    if (!secret && passphrase.length < MIN_STANDALONE_PASSPHRASE_LENGTH) {
+        throw new Error(`Without secure storage, use a passphrase of at least ${MIN_STANDALONE_PASSPHRASE_LENGTH} characters`);
+    }
+    const kdf = {
+        alg: 'argon2id13',
+        opslimit: sodium.crypto_pwhash_OPSLIMIT_MODERATE,
+        memlimit: sodium.crypto_pwhash_MEMLIMIT_MODERATE,
+        salt: sodium.to_base64(sodium.randombytes_buf(sodium.crypto_pwhash_SALTBYTES)),
+    };
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const wrappingKey = deriveWrappingKey(passphrase, kdf, secret);
+    const wrapped = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(key, sodium.from_string(KEY_WRAP_AD), null, nonce, wrappingKey);
+    sodium.memzero(wrappingKey);
+    if (secret)
+        sodium.memzero(secret);
+    writeKeyInfo({
+        v: 1,
+        protection: 'passphrase',
+        kdf,
+        nonce: sodium.to_base64(nonce),
+        key: sodium.to_base64(wrapped),
+        ...(secret ? { secret: 'secure-storage' } : {}),
+    });
+    await secureStore()?.delete(SECURE_STORAGE_ENTRY);
+}
+/**
+ * Store the key without a passphrase: in secure storage where available
+ */
+export async function storeDatabaseKey(key) {
+    const secure = secureStore();
+    if (secure) {
+        try {
+            await secure.set(SECURE_STORAGE_ENTRY, sodium.to_base64(key));
+            writeKeyInfo({ v: 1, protection: 'secure-storage' });
+            await secure.delete(SECURE_STORAGE_SECRET_ENTRY);
+            return;
+        }
+        catch (error) {
+            console.warn('[DB] Secure storage unavailable:', error);
+        }
+    }
+    console.warn('[DB] Storing database key without OS protection');
+    writeKeyInfo({ v: 1, protection: 'local', key: sodium.to_base64(key) });
+}
@@ -2,9 +2,43 @@
  * VORTEX Protocol - Database Service
  * Persistent SQLite storage using sql.js
  * Works in both Electron main and renderer processes
+ *
+ * The stored image is encrypted with the database key (see DatabaseKey).
+ * When that key is protected by a passphrase the database stays locked,
+ * and out of memory, until the passphrase is entered.
+ *
+ * Writes are persisted as journal records appended to the store (see
+ * DatabaseStore) and replayed over the last snapshot on load. Once the
+ * journal grows large it is compacted into a new snapshot.
+ *
+ * The schema is brought up to date on open by the migrations in
+ * Migrations.ts, after a backup of the database as it was.
  */
 
-import initSqlJs, { Database as SqlJsDatabase, SqlValue } from 'sql.js';
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic, SqlValue } from 'sql.js';
+import sodium from 'libsodium-wrappers';
+import {
+  getKeyProtection,
+  hasSecureStorage,
+  needsRewrap,
+  generateDatabaseKey,
+  loadDatabaseKey,
+  unwrapDatabaseKey,
+  wrapDatabaseKey,
+  storeDatabaseKey,
+  type DatabaseKeyProtection,
+} from './DatabaseKey';
+import { getDatabaseStore, loadLegacyImage, removeLegacyImage, type DatabaseStore } from './DatabaseStore';
+import { SCHEMA_VERSION, getPendingMigrations, getSchemaVersion, hasTables, migrate } from './Migrations';
+import {
+  FILE_MESSAGE_TYPES,
+  SNIPPET_MATCH_START,
+  SNIPPET_MATCH_END,
+  rankMatch,
+  toMatchExpression,
+  type MessageSearchQuery,
+  type MessageSearchResult,
+} from './SearchIndex';
 
 // Types
 export interface UserIdentity {
@@ -29,6 +63,33 @@ export interface Contact {
   lastSeen: number;
 }
 
+export interface IdentityKeyChange {
+  id?: number;
+  contactId: string;
+  previousKey: string;
+  newKey: string;
+  changedAt: number;
+  acknowledgedAt?: number;
+}
+
+export interface Device {
+  id: number;           // Device ID; the primary is 1
+  name: string;
+  linkedAt: number;
+  revokedAt?: number;
+  identityKey?: string; // Linked devices' own key (Ed25519, hex); the primary uses the account key
+}
+
+export type KeyEventType = 'signed-prekey-rotated' | 'signed-prekey-expired' | 'prekeys-replenished';
+
+export interface KeyEvent {
+  id?: number;
+  type: KeyEventType;
+  keyId?: number;     // Signed pre-key the event concerns
+  count?: number;     // One-time pre-keys generated
+  createdAt: number;
+}
+
 export interface Conversation {
   id: string;
   type: 'direct' | 'group';
@@ -67,17 +128,18 @@ export interface Message {
 export interface CryptoSession {
   id: string;
   peerId: string;
-  rootKey: string;
-  sendChainKey: string;
-  receiveChainKey: string;
-  sendMessageNumber: number;
-  receiveMessageNumber: number;
-  previousChainLength: number;
-  skippedKeys: string; // JSON stringified
+  state: string; // DoubleRatchetSession.exportState()
   createdAt: number;
   updatedAt: number;
 }
 
+export interface SenderKeyRecord {
+  groupId: string;
+  senderId: string;
+  state: string; // SenderKeyManager state JSON
+  updatedAt: number;
+}
+
 export interface Setting {
   key: string;
   value: string;
@@ -94,37 +156,115 @@ export interface PendingMessage {
   retryCount: number;
 }
 
+export interface HeldMessage {
+  id: string;
+  contactId: string;
+  direction: 'outgoing' | 'incoming';
+  conversationId?: string;  // Outgoing: where it was sent
+  senderAddress?: string;   // Incoming: the device it came from
+  payload: string;          // PeerMessage JSON
+  createdAt: number;
+}
+
+export interface AttachmentBlob {
+  hash: string;         // Keyed BLAKE2b-256 of the contents, hex: the file's name
+  digest: string;       // BLAKE2b-256 of the contents, hex, for integrity checks
+  fileKey: string;      // Base64; the stored file is encrypted with it
+  size: number;
+  mimeType: string;
+  hasThumbnail: boolean;
+  refCount: number;     // Messages referencing it
+  createdAt: number;
+}
+
+export interface AttachmentRef {
+  messageId: string;
+  hash: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  position: number;     // Order within the message
+}
+
+// Image kept in localStorage before the database store
+interface SealedDatabase {
+  v: 1;
+  nonce: string;
+  data: string;
+}
+
+const SEALED_DB_AD = 'VORTEX_DB|1';
+
+// Store record: [format u8][kind u8][sequence u32][nonce][ciphertext].
+// The header is authenticated along with the contents.
+const STORE_FORMAT_VERSION = 2;
+const RECORD_SNAPSHOT = 1;
+const RECORD_JOURNAL = 2;
+const RECORD_HEADER_SIZE = 6;
+
+// Journal size past which it is folded into a new snapshot
+const COMPACT_JOURNAL_BYTES = 1024 * 1024;
+
+const SEARCH_RESULT_LIMIT = 50;
+const SEARCH_SNIPPET_TOKENS = 12;
+
+// A write to replay: SQL and its parameters
+type JournalEntry = [string, SqlValue[]];
+
+// What a database image holds, checked before it replaces this one
+export interface DatabaseImageInfo {
+  schemaVersion: number;
+  identity: { id: string; displayName: string } | null;
+  contacts: number;
+  conversations: number;
+  messages: number;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
 class DatabaseService {
   private db: SqlJsDatabase | null = null;
+  private SQL: SqlJsStatic | null = null;
+  private databaseKey: Uint8Array | null = null;
+  private store: DatabaseStore | null = null;
   private dbPath: string = '';
   private saveDebounceTimer: NodeJS.Timeout | null = null;
+  private pendingWrites: JournalEntry[] = [];
+  private sequence = 0;           // Of the last record written
+  private journalBytes = 0;
+  private snapshotDue = false;
+  private storeWrites: Promise<void> = Promise.resolve();
   private initialized = false;
 
+  /**
+   * Load sql.js and open the database, unless its key is protected by a
+   * passphrase: then the database stays locked until unlock()
+   */
   async initialize(storagePath?: string): Promise<void> {
     if (this.initialized) return;
 
     try {
-      const SQL = await initSqlJs({
+      await sodium.ready;
+      this.SQL = await initSqlJs({
         locateFile: (file: string) => `https://sql.js.org/dist/${file}`,
       });
-
-      // Try to load existing database
       this.dbPath = storagePath || 'vortex.db';
-      let existingData: Uint8Array | null = null;
+      this.store = getDatabaseStore();
 
-      try {
-        if (typeof window !== 'undefined' && window.localStorage) {
-          const stored = localStorage.getItem('vortex_db');
-          if (stored) {
-            existingData = new Uint8Array(JSON.parse(stored));
-          }
-        }
-      } catch (e) {
-        console.warn('[DB] Could not load existing database:', e);
+      if (typeof window !== 'undefined') {
+        window.addEventListener('beforeunload', () => this.forceSave());
+      }
+
+      if (getKeyProtection() === 'passphrase') {
+        this.initialized = true;
+        console.log('[DB] Database locked until the passphrase is entered');
+        return;
       }
 
-      this.db = existingData ? new SQL.Database(existingData) : new SQL.Database();
-      this.createTables();
+      await this.open(await this.loadOrCreateKey());
       this.initialized = true;
       console.log('[DB] Database initialized successfully');
     } catch (error) {
@@ -133,123 +273,94 @@ class DatabaseService {
     }
   }
 
-  private createTables(): void {
-    if (!this.db) return;
+  // ==================== Locking ====================
 
-    // User Identity
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS user_identity (
-        id TEXT PRIMARY KEY,
-        public_key TEXT NOT NULL UNIQUE,
-        private_key_encrypted TEXT NOT NULL,
-        display_name TEXT NOT NULL,
-        avatar_url TEXT,
-        created_at INTEGER NOT NULL,
-        last_seen INTEGER NOT NULL
-      )
-    `);
+  isLocked(): boolean {
+    return this.initialized && !this.db;
+  }
 
-    // Contacts
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS contacts (
-        id TEXT PRIMARY KEY,
-        identity_key TEXT NOT NULL UNIQUE,
-        display_name TEXT NOT NULL,
-        avatar_url TEXT,
-        verified INTEGER DEFAULT 0,
-        blocked INTEGER DEFAULT 0,
-        notes TEXT,
-        created_at INTEGER NOT NULL,
-        last_seen INTEGER NOT NULL
-      )
-    `);
+  hasPassphrase(): boolean {
+    return getKeyProtection() === 'passphrase';
+  }
 
-    // Conversations
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS conversations (
-        id TEXT PRIMARY KEY,
-        type TEXT NOT NULL CHECK(type IN ('direct', 'group')),
-        name TEXT,
-        avatar_url TEXT,
-        participants TEXT NOT NULL,
-        encryption_enabled INTEGER DEFAULT 1,
-        disappearing_timeout INTEGER,
-        is_pinned INTEGER DEFAULT 0,
-        is_muted INTEGER DEFAULT 0,
-        is_archived INTEGER DEFAULT 0,
-        unread_count INTEGER DEFAULT 0,
-        last_message_id TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      )
-    `);
+  getKeyProtection(): DatabaseKeyProtection | null {
+    return getKeyProtection();
+  }
 
-    // Messages
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS messages (
-        id TEXT PRIMARY KEY,
-        conversation_id TEXT NOT NULL,
-        sender_id TEXT NOT NULL,
-        type TEXT NOT NULL DEFAULT 'text',
-        content TEXT NOT NULL,
-        encrypted_payload TEXT,
-        nonce TEXT,
-        reply_to_id TEXT,
-        reactions TEXT,
-        status TEXT DEFAULT 'sending',
-        is_edited INTEGER DEFAULT 0,
-        is_deleted INTEGER DEFAULT 0,
-        expires_at INTEGER,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
-      )
-    `);
+  /**
+   * Without secure storage a passphrase must stand on its own: see
+   * MIN_STANDALONE_PASSPHRASE_LENGTH
+   */
+  hasSecureStorage(): boolean {
+    return hasSecureStorage();
+  }
 
-    // Crypto Sessions (for Double Ratchet)
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS crypto_sessions (
-        id TEXT PRIMARY KEY,
-        peer_id TEXT NOT NULL UNIQUE,
-        root_key TEXT NOT NULL,
-        send_chain_key TEXT NOT NULL,
-        receive_chain_key TEXT NOT NULL,
-        send_message_number INTEGER DEFAULT 0,
-        receive_message_number INTEGER DEFAULT 0,
-        previous_chain_length INTEGER DEFAULT 0,
-        skipped_keys TEXT DEFAULT '{}',
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      )
-    `);
+  /**
+   * Open a locked database. A passphrase-protected key needs the
+   * passphrase; false when it is wrong.
+   */
+  async unlock(passphrase?: string): Promise<boolean> {
+    if (!this.isLocked()) return true;
 
-    // Settings
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        updated_at INTEGER NOT NULL
-      )
-    `);
+    let key: Uint8Array | null;
+    if (this.hasPassphrase()) {
+      if (passphrase === undefined) return false;
+      key = await unwrapDatabaseKey(passphrase);
+      if (!key) return false;
 
-    // Pending Messages (for offline queue)
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS pending_messages (
-        id TEXT PRIMARY KEY,
-        conversation_id TEXT NOT NULL,
-        peer_id TEXT NOT NULL,
-        encrypted_payload TEXT NOT NULL,
-        nonce TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        retry_count INTEGER DEFAULT 0
-      )
-    `);
+      if (needsRewrap()) {
+        await wrapDatabaseKey(key, passphrase)
+          .catch(error => console.warn('[DB] Could not upgrade the database key protection:', error));
+      }
+    } else {
+      key = await loadDatabaseKey();
+    }
+
+    await this.open(key);
+    console.log('[DB] Unlocked');
+    return true;
+  }
+
+  /**
+   * Write pending changes and drop the decrypted database and its key
+   * from memory
+   */
+  lock(): void {
+    if (!this.db) return;
+
+    this.forceSave();
+    this.db.close();
+    this.db = null;
+    if (this.databaseKey) {
+      sodium.memzero(this.databaseKey);
+      this.databaseKey = null;
+    }
+    console.log('[DB] Locked');
+  }
 
-    // Create indexes
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_messages_created ON messages(created_at)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_contacts_identity ON contacts(identity_key)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_pending_peer ON pending_messages(peer_id)');
+  /**
+   * Protect the database key with a passphrase, e.g. the app lock PIN
+   */
+  async setPassphrase(passphrase: string): Promise<void> {
+    if (!this.databaseKey) throw new Error('Database not initialized');
+    await wrapDatabaseKey(this.databaseKey, passphrase);
+  }
+
+  /**
+   * Move the database key back to secure storage
+   */
+  async removePassphrase(): Promise<void> {
+    if (!this.databaseKey) throw new Error('Database not initialized');
+    await storeDatabaseKey(this.databaseKey);
+  }
+
+  /**
+   * Run a write and keep it for the next journal record
+   */
+  private run(sql: string, params: SqlValue[] = []): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db.run(sql, params);
+    this.pendingWrites.push([sql, params]);
   }
 
   private scheduleSave(): void {
@@ -259,25 +370,212 @@ class DatabaseService {
     this.saveDebounceTimer = setTimeout(() => this.saveToStorage(), 1000);
   }
 
+  /**
+   * Append pending writes to the journal, or write a snapshot when one is
+   * due. Records are sealed here, so a lock right after cannot lose them.
+   */
   private saveToStorage(): void {
-    if (!this.db) return;
+    if (this.saveDebounceTimer) {
+      clearTimeout(this.saveDebounceTimer);
+      this.saveDebounceTimer = null;
+    }
+    if (!this.db || !this.databaseKey) return;
+
+    if (this.snapshotDue || this.journalBytes >= COMPACT_JOURNAL_BYTES) {
+      const snapshot = this.takeSnapshot();
+      this.queueStoreWrite(store => store.writeSnapshot(snapshot));
+      return;
+    }
+    if (this.pendingWrites.length === 0) return;
+
+    const entries = textEncoder.encode(JSON.stringify(this.pendingWrites));
+    const record = this.sealRecord(RECORD_JOURNAL, ++this.sequence, entries, this.databaseKey);
+    this.pendingWrites = [];
+    this.journalBytes += record.length;
+    this.queueStoreWrite(store => store.append(record));
+  }
+
+  private takeSnapshot(): Uint8Array {
+    if (!this.db || !this.databaseKey) throw new Error('Database not initialized');
+
+    const snapshot = this.sealRecord(RECORD_SNAPSHOT, ++this.sequence, this.db.export(), this.databaseKey);
+    this.pendingWrites = [];
+    this.journalBytes = 0;
+    this.snapshotDue = false;
+    return snapshot;
+  }
+
+  // Store writes run one at a time, in order
+  private queueStoreWrite(write: (store: DatabaseStore) => Promise<void>): void {
+    const store = this.store;
+    if (!store) return;
 
+    this.storeWrites = this.storeWrites
+      .then(() => write(store))
+      .catch((e) => {
+        // A missing record ends the journal, so start over from a snapshot
+        this.snapshotDue = true;
+        console.error('[DB] Failed to save database:', e);
+      });
+  }
+
+  private async loadOrCreateKey(): Promise<Uint8Array> {
+    if (getKeyProtection()) return loadDatabaseKey();
+
+    const key = generateDatabaseKey();
+    await storeDatabaseKey(key);
+    return key;
+  }
+
+  /**
+   * Open the stored snapshot and replay the journal over it. An image
+   * left in localStorage by an earlier version is moved into the store.
+   */
+  private async open(key: Uint8Array): Promise<void> {
+    if (!this.SQL || !this.store) throw new Error('Database not initialized');
+
+    // Writes queued before a lock must land before reading back
+    await this.storeWrites;
+    const stored = await this.store.load();
+
+    let image: Uint8Array | null = null;
+    let sequence = 0;
+    let legacy = false;
+    if (stored.snapshot) {
+      ({ sequence, data: image } = this.openRecord(stored.snapshot, RECORD_SNAPSHOT, key));
+    } else {
+      const legacyImage = loadLegacyImage();
+      if (legacyImage) {
+        legacy = true;
+        image = Array.isArray(legacyImage)
+          ? new Uint8Array(legacyImage)
+          : this.unseal(legacyImage as SealedDatabase, key);
+      }
+    }
+
+    const database = image ? new this.SQL.Database(image) : new this.SQL.Database();
+    let migrated = false;
     try {
-      const data = this.db.export();
-      if (typeof window !== 'undefined' && window.localStorage) {
-        localStorage.setItem('vortex_db', JSON.stringify(Array.from(data)));
+      // Before replay, so journaled writes find the columns they used
+      const pending = getPendingMigrations(database);
+      if (pending.length > 0 && hasTables(database)) {
+        const version = getSchemaVersion(database);
+        const backup = this.sealRecord(RECORD_SNAPSHOT, sequence, database.export(), key);
+        await this.store.writeBackup(`pre-migration-v${version}`, backup);
+        console.log(`[DB] Backed up schema version ${version} before migrating`);
+      }
+      migrate(database);
+      migrated = pending.length > 0;
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+
+    this.databaseKey = key;
+    this.db = database;
+    this.sequence = sequence;
+    this.pendingWrites = [];
+    this.replayJournal(stored.journal, key);
+
+    if (stored.snapshot && stored.journal.length === 0 && !migrated) return;
+
+    // Start from a compact snapshot
+    try {
+      await this.store.writeSnapshot(this.takeSnapshot());
+      if (legacy) {
+        removeLegacyImage();
+        console.log('[DB] Moved existing database into the database store');
       }
     } catch (e) {
+      this.snapshotDue = true;
       console.error('[DB] Failed to save database:', e);
     }
   }
 
+  private replayJournal(journal: Uint8Array[], key: Uint8Array): void {
+    if (!this.db) return;
+
+    for (const record of journal) {
+      const { sequence, data } = this.openRecord(record, RECORD_JOURNAL, key);
+      // Already in the snapshot
+      if (sequence <= this.sequence) continue;
+      if (sequence !== this.sequence + 1) {
+        console.warn(`[DB] Journal ends at a gap after record ${this.sequence}`);
+        break;
+      }
+
+      const entries = JSON.parse(textDecoder.decode(data)) as JournalEntry[];
+      for (const [sql, params] of entries) {
+        this.db.run(sql, params);
+      }
+      this.sequence = sequence;
+    }
+  }
+
+  private sealRecord(kind: number, sequence: number, data: Uint8Array, key: Uint8Array): Uint8Array {
+    const header = new Uint8Array(RECORD_HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    view.setUint8(0, STORE_FORMAT_VERSION);
+    view.setUint8(1, kind);
+    view.setUint32(2, sequence);
+
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(data, header, null, nonce, key);
+
+    const record = new Uint8Array(header.length + nonce.length + ciphertext.length);
+    record.set(header, 0);
+    record.set(nonce, header.length);
+    record.set(ciphertext, header.length + nonce.length);
+    return record;
+  }
+
+  private openRecord(record: Uint8Array, kind: number, key: Uint8Array): { sequence: number; data: Uint8Array } {
+    const nonceEnd = RECORD_HEADER_SIZE + sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+    if (record.length < nonceEnd) throw new Error('Database failed integrity check');
+
+    const header = record.subarray(0, RECORD_HEADER_SIZE);
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    if (view.getUint8(0) !== STORE_FORMAT_VERSION) {
+      throw new Error(`Unsupported database format: ${view.getUint8(0)}`);
+    }
+    if (view.getUint8(1) !== kind) throw new Error('Database failed integrity check');
+
+    try {
+      const data = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        record.subarray(nonceEnd),
+        header,
+        record.subarray(RECORD_HEADER_SIZE, nonceEnd),
+        key
+      );
+      return { sequence: view.getUint32(2), data };
+    } catch {
+      throw new Error('Database failed integrity check');
+    }
+  }
+
+  private unseal(sealed: SealedDatabase, key: Uint8Array): Uint8Array {
+    if (sealed.v !== 1) throw new Error(`Unsupported database format: ${sealed.v}`);
+
+    try {
+      return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        sodium.from_base64(sealed.data),
+        sodium.from_string(SEALED_DB_AD),
+        sodium.from_base64(sealed.nonce),
+        key
+      );
+    } catch {
+      throw new Error('Database failed integrity check');
+    }
+  }
+
   // ==================== User Identity ====================
   
   saveUserIdentity(identity: UserIdentity): void {
     if (!this.db) throw new Error('Database not initialized');
     
-    this.db.run(`
+    this.run(`
       INSERT OR REPLACE INTO user_identity 
       (id, public_key, private_key_encrypted, display_name, avatar_url, created_at, last_seen)
       VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -311,7 +609,7 @@ class DatabaseService {
   saveContact(contact: Contact): void {
     if (!this.db) throw new Error('Database not initialized');
     
-    this.db.run(`
+    this.run(`
       INSERT OR REPLACE INTO contacts 
       (id, identity_key, display_name, avatar_url, verified, blocked, notes, created_at, last_seen)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
@@ -358,16 +656,100 @@ class DatabaseService {
 
   deleteContact(id: string): void {
     if (!this.db) return;
-    this.db.run('DELETE FROM contacts WHERE id = ?', [id]);
+    this.run('DELETE FROM contacts WHERE id = ?', [id]);
     this.scheduleSave();
   }
 
+  // ==================== Identity Key History ====================
+
+  addIdentityKeyChange(change: IdentityKeyChange): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.run(`
+      INSERT INTO identity_key_history (contact_id, previous_key, new_key, changed_at, acknowledged_at)
+      VALUES (?, ?, ?, ?, ?)
+    `, [change.contactId, change.previousKey, change.newKey, change.changedAt, change.acknowledgedAt || null]);
+    this.forceSave();
+  }
+
+  getIdentityKeyHistory(contactId: string): IdentityKeyChange[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec(
+      'SELECT * FROM identity_key_history WHERE contact_id = ? ORDER BY changed_at',
+      [contactId]
+    );
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => {
+      const change = this.rowToObject<IdentityKeyChange>(result[0].columns, row);
+      return { ...change, acknowledgedAt: change.acknowledgedAt ?? undefined };
+    });
+  }
+
+  acknowledgeIdentityKeyChanges(contactId: string, acknowledgedAt: number): void {
+    if (!this.db) return;
+    this.run(
+      'UPDATE identity_key_history SET acknowledged_at = ? WHERE contact_id = ? AND acknowledged_at IS NULL',
+      [acknowledgedAt, contactId]
+    );
+    this.scheduleSave();
+  }
+
+  // ==================== Devices ====================
+
+  saveDevice(device: Device): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.run(
+      'INSERT OR REPLACE INTO devices (id, name, linked_at, revoked_at, identity_key) VALUES (?, ?, ?, ?, ?)',
+      [device.id, device.name, device.linkedAt, device.revokedAt ?? null, device.identityKey ?? null]
+    );
+    this.forceSave();
+  }
+
+  getDevices(): Device[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT * FROM devices ORDER BY id');
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => {
+      const device = this.rowToObject<Device>(result[0].columns, row);
+      return { ...device, revokedAt: device.revokedAt ?? undefined, identityKey: device.identityKey ?? undefined };
+    });
+  }
+
+  // ==================== Key Events ====================
+
+  addKeyEvent(event: KeyEvent): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.run(
+      'INSERT INTO key_events (type, key_id, count, created_at) VALUES (?, ?, ?, ?)',
+      [event.type, event.keyId ?? null, event.count ?? null, event.createdAt]
+    );
+    this.forceSave();
+  }
+
+  getKeyEvents(limit = 100): KeyEvent[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT * FROM key_events ORDER BY created_at DESC, id DESC LIMIT ?', [limit]);
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => {
+      const event = this.rowToObject<KeyEvent>(result[0].columns, row);
+      return { ...event, keyId: event.keyId ?? undefined, count: event.count ?? undefined };
+    });
+  }
+
   // ==================== Conversations ====================
   
   saveConversation(conv: Conversation): void {
     if (!this.db) throw new Error('Database not initialized');
     
-    this.db.run(`
+    this.run(`
       INSERT OR REPLACE INTO conversations 
       (id, type, name, avatar_url, participants, encryption_enabled, disappearing_timeout, 
        is_pinned, is_muted, is_archived, unread_count, last_message_id, created_at, updated_at)
@@ -415,8 +797,8 @@ class DatabaseService {
 
   deleteConversation(id: string): void {
     if (!this.db) return;
-    this.db.run('DELETE FROM messages WHERE conversation_id = ?', [id]);
-    this.db.run('DELETE FROM conversations WHERE id = ?', [id]);
+    this.run('DELETE FROM messages WHERE conversation_id = ?', [id]);
+    this.run('DELETE FROM conversations WHERE id = ?', [id]);
     this.scheduleSave();
   }
 
@@ -425,11 +807,28 @@ class DatabaseService {
   saveMessage(message: Message): void {
     if (!this.db) throw new Error('Database not initialized');
     
-    this.db.run(`
-      INSERT OR REPLACE INTO messages 
+    // Updated in place rather than replaced, so the row keeps its search
+    // index entry
+    this.run(`
+      INSERT INTO messages 
       (id, conversation_id, sender_id, type, content, encrypted_payload, nonce, 
        reply_to_id, reactions, status, is_edited, is_deleted, expires_at, created_at, updated_at)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        conversation_id = excluded.conversation_id,
+        sender_id = excluded.sender_id,
+        type = excluded.type,
+        content = excluded.content,
+        encrypted_payload = excluded.encrypted_payload,
+        nonce = excluded.nonce,
+        reply_to_id = excluded.reply_to_id,
+        reactions = excluded.reactions,
+        status = excluded.status,
+        is_edited = excluded.is_edited,
+        is_deleted = excluded.is_deleted,
+        expires_at = excluded.expires_at,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at
     `, [
       message.id,
       message.conversationId,
@@ -449,7 +848,7 @@ class DatabaseService {
     ]);
     
     // Update conversation
-    this.db.run(`
+    this.run(`
       UPDATE conversations 
       SET last_message_id = ?, updated_at = ?
       WHERE id = ?
@@ -476,12 +875,13 @@ class DatabaseService {
     `;
     const params: any[] = [conversationId];
     
+    // Insertion order breaks ties, so pages neither skip nor repeat
     if (beforeId) {
-      query += ' AND created_at < (SELECT created_at FROM messages WHERE id = ?)';
+      query += ' AND (created_at, rowid) < (SELECT created_at, rowid FROM messages WHERE id = ?)';
       params.push(beforeId);
     }
     
-    query += ' ORDER BY created_at DESC LIMIT ?';
+    query += ' ORDER BY created_at DESC, rowid DESC LIMIT ?';
     params.push(limit);
     
     const result = this.db.exec(query, params);
@@ -490,42 +890,158 @@ class DatabaseService {
     return result[0].values.map((row: SqlValue[]) => this.rowToMessage(result[0].columns, row)).reverse();
   }
 
+  /**
+   * The page of messages right after one, oldest first
+   */
+  getMessagesAfter(conversationId: string, limit: number, afterId: string): Message[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec(`
+      SELECT * FROM messages
+      WHERE conversation_id = ? AND is_deleted = 0
+        AND (created_at, rowid) > (SELECT created_at, rowid FROM messages WHERE id = ?)
+      ORDER BY created_at, rowid LIMIT ?
+    `, [conversationId, afterId, limit]);
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => this.rowToMessage(result[0].columns, row));
+  }
+
+  /**
+   * Every message of a conversation sent in [after, before), oldest first
+   */
+  getMessagesInRange(conversationId: string, after?: number, before?: number): Message[] {
+    if (!this.db) return [];
+
+    let query = 'SELECT * FROM messages WHERE conversation_id = ? AND is_deleted = 0';
+    const params: any[] = [conversationId];
+
+    if (after !== undefined) {
+      query += ' AND created_at >= ?';
+      params.push(after);
+    }
+    if (before !== undefined) {
+      query += ' AND created_at < ?';
+      params.push(before);
+    }
+
+    query += ' ORDER BY created_at, rowid';
+
+    const result = this.db.exec(query, params);
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => this.rowToMessage(result[0].columns, row));
+  }
+
   updateMessageStatus(id: string, status: Message['status']): void {
     if (!this.db) return;
-    this.db.run('UPDATE messages SET status = ?, updated_at = ? WHERE id = ?', [status, Date.now(), id]);
+    this.run('UPDATE messages SET status = ?, updated_at = ? WHERE id = ?', [status, Date.now(), id]);
     this.scheduleSave();
   }
 
   deleteMessage(id: string, hardDelete = false): void {
     if (!this.db) return;
     if (hardDelete) {
-      this.db.run('DELETE FROM messages WHERE id = ?', [id]);
+      this.run('DELETE FROM messages WHERE id = ?', [id]);
     } else {
-      this.db.run('UPDATE messages SET is_deleted = 1, content = "", updated_at = ? WHERE id = ?', [Date.now(), id]);
+      this.run('UPDATE messages SET is_deleted = 1, content = "", updated_at = ? WHERE id = ?', [Date.now(), id]);
     }
     this.scheduleSave();
   }
 
+  // ==================== Search ====================
+
+  /**
+   * Messages matching the query from the full-text index. Ranked best
+   * first when there is text to match, otherwise newest first.
+   */
+  searchMessages(query: MessageSearchQuery): MessageSearchResult[] {
+    if (!this.db) return [];
+
+    const conditions = ['m.is_deleted = 0'];
+    const filters: SqlValue[] = [];
+    if (query.conversationId) {
+      conditions.push('m.conversation_id = ?');
+      filters.push(query.conversationId);
+    }
+    if (query.senderId) {
+      conditions.push('m.sender_id = ?');
+      filters.push(query.senderId);
+    }
+    if (query.type) {
+      conditions.push('m.type = ?');
+      filters.push(query.type);
+    }
+    if (query.after !== undefined) {
+      conditions.push('m.created_at >= ?');
+      filters.push(query.after);
+    }
+    if (query.before !== undefined) {
+      conditions.push('m.created_at < ?');
+      filters.push(query.before);
+    }
+    if (query.hasFile) {
+      conditions.push(`m.type IN (${FILE_MESSAGE_TYPES.map(() => '?').join(', ')})`);
+      filters.push(...FILE_MESSAGE_TYPES);
+    }
+    if (query.hasLink) {
+      conditions.push("(m.content LIKE '%http://%' OR m.content LIKE '%https://%')");
+    }
+
+    const limit = query.limit ?? SEARCH_RESULT_LIMIT;
+    const match = query.text ? toMatchExpression(query.text) : null;
+
+    if (!match) {
+      // Text with nothing searchable in it matches nothing
+      if (query.text?.trim()) return [];
+
+      const result = this.db.exec(`
+        SELECT m.* FROM messages m
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY m.created_at DESC LIMIT ?
+      `, [...filters, limit]);
+      if (!result.length) return [];
+
+      return result[0].values.map((row: SqlValue[]) => {
+        const message = this.rowToMessage(result[0].columns, row);
+        return { message, snippet: message.content, rank: 0 };
+      });
+    }
+
+    const result = this.db.exec(`
+      SELECT m.*,
+        snippet(messages_fts, ?, ?, '…', -1, ${SEARCH_SNIPPET_TOKENS}) AS search_snippet,
+        matchinfo(messages_fts, 'pcnalx') AS search_matchinfo
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.docid
+      WHERE messages_fts MATCH ? AND ${conditions.join(' AND ')}
+    `, [SNIPPET_MATCH_START, SNIPPET_MATCH_END, match, ...filters]);
+    if (!result.length) return [];
+
+    const columns = result[0].columns.slice(0, -2);
+    return result[0].values
+      .map((row: SqlValue[]) => ({
+        message: this.rowToMessage(columns, row.slice(0, -2)),
+        snippet: row[row.length - 2] as string,
+        rank: rankMatch(row[row.length - 1] as Uint8Array),
+      }))
+      .sort((a, b) => b.rank - a.rank || b.message.createdAt - a.message.createdAt)
+      .slice(0, limit);
+  }
+
   // ==================== Crypto Sessions ====================
   
   saveCryptoSession(session: CryptoSession): void {
     if (!this.db) throw new Error('Database not initialized');
     
-    this.db.run(`
+    this.run(`
       INSERT OR REPLACE INTO crypto_sessions 
-      (id, peer_id, root_key, send_chain_key, receive_chain_key, 
-       send_message_number, receive_message_number, previous_chain_length, skipped_keys, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, peer_id, root_key, send_chain_key, receive_chain_key, state, created_at, updated_at)
+      VALUES (?, ?, '', '', '', ?, ?, ?)
     `, [
       session.id,
       session.peerId,
-      session.rootKey,
-      session.sendChainKey,
-      session.receiveChainKey,
-      session.sendMessageNumber,
-      session.receiveMessageNumber,
-      session.previousChainLength,
-      session.skippedKeys,
+      session.state,
       session.createdAt,
       session.updatedAt,
     ]);
@@ -535,18 +1051,184 @@ class DatabaseService {
   getCryptoSession(peerId: string): CryptoSession | null {
     if (!this.db) return null;
     
-    const result = this.db.exec('SELECT * FROM crypto_sessions WHERE peer_id = ?', [peerId]);
+    const result = this.db.exec(
+      'SELECT id, peer_id, state, created_at, updated_at FROM crypto_sessions WHERE peer_id = ?',
+      [peerId]
+    );
     if (!result.length || !result[0].values.length) return null;
     
     return this.rowToObject<CryptoSession>(result[0].columns, result[0].values[0]);
   }
 
+  getCryptoSessionPeerIds(): string[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT peer_id FROM crypto_sessions');
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => row[0] as string);
+  }
+
+  deleteCryptoSession(peerId: string): void {
+    if (!this.db) return;
+    this.run('DELETE FROM crypto_sessions WHERE peer_id = ?', [peerId]);
+    this.scheduleSave();
+  }
+
+  // ==================== Sender Keys ====================
+
+  saveSenderKey(record: SenderKeyRecord): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.run(`
+      INSERT OR REPLACE INTO sender_keys (group_id, sender_id, state, updated_at)
+      VALUES (?, ?, ?, ?)
+    `, [record.groupId, record.senderId, record.state, record.updatedAt]);
+    this.scheduleSave();
+  }
+
+  getSenderKey(groupId: string, senderId: string): SenderKeyRecord | null {
+    if (!this.db) return null;
+
+    const result = this.db.exec(
+      'SELECT * FROM sender_keys WHERE group_id = ? AND sender_id = ?',
+      [groupId, senderId]
+    );
+    if (!result.length || !result[0].values.length) return null;
+
+    return this.rowToObject<SenderKeyRecord>(result[0].columns, result[0].values[0]);
+  }
+
+  deleteSenderKey(groupId: string, senderId: string): void {
+    if (!this.db) return;
+    this.run('DELETE FROM sender_keys WHERE group_id = ? AND sender_id = ?', [groupId, senderId]);
+    this.scheduleSave();
+  }
+
+  getSenderKeySenderIds(groupId: string): string[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT sender_id FROM sender_keys WHERE group_id = ?', [groupId]);
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => row[0] as string);
+  }
+
+  deleteSenderKeys(groupId: string): void {
+    if (!this.db) return;
+    this.run('DELETE FROM sender_keys WHERE group_id = ?', [groupId]);
+    this.scheduleSave();
+  }
+
+  // ==================== Attachments ====================
+
+  saveAttachmentBlob(blob: AttachmentBlob): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // Stored again, e.g. after its file went missing: references stay
+    this.run(`
+      INSERT INTO attachment_blobs (hash, digest, file_key, size, mime_type, has_thumbnail, ref_count, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, 0, ?)
+      ON CONFLICT(hash) DO UPDATE SET
+        file_key = excluded.file_key,
+        has_thumbnail = excluded.has_thumbnail
+    `, [blob.hash, blob.digest, blob.fileKey, blob.size, blob.mimeType, blob.hasThumbnail ? 1 : 0, blob.createdAt]);
+    this.scheduleSave();
+  }
+
+  getAttachmentBlob(hash: string): AttachmentBlob | null {
+    if (!this.db) return null;
+
+    const result = this.db.exec('SELECT * FROM attachment_blobs WHERE hash = ?', [hash]);
+    if (!result.length || !result[0].values.length) return null;
+
+    const blob = this.rowToObject<any>(result[0].columns, result[0].values[0]);
+    return { ...blob, hasThumbnail: !!blob.hasThumbnail };
+  }
+
+  // The reference count is kept by triggers (see Migrations)
+  addAttachmentRef(ref: AttachmentRef): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.run(`
+      INSERT OR IGNORE INTO message_attachments
+      (message_id, hash, name, mime_type, size, width, height, position)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [ref.messageId, ref.hash, ref.name, ref.mimeType, ref.size, ref.width ?? null, ref.height ?? null, ref.position]);
+    this.scheduleSave();
+  }
+
+  getMessageAttachments(messageId: string): AttachmentRef[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec(
+      'SELECT * FROM message_attachments WHERE message_id = ? ORDER BY position',
+      [messageId]
+    );
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => {
+      const ref = this.rowToObject<any>(result[0].columns, row);
+      return { ...ref, width: ref.width ?? undefined, height: ref.height ?? undefined };
+    });
+  }
+
+  getAttachmentBlobHashes(): string[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT hash FROM attachment_blobs ORDER BY created_at');
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => row[0] as string);
+  }
+
+  getUnreferencedAttachmentBlobs(createdBefore: number): string[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec(
+      'SELECT hash FROM attachment_blobs WHERE ref_count <= 0 AND created_at < ?',
+      [createdBefore]
+    );
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => row[0] as string);
+  }
+
+  // Files stored before names were keyed, still named by their digest
+  getAttachmentBlobsNamedByDigest(): string[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT hash FROM attachment_blobs WHERE hash = digest');
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => row[0] as string);
+  }
+
+  // Moves the file's references along; its reference count stays
+  renameAttachmentBlob(from: string, to: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.run('UPDATE attachment_blobs SET hash = ? WHERE hash = ?', [to, from]);
+    this.run('UPDATE message_attachments SET hash = ? WHERE hash = ?', [to, from]);
+    this.scheduleSave();
+  }
+
+  // Only while nothing references it
+  deleteAttachmentBlob(hash: string): boolean {
+    if (!this.db) return false;
+
+    this.run('DELETE FROM attachment_blobs WHERE hash = ? AND ref_count <= 0', [hash]);
+    const deleted = this.db.getRowsModified() > 0;
+    this.scheduleSave();
+    return deleted;
+  }
+
   // ==================== Settings ====================
   
   setSetting(key: string, value: string): void {
     if (!this.db) return;
     
-    this.db.run(`
+    this.run(`
       INSERT OR REPLACE INTO settings (key, value, updated_at)
       VALUES (?, ?, ?)
     `, [key, value, Date.now()]);
@@ -580,7 +1262,7 @@ class DatabaseService {
   
   addPendingMessage(msg: PendingMessage): void {
     if (!this.db) return;
-    this.db.run(`
+    this.run(`
       INSERT INTO pending_messages 
       (id, conversation_id, peer_id, encrypted_payload, nonce, created_at, retry_count)
       VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -604,13 +1286,46 @@ class DatabaseService {
 
   removePendingMessage(id: string): void {
     if (!this.db) return;
-    this.db.run('DELETE FROM pending_messages WHERE id = ?', [id]);
+    this.run('DELETE FROM pending_messages WHERE id = ?', [id]);
     this.scheduleSave();
   }
 
   incrementPendingRetry(id: string): void {
     if (!this.db) return;
-    this.db.run('UPDATE pending_messages SET retry_count = retry_count + 1 WHERE id = ?', [id]);
+    this.run('UPDATE pending_messages SET retry_count = retry_count + 1 WHERE id = ?', [id]);
+    this.scheduleSave();
+  }
+
+  // ==================== Held Messages ====================
+
+  addHeldMessage(msg: HeldMessage): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.run(`
+      INSERT OR REPLACE INTO held_messages
+      (id, contact_id, direction, conversation_id, sender_address, payload, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [msg.id, msg.contactId, msg.direction, msg.conversationId ?? null, msg.senderAddress ?? null, msg.payload, msg.createdAt]);
+    this.forceSave();
+  }
+
+  getHeldMessages(contactId?: string): HeldMessage[] {
+    if (!this.db) return [];
+
+    const result = contactId
+      ? this.db.exec('SELECT * FROM held_messages WHERE contact_id = ? ORDER BY created_at', [contactId])
+      : this.db.exec('SELECT * FROM held_messages ORDER BY created_at');
+    if (!result.length) return [];
+
+    return result[0].values.map((row: SqlValue[]) => {
+      const msg = this.rowToObject<any>(result[0].columns, row);
+      return { ...msg, conversationId: msg.conversationId ?? undefined, senderAddress: msg.senderAddress ?? undefined };
+    });
+  }
+
+  removeHeldMessages(contactId: string): void {
+    if (!this.db) return;
+    this.run('DELETE FROM held_messages WHERE contact_id = ?', [contactId]);
     this.scheduleSave();
   }
 
@@ -658,12 +1373,17 @@ class DatabaseService {
   // Clear all data
   clearAll(): void {
     if (!this.db) return;
-    this.db.run('DELETE FROM pending_messages');
-    this.db.run('DELETE FROM crypto_sessions');
-    this.db.run('DELETE FROM messages');
-    this.db.run('DELETE FROM conversations');
-    this.db.run('DELETE FROM contacts');
-    this.db.run('DELETE FROM settings');
+    this.run('DELETE FROM pending_messages');
+    this.run('DELETE FROM held_messages');
+    this.run('DELETE FROM crypto_sessions');
+    this.run('DELETE FROM sender_keys');
+    this.run('DELETE FROM messages');
+    this.run('DELETE FROM conversations');
+    this.run('DELETE FROM identity_key_history');
+    this.run('DELETE FROM key_events');
+    this.run('DELETE FROM devices');
+    this.run('DELETE FROM contacts');
+    this.run('DELETE FROM settings');
     // Keep user_identity for now
     this.scheduleSave();
   }
@@ -674,15 +1394,70 @@ class DatabaseService {
     return this.db.export();
   }
 
-  // Import database from backup
+  /**
+   * Check a database image, e.g. from a backup, without opening it as
+   * this database. Throws when it is damaged or from a newer version.
+   */
+  inspectImage(data: Uint8Array): DatabaseImageInfo {
+    if (!this.SQL) throw new Error('Database not initialized');
+
+    const database = new this.SQL.Database(data);
+    try {
+      let check: string | undefined;
+      try {
+        check = database.exec('PRAGMA integrity_check')[0]?.values[0]?.[0] as string | undefined;
+      } catch {
+        // Not an SQLite image at all
+      }
+      if (check !== 'ok') throw new Error('Database failed integrity check');
+
+      const schemaVersion = getSchemaVersion(database);
+      if (schemaVersion > SCHEMA_VERSION) {
+        throw new Error('This database was written by a newer version of VORTEX');
+      }
+
+      const tables = database.exec("SELECT name FROM sqlite_master WHERE type = 'table'");
+      const names = new Set(tables.length ? tables[0].values.map(row => row[0] as string) : []);
+      if (!['user_identity', 'contacts', 'conversations', 'messages'].every(name => names.has(name))) {
+        throw new Error('Not a VORTEX database');
+      }
+
+      const count = (table: string) => Number(database.exec(`SELECT COUNT(*) FROM ${table}`)[0].values[0][0]);
+      const identity = database.exec('SELECT id, display_name FROM user_identity LIMIT 1');
+      return {
+        schemaVersion,
+        identity: identity.length
+          ? { id: identity[0].values[0][0] as string, displayName: identity[0].values[0][1] as string }
+          : null,
+        contacts: count('contacts'),
+        conversations: count('conversations'),
+        messages: count('messages'),
+      };
+    } finally {
+      database.close();
+    }
+  }
+
+  /**
+   * Replace the database, e.g. from a backup. The image is brought up to
+   * the current schema first; on failure the current database is kept.
+   */
   async importDatabase(data: Uint8Array): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-    
-    const SQL = await initSqlJs({
-      locateFile: (file: string) => `https://sql.js.org/dist/${file}`,
-    });
-    
-    this.db = new SQL.Database(data);
+    if (!this.db || !this.SQL) throw new Error('Database not initialized');
+
+    const database = new this.SQL.Database(data);
+    try {
+      migrate(database);
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+
+    this.db.close();
+    this.db = database;
+    // The journal applies to the replaced database
+    this.pendingWrites = [];
+    this.snapshotDue = true;
     this.scheduleSave();
   }
 
@@ -690,6 +1465,31 @@ class DatabaseService {
   forceSave(): void {
     this.saveToStorage();
   }
+
+  /**
+   * Save now and wait until the store has it, e.g. before a reload
+   */
+  async flush(): Promise<void> {
+    this.saveToStorage();
+    await this.storeWrites;
+  }
+
+  /**
+   * Close the database and delete everything stored for it
+   */
+  async destroy(): Promise<void> {
+    if (this.saveDebounceTimer) {
+      clearTimeout(this.saveDebounceTimer);
+      this.saveDebounceTimer = null;
+    }
+    this.db?.close();
+    this.db = null;
+    this.pendingWrites = [];
+
+    await this.storeWrites;
+    await this.store?.clear();
+    removeLegacyImage();
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,69 @@
+/**
+ * VORTEX Protocol - Database Store
+ * Where the encrypted database is kept: a snapshot of the whole image and
+ * a journal of the writes made since it was taken. In Electron both are
+ * files in the user data directory, written by the main process; without
+ * it they fall back to localStorage.
+ */
+import sodium from 'libsodium-wrappers';
+// Where the whole image was kept before the file store
+const LEGACY_STORAGE_KEY = 'vortex_db';
+const SNAPSHOT_STORAGE_KEY = 'vortex_db_snapshot';
+const JOURNAL_STORAGE_KEY = 'vortex_db_journal';
+const BACKUP_STORAGE_PREFIX = 'vortex_db_backup_';
+function localStore() {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+}
+class LocalStorageStore {
+    async load() {
+        const snapshot = localStore()?.getItem(SNAPSHOT_STORAGE_KEY);
+        return {
+            snapshot: snapshot ? sodium.from_base64(snapshot) : null,
+            journal: this.readJournal().map(record => sodium.from_base64(record)),
+        };
+    }
+    async append(record) {
+        const journal = this.readJournal();
+        journal.push(sodium.to_base64(record));
+        localStore()?.setItem(JOURNAL_STORAGE_KEY, JSON.stringify(journal));
+    }
+    async writeSnapshot(snapshot) {
+        localStore()?.setItem(SNAPSHOT_STORAGE_KEY, sodium.to_base64(snapshot));
+        localStore()?.removeItem(JOURNAL_STORAGE_KEY);
+    }
+    async writeBackup(name, snapshot) {
+        localStore()?.setItem(BACKUP_STORAGE_PREFIX + name, sodium.to_base64(snapshot));
+    }
+    async clear() {
+        const store = localStore();
+        if (!store)
+            return;
+        store.removeItem(SNAPSHOT_STORAGE_KEY);
+        store.removeItem(JOURNAL_STORAGE_KEY);
+        Object.keys(store)
+            .filter(key => key.startsWith(BACKUP_STORAGE_PREFIX))
+            .forEach(key => store.removeItem(key));
+    }
+    readJournal() {
+        const stored = localStore()?.getItem(JOURNAL_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    }
+}
+/**
+ * The main-process file store where available, otherwise localStorage
+ */
+export function getDatabaseStore() {
+    const fileStore = typeof window !== 'undefined' ? window.electronAPI?.dbStore : undefined;
+    return fileStore ?? new LocalStorageStore();
+}
+/**
+ * Image stored in localStorage by earlier versions, parsed: a plain byte
+ * array, or sealed with the database key
+ */
+export function loadLegacyImage() {
+    const stored = localStore()?.getItem(LEGACY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+}
+export function removeLegacyImage() {
+    localStore()?.removeItem(LEGACY_STORAGE_KEY);
+}
@@ -0,0 +1,245 @@
+/**
+ * VORTEX Protocol - Schema Migration Tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic } from 'sql.js';
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  getPendingMigrations,
+  getSchemaVersion,
+  migrate,
+  type Migration,
+} from './Migrations';
+
+// DatabaseService loads the wasm binary from a CDN; under Node the
+// packaged one is used
+vi.mock('sql.js', async (importOriginal) => {
+  const original = await importOriginal<typeof import('sql.js')>();
+  return { ...original, default: () => original.default() };
+});
+
+let SQL: SqlJsStatic;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+function tableNames(db: SqlJsDatabase): string[] {
+  const result = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  return result.length ? result[0].values.map(row => row[0] as string) : [];
+}
+
+function columnNames(db: SqlJsDatabase, table: string): string[] {
+  const result = db.exec(`PRAGMA table_info(${table})`);
+  return result.length ? result[0].values.map(row => row[1] as string) : [];
+}
+
+/**
+ * A database as written before migrations existed: the current schema,
+ * created table by table, at user_version 0
+ */
+function currentSchemaSnapshot(): Uint8Array {
+  const db = new SQL.Database();
+  MIGRATIONS[0].up(db);
+  db.run(`INSERT INTO contacts (id, identity_key, display_name, verified, created_at, last_seen)
+          VALUES ('alice', 'key-alice', 'Alice', 1, 1, 2)`);
+  db.run(`INSERT INTO conversations (id, type, participants, created_at, updated_at)
+          VALUES ('conv-1', 'direct', '["alice"]', 1, 2)`);
+  db.run(`INSERT INTO messages (id, conversation_id, sender_id, content, status, created_at, updated_at)
+          VALUES ('msg-1', 'conv-1', 'alice', 'hello', 'read', 1, 1)`);
+  db.run(`INSERT INTO settings (key, value, updated_at) VALUES ('theme', 'dark', 1)`);
+  const snapshot = db.export();
+  db.close();
+  return snapshot;
+}
+
+describe('migrate', () => {
+  it('creates the full schema in an empty database', () => {
+    const db = new SQL.Database();
+    migrate(db);
+
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    expect(tableNames(db)).toEqual(expect.arrayContaining([
+      'attachment_blobs', 'contacts', 'conversations', 'crypto_sessions', 'devices', 'held_messages', 'identity_key_history',
+      'key_events', 'message_attachments', 'messages', 'pending_messages', 'sender_keys', 'settings', 'user_identity',
+    ]));
+  });
+
+  it('migrates a snapshot from the current schema and keeps its data', () => {
+    const db = new SQL.Database(currentSchemaSnapshot());
+    expect(getSchemaVersion(db)).toBe(0);
+
+    migrate(db);
+
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    expect(db.exec("SELECT display_name, verified FROM contacts WHERE id = 'alice'")[0].values)
+      .toEqual([['Alice', 1]]);
+    expect(db.exec("SELECT content, status FROM messages WHERE id = 'msg-1'")[0].values)
+      .toEqual([['hello', 'read']]);
+    expect(db.exec("SELECT value FROM settings WHERE key = 'theme'")[0].values).toEqual([['dark']]);
+  });
+
+  it('indexes existing messages for search', () => {
+    const db = new SQL.Database(currentSchemaSnapshot());
+    migrate(db);
+
+    expect(db.exec("SELECT docid FROM messages_fts WHERE messages_fts MATCH 'hello'")[0].values)
+      .toEqual(db.exec("SELECT rowid FROM messages WHERE id = 'msg-1'")[0].values);
+  });
+
+  it('counts attachment references and drops those of deleted messages', () => {
+    const db = new SQL.Database(currentSchemaSnapshot());
+    migrate(db);
+    db.run(`INSERT INTO messages (id, conversation_id, sender_id, content, status, created_at, updated_at)
+            VALUES ('msg-2', 'conv-1', 'alice', 'again', 'read', 2, 2)`);
+    db.run(`INSERT INTO attachment_blobs (hash, file_key, size, mime_type, created_at)
+            VALUES ('cafe', 'key', 4, 'image/png', 1)`);
+    for (const messageId of ['msg-1', 'msg-2']) {
+      db.run(`INSERT INTO message_attachments (message_id, hash, name, mime_type, size)
+              VALUES (?, 'cafe', 'cat.png', 'image/png', 4)`, [messageId]);
+    }
+    const refCount = () => db.exec("SELECT ref_count FROM attachment_blobs WHERE hash = 'cafe'")[0].values[0][0];
+
+    expect(refCount()).toBe(2);
+    db.run("UPDATE messages SET is_deleted = 1, content = '' WHERE id = 'msg-1'");
+    expect(refCount()).toBe(1);
+    db.run("DELETE FROM messages WHERE id = 'msg-2'");
+    expect(refCount()).toBe(0);
+    expect(db.exec('SELECT * FROM message_attachments')).toEqual([]);
+  });
+
+  it('keeps the names of attachments stored before names were keyed as their digest', () => {
+    const db = new SQL.Database(currentSchemaSnapshot());
+    migrate(db, MIGRATIONS.filter(migration => migration.version < 6));
+    db.run(`INSERT INTO attachment_blobs (hash, file_key, size, mime_type, created_at)
+            VALUES ('cafe', 'key', 4, 'image/png', 1)`);
+
+    migrate(db);
+
+    expect(db.exec("SELECT digest FROM attachment_blobs WHERE hash = 'cafe'")[0].values).toEqual([['cafe']]);
+  });
+
+  it('adds the session state column to databases that predate it', () => {
+    const db = new SQL.Database();
+    db.run(`CREATE TABLE crypto_sessions (
+      id TEXT PRIMARY KEY,
+      peer_id TEXT NOT NULL UNIQUE,
+      root_key TEXT NOT NULL,
+      send_chain_key TEXT NOT NULL,
+      receive_chain_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`);
+
+    migrate(db);
+
+    expect(columnNames(db, 'crypto_sessions')).toContain('state');
+  });
+
+  it('does nothing for a database already at the latest version', () => {
+    const db = new SQL.Database();
+    migrate(db);
+
+    expect(getPendingMigrations(db)).toEqual([]);
+    expect(() => migrate(db)).not.toThrow();
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+  });
+
+  it('refuses a database written by a newer version', () => {
+    const db = new SQL.Database();
+    db.run(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+
+    expect(() => migrate(db)).toThrow(/newer version/);
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION + 1);
+  });
+
+  it('runs pending migrations in order', () => {
+    const applied: number[] = [];
+    const migrations: Migration[] = [1, 2, 3].map(version => ({
+      version,
+      description: `Step ${version}`,
+      up: () => { applied.push(version); },
+    }));
+
+    const db = new SQL.Database();
+    db.run('PRAGMA user_version = 1');
+    migrate(db, migrations);
+
+    expect(applied).toEqual([2, 3]);
+    expect(getSchemaVersion(db)).toBe(3);
+  });
+
+  it('rolls back a failed migration and stops at the last good version', () => {
+    const migrations: Migration[] = [
+      { version: 1, description: 'Add notes', up: db => db.run('CREATE TABLE notes (id TEXT PRIMARY KEY)') },
+      {
+        version: 2,
+        description: 'Broken',
+        up: (db) => {
+          db.run('CREATE TABLE drafts (id TEXT PRIMARY KEY)');
+          db.run('ALTER TABLE missing ADD COLUMN body TEXT');
+        },
+      },
+    ];
+
+    const db = new SQL.Database();
+    expect(() => migrate(db, migrations)).toThrow(/Migration 2 \(Broken\) failed/);
+
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(tableNames(db)).toEqual(['notes']);
+  });
+});
+
+describe('DatabaseService migrations', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.resetModules();
+    vi.stubGlobal('window', {
+      addEventListener: () => {},
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => { storage.set(key, value); },
+        removeItem: (key: string) => { storage.delete(key); },
+      },
+    });
+  });
+
+  async function openDatabase() {
+    const { db } = await import('./DatabaseService');
+    await db.initialize();
+    return db;
+  }
+
+  it('backs up and migrates a database from the current schema', async () => {
+    storage.set('vortex_db', JSON.stringify(Array.from(currentSchemaSnapshot())));
+
+    const db = await openDatabase();
+
+    expect(storage.has('vortex_db_backup_pre-migration-v0')).toBe(true);
+    expect(db.getContact('alice')?.displayName).toBe('Alice');
+    expect(db.getSetting('theme')).toBe('dark');
+
+    const exported = new SQL.Database(db.exportDatabase()!);
+    expect(getSchemaVersion(exported)).toBe(SCHEMA_VERSION);
+  });
+
+  it('does not back up a new database', async () => {
+    await openDatabase();
+
+    expect([...storage.keys()].some(key => key.startsWith('vortex_db_backup_'))).toBe(false);
+  });
+
+  it('refuses to open a database from a newer version', async () => {
+    const newer = new SQL.Database();
+    newer.run(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+    storage.set('vortex_db', JSON.stringify(Array.from(newer.export())));
+
+    await expect(openDatabase()).rejects.toThrow(/newer version/);
+    // Left where it was
+    expect(storage.has('vortex_db')).toBe(true);
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * VORTEX Protocol - Schema Migrations
+ * Ordered, numbered changes to the database schema. The version a
+ * database is at is kept in SQLite's user_version; each pending migration
+ * runs in its own transaction along with the version bump.
+ *
+ * Migrations are part of the stored format: never edit or renumber one
+ * that has shipped, only add new ones.
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: SqlJsDatabase): void;
+}
+
+function addColumnIfMissing(db: SqlJsDatabase, table: string, column: string, definition: string): void {
+  const result = db.exec(`PRAGMA table_info(${table})`);
+  const columns = result.length ? result[0].values.map((row) => row[1] as string) : [];
+  if (!columns.includes(column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Schema as of the first migration. Databases from before migrations have
+ * user_version 0 and some or all of these tables already.
+ */
+function initialSchema(db: SqlJsDatabase): void {
+  // User Identity
+  db.run(`
+    CREATE TABLE IF NOT EXISTS user_identity (
+      id TEXT PRIMARY KEY,
+      public_key TEXT NOT NULL UNIQUE,
+      private_key_encrypted TEXT NOT NULL,
+      display_name TEXT NOT NULL,
+      avatar_url TEXT,
+      created_at INTEGER NOT NULL,
+      last_seen INTEGER NOT NULL
+    )
+  `);
+
+  // Contacts
+  db.run(`
+    CREATE TABLE IF NOT EXISTS contacts (
+      id TEXT PRIMARY KEY,
+      identity_key TEXT NOT NULL UNIQUE,
+      display_name TEXT NOT NULL,
+      avatar_url TEXT,
+      verified INTEGER DEFAULT 0,
+      blocked INTEGER DEFAULT 0,
+      notes TEXT,
+      created_at INTEGER NOT NULL,
+      last_seen INTEGER NOT NULL
+    )
+  `);
+
+  // Identity key history (audit trail of contacts' key changes)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS identity_key_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      contact_id TEXT NOT NULL,
+      previous_key TEXT NOT NULL,
+      new_key TEXT NOT NULL,
+      changed_at INTEGER NOT NULL,
+      acknowledged_at INTEGER
+    )
+  `);
+
+  // Devices linked to our identity (kept by the primary)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS devices (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      linked_at INTEGER NOT NULL,
+      revoked_at INTEGER
+    )
+  `);
+
+  // Local log of our own key rotations and pre-key top-ups
+  db.run(`
+    CREATE TABLE IF NOT EXISTS key_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      key_id INTEGER,
+      count INTEGER,
+      created_at INTEGER NOT NULL
+    )
+  `);
+
+  // Conversations
+  db.run(`
+    CREATE TABLE IF NOT EXISTS conversations (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL CHECK(type IN ('direct', 'group')),
+      name TEXT,
+      avatar_url TEXT,
+      participants TEXT NOT NULL,
+      encryption_enabled INTEGER DEFAULT 1,
+      disappearing_timeout INTEGER,
+      is_pinned INTEGER DEFAULT 0,
+      is_muted INTEGER DEFAULT 0,
+      is_archived INTEGER DEFAULT 0,
+      unread_count INTEGER DEFAULT 0,
+      last_message_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  // Messages
+  db.run(`
+    CREATE TABLE IF NOT EXISTS messages (
+      id TEXT PRIMARY KEY,
+      conversation_id TEXT NOT NULL,
+      sender_id TEXT NOT NULL,
+      type TEXT NOT NULL DEFAULT 'text',
+      content TEXT NOT NULL,
+      encrypted_payload TEXT,
+      nonce TEXT,
+      reply_to_id TEXT,
+      reactions TEXT,
+      status TEXT DEFAULT 'sending',
+      is_edited INTEGER DEFAULT 0,
+      is_deleted INTEGER DEFAULT 0,
+      expires_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Crypto Sessions (for Double Ratchet)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS crypto_sessions (
+      id TEXT PRIMARY KEY,
+      peer_id TEXT NOT NULL UNIQUE,
+      root_key TEXT NOT NULL,
+      send_chain_key TEXT NOT NULL,
+      receive_chain_key TEXT NOT NULL,
+      send_message_number INTEGER DEFAULT 0,
+      receive_message_number INTEGER DEFAULT 0,
+      previous_chain_length INTEGER DEFAULT 0,
+      skipped_keys TEXT DEFAULT '{}',
+      state TEXT NOT NULL DEFAULT '',
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  // Databases created before ratchet state was stored as a whole
+  addColumnIfMissing(db, 'crypto_sessions', 'state', "TEXT NOT NULL DEFAULT ''");
+
+  // Settings
+  db.run(`
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  // Sender Keys (group chain keys, ours and other members')
+  db.run(`
+    CREATE TABLE IF NOT EXISTS sender_keys (
+      group_id TEXT NOT NULL,
+      sender_id TEXT NOT NULL,
+      state TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (group_id, sender_id)
+    )
+  `);
+
+  // Pending Messages (for offline queue)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS pending_messages (
+      id TEXT PRIMARY KEY,
+      conversation_id TEXT NOT NULL,
+      peer_id TEXT NOT NULL,
+      encrypted_payload TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      retry_count INTEGER DEFAULT 0
+    )
+  `);
+
+  // Create indexes
+  db.run('CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_messages_created ON messages(created_at)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_contacts_identity ON contacts(identity_key)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_pending_peer ON pending_messages(peer_id)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_key_history_contact ON identity_key_history(contact_id)');
+}
+
+/**
+ * Full-text index over message content (FTS4; this sql.js build has no
+ * FTS5), keyed by the messages rowid and kept current by triggers.
+ * Deleted messages are left out.
+ */
+function messageSearchIndex(db: SqlJsDatabase): void {
+  db.run(`
+    CREATE VIRTUAL TABLE messages_fts USING fts4(
+      content,
+      tokenize=unicode61 "remove_diacritics=1",
+      prefix="2,3"
+    )
+  `);
+
+  // The delete first also clears an entry left behind by a REPLACE,
+  // which removes the old row without firing delete triggers
+  db.run(`
+    CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+      DELETE FROM messages_fts WHERE docid = new.rowid;
+      INSERT INTO messages_fts (docid, content)
+        SELECT new.rowid, new.content WHERE new.is_deleted = 0;
+    END
+  `);
+  db.run(`
+    CREATE TRIGGER messages_fts_update AFTER UPDATE OF content, is_deleted ON messages BEGIN
+      DELETE FROM messages_fts WHERE docid = old.rowid;
+      INSERT INTO messages_fts (docid, content)
+        SELECT new.rowid, new.content WHERE new.is_deleted = 0;
+    END
+  `);
+  db.run(`
+    CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+      DELETE FROM messages_fts WHERE docid = old.rowid;
+    END
+  `);
+
+  db.run(`
+    INSERT INTO messages_fts (docid, content)
+      SELECT rowid, content FROM messages WHERE is_deleted = 0
+  `);
+}
+
+/**
+ * Attachment store: one row per stored file, keyed by content hash, and
+ * the messages that reference it. Triggers keep each file's reference
+ * count and drop the references of deleted messages; files left with no
+ * references are removed by the attachment store.
+ */
+function attachmentStore(db: SqlJsDatabase): void {
+  db.run(`
+    CREATE TABLE attachment_blobs (
+      hash TEXT PRIMARY KEY,
+      file_key TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      mime_type TEXT NOT NULL,
+      has_thumbnail INTEGER DEFAULT 0,
+      ref_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE message_attachments (
+      message_id TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      width INTEGER,
+      height INTEGER,
+      position INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (message_id, hash)
+    )
+  `);
+  db.run('CREATE INDEX idx_message_attachments_hash ON message_attachments(hash)');
+  db.run('CREATE INDEX idx_attachment_blobs_refs ON attachment_blobs(ref_count)');
+
+  db.run(`
+    CREATE TRIGGER message_attachments_insert AFTER INSERT ON message_attachments BEGIN
+      UPDATE attachment_blobs SET ref_count = ref_count + 1 WHERE hash = new.hash;
+    END
+  `);
+  db.run(`
+    CREATE TRIGGER message_attachments_delete AFTER DELETE ON message_attachments BEGIN
+      UPDATE attachment_blobs SET ref_count = ref_count - 1 WHERE hash = old.hash;
+    END
+  `);
+
+  // Deleted for everyone keeps the message row but not its files
+  db.run(`
+    CREATE TRIGGER messages_attachments_delete AFTER DELETE ON messages BEGIN
+      DELETE FROM message_attachments WHERE message_id = old.id;
+    END
+  `);
+  db.run(`
+    CREATE TRIGGER messages_attachments_update AFTER UPDATE OF is_deleted ON messages
+    WHEN new.is_deleted = 1 BEGIN
+      DELETE FROM message_attachments WHERE message_id = new.id;
+    END
+  `);
+}
+
+/**
+ * Messages held while a contact's new identity key awaits the user's
+ * acknowledgement: ours to them, and theirs that arrived from the new key.
+ * Kept here so they survive a restart.
+ */
+function heldMessages(db: SqlJsDatabase): void {
+  db.run(`
+    CREATE TABLE held_messages (
+      id TEXT PRIMARY KEY,
+      contact_id TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      conversation_id TEXT,
+      sender_address TEXT,
+      payload TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+  db.run('CREATE INDEX idx_held_messages_contact ON held_messages(contact_id)');
+}
+
+/**
+ * Linked devices' own identity keys, as certified in our device list.
+ * Devices linked before this shared the account key and are left out of
+ * the list until linked again.
+ */
+function deviceKeys(db: SqlJsDatabase): void {
+  addColumnIfMissing(db, 'devices', 'identity_key', 'TEXT');
+}
+
+/**
+ * Attachment files named by a keyed hash rather than a plain content hash,
+ * which anyone could compute for a known file. The plain digest stays in
+ * the row for integrity checks; existing files keep their names (equal to
+ * their digest) until the attachment store renames them.
+ */
+function attachmentDigests(db: SqlJsDatabase): void {
+  addColumnIfMissing(db, 'attachment_blobs', 'digest', 'TEXT');
+  db.run('UPDATE attachment_blobs SET digest = hash WHERE digest IS NULL');
+}
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Initial schema', up: initialSchema },
+  { version: 2, description: 'Message search index', up: messageSearchIndex },
+  { version: 3, description: 'Attachment store', up: attachmentStore },
+  { version: 4, description: 'Held messages', up: heldMessages },
+  { version: 5, description: 'Device identity keys', up: deviceKeys },
+  { version: 6, description: 'Keyed attachment names', up: attachmentDigests },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: SqlJsDatabase): number {
+  const result = db.exec('PRAGMA user_version');
+  return result[0].values[0][0] as number;
+}
+
+/**
+ * Migrations still to run, in order. Throws for a database written by a
+ * newer version of the app, which this one cannot safely open.
+ */
+export function getPendingMigrations(db: SqlJsDatabase, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const version = getSchemaVersion(db);
+  const latest = migrations.length ? migrations[migrations.length - 1].version : 0;
+  if (version > latest) {
+    throw new Error(`This database was written by a newer version of VORTEX (schema ${version}, supported ${latest})`);
+  }
+
+  return migrations.filter(migration => migration.version > version);
+}
+
+/**
+ * Whether the database holds anything yet, i.e. would be worth a backup
+ */
+export function hasTables(db: SqlJsDatabase): boolean {
+  const result = db.exec("SELECT 1 FROM sqlite_master WHERE type = 'table' LIMIT 1");
+  return result.length > 0;
+}
+
+/**
+ * Bring the database up to the latest schema. A migration that fails is
+ * rolled back, leaving the database at the last version that applied.
+ */
+export function migrate(db: SqlJsDatabase, migrations: Migration[] = MIGRATIONS): void {
+  for (const migration of getPendingMigrations(db, migrations)) {
+    db.run('BEGIN');
+    try {
+      migration.up(db);
+      db.run(`PRAGMA user_version = ${migration.version}`);
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : error}`);
+    }
+    console.log(`[DB] Migrated schema to version ${migration.version}: ${migration.description}`);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * VORTEX Protocol - Search Index
+ * Query parsing and ranking for the full-text message index (see the
+ * message search index migration).
+ *
+ * Query syntax: free text, "quoted phrases" and the filters
+ *   from:<sender>  in:<conversation>  type:<message type>
+ *   has:file  has:link  after:YYYY-MM-DD  before:YYYY-MM-DD
+ */
+// Private-use characters, so snippets need no HTML escaping
+export const SNIPPET_MATCH_START = '\uE000';
+export const SNIPPET_MATCH_END = '\uE001';
+export const FILE_MESSAGE_TYPES = ['file', 'image', 'audio', 'video'];
+const MESSAGE_TYPES = ['text', 'image', 'file', 'audio', 'video', 'system'];
+// Same split into words as the index tokenizer, near enough
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+function parseDate(value) {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match)
+        return null;
+    const time = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+    return Number.isNaN(time) ? null : time;
+}
+/**
+ * Split search input into text and filters. Anything that is not a
+ * recognised filter stays part of the text.
+ */
+export function parseSearchQuery(input) {
+    const query = {};
+    const text = [];
+    for (const [token] of input.matchAll(/"[^"]*"?|\S+/g)) {
+        const [, operator, value] = /^(\w+):(.+)$/.exec(token) ?? [];
+        const date = value ? parseDate(value) : null;
+        if (operator === 'from') {
+            query.senderId = value;
+        }
+        else if (operator === 'in') {
+            query.conversationId = value;
+        }
+        else if (operator === 'type' && MESSAGE_TYPES.includes(value)) {
+            query.type = value;
+        }
+        else if (operator === 'has' && value === 'file') {
+            query.hasFile = true;
+        }
+        else if (operator === 'has' && value === 'link') {
+            query.hasLink = true;
+        }
+        else if (operator === 'after' && date !== null) {
+            query.after = date;
+        }
+        else if (operator === 'before' && date !== null) {
+            query.before = date;
+        }
+        else {
+            text.push(token);
+        }
+    }
+    if (text.length)
+        query.text = text.join(' ');
+    return query;
+}
+/**
+ * FTS MATCH expression for search text: every word must appear, as a
+ * prefix, and quoted phrases in order. Null when nothing is searchable.
+ */
+export function toMatchExpression(text) {
+    const terms = [];
+    for (const [, phrase, word] of text.matchAll(/"([^"]*)"?|(\S+)/g)) {
+        // Lowercased so words like OR and NOT are never read as operators
+        const tokens = (phrase ?? word).toLowerCase().match(TOKEN_PATTERN) ?? [];
+        if (!tokens.length)
+            continue;
+        if (phrase !== undefined) {
+            terms.push(`"${tokens.join(' ')}"`);
+        }
+        else {
+            terms.push(...tokens.map(token => `${token}*`));
+        }
+    }
+    return terms.length ? terms.join(' ') : null;
+}
+/**
+ * BM25 score from FTS4 matchinfo(table, 'pcnalx')
+ */
+export function rankMatch(matchinfo) {
+    // Native byte order, as SQLite wrote it; copied for alignment
+    const info = new Uint32Array(new Uint8Array(matchinfo).buffer);
+    const phrases = info[0];
+    const columns = info[1];
+    const documents = info[2];
+    const hits = 3 + 2 * columns;
+    let score = 0;
+    for (let column = 0; column < columns; column++) {
+        const averageLength = info[3 + column] || 1;
+        const length = info[3 + columns + column];
+        for (let phrase = 0; phrase < phrases; phrase++) {
+            const offset = hits + 3 * (phrase * columns + column);
+            const frequency = info[offset];
+            const documentsWithHit = info[offset + 2];
+            if (!frequency)
+                continue;
+            const idf = Math.log(1 + (documents - documentsWithHit + 0.5) / (documentsWithHit + 0.5));
+            score += idf * (frequency * (BM25_K1 + 1)) /
+                (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        }
+    }
+    return score;
+}
@@ -0,0 +1,123 @@
+/**
+ * VORTEX Protocol - Search Index Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic } from 'sql.js';
+import { parseSearchQuery, toMatchExpression, rankMatch } from './SearchIndex';
+
+describe('parseSearchQuery', () => {
+  it('keeps plain words as text', () => {
+    expect(parseSearchQuery('lunch tomorrow')).toEqual({ text: 'lunch tomorrow' });
+  });
+
+  it('reads every filter', () => {
+    const query = parseSearchQuery('from:alice in:conv-1 type:image has:file has:link after:2024-03-01 before:2024-04-01');
+
+    expect(query).toEqual({
+      senderId: 'alice',
+      conversationId: 'conv-1',
+      type: 'image',
+      hasFile: true,
+      hasLink: true,
+      after: new Date(2024, 2, 1).getTime(),
+      before: new Date(2024, 3, 1).getTime(),
+    });
+  });
+
+  it('keeps filters mixed in with text apart from it', () => {
+    expect(parseSearchQuery('budget from:bob numbers')).toEqual({ text: 'budget numbers', senderId: 'bob' });
+  });
+
+  it('keeps quoted phrases whole, filter-like words included', () => {
+    expect(parseSearchQuery('"meet from:home" later')).toEqual({ text: '"meet from:home" later' });
+  });
+
+  it('treats unknown or malformed filters as text', () => {
+    expect(parseSearchQuery('type:spreadsheet has:cats after:yesterday before:2024-1-1 note:x')).toEqual({
+      text: 'type:spreadsheet has:cats after:yesterday before:2024-1-1 note:x',
+    });
+  });
+
+  it('returns no text for filters alone', () => {
+    expect(parseSearchQuery('from:alice').text).toBeUndefined();
+    expect(parseSearchQuery('   ')).toEqual({});
+  });
+});
+
+describe('toMatchExpression', () => {
+  it('matches every word as a prefix', () => {
+    expect(toMatchExpression('Lunch Tomorrow')).toBe('lunch* tomorrow*');
+  });
+
+  it('keeps quoted phrases in order', () => {
+    expect(toMatchExpression('"see you soon" ok')).toBe('"see you soon" ok*');
+  });
+
+  it('closes an unterminated phrase', () => {
+    expect(toMatchExpression('"see you')).toBe('"see you"');
+  });
+
+  it('never passes operators or syntax through', () => {
+    expect(toMatchExpression('cats OR dogs NOT -birds*')).toBe('cats* or* dogs* not* birds*');
+    expect(toMatchExpression('a"b (c) d:e')).toBe('a* b* c* d* e*');
+  });
+
+  it('returns null when nothing is searchable', () => {
+    expect(toMatchExpression('')).toBeNull();
+    expect(toMatchExpression('?! "" --')).toBeNull();
+  });
+});
+
+describe('rankMatch', () => {
+  let SQL: SqlJsStatic;
+  let db: SqlJsDatabase;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+    db = new SQL.Database();
+    db.run('CREATE VIRTUAL TABLE docs USING fts4(content)');
+    const docs = [
+      'the weather is nice today',
+      'weather weather weather all day',
+      'a very long message that mentions the weather once among many other words about plans and dinner',
+      'nothing relevant here',
+      'the rare word zebra appears here along with weather',
+    ];
+    docs.forEach((content, index) => db.run('INSERT INTO docs (docid, content) VALUES (?, ?)', [index + 1, content]));
+  });
+
+  function ranks(match: string): Map<number, number> {
+    const result = db.exec("SELECT docid, matchinfo(docs, 'pcnalx') FROM docs WHERE docs MATCH ?", [match]);
+    const rows = result.length ? result[0].values : [];
+    return new Map(rows.map(([docid, info]) => [docid as number, rankMatch(info as Uint8Array)]));
+  }
+
+  it('scores every match above zero', () => {
+    const scores = ranks('weather');
+
+    expect([...scores.keys()].sort()).toEqual([1, 2, 3, 5]);
+    scores.forEach(score => expect(score).toBeGreaterThan(0));
+  });
+
+  it('ranks more occurrences higher', () => {
+    const scores = ranks('weather');
+    expect(scores.get(2)!).toBeGreaterThan(scores.get(1)!);
+  });
+
+  it('ranks shorter messages higher for the same occurrences', () => {
+    const scores = ranks('weather');
+    expect(scores.get(1)!).toBeGreaterThan(scores.get(3)!);
+  });
+
+  it('weighs rare words above common ones', () => {
+    const weather = ranks('weather').get(5)!;
+    const zebra = ranks('zebra').get(5)!;
+    expect(zebra).toBeGreaterThan(weather);
+  });
+
+  it('adds up the phrases of a query', () => {
+    const both = ranks('zebra weather').get(5)!;
+    expect(both).toBeCloseTo(ranks('zebra').get(5)! + ranks('weather').get(5)!, 5);
+  });
+});
@@ -2,3 +2,5 @@
  * VORTEX Protocol - Database Module
  */
 export { db, default } from './DatabaseService';
+export { MIN_STANDALONE_PASSPHRASE_LENGTH } from './DatabaseKey';
+export { parseSearchQuery, SNIPPET_MATCH_START, SNIPPET_MATCH_END, } from './SearchIndex';
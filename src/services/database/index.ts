@@ -9,6 +9,23 @@ export type {
   Conversation,
   Message,
   CryptoSession,
+  SenderKeyRecord,
+  IdentityKeyChange,
+  KeyEvent,
+  Device,
+  KeyEventType,
   Setting,
   PendingMessage,
+  HeldMessage,
+  AttachmentBlob,
+  AttachmentRef,
+  DatabaseImageInfo,
 } from './DatabaseService';
+export { MIN_STANDALONE_PASSPHRASE_LENGTH } from './DatabaseKey';
+export type { DatabaseKeyProtection } from './DatabaseKey';
+export {
+  parseSearchQuery,
+  SNIPPET_MATCH_START,
+  SNIPPET_MATCH_END,
+} from './SearchIndex';
+export type { MessageSearchQuery, MessageSearchResult } from './SearchIndex';
@@ -0,0 +1,534 @@
+/**
+ * VORTEX Protocol - Device Service
+ * Links further devices to our identity over an encrypted provisioning
+ * channel, and keeps the signed device lists that tell senders which
+ * devices to deliver a user's messages to
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import _sodium from 'libsodium-wrappers';
+import { db, type Device, type UserIdentity } from '../database';
+import { identityService, toAddress, parseAddress, PRIMARY_DEVICE_ID, type LinkedIdentityProfile } from '../identity';
+import { connectionManager, type DeviceListEntry, type ProvisioningRequest, type SignedDeviceList } from '../p2p';
+
+const LINK_CODE_PREFIX = 'vortex-link:';
+// A linking code can be used for this long (the server drops the channel too)
+const LINK_CODE_LIFETIME = 5 * 60 * 1000;
+// A contact's device list is fetched again after this long
+const DEVICE_LIST_TTL = 5 * 60 * 1000;
+// ...or after this long when a device not on it shows up
+const DEVICE_LIST_RETRY = 30 * 1000;
+const MAX_DEVICES = 16;
+const IDENTITY_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+// Contents of the linking code shown as a QR code on the primary
+interface LinkCode {
+  v: 1;
+  c: string;    // Channel ID
+  k: string;    // Primary's ephemeral X25519 key, base64
+  s: string;    // Secret authenticating the new device's request, base64
+}
+
+// What the new device receives inside the provisioning envelope. The
+// account key stays on the primary; the new device brings its own.
+interface ProvisioningPayload {
+  profile: LinkedIdentityProfile;
+  deviceId: number;
+}
+
+export interface PendingLink {
+  deviceName: string;
+  requestedAt: number;
+}
+
+interface LinkingState {
+  channelId: string;
+  secret: Uint8Array;
+  keyPair: { publicKey: Uint8Array; privateKey: Uint8Array };
+  expires: number;
+  request: ProvisioningRequest | null;
+  requestedAt: number;
+}
+
+interface CachedDeviceList {
+  version: number;
+  devices: DeviceListEntry[];
+  fetchedAt: number;
+}
+
+class DeviceService extends EventEmitter {
+  private sodium: typeof _sodium | null = null;
+  private linking: LinkingState | null = null;
+  private deviceLists: Map<string, CachedDeviceList> = new Map();
+  private initialized = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    await _sodium.ready;
+    this.sodium = _sodium;
+
+    connectionManager.on('provision-request', (request: ProvisioningRequest) => {
+      this.handleProvisioningRequest(request);
+    });
+
+    // The device directory only lives in the server's memory
+    connectionManager.on('registered', () => {
+      if (identityService.isPrimaryDevice()) {
+        this.publishDeviceList().catch(error => console.error('[Devices] Failed to publish device list:', error));
+      }
+    });
+
+    this.initialized = true;
+    console.log('[Devices] Service initialized');
+  }
+
+  // ==================== Our Devices ====================
+
+  /**
+   * Our devices as far as this device knows them: all of them on the
+   * primary, just this one on a linked device
+   */
+  getDevices(): Device[] {
+    const identity = identityService.getIdentity();
+    const devices = db.getDevices();
+
+    if (identity && identityService.isPrimaryDevice() && !devices.some(d => d.id === PRIMARY_DEVICE_ID)) {
+      devices.unshift({ id: PRIMARY_DEVICE_ID, name: 'Primary device', linkedAt: identity.createdAt });
+    }
+
+    return devices;
+  }
+
+  /**
+   * Unlink a device. Contacts stop delivering to it once they fetch the
+   * new device list, and the device wipes its copy of the identity when
+   * it gets the notice.
+   */
+  async revokeDevice(deviceId: number): Promise<void> {
+    const identity = identityService.getIdentity();
+    if (!identity || !identityService.isPrimaryDevice()) throw new Error('Only the primary device can unlink devices');
+    if (deviceId === PRIMARY_DEVICE_ID) throw new Error('The primary device cannot be unlinked');
+
+    const device = db.getDevices().find(d => d.id === deviceId);
+    if (!device || device.revokedAt) throw new Error('Device not found');
+
+    device.revokedAt = Date.now();
+    db.saveDevice(device);
+    await this.publishDeviceList();
+
+    console.log('[Devices] Unlinked device:', deviceId);
+    this.emit('device-revoked', toAddress(identity.id, deviceId));
+    this.emit('devices-changed', this.getDevices());
+  }
+
+  // ==================== Linking (Primary) ====================
+
+  /**
+   * Open a linking channel and return the code for the new device to
+   * scan. Only one link can be in progress at a time.
+   */
+  async startLinking(): Promise<string> {
+    await this.initialize();
+    if (!this.sodium) throw new Error('Not initialized');
+    if (!identityService.isPrimaryDevice()) throw new Error('Only the primary device can link devices');
+    if (this.getActiveDeviceIds().length >= MAX_DEVICES) throw new Error('Too many linked devices');
+
+    this.cancelLinking();
+
+    const channelId = this.sodium.to_hex(this.sodium.randombytes_buf(16));
+    await connectionManager.openProvisioningChannel(channelId);
+
+    const keyPair = this.sodium.crypto_box_keypair();
+    const secret = this.sodium.randombytes_buf(this.sodium.crypto_auth_KEYBYTES);
+    this.linking = {
+      channelId,
+      secret,
+      keyPair,
+      expires: Date.now() + LINK_CODE_LIFETIME,
+      request: null,
+      requestedAt: 0,
+    };
+
+    const code: LinkCode = {
+      v: 1,
+      c: channelId,
+      k: this.sodium.to_base64(keyPair.publicKey),
+      s: this.sodium.to_base64(secret),
+    };
+    return LINK_CODE_PREFIX + this.sodium.to_base64(this.sodium.from_string(JSON.stringify(code)));
+  }
+
+  cancelLinking(): void {
+    if (!this.linking) return;
+
+    this.sodium?.memzero(this.linking.secret);
+    this.sodium?.memzero(this.linking.keyPair.privateKey);
+    this.linking = null;
+  }
+
+  getPendingLink(): PendingLink | null {
+    if (!this.linking?.request) return null;
+    return { deviceName: this.linking.request.deviceName, requestedAt: this.linking.requestedAt };
+  }
+
+  /**
+   * Certify the key of the device waiting on the linking channel and
+   * send it our profile
+   */
+  async approveLink(): Promise<Device> {
+    const linking = this.linking;
+    const identity = identityService.getIdentity();
+    if (!this.sodium || !identity) throw new Error('No identity');
+    if (!linking?.request) throw new Error('No device is waiting to be linked');
+
+    const deviceId = Math.max(PRIMARY_DEVICE_ID, ...db.getDevices().map(d => d.id)) + 1;
+    const payload: ProvisioningPayload = {
+      profile: {
+        id: identity.id,
+        publicKey: identity.publicKey,
+        displayName: identity.displayName,
+        avatarUrl: identity.avatarUrl,
+        createdAt: identity.createdAt,
+      },
+      deviceId,
+    };
+
+    const nonce = this.sodium.randombytes_buf(this.sodium.crypto_box_NONCEBYTES);
+    const ciphertext = this.sodium.crypto_box_easy(
+      this.sodium.from_string(JSON.stringify(payload)),
+      nonce,
+      this.sodium.from_base64(linking.request.publicKey),
+      linking.keyPair.privateKey
+    );
+
+    connectionManager.sendProvisioningEnvelope({
+      channelId: linking.channelId,
+      nonce: this.sodium.to_base64(nonce),
+      ciphertext: this.sodium.to_base64(ciphertext),
+    });
+
+    const device: Device = {
+      id: deviceId,
+      name: linking.request.deviceName,
+      linkedAt: Date.now(),
+      identityKey: linking.request.identityKey.toLowerCase(),
+    };
+    if (!db.getDevices().some(d => d.id === PRIMARY_DEVICE_ID)) {
+      db.saveDevice(this.getDevices()[0]);
+    }
+    db.saveDevice(device);
+    this.cancelLinking();
+
+    await this.publishDeviceList();
+
+    console.log('[Devices] Linked device:', deviceId);
+    this.emit('devices-changed', this.getDevices());
+    return device;
+  }
+
+  private handleProvisioningRequest(request: ProvisioningRequest): void {
+    const linking = this.linking;
+    if (!this.sodium || !linking || linking.request || request.channelId !== linking.channelId) return;
+
+    if (linking.expires < Date.now()) {
+      this.cancelLinking();
+      return;
+    }
+
+    // Only someone who saw the code can produce this
+    let valid = false;
+    try {
+      valid = this.sodium.crypto_auth_verify(
+        this.sodium.from_base64(request.mac),
+        this.requestMacBytes(request),
+        linking.secret
+      );
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      console.warn('[Devices] Ignored linking request with a bad code');
+      return;
+    }
+
+    if (!IDENTITY_KEY_PATTERN.test(request.identityKey) || this.isAccountKey(request.identityKey)) {
+      console.warn('[Devices] Ignored linking request without a device key');
+      return;
+    }
+
+    linking.request = { ...request, deviceName: String(request.deviceName || 'New device').slice(0, 64) };
+    linking.requestedAt = Date.now();
+    this.emit('link-requested', this.getPendingLink());
+  }
+
+  // ==================== Linking (New Device) ====================
+
+  /**
+   * Link this device to an existing identity using the code shown on
+   * the primary. Resolves once the primary has approved.
+   */
+  async linkToPrimary(linkCode: string, deviceName: string): Promise<UserIdentity> {
+    await this.initialize();
+    if (!this.sodium) throw new Error('Not initialized');
+    if (identityService.hasIdentity()) throw new Error('This device already has an identity');
+
+    const code = this.parseLinkCode(linkCode);
+    const keyPair = this.sodium.crypto_box_keypair();
+    // This device's own identity key, which the primary certifies
+    const deviceKeyPair = this.sodium.crypto_sign_keypair();
+    const unsigned = {
+      channelId: code.c,
+      publicKey: this.sodium.to_base64(keyPair.publicKey),
+      identityKey: this.sodium.to_hex(deviceKeyPair.publicKey),
+      deviceName,
+    };
+    const request: ProvisioningRequest = {
+      ...unsigned,
+      mac: this.sodium.to_base64(
+        this.sodium.crypto_auth(this.requestMacBytes(unsigned), this.sodium.from_base64(code.s))
+      ),
+    };
+
+    try {
+      const envelope = await connectionManager.requestProvisioning(request);
+      const plaintext = this.sodium.crypto_box_open_easy(
+        this.sodium.from_base64(envelope.ciphertext),
+        this.sodium.from_base64(envelope.nonce),
+        this.sodium.from_base64(code.k),
+        keyPair.privateKey
+      );
+      const payload = JSON.parse(this.sodium.to_string(plaintext)) as ProvisioningPayload;
+
+      const identity = await identityService.createLinkedIdentity(payload.profile, deviceKeyPair, payload.deviceId);
+      db.saveDevice({
+        id: payload.deviceId,
+        name: deviceName,
+        linkedAt: Date.now(),
+        identityKey: unsigned.identityKey,
+      });
+
+      return identity;
+    } catch (error) {
+      this.sodium.memzero(deviceKeyPair.privateKey);
+      throw error;
+    } finally {
+      this.sodium.memzero(keyPair.privateKey);
+    }
+  }
+
+  /**
+   * The primary unlinked this device: forget the identity
+   */
+  async handleRevocation(from: string): Promise<void> {
+    const identity = identityService.getIdentity();
+    if (!identity || identityService.isPrimaryDevice() || from !== toAddress(identity.id, PRIMARY_DEVICE_ID)) {
+      return;
+    }
+
+    console.warn('[Devices] This device was unlinked by the primary');
+    await identityService.deleteIdentity();
+    this.emit('revoked');
+  }
+
+  // ==================== Device Lists ====================
+
+  /**
+   * Addresses of all of a user's devices, from their signed device list.
+   * Users who never published one are reached at their primary only.
+   */
+  async getDeviceAddresses(userId: string): Promise<string[]> {
+    const devices = await this.getDeviceEntries(userId);
+    return devices.map(d => toAddress(userId, d.id));
+  }
+
+  /**
+   * Identity key of one device: the account key for a primary, the key
+   * the primary certified in its device list for a linked device. Null
+   * for devices not on the list and for contacts whose key is not known.
+   */
+  async getIdentityKey(address: string): Promise<string | null> {
+    const { userId, deviceId } = parseAddress(address);
+    if (deviceId === PRIMARY_DEVICE_ID) return this.getAccountKey(userId);
+
+    let devices = await this.getDeviceEntries(userId);
+    // A device linked since the list was fetched
+    const fetchedAt = this.deviceLists.get(userId)?.fetchedAt ?? 0;
+    if (!devices.some(d => d.id === deviceId) && !this.isOwnPrimary(userId) &&
+        Date.now() - fetchedAt > DEVICE_LIST_RETRY) {
+      await this.refreshDeviceList(userId);
+      devices = this.deviceLists.get(userId)?.devices ?? devices;
+    }
+
+    return devices.find(d => d.id === deviceId)?.identityKey ?? null;
+  }
+
+  private async getDeviceEntries(userId: string): Promise<DeviceListEntry[]> {
+    if (this.isOwnPrimary(userId)) return this.getActiveDevices();
+
+    const cached = this.deviceLists.get(userId);
+    if (!cached || Date.now() - cached.fetchedAt > DEVICE_LIST_TTL) {
+      await this.refreshDeviceList(userId);
+    }
+
+    const devices = this.deviceLists.get(userId)?.devices ?? [];
+    return devices.length ? devices : [{ id: PRIMARY_DEVICE_ID, identityKey: this.getAccountKey(userId) ?? '' }];
+  }
+
+  private async refreshDeviceList(userId: string): Promise<void> {
+    const cached = this.deviceLists.get(userId);
+    const list = await connectionManager.fetchDeviceList(userId);
+
+    if (!list || !(await this.verifyDeviceList(userId, list))) {
+      this.deviceLists.set(userId, {
+        version: cached?.version ?? 0,
+        devices: cached?.devices ?? [],
+        fetchedAt: Date.now(),
+      });
+      return;
+    }
+
+    // Never roll back to an older list, which could bring back an unlinked device
+    if (cached && list.version < cached.version) {
+      cached.fetchedAt = Date.now();
+      return;
+    }
+
+    this.deviceLists.set(userId, {
+      version: list.version,
+      devices: list.devices.map(d => ({ id: d.id, identityKey: d.identityKey.toLowerCase() })),
+      fetchedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Only the account key signs device lists, and it never leaves the
+   * primary, so a linked or unlinked device cannot vouch for itself.
+   * The account key must be one we know, never one the server names.
+   */
+  private async verifyDeviceList(userId: string, list: SignedDeviceList): Promise<boolean> {
+    if (!this.sodium) return false;
+
+    const identityKey = this.getAccountKey(userId);
+    if (!identityKey || list.identityKey !== identityKey) {
+      console.warn('[Devices] Ignored device list for a different identity:', userId);
+      return false;
+    }
+
+    const devices = Array.isArray(list.devices) ? list.devices : [];
+    const primary = devices.find(d => d?.id === PRIMARY_DEVICE_ID);
+    const wellFormed = devices.length <= MAX_DEVICES &&
+      new Set(devices.map(d => d?.id)).size === devices.length &&
+      devices.every(d => Number.isInteger(d?.id) && d.id > 0 && IDENTITY_KEY_PATTERN.test(d.identityKey)) &&
+      primary?.identityKey.toLowerCase() === identityKey.toLowerCase();
+    if (!wellFormed) {
+      console.warn('[Devices] Ignored malformed device list:', userId);
+      return false;
+    }
+
+    try {
+      return identityService.verify(
+        this.deviceListBytes(userId, list.version, devices),
+        this.sodium.from_base64(list.signature),
+        identityKey
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private async publishDeviceList(): Promise<void> {
+    const identity = identityService.getIdentity();
+    if (!this.sodium || !identity || !identityService.isPrimaryDevice()) return;
+    if (connectionManager.getStatus() !== 'connected') return;
+
+    const version = Number(db.getSetting('device_list_version') ?? 0) + 1;
+    const devices = this.getActiveDevices();
+
+    await connectionManager.publishDeviceList({
+      identityKey: identity.publicKey,
+      version,
+      devices,
+      signature: this.sodium.to_base64(identityService.sign(this.deviceListBytes(identity.id, version, devices))),
+    });
+    db.setSetting('device_list_version', String(version));
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Our devices that are on the list we publish. Devices linked before
+   * they had keys of their own are left out until linked again.
+   */
+  private getActiveDevices(): DeviceListEntry[] {
+    const identity = identityService.getIdentity();
+    if (!identity) return [];
+
+    return this.getDevices()
+      .filter(d => !d.revokedAt && (d.id === PRIMARY_DEVICE_ID || d.identityKey))
+      .map(d => ({ id: d.id, identityKey: d.id === PRIMARY_DEVICE_ID ? identity.publicKey : d.identityKey! }));
+  }
+
+  private getActiveDeviceIds(): number[] {
+    return this.getActiveDevices().map(d => d.id);
+  }
+
+  // The account key: ours, or the one the user accepted for a contact
+  private getAccountKey(userId: string): string | null {
+    const identity = identityService.getIdentity();
+    if (identity?.id === userId) return identity.publicKey;
+
+    const contact = db.getContact(userId);
+    return contact && IDENTITY_KEY_PATTERN.test(contact.identityKey) ? contact.identityKey : null;
+  }
+
+  private isAccountKey(identityKey: string): boolean {
+    return identityKey.toLowerCase() === identityService.getIdentity()?.publicKey.toLowerCase();
+  }
+
+  private isOwnPrimary(userId: string): boolean {
+    return identityService.getIdentity()?.id === userId && identityService.isPrimaryDevice();
+  }
+
+  private deviceListBytes(userId: string, version: number, devices: DeviceListEntry[]): Uint8Array {
+    return this.sodium!.from_string(JSON.stringify([
+      'VORTEX_DEVICES',
+      userId,
+      version,
+      devices.map(d => [d.id, d.identityKey.toLowerCase()]),
+    ]));
+  }
+
+  private requestMacBytes(request: Omit<ProvisioningRequest, 'mac'>): Uint8Array {
+    return this.sodium!.from_string(JSON.stringify([
+      'VORTEX_PROVISION',
+      request.channelId,
+      request.publicKey,
+      request.identityKey,
+      request.deviceName,
+    ]));
+  }
+
+  private parseLinkCode(linkCode: string): LinkCode {
+    if (!this.sodium) throw new Error('Not initialized');
+
+    const trimmed = linkCode.trim();
+    if (!trimmed.startsWith(LINK_CODE_PREFIX)) throw new Error('Invalid linking code');
+
+    try {
+      const code = JSON.parse(this.sodium.to_string(
+        this.sodium.from_base64(trimmed.slice(LINK_CODE_PREFIX.length))
+      )) as LinkCode;
+      if (code.v !== 1 || typeof code.c !== 'string' || typeof code.k !== 'string' || typeof code.s !== 'string') {
+        throw new Error('Invalid linking code');
+      }
+      return code;
+    } catch {
+      throw new Error('Invalid linking code');
+    }
+  }
+}
+
+// Singleton instance
+export const deviceService = new DeviceService();
+export default deviceService;
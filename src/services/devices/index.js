@@ -0,0 +1,4 @@
+/**
+ * VORTEX Protocol - Devices Module
+ */
+export { deviceService } from './DeviceService';
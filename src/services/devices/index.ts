@@ -0,0 +1,5 @@
+/**
+ * VORTEX Protocol - Devices Module
+ */
+
+export { deviceService, type PendingLink } from './DeviceService';
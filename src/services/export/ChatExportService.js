@@ -0,0 +1,331 @@
+/**
+ * VORTEX Protocol - Chat Export Service
+ * Exports one conversation as a self-contained HTML transcript, JSON for
+ * other tools, or plain text.
+ *
+ * Exports are plaintext: they leave the encrypted database, so the user
+ * picks what goes in (a date range, the attachments) and can swap the
+ * other participants' names for "Participant 1", "Participant 2", ...
+ */
+import { db } from '../database';
+import { identityService } from '../identity';
+import { attachmentStore } from '../files';
+const EXPORT_FILE_TYPES = {
+    html: { extension: 'html', mimeType: 'text/html' },
+    json: { extension: 'json', mimeType: 'application/json' },
+    text: { extension: 'txt', mimeType: 'text/plain' },
+};
+// Only these go into data: URIs as they are
+const SAFE_MIME_TYPE = /^[\w.+-]+\/[\w.+-]+$/;
+const textEncoder = new TextEncoder();
+class ChatExportService {
+    /**
+     * Export the messages of a conversation. Nothing is written; see
+     * ChatExport for the file to save.
+     */
+    async exportConversation(conversationId, options) {
+        const conversation = db.getConversation(conversationId);
+        if (!conversation)
+            throw new Error('Conversation not found');
+        if (options.after !== undefined && options.before !== undefined && options.after >= options.before) {
+            throw new Error('The start date must be before the end date');
+        }
+        const chat = await this.collect(conversation, options);
+        const { extension, mimeType } = EXPORT_FILE_TYPES[options.format];
+        const text = options.format === 'html'
+            ? renderHtml(chat)
+            : options.format === 'json'
+                ? renderJson(chat)
+                : renderText(chat);
+        console.log('[Export] Exported', chat.messages.length, 'messages as', options.format);
+        return {
+            fileName: `vortex-chat-${slugify(chat.title)}-${formatDate(chat.exportedAt)}.${extension}`,
+            mimeType,
+            data: textEncoder.encode(text),
+            messages: chat.messages.length,
+        };
+    }
+    async collect(conversation, options) {
+        const selfId = identityService.getIdentity()?.id;
+        const now = Date.now();
+        const messages = db
+            .getMessagesInRange(conversation.id, options.after, options.before)
+            .filter(message => !message.expiresAt || message.expiresAt > now);
+        // Participants first, then anyone else who wrote, e.g. since left
+        const names = new Map();
+        const otherIds = [
+            ...parseParticipantIds(conversation.participants),
+            ...messages.map(message => message.senderId),
+        ].filter(id => id !== selfId && id !== 'system');
+        for (const id of otherIds) {
+            if (names.has(id))
+                continue;
+            names.set(id, options.redactNames ? `Participant ${names.size + 1}` : this.displayName(id, conversation));
+        }
+        const redact = options.redactNames ? nameRedactor(otherIds.map(id => this.displayName(id, conversation))) : null;
+        const aliasOf = (id) => (options.redactNames && names.has(id) ? `participant-${[...names.keys()].indexOf(id) + 1}` : id);
+        const selfName = identityService.getIdentity()?.displayName ?? 'You';
+        const exported = [];
+        for (const message of messages) {
+            const self = message.senderId === selfId;
+            exported.push({
+                id: message.id,
+                senderId: aliasOf(message.senderId),
+                sender: self ? selfName : names.get(message.senderId) ?? 'System',
+                self,
+                type: message.type,
+                content: redact ? redact(message.content) : message.content,
+                replyToId: message.replyToId,
+                reactions: countReactions(message.reactions),
+                attachments: await this.collectAttachments(db.getMessageAttachments(message.id), options.includeAttachments),
+                isEdited: message.isEdited,
+                createdAt: message.createdAt,
+                updatedAt: message.updatedAt,
+            });
+        }
+        // A direct chat is named after the other person
+        const title = options.redactNames && conversation.type === 'direct'
+            ? 'Direct chat'
+            : conversation.name || [...names.values()].join(', ') || 'Chat';
+        return {
+            title,
+            conversation,
+            participants: [...names.entries()].map(([id, name]) => ({ id: aliasOf(id), name })),
+            messages: exported,
+            options,
+            exportedAt: now,
+        };
+    }
+    async collectAttachments(refs, includeData) {
+        const attachments = [];
+        for (const ref of refs) {
+            const attachment = { name: ref.name, mimeType: ref.mimeType, size: ref.size, hash: ref.hash };
+            if (includeData) {
+                try {
+                    attachment.data = (await attachmentStore.read(ref.hash)) ?? undefined;
+                }
+                catch (error) {
+                    console.warn('[Export] Skipping unreadable attachment:', ref.hash, error);
+                }
+            }
+            attachments.push(attachment);
+        }
+        return attachments;
+    }
+    displayName(id, conversation) {
+        const contact = db.getContactByIdentityKey(id) ?? db.getContact(id);
+        return contact?.displayName ?? (conversation.type === 'direct' ? conversation.name : undefined) ?? id;
+    }
+}
+// ==================== Formats ====================
+function renderJson(chat) {
+    return JSON.stringify({
+        format: 'vortex-chat-export',
+        version: 1,
+        exportedAt: chat.exportedAt,
+        conversation: {
+            id: chat.conversation.id,
+            type: chat.conversation.type,
+            name: chat.title,
+            participants: chat.participants,
+        },
+        range: { after: chat.options.after ?? null, before: chat.options.before ?? null },
+        messages: chat.messages.map(message => ({
+            id: message.id,
+            senderId: message.senderId,
+            sender: message.sender,
+            type: message.type,
+            content: message.content,
+            replyToId: message.replyToId ?? null,
+            reactions: message.reactions,
+            attachments: message.attachments.map(({ data, ...attachment }) => ({
+                ...attachment,
+                data: data ? toBase64(data) : null,
+            })),
+            isEdited: message.isEdited,
+            createdAt: message.createdAt,
+            updatedAt: message.updatedAt,
+        })),
+    }, null, 2);
+}
+function renderText(chat) {
+    const lines = [
+        `VORTEX chat export: ${chat.title}`,
+        `Exported ${formatDateTime(chat.exportedAt)}, ${chat.messages.length} message${chat.messages.length === 1 ? '' : 's'}`,
+        '',
+    ];
+    for (const message of chat.messages) {
+        const edited = message.isEdited ? ' (edited)' : '';
+        lines.push(message.type === 'system'
+            ? `[${formatDateTime(message.createdAt)}] ${message.content}`
+            : `[${formatDateTime(message.createdAt)}] ${message.sender}: ${message.content}${edited}`);
+        for (const attachment of message.attachments) {
+            lines.push(`    [Attachment: ${attachment.name}, ${formatSize(attachment.size)}]`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+function renderHtml(chat) {
+    const byId = new Map(chat.messages.map(message => [message.id, message]));
+    const rows = [];
+    let day = '';
+    for (const message of chat.messages) {
+        const messageDay = formatDate(message.createdAt);
+        if (messageDay !== day) {
+            day = messageDay;
+            rows.push(`<div class="day">${escapeHtml(new Date(message.createdAt).toDateString())}</div>`);
+        }
+        if (message.type === 'system') {
+            rows.push(`<div class="system">${escapeHtml(message.content)}</div>`);
+            continue;
+        }
+        const reply = message.replyToId ? byId.get(message.replyToId) : undefined;
+        const reactions = Object.entries(message.reactions)
+            .map(([emoji, count]) => `${escapeHtml(emoji)} ${count}`)
+            .join(' ');
+        rows.push([
+            `<div class="message${message.self ? ' self' : ''}">`,
+            `<div class="meta"><span class="sender">${escapeHtml(message.sender)}</span>`,
+            `<time datetime="${new Date(message.createdAt).toISOString()}">${escapeHtml(formatTime(message.createdAt))}</time>`,
+            message.isEdited ? '<span class="edited">edited</span>' : '',
+            '</div>',
+            reply ? `<blockquote>${escapeHtml(reply.sender)}: ${escapeHtml(truncate(reply.content, 120))}</blockquote>` : '',
+            message.content ? `<div class="content">${escapeHtml(message.content)}</div>` : '',
+            ...message.attachments.map(renderHtmlAttachment),
+            reactions ? `<div class="reactions">${reactions}</div>` : '',
+            '</div>',
+        ].join(''));
+    }
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; media-src data:; style-src 'unsafe-inline'">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(chat.title)}</title>
+<style>
+body { margin: 0; background: #0f1117; color: #e6e8ee; font: 14px/1.5 system-ui, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 24px 16px; }
+header { border-bottom: 1px solid #2a2e3a; margin-bottom: 16px; padding-bottom: 12px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.subtitle, .meta time, .edited, .system, .day { color: #8b90a0; font-size: 12px; }
+.day, .system { text-align: center; margin: 16px 0 8px; }
+.message { background: #1a1d26; border-radius: 12px; margin: 8px 40px 8px 0; padding: 8px 12px; }
+.message.self { background: #283360; margin: 8px 0 8px 40px; }
+.meta { display: flex; gap: 8px; align-items: baseline; }
+.sender { font-weight: 600; }
+.content { white-space: pre-wrap; word-wrap: break-word; }
+blockquote { border-left: 3px solid #5b6cff; margin: 4px 0; padding: 2px 8px; color: #b4b8c6; }
+.attachment { margin-top: 6px; }
+.attachment img, .attachment video { display: block; max-width: 100%; border-radius: 8px; }
+.attachment a { color: #8fa0ff; }
+.reactions { margin-top: 4px; font-size: 12px; }
+</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(chat.title)}</h1>
+<div class="subtitle">Exported ${escapeHtml(formatDateTime(chat.exportedAt))} from VORTEX, ${chat.messages.length} message${chat.messages.length === 1 ? '' : 's'}</div>
+</header>
+${rows.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+function renderHtmlAttachment(attachment) {
+    const label = `${escapeHtml(attachment.name)} (${formatSize(attachment.size)})`;
+    if (!attachment.data)
+        return `<div class="attachment">&#128206; ${label}</div>`;
+    const mimeType = SAFE_MIME_TYPE.test(attachment.mimeType) ? attachment.mimeType : 'application/octet-stream';
+    const src = `data:${mimeType};base64,${toBase64(attachment.data)}`;
+    const [kind] = mimeType.split('/');
+    if (kind === 'image')
+        return `<div class="attachment"><img src="${src}" alt="${escapeHtml(attachment.name)}"></div>`;
+    if (kind === 'video')
+        return `<div class="attachment"><video controls src="${src}"></video></div>`;
+    if (kind === 'audio')
+        return `<div class="attachment"><audio controls src="${src}"></audio></div>`;
+    return `<div class="attachment"><a download="${escapeHtml(attachment.name)}" href="${src}">&#128206; ${label}</a></div>`;
+}
+// ==================== Helpers ====================
+// Participants are stored as ids or as { id } objects
+function parseParticipantIds(participants) {
+    try {
+        return JSON.parse(participants)
+            .map(p => (typeof p === 'string' ? p : p.id));
+    }
+    catch {
+        return [];
+    }
+}
+// Stored as emoji -> user ids; who reacted is left out
+function countReactions(reactions) {
+    try {
+        const parsed = reactions ? JSON.parse(reactions) : {};
+        return Object.fromEntries(Object.entries(parsed).map(([emoji, userIds]) => [emoji, userIds.length]));
+    }
+    catch {
+        return {};
+    }
+}
+/**
+ * Replaces whole-word mentions of the given names in message text
+ */
+function nameRedactor(names) {
+    const patterns = [...new Set(names)]
+        .filter(name => name.trim().length > 1)
+        .sort((a, b) => b.length - a.length)
+        .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (patterns.length === 0)
+        return text => text;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${patterns.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    return text => text.replace(pattern, '[redacted]');
+}
+function escapeHtml(text) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+function toBase64(data) {
+    let binary = '';
+    for (let i = 0; i < data.length; i += 0x8000) {
+        binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+function slugify(text) {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'chat';
+}
+function truncate(text, length) {
+    return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+function pad(value) {
+    return String(value).padStart(2, '0');
+}
+// Local time, sortable
+function formatDate(timestamp) {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+function formatTime(timestamp) {
+    const date = new Date(timestamp);
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+function formatDateTime(timestamp) {
+    return `${formatDate(timestamp)} ${formatTime(timestamp)}`;
+}
+function formatSize(bytes) {
+    if (bytes < 1024)
+        return `${bytes} B`;
+    if (bytes < 1024 * 1024)
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+// Singleton instance
+export const chatExportService = new ChatExportService();
+export default chatExportService;
@@ -0,0 +1,4 @@
+/**
+ * VORTEX Protocol - Export Module
+ */
+export { chatExportService, default } from './ChatExportService';
@@ -0,0 +1,6 @@
+/**
+ * VORTEX Protocol - Export Module
+ */
+
+export { chatExportService, default } from './ChatExportService';
+export type { ChatExportFormat, ChatExportOptions, ChatExport } from './ChatExportService';
@@ -0,0 +1,174 @@
+/**
+ * VORTEX Protocol - Attachment Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import sodium from 'libsodium-wrappers';
+
+// DatabaseService loads the wasm binary from a CDN; under Node the
+// packaged one is used
+vi.mock('sql.js', async (importOriginal) => {
+  const original = await importOriginal<typeof import('sql.js')>();
+  return { ...original, default: () => original.default() };
+});
+
+// Past the grace period for unreferenced files
+const LATER = 60 * 60 * 1000;
+
+describe('AttachmentStore', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.resetModules();
+    vi.stubGlobal('window', {
+      addEventListener: () => {},
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => { storage.set(key, value); },
+        removeItem: (key: string) => { storage.delete(key); },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function openStore() {
+    const { db } = await import('../database');
+    const { attachmentStore } = await import('./AttachmentStore');
+    await db.initialize();
+    await attachmentStore.initialize();
+
+    const now = Date.now();
+    db.saveConversation({
+      id: 'conv-1',
+      type: 'direct',
+      participants: JSON.stringify([{ id: 'alice' }]),
+      encryptionEnabled: true,
+      isPinned: false,
+      isMuted: false,
+      isArchived: false,
+      unreadCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { db, attachmentStore };
+  }
+
+  function saveFileMessage(db: Awaited<ReturnType<typeof openStore>>['db'], id: string): void {
+    const now = Date.now();
+    db.saveMessage({
+      id,
+      conversationId: 'conv-1',
+      senderId: 'alice',
+      type: 'file',
+      content: 'notes.txt',
+      status: 'delivered',
+      isEdited: false,
+      isDeleted: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  function advanceClock(): void {
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + LATER);
+  }
+
+  function digestOf(data: Uint8Array): string {
+    return sodium.to_hex(sodium.crypto_generichash(32, data));
+  }
+
+  it('names files by a keyed hash and keeps the plain digest for integrity checks', async () => {
+    const { db, attachmentStore } = await openStore();
+    const data = new TextEncoder().encode('holiday photo');
+
+    const stored = await attachmentStore.put(data, 'image/jpeg', null);
+
+    expect(stored.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(stored.hash).not.toBe(digestOf(data));
+    expect(db.getAttachmentBlob(stored.hash)?.digest).toBe(digestOf(data));
+    expect((await attachmentStore.put(data, 'image/jpeg', null)).hash).toBe(stored.hash);
+  });
+
+  it('renames files stored under their digest, with their references', async () => {
+    const { db, attachmentStore } = await openStore();
+    const data = new TextEncoder().encode('stored before keyed names');
+    const stored = await attachmentStore.put(data, 'text/plain');
+    saveFileMessage(db, 'msg-1');
+    attachmentStore.attach('msg-1', { ...stored, name: 'old.txt' });
+
+    // As stored before names were keyed
+    const digest = digestOf(data);
+    db.renameAttachmentBlob(stored.hash, digest);
+    await attachmentStore.restore(digest, data, null);
+
+    await attachmentStore['renameFilesNamedByDigest']();
+
+    expect(db.getAttachmentBlob(digest)).toBeNull();
+    expect(db.getAttachmentBlob(stored.hash)).toMatchObject({ digest, refCount: 1 });
+    expect(db.getMessageAttachments('msg-1').map(ref => ref.hash)).toEqual([stored.hash]);
+    expect(await attachmentStore.read(stored.hash)).toEqual(data);
+  });
+
+  it('keeps a file while a message references it', async () => {
+    const { db, attachmentStore } = await openStore();
+    const data = new TextEncoder().encode('meeting notes');
+
+    const stored = await attachmentStore.put(data, 'text/plain');
+    saveFileMessage(db, 'msg-1');
+    attachmentStore.attach('msg-1', { ...stored, name: 'notes.txt' });
+
+    advanceClock();
+    expect(await attachmentStore.collectGarbage()).toBe(0);
+    expect(await attachmentStore.read(stored.hash)).toEqual(data);
+  });
+
+  it('keeps a file shared by two messages until both are deleted', async () => {
+    const { db, attachmentStore } = await openStore();
+
+    const stored = await attachmentStore.put(new TextEncoder().encode('shared'), 'text/plain');
+    saveFileMessage(db, 'msg-1');
+    saveFileMessage(db, 'msg-2');
+    attachmentStore.attach('msg-1', { ...stored, name: 'a.txt' });
+    attachmentStore.attach('msg-2', { ...stored, name: 'b.txt' });
+
+    advanceClock();
+    db.deleteMessage('msg-1', true);
+    expect(await attachmentStore.collectGarbage()).toBe(0);
+
+    db.deleteMessage('msg-2');
+    expect(await attachmentStore.collectGarbage()).toBe(1);
+    expect(db.getAttachmentBlob(stored.hash)).toBeNull();
+  });
+
+  it('removes a file once its message is deleted', async () => {
+    const { db, attachmentStore } = await openStore();
+
+    const stored = await attachmentStore.put(new TextEncoder().encode('old notes'), 'text/plain');
+    saveFileMessage(db, 'msg-1');
+    attachmentStore.attach('msg-1', { ...stored, name: 'notes.txt' });
+
+    advanceClock();
+    db.deleteMessage('msg-1', true);
+
+    expect(await attachmentStore.collectGarbage()).toBe(1);
+    expect(await attachmentStore.read(stored.hash)).toBeNull();
+  });
+
+  it('keeps a new unreferenced file for a message about to use it', async () => {
+    const { attachmentStore } = await openStore();
+
+    const stored = await attachmentStore.put(new TextEncoder().encode('pending'), 'text/plain');
+
+    expect(await attachmentStore.collectGarbage()).toBe(0);
+
+    advanceClock();
+    expect(await attachmentStore.collectGarbage()).toBe(1);
+    expect(await attachmentStore.read(stored.hash)).toBeNull();
+  });
+});
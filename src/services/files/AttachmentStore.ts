@@ -0,0 +1,406 @@
+/**
+ * VORTEX Protocol - Attachment Store
+ * Files sent and received, kept on disk by a keyed hash of their contents
+ * so a file shared in several messages is stored once, without the name
+ * giving away which file it is. Each file is encrypted with its own key,
+ * kept in the (encrypted) database along with the messages that reference
+ * it; a thumbnail is stored next to images under the same key.
+ *
+ * In Electron the files live in the user data directory, written by the
+ * main process. Without it they are only kept in memory.
+ */
+
+import _sodium from 'libsodium-wrappers';
+import { db, type AttachmentBlob } from '../database';
+
+export type AttachmentFileKind = 'blob' | 'thumbnail';
+
+export interface AttachmentFiles {
+  write(hash: string, kind: AttachmentFileKind, data: Uint8Array): Promise<void>;
+  read(hash: string, kind: AttachmentFileKind): Promise<Uint8Array | null>;
+  // The file and its thumbnail
+  remove(hash: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface StoredAttachment {
+  hash: string;
+  size: number;
+  mimeType: string;
+  hasThumbnail: boolean;
+}
+
+// File: [format u8][nonce][ciphertext]; the format, hash and kind are
+// authenticated, so files cannot be swapped for one another
+const FILE_FORMAT_VERSION = 1;
+const FILE_HEADER_SIZE = 1;
+
+// Key for naming files, kept in the encrypted database
+const NAME_KEY_SETTING = 'attachment_name_key';
+
+// Unreferenced files this new are kept: a message may be about to use them
+const UNREFERENCED_GRACE_MS = 10 * 60 * 1000;
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 320;
+
+class MemoryAttachmentFiles implements AttachmentFiles {
+  private files: Map<string, Uint8Array> = new Map();
+
+  async write(hash: string, kind: AttachmentFileKind, data: Uint8Array): Promise<void> {
+    this.files.set(`${hash}.${kind}`, data);
+  }
+
+  async read(hash: string, kind: AttachmentFileKind): Promise<Uint8Array | null> {
+    return this.files.get(`${hash}.${kind}`) ?? null;
+  }
+
+  async remove(hash: string): Promise<void> {
+    this.files.delete(`${hash}.blob`);
+    this.files.delete(`${hash}.thumbnail`);
+  }
+
+  async clear(): Promise<void> {
+    this.files.clear();
+  }
+}
+
+class AttachmentStore {
+  private sodium: typeof _sodium | null = null;
+  private files: AttachmentFiles | null = null;
+  private objectUrls: Map<string, string> = new Map();
+  // Stores and removals one at a time, so a removal cannot take a file
+  // that is being stored again
+  private work: Promise<unknown> = Promise.resolve();
+  private initialized = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    await _sodium.ready;
+    this.sodium = _sodium;
+    this.files = (typeof window !== 'undefined' ? window.electronAPI?.attachmentStore : undefined)
+      ?? new MemoryAttachmentFiles();
+
+    this.initialized = true;
+    console.log('[Attachments] Store initialized');
+
+    await this.renameFilesNamedByDigest();
+
+    // Files of messages deleted before the last shutdown
+    await this.collectGarbage();
+  }
+
+  // ==================== Storing ====================
+
+  /**
+   * Store a file, or find it already stored. It is removed again unless a
+   * message references it soon (see attach). Images get a thumbnail unless
+   * one is given.
+   */
+  put(data: Uint8Array, mimeType: string, thumbnail?: Uint8Array | null): Promise<StoredAttachment> {
+    return this.serialize(async () => {
+      const sodium = this.requireSodium();
+      const hash = this.nameOf(data);
+
+      const existing = db.getAttachmentBlob(hash);
+      if (existing) return this.toStored(existing);
+
+      const image = thumbnail === undefined ? await this.createThumbnail(data, mimeType) : thumbnail;
+      const key = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES);
+
+      await this.files!.write(hash, 'blob', this.seal(data, key, hash, 'blob'));
+      if (image) {
+        await this.files!.write(hash, 'thumbnail', this.seal(image, key, hash, 'thumbnail'));
+      }
+
+      const blob: AttachmentBlob = {
+        hash,
+        digest: this.digestOf(data),
+        fileKey: sodium.to_base64(key),
+        size: data.length,
+        mimeType,
+        hasThumbnail: !!image,
+        refCount: 0,
+        createdAt: Date.now(),
+      };
+      db.saveAttachmentBlob(blob);
+
+      return this.toStored(blob);
+    });
+  }
+
+  /**
+   * Reference a stored file from a message. It is kept until every message
+   * referencing it is deleted.
+   */
+  attach(
+    messageId: string,
+    attachment: StoredAttachment & { name: string; width?: number; height?: number },
+    position = 0
+  ): void {
+    if (!db.getAttachmentBlob(attachment.hash)) throw new Error('Attachment not stored');
+
+    db.addAttachmentRef({
+      messageId,
+      hash: attachment.hash,
+      name: attachment.name,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      width: attachment.width,
+      height: attachment.height,
+      position,
+    });
+  }
+
+  /**
+   * Write a file back, e.g. from a backup, once its database row is in
+   * place. It is sealed again under the key kept in that row.
+   */
+  restore(hash: string, data: Uint8Array, thumbnail: Uint8Array | null): Promise<void> {
+    return this.serialize(async () => {
+      const blob = db.getAttachmentBlob(hash);
+      if (!blob || !this.files) throw new Error('Attachment not stored');
+      if (this.digestOf(data) !== blob.digest) throw new Error('Attachment failed integrity check');
+
+      const key = this.requireSodium().from_base64(blob.fileKey);
+      await this.files.write(hash, 'blob', this.seal(data, key, hash, 'blob'));
+      if (thumbnail) {
+        await this.files.write(hash, 'thumbnail', this.seal(thumbnail, key, hash, 'thumbnail'));
+      }
+    });
+  }
+
+  // ==================== Reading ====================
+
+  read(hash: string): Promise<Uint8Array | null> {
+    return this.open(hash, 'blob');
+  }
+
+  readThumbnail(hash: string): Promise<Uint8Array | null> {
+    return this.open(hash, 'thumbnail');
+  }
+
+  /**
+   * Object URL for showing the file or its thumbnail. Revoked when the
+   * file is removed or the app locks.
+   */
+  async getObjectUrl(hash: string, kind: AttachmentFileKind = 'blob'): Promise<string | null> {
+    const cached = this.objectUrls.get(`${hash}.${kind}`);
+    if (cached) return cached;
+
+    const blob = db.getAttachmentBlob(hash);
+    const data = await this.open(hash, kind);
+    if (!blob || !data) return null;
+
+    const url = URL.createObjectURL(
+      new Blob([data as BlobPart], { type: kind === 'thumbnail' ? 'image/jpeg' : blob.mimeType })
+    );
+    this.objectUrls.set(`${hash}.${kind}`, url);
+    return url;
+  }
+
+  private async open(hash: string, kind: AttachmentFileKind): Promise<Uint8Array | null> {
+    const blob = db.getAttachmentBlob(hash);
+    if (!blob || !this.files) return null;
+
+    const sealed = await this.files.read(hash, kind);
+    if (!sealed) return null;
+
+    const data = this.unseal(sealed, this.requireSodium().from_base64(blob.fileKey), hash, kind);
+    if (kind === 'blob' && this.digestOf(data) !== blob.digest) {
+      throw new Error('Attachment failed integrity check');
+    }
+    return data;
+  }
+
+  /**
+   * Files stored before names were keyed are named by their digest. Each
+   * is sealed again under its keyed name and the old file removed.
+   */
+  private renameFilesNamedByDigest(): Promise<void> {
+    return this.serialize(async () => {
+      if (!this.files) return;
+
+      for (const digest of db.getAttachmentBlobsNamedByDigest()) {
+        try {
+          const blob = db.getAttachmentBlob(digest);
+          const sealed = await this.files.read(digest, 'blob');
+          if (!blob || !sealed) continue;
+
+          const key = this.requireSodium().from_base64(blob.fileKey);
+          const data = this.unseal(sealed, key, digest, 'blob');
+          const hash = this.nameOf(data);
+
+          await this.files.write(hash, 'blob', this.seal(data, key, hash, 'blob'));
+          const thumbnail = blob.hasThumbnail ? await this.files.read(digest, 'thumbnail') : null;
+          if (thumbnail) {
+            const image = this.unseal(thumbnail, key, digest, 'thumbnail');
+            await this.files.write(hash, 'thumbnail', this.seal(image, key, hash, 'thumbnail'));
+          }
+
+          db.renameAttachmentBlob(digest, hash);
+          await this.files.remove(digest);
+        } catch (error) {
+          console.error('[Attachments] Failed to rename file:', digest, error);
+        }
+      }
+    });
+  }
+
+  // ==================== Removing ====================
+
+  /**
+   * Remove files no message references any more. Returns how many.
+   */
+  collectGarbage(): Promise<number> {
+    return this.serialize(async () => {
+      if (!this.files) return 0;
+
+      let removed = 0;
+      for (const hash of db.getUnreferencedAttachmentBlobs(Date.now() - UNREFERENCED_GRACE_MS)) {
+        if (!db.deleteAttachmentBlob(hash)) continue;
+        this.revokeObjectUrls(hash);
+
+        try {
+          await this.files.remove(hash);
+          removed++;
+        } catch (error) {
+          console.error('[Attachments] Failed to remove file:', hash, error);
+        }
+      }
+
+      if (removed) console.log(`[Attachments] Removed ${removed} unreferenced file(s)`);
+      return removed;
+    });
+  }
+
+  revokeObjectUrls(hash?: string): void {
+    for (const [key, url] of this.objectUrls) {
+      if (hash && !key.startsWith(`${hash}.`)) continue;
+      URL.revokeObjectURL(url);
+      this.objectUrls.delete(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.revokeObjectUrls();
+    await this.serialize(() => this.files?.clear() ?? Promise.resolve());
+  }
+
+  // ==================== Encryption ====================
+
+  private seal(data: Uint8Array, key: Uint8Array, hash: string, kind: AttachmentFileKind): Uint8Array {
+    const sodium = this.requireSodium();
+    const header = new Uint8Array([FILE_FORMAT_VERSION]);
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      data, this.additionalData(header, hash, kind), null, nonce, key
+    );
+
+    const file = new Uint8Array(header.length + nonce.length + ciphertext.length);
+    file.set(header, 0);
+    file.set(nonce, header.length);
+    file.set(ciphertext, header.length + nonce.length);
+    return file;
+  }
+
+  private unseal(file: Uint8Array, key: Uint8Array, hash: string, kind: AttachmentFileKind): Uint8Array {
+    const sodium = this.requireSodium();
+    const nonceLength = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+    if (file.length < FILE_HEADER_SIZE + nonceLength || file[0] !== FILE_FORMAT_VERSION) {
+      throw new Error('Unsupported attachment file format');
+    }
+
+    const header = file.subarray(0, FILE_HEADER_SIZE);
+    const nonce = file.subarray(FILE_HEADER_SIZE, FILE_HEADER_SIZE + nonceLength);
+    try {
+      return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null, file.subarray(FILE_HEADER_SIZE + nonceLength), this.additionalData(header, hash, kind), nonce, key
+      );
+    } catch {
+      throw new Error('Attachment failed integrity check');
+    }
+  }
+
+  private additionalData(header: Uint8Array, hash: string, kind: AttachmentFileKind): Uint8Array {
+    const label = this.requireSodium().from_string(`|${hash}|${kind}`);
+    const ad = new Uint8Array(header.length + label.length);
+    ad.set(header, 0);
+    ad.set(label, header.length);
+    return ad;
+  }
+
+  // ==================== Utilities ====================
+
+  // The file's name and dedup key
+  private nameOf(data: Uint8Array): string {
+    const sodium = this.requireSodium();
+    return sodium.to_hex(sodium.crypto_generichash(32, data, this.getNameKey()));
+  }
+
+  // Same hash as the file transfer checksum
+  private digestOf(data: Uint8Array): string {
+    const sodium = this.requireSodium();
+    return sodium.to_hex(sodium.crypto_generichash(32, data));
+  }
+
+  private getNameKey(): Uint8Array {
+    // A key made up while the database is locked would not be kept
+    if (db.isLocked()) throw new Error('Database is locked');
+
+    const sodium = this.requireSodium();
+    const stored = db.getSetting(NAME_KEY_SETTING);
+    if (stored) return sodium.from_base64(stored);
+
+    const key = sodium.randombytes_buf(sodium.crypto_generichash_KEYBYTES);
+    db.setSetting(NAME_KEY_SETTING, sodium.to_base64(key));
+    return key;
+  }
+
+  private async createThumbnail(data: Uint8Array, mimeType: string): Promise<Uint8Array | null> {
+    if (!mimeType.startsWith('image/')) return null;
+    if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+
+    try {
+      const bitmap = await createImageBitmap(new Blob([data as BlobPart], { type: mimeType }));
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+      const canvas = new OffscreenCanvas(
+        Math.max(1, Math.round(bitmap.width * scale)),
+        Math.max(1, Math.round(bitmap.height * scale))
+      );
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+
+      const thumbnail = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+      return new Uint8Array(await thumbnail.arrayBuffer());
+    } catch (error) {
+      console.warn('[Attachments] Could not create thumbnail:', error);
+      return null;
+    }
+  }
+
+  private toStored(blob: AttachmentBlob): StoredAttachment {
+    return {
+      hash: blob.hash,
+      size: blob.size,
+      mimeType: blob.mimeType,
+      hasThumbnail: blob.hasThumbnail,
+    };
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.work.then(task);
+    this.work = result.catch(() => {});
+    return result;
+  }
+
+  private requireSodium(): typeof _sodium {
+    if (!this.sodium) throw new Error('Not initialized');
+    return this.sodium;
+  }
+}
+
+// Singleton instance
+export const attachmentStore = new AttachmentStore();
+export default attachmentStore;
@@ -1,9 +1,12 @@
 /**
  * VORTEX Protocol - File Transfer Service
- * Handles encrypted file transfer over P2P connections
+ * Handles encrypted file transfer over P2P connections. Files sent and
+ * received are kept in the attachment store under their checksum, and
+ * announced with 'file-stored' so a message can reference them.
  */
 import { EventEmitter } from 'eventemitter3';
 import { connectionManager } from '../p2p';
+import { attachmentStore } from './AttachmentStore';
 import _sodium from 'libsodium-wrappers';
 const CHUNK_SIZE = 64 * 1024; // 64KB chunks
 class FileTransferService extends EventEmitter {
@@ -36,6 +39,7 @@ class FileTransferService extends EventEmitter {
         // Calculate checksum
         const fileBuffer = await file.arrayBuffer();
         const checksum = this.sodium.to_hex(this.sodium.crypto_generichash(32, new Uint8Array(fileBuffer)));
+        const stored = await attachmentStore.put(new Uint8Array(fileBuffer), file.type);
         const metadata = {
             id: transferId,
             name: file.name,
@@ -54,6 +58,7 @@ class FileTransferService extends EventEmitter {
             startedAt: Date.now(),
         };
         this.transfers.set(transferId, transfer);
+        this.emit('file-stored', transfer, stored);
         // Send metadata first
         const sent = connectionManager.sendToPeer(peerId, {
             type: 'file-meta',
@@ -97,7 +102,7 @@ class FileTransferService extends EventEmitter {
                     transferId,
                     chunkIndex: i,
                     totalChunks: chunks,
-                    data: this.sodium.to_base64(encryptedChunk),
+                    data: encryptedChunk,
                 },
                 timestamp: Date.now(),
             });
@@ -170,7 +175,7 @@ class FileTransferService extends EventEmitter {
             return;
         try {
             // Decrypt chunk
-            const encryptedChunk = this.sodium.from_base64(chunkData);
+            const encryptedChunk = typeof chunkData === 'string' ? this.sodium.from_base64(chunkData) : chunkData;
             const decryptedChunk = this.decryptChunk(encryptedChunk);
             buffer[chunkIndex] = decryptedChunk;
             // Update progress
@@ -215,6 +220,14 @@ class FileTransferService extends EventEmitter {
             this.emit('transfer-failed', transfer);
             return;
         }
+        // Kept across restarts, for the message that references it
+        try {
+            const stored = await attachmentStore.put(combined, transfer.metadata.type);
+            this.emit('file-stored', transfer, stored);
+        }
+        catch (error) {
+            console.error('[FileTransfer] Failed to store received file:', error);
+        }
         transfer.status = 'completed';
         transfer.progress = 100;
         transfer.completedAt = Date.now();
@@ -1,11 +1,14 @@
 /**
  * VORTEX Protocol - File Transfer Service
- * Handles encrypted file transfer over P2P connections
+ * Handles encrypted file transfer over P2P connections. Files sent and
+ * received are kept in the attachment store under their checksum, and
+ * announced with 'file-stored' so a message can reference them.
  */
 
 import { EventEmitter } from 'eventemitter3';
 import { connectionManager, type PeerMessage } from '../p2p';
 import { identityService } from '../identity';
+import { attachmentStore } from './AttachmentStore';
 import _sodium from 'libsodium-wrappers';
 
 export interface FileMetadata {
@@ -74,6 +77,7 @@ class FileTransferService extends EventEmitter {
     const checksum = this.sodium.to_hex(
       this.sodium.crypto_generichash(32, new Uint8Array(fileBuffer))
     );
+    const stored = await attachmentStore.put(new Uint8Array(fileBuffer), file.type);
 
     const metadata: FileMetadata = {
       id: transferId,
@@ -95,6 +99,7 @@ class FileTransferService extends EventEmitter {
     };
 
     this.transfers.set(transferId, transfer);
+    this.emit('file-stored', transfer, stored);
 
     // Send metadata first
     const sent = connectionManager.sendToPeer(peerId, {
@@ -148,7 +153,7 @@ class FileTransferService extends EventEmitter {
           transferId,
           chunkIndex: i,
           totalChunks: chunks,
-          data: this.sodium!.to_base64(encryptedChunk),
+          data: encryptedChunk,
         },
         timestamp: Date.now(),
       });
@@ -230,7 +235,7 @@ class FileTransferService extends EventEmitter {
     transferId: string;
     chunkIndex: number;
     totalChunks: number;
-    data: string;
+    data: Uint8Array | string;    // Base64 from peers on the JSON wire format
   }): void {
     const { transferId, chunkIndex, totalChunks, data: chunkData } = data;
 
@@ -242,7 +247,7 @@ class FileTransferService extends EventEmitter {
 
     try {
       // Decrypt chunk
-      const encryptedChunk = this.sodium!.from_base64(chunkData);
+      const encryptedChunk = typeof chunkData === 'string' ? this.sodium!.from_base64(chunkData) : chunkData;
       const decryptedChunk = this.decryptChunk(encryptedChunk);
 
       buffer[chunkIndex] = decryptedChunk;
@@ -297,6 +302,14 @@ class FileTransferService extends EventEmitter {
       return;
     }
 
+    // Kept across restarts, for the message that references it
+    try {
+      const stored = await attachmentStore.put(combined, transfer.metadata.type);
+      this.emit('file-stored', transfer, stored);
+    } catch (error) {
+      console.error('[FileTransfer] Failed to store received file:', error);
+    }
+
     transfer.status = 'completed';
     transfer.progress = 100;
     transfer.completedAt = Date.now();
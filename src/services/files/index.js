@@ -2,3 +2,4 @@
  * VORTEX Protocol - File Transfer Module
  */
 export { fileTransferService, default } from './FileTransferService';
+export { attachmentStore } from './AttachmentStore';
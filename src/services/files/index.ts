@@ -4,3 +4,5 @@
 
 export { fileTransferService, default } from './FileTransferService';
 export type { FileMetadata, FileTransfer, TransferProgress } from './FileTransferService';
+export { attachmentStore } from './AttachmentStore';
+export type { StoredAttachment } from './AttachmentStore';
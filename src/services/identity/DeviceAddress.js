@@ -0,0 +1,23 @@
+/**
+ * VORTEX Protocol - Device Addresses
+ * All of a user's devices share its identity; each is reached at its own
+ * address. The primary device keeps the bare user ID, so users with a
+ * single device are addressed exactly as before.
+ */
+export const PRIMARY_DEVICE_ID = 1;
+export function toAddress(userId, deviceId) {
+    return deviceId === PRIMARY_DEVICE_ID ? userId : `${userId}.${deviceId}`;
+}
+export function parseAddress(address) {
+    const dot = address.lastIndexOf('.');
+    if (dot < 0)
+        return { userId: address, deviceId: PRIMARY_DEVICE_ID };
+    const deviceId = Number(address.slice(dot + 1));
+    if (!Number.isInteger(deviceId) || deviceId < 1) {
+        return { userId: address, deviceId: PRIMARY_DEVICE_ID };
+    }
+    return { userId: address.slice(0, dot), deviceId };
+}
+export function userIdOf(address) {
+    return parseAddress(address).userId;
+}
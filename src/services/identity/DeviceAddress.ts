@@ -0,0 +1,33 @@
+/**
+ * VORTEX Protocol - Device Addresses
+ * All of a user's devices share its identity; each is reached at its own
+ * address. The primary device keeps the bare user ID, so users with a
+ * single device are addressed exactly as before.
+ */
+
+export const PRIMARY_DEVICE_ID = 1;
+
+export interface DeviceAddress {
+  userId: string;
+  deviceId: number;
+}
+
+export function toAddress(userId: string, deviceId: number): string {
+  return deviceId === PRIMARY_DEVICE_ID ? userId : `${userId}.${deviceId}`;
+}
+
+export function parseAddress(address: string): DeviceAddress {
+  const dot = address.lastIndexOf('.');
+  if (dot < 0) return { userId: address, deviceId: PRIMARY_DEVICE_ID };
+
+  const deviceId = Number(address.slice(dot + 1));
+  if (!Number.isInteger(deviceId) || deviceId < 1) {
+    return { userId: address, deviceId: PRIMARY_DEVICE_ID };
+  }
+
+  return { userId: address.slice(0, dot), deviceId };
+}
+
+export function userIdOf(address: string): string {
+  return parseAddress(address).userId;
+}
@@ -4,19 +4,63 @@
  */
 
 import _sodium from 'libsodium-wrappers';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
 import { db, type UserIdentity } from '../database';
+import { PRIMARY_DEVICE_ID, toAddress } from './DeviceAddress';
+import { generateRecoveryPhrase, recoveryPhraseToEntropy } from './RecoveryPhrase';
 
 export interface KeyPair {
   publicKey: Uint8Array;
   privateKey: Uint8Array;
 }
 
+export interface PreKey extends KeyPair {
+  keyId: number;
+}
+
+// ML-KEM-768 key published with a signed pre-key, sharing its ID and
+// lifetime, for post-quantum (PQXDH) key agreement
+export interface KemPreKey {
+  publicKey: Uint8Array;  // Encapsulation key
+  secretKey: Uint8Array;  // Decapsulation key
+  signature: Uint8Array;  // Identity key signature over publicKey
+}
+
+export interface SignedPreKey extends PreKey {
+  signature: Uint8Array;  // Identity key signature over publicKey
+  createdAt: number;
+  kem?: KemPreKey;        // Absent on keys retired before post-quantum support
+}
+
+// A replaced signed pre-key, kept for a grace period so pre-key
+// messages that were already in flight still decrypt
+export interface RetiredSignedPreKey extends SignedPreKey {
+  retiredAt: number;
+}
+
 export interface IdentityKeys {
-  identity: KeyPair;      // Long-term identity key (Ed25519)
-  signedPreKey: KeyPair;  // Signed pre-key (X25519)
-  preKeys: KeyPair[];     // One-time pre-keys (X25519)
+  identity: KeyPair;            // This device's identity key (Ed25519): the account key on the primary
+  deviceId: number;             // This device; pre-keys below are its own
+  registrationId: number;       // Sent with pre-key messages
+  signedPreKey: SignedPreKey;   // Signed pre-key (X25519)
+  retiredSignedPreKeys: RetiredSignedPreKey[];  // Oldest first, each until its grace period ends
+  preKeys: PreKey[];            // One-time pre-keys (X25519)
+  nextPreKeyId: number;
 }
 
+// Public halves of pre-keys, as published to the pre-key directory (base64)
+export interface PublicPreKey {
+  keyId: number;
+  publicKey: string;
+}
+
+export interface PublicSignedPreKey extends PublicPreKey {
+  signature: string;
+}
+
+// Same key ID as the signed pre-key it belongs to
+export type PublicKemPreKey = PublicSignedPreKey;
+
 export interface ExportedIdentity {
   id: string;
   publicKey: string;
@@ -24,6 +68,42 @@ export interface ExportedIdentity {
   fingerprint: string;
 }
 
+// What a linked device receives from the primary
+export type LinkedIdentityProfile = Pick<UserIdentity, 'id' | 'publicKey' | 'displayName' | 'avatarUrl' | 'createdAt'>;
+
+export type BackupSecretType = 'password' | 'recovery-phrase';
+
+// Argon2id parameters a backup was sealed with, so it still opens after
+// the defaults change
+export interface BackupKdfParams {
+  alg: 'argon2id13';
+  opslimit: number;
+  memlimit: number;
+  salt: string;       // base64
+}
+
+// Identity backup file. Everything but the ciphertext is authenticated
+// as associated data.
+export interface IdentityBackup {
+  v: 2;
+  secret: BackupSecretType;
+  kdf: BackupKdfParams;
+  nonce: string;      // base64
+  data: string;       // base64, ChaCha20-Poly1305 (IETF)
+}
+
+const BACKUP_VERSION = 2;
+
+// Bumped when stored identity state needs a one-time migration
+// (3: signed pre-keys gained their ML-KEM companion key)
+const IDENTITY_VERSION = 3;
+
+const STORAGE_KEY_SETTING = 'session_storage_key';
+
+// Where the auth store used to keep a second, separate identity
+const LEGACY_IDENTITY_KEY = 'vortex_identity';
+const LEGACY_PROFILE_KEY = 'vortex_profile';
+
 class IdentityService {
   private sodium: typeof _sodium | null = null;
   private identity: UserIdentity | null = null;
@@ -47,6 +127,8 @@ class IdentityService {
       await this.restoreKeys();
     }
 
+    await this.migrateLegacyIdentity();
+
     this.initialized = true;
     console.log('[Identity] Service initialized, hasIdentity:', !!this.identity);
   }
@@ -59,10 +141,58 @@ class IdentityService {
     return this.identity;
   }
 
+  /**
+   * Wipe the private keys from memory while the app is locked. The
+   * profile stays, without the stored keys.
+   */
+  lock(): void {
+    if (!this.keys) return;
+
+    const keys = this.keys;
+    this.keys = null;
+    [
+      keys.identity,
+      keys.signedPreKey,
+      ...keys.retiredSignedPreKeys,
+      ...keys.preKeys,
+    ].forEach(keyPair => this.sodium?.memzero(keyPair.privateKey));
+    [keys.signedPreKey, ...keys.retiredSignedPreKeys]
+      .forEach(({ kem }) => kem && this.sodium?.memzero(kem.secretKey));
+
+    if (this.identity) {
+      this.identity = { ...this.identity, privateKeyEncrypted: '' };
+    }
+    console.log('[Identity] Locked');
+  }
+
+  /**
+   * Load the keys again once the database is open
+   */
+  async unlock(): Promise<void> {
+    if (this.keys) return;
+
+    this.identity = db.getUserIdentity();
+    if (this.identity) await this.restoreKeys();
+  }
+
+  isLocked(): boolean {
+    return this.identity !== null && this.keys === null;
+  }
+
   getPublicKey(): string | null {
     return this.identity?.publicKey || null;
   }
 
+  /**
+   * Identity key of this device, hex. Linked devices have their own,
+   * certified by the primary in its device list; only the primary holds
+   * the account key.
+   */
+  getDeviceKey(): string | null {
+    if (!this.sodium || !this.keys) return null;
+    return this.sodium.to_hex(this.keys.identity.publicKey);
+  }
+
   getDisplayName(): string {
     return this.identity?.displayName || 'Anonymous';
   }
@@ -75,31 +205,7 @@ class IdentityService {
 
     // Generate identity key pair (Ed25519 for signing)
     const identityKeyPair = this.sodium.crypto_sign_keypair();
-    
-    // Generate signed pre-key (X25519 for key agreement)
-    const signedPreKeyPair = this.sodium.crypto_kx_keypair();
-    
-    // Generate one-time pre-keys
-    const preKeys: KeyPair[] = [];
-    for (let i = 0; i < 100; i++) {
-      const kp = this.sodium.crypto_kx_keypair();
-      preKeys.push({
-        publicKey: kp.publicKey,
-        privateKey: kp.privateKey,
-      });
-    }
-
-    this.keys = {
-      identity: {
-        publicKey: identityKeyPair.publicKey,
-        privateKey: identityKeyPair.privateKey,
-      },
-      signedPreKey: {
-        publicKey: signedPreKeyPair.publicKey,
-        privateKey: signedPreKeyPair.privateKey,
-      },
-      preKeys,
-    };
+    this.keys = this.generateDeviceKeys(identityKeyPair, PRIMARY_DEVICE_ID);
 
     // Create identity object
     const id = this.generateId();
@@ -126,6 +232,34 @@ class IdentityService {
     return this.identity;
   }
 
+  /**
+   * Set up this device as a linked device of an existing identity. The
+   * device key is this device's own, certified by the primary; the
+   * account key never leaves the primary.
+   */
+  async createLinkedIdentity(
+    profile: LinkedIdentityProfile,
+    deviceKeyPair: KeyPair,
+    deviceId: number
+  ): Promise<UserIdentity> {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+    if (this.identity) throw new Error('This device already has an identity');
+    if (this.sodium.to_hex(deviceKeyPair.publicKey) === profile.publicKey) {
+      throw new Error('A linked device needs its own identity key');
+    }
+
+    this.keys = this.generateDeviceKeys(deviceKeyPair, deviceId);
+    this.identity = {
+      ...profile,
+      privateKeyEncrypted: await this.encryptKeys(this.keys),
+      lastSeen: Date.now(),
+    };
+    db.saveUserIdentity(this.identity);
+
+    console.log('[Identity] Linked to identity:', profile.id, 'as device', deviceId);
+    return this.identity;
+  }
+
   /**
    * Update display name
    */
@@ -178,7 +312,100 @@ class IdentityService {
   }
 
   /**
-   * Sign a message with identity key
+   * Export identity and keys as a password-encrypted backup
+   */
+  async exportBackup(password: string): Promise<string> {
+    if (!password) throw new Error('Password required');
+    return this.sealBackup('password', password);
+  }
+
+  /**
+   * Export identity and keys encrypted under a new 24-word recovery
+   * phrase. The phrase is returned once and never stored.
+   */
+  async exportRecoveryBackup(): Promise<{ backup: string; recoveryPhrase: string }> {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+
+    const recoveryPhrase = generateRecoveryPhrase();
+    const entropy = recoveryPhraseToEntropy(recoveryPhrase);
+    try {
+      return { backup: await this.sealBackup('recovery-phrase', entropy), recoveryPhrase };
+    } finally {
+      this.sodium.memzero(entropy);
+    }
+  }
+
+  /**
+   * What a backup needs to be opened with
+   */
+  getBackupSecretType(backup: string): BackupSecretType {
+    const parsed = this.parseBackup(backup);
+    return parsed.v === BACKUP_VERSION ? parsed.secret : 'password';
+  }
+
+  /**
+   * Restore identity and keys from a backup, given its password or
+   * recovery phrase. Refuses to replace a different identity that is
+   * already set up.
+   */
+  async importBackup(backup: string, secret: string): Promise<UserIdentity> {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+
+    const parsed = this.parseBackup(backup);
+    // Version 1 always used the moderate limits and no associated data
+    const kdf: BackupKdfParams = parsed.v === BACKUP_VERSION ? parsed.kdf : {
+      alg: 'argon2id13',
+      opslimit: this.sodium.crypto_pwhash_OPSLIMIT_MODERATE,
+      memlimit: this.sodium.crypto_pwhash_MEMLIMIT_MODERATE,
+      salt: parsed.salt,
+    };
+    const secretBytes = parsed.v === BACKUP_VERSION && parsed.secret === 'recovery-phrase'
+      ? recoveryPhraseToEntropy(secret)
+      : secret;
+    const key = this.deriveBackupKey(secretBytes, kdf);
+
+    let plaintext: Uint8Array;
+    try {
+      plaintext = this.sodium.crypto_aead_chacha20poly1305_ietf_decrypt(
+        null,
+        this.sodium.from_base64(parsed.data),
+        parsed.v === BACKUP_VERSION ? this.backupHeader(parsed) : null,
+        this.sodium.from_base64(parsed.nonce),
+        key
+      );
+    } catch {
+      throw new Error('Wrong password or recovery phrase');
+    } finally {
+      this.sodium.memzero(key);
+    }
+    const payload = JSON.parse(this.sodium.to_string(plaintext));
+
+    const keys = await this.decryptKeys(payload.keys);
+    if (this.sodium.to_hex(keys.identity.publicKey) !== payload.identity.publicKey) {
+      throw new Error('Backup keys do not match its identity');
+    }
+    if (this.identity && this.identity.publicKey !== payload.identity.publicKey) {
+      throw new Error('A different identity is already set up');
+    }
+
+    this.keys = keys;
+    this.identity = {
+      id: payload.identity.id,
+      publicKey: payload.identity.publicKey,
+      privateKeyEncrypted: await this.encryptKeys(keys),
+      displayName: payload.identity.displayName,
+      avatarUrl: payload.identity.avatarUrl,
+      createdAt: payload.identity.createdAt,
+      lastSeen: Date.now(),
+    };
+    db.saveUserIdentity(this.identity);
+
+    console.log('[Identity] Restored identity from backup:', this.identity.id);
+    return this.identity;
+  }
+
+  /**
+   * Sign a message with this device's identity key
    */
   sign(message: Uint8Array): Uint8Array {
     if (!this.sodium || !this.keys) throw new Error('Not initialized');
@@ -206,13 +433,136 @@ class IdentityService {
     return this.keys?.identity || null;
   }
 
+  getDeviceId(): number {
+    return this.keys?.deviceId ?? PRIMARY_DEVICE_ID;
+  }
+
+  isPrimaryDevice(): boolean {
+    return this.getDeviceId() === PRIMARY_DEVICE_ID;
+  }
+
+  /**
+   * Address this device is reached at
+   */
+  getAddress(): string | null {
+    return this.identity ? toAddress(this.identity.id, this.getDeviceId()) : null;
+  }
+
+  getRegistrationId(): number {
+    return this.keys?.registrationId ?? 0;
+  }
+
   /**
    * Get signed pre-key for X3DH
    */
-  getSignedPreKey(): KeyPair | null {
+  getSignedPreKey(): SignedPreKey | null {
     return this.keys?.signedPreKey || null;
   }
 
+  /**
+   * Get signed pre-key by ID (as referenced in a pre-key message).
+   * Retired signed pre-keys still count until they are discarded.
+   */
+  getSignedPreKeyById(keyId: number): KeyPair | null {
+    return this.findSignedPreKey(keyId);
+  }
+
+  /**
+   * Decapsulation key of the ML-KEM key published with a signed pre-key
+   */
+  getKemPreKeyById(keyId: number): Uint8Array | null {
+    return this.findSignedPreKey(keyId)?.kem?.secretKey ?? null;
+  }
+
+  getRetiredSignedPreKeys(): RetiredSignedPreKey[] {
+    return this.keys ? [...this.keys.retiredSignedPreKeys] : [];
+  }
+
+  /**
+   * Replace the signed pre-key. The current one is retired and kept
+   * alongside any others still in their grace period.
+   */
+  async rotateSignedPreKey(): Promise<SignedPreKey> {
+    if (!this.sodium || !this.keys) throw new Error('Not initialized');
+
+    const current = this.keys.signedPreKey;
+    this.keys.retiredSignedPreKeys.push({ ...current, retiredAt: Date.now() });
+    this.keys.signedPreKey = this.generateSignedPreKey(current.keyId + 1, this.keys.identity.privateKey);
+    await this.saveKeys();
+
+    return this.keys.signedPreKey;
+  }
+
+  /**
+   * Wipe the signed pre-keys retired before a point in time, once their
+   * grace period is over. Returns their key IDs.
+   */
+  async discardRetiredSignedPreKeys(retiredBefore: number): Promise<number[]> {
+    if (!this.sodium || !this.keys) return [];
+
+    const expired = this.keys.retiredSignedPreKeys.filter(k => k.retiredAt < retiredBefore);
+    if (expired.length === 0) return [];
+
+    expired.forEach(k => this.wipeSignedPreKey(k));
+    this.keys.retiredSignedPreKeys = this.keys.retiredSignedPreKeys.filter(k => k.retiredAt >= retiredBefore);
+    await this.saveKeys();
+
+    return expired.map(k => k.keyId);
+  }
+
+  /**
+   * Get one-time pre-key by ID without removing it
+   */
+  getPreKeyById(keyId: number): PreKey | null {
+    return this.keys?.preKeys.find(k => k.keyId === keyId) || null;
+  }
+
+  /**
+   * Remove a one-time pre-key once a session has consumed it
+   */
+  removePreKey(publicKey: Uint8Array): void {
+    if (!this.sodium || !this.keys) return;
+
+    this.keys.preKeys = this.keys.preKeys.filter(k => !this.sodium!.memcmp(k.publicKey, publicKey));
+    this.saveKeys();
+  }
+
+  /**
+   * Get public pre-keys for publishing to the pre-key directory
+   */
+  getPublicPreKeys(): {
+    signedPreKey: PublicSignedPreKey;
+    kemPreKey?: PublicKemPreKey;
+    oneTimePreKeys: PublicPreKey[];
+  } | null {
+    if (!this.sodium || !this.keys) return null;
+
+    const { signedPreKey } = this.keys;
+    return {
+      signedPreKey: {
+        keyId: signedPreKey.keyId,
+        publicKey: this.sodium.to_base64(signedPreKey.publicKey),
+        signature: this.sodium.to_base64(signedPreKey.signature),
+      },
+      kemPreKey: signedPreKey.kem && {
+        keyId: signedPreKey.keyId,
+        publicKey: this.sodium.to_base64(signedPreKey.kem.publicKey),
+        signature: this.sodium.to_base64(signedPreKey.kem.signature),
+      },
+      oneTimePreKeys: this.keys.preKeys.map(k => ({
+        keyId: k.keyId,
+        publicKey: this.sodium!.to_base64(k.publicKey),
+      })),
+    };
+  }
+
+  /**
+   * Number of one-time pre-keys left in the local pool
+   */
+  getPreKeyCount(): number {
+    return this.keys?.preKeys.length ?? 0;
+  }
+
   /**
    * Get a one-time pre-key (removes it from available pool)
    */
@@ -236,6 +586,7 @@ class IdentityService {
     for (let i = 0; i < count; i++) {
       const kp = this.sodium.crypto_kx_keypair();
       this.keys.preKeys.push({
+        keyId: this.keys.nextPreKeyId++,
         publicKey: kp.publicKey,
         privateKey: kp.privateKey,
       });
@@ -269,6 +620,30 @@ class IdentityService {
     return key.slice(0, length);
   }
 
+  /**
+   * Key that seals session state at rest. It is random and kept in the
+   * database, so it can only be read while the database is unlocked.
+   */
+  getStorageKey(): Uint8Array | null {
+    if (!this.sodium || !this.keys || db.isLocked()) return null;
+
+    const stored = db.getSetting(STORAGE_KEY_SETTING);
+    if (stored) return this.sodium.from_base64(stored);
+
+    const key = this.sodium.randombytes_buf(this.sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES);
+    db.setSetting(STORAGE_KEY_SETTING, this.sodium.to_base64(key));
+    return key;
+  }
+
+  /**
+   * Key that sealed session state before the storage key was kept in the
+   * database, derived from the identity key. Only for opening that state.
+   */
+  getLegacyStorageKey(): Uint8Array | null {
+    if (!this.keys) return null;
+    return this.deriveSecret(this.keys.identity.privateKey, 'VORTEX_STORAGE_KEY');
+  }
+
   // ==================== Private Methods ====================
 
   private generateId(): string {
@@ -277,6 +652,233 @@ class IdentityService {
     return this.sodium.to_hex(bytes);
   }
 
+  private generateRegistrationId(): number {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+    const bytes = this.sodium.randombytes_buf(4);
+    return new DataView(bytes.buffer).getUint32(0) % 16380 + 1;
+  }
+
+  private async sealBackup(secretType: BackupSecretType, secret: string | Uint8Array): Promise<string> {
+    if (!this.sodium || !this.identity || !this.keys) throw new Error('No identity');
+    // Only the primary holds the account key a backup restores
+    if (!this.isPrimaryDevice()) throw new Error('Back up from your primary device');
+
+    const serialized = JSON.stringify({
+      identity: {
+        id: this.identity.id,
+        publicKey: this.identity.publicKey,
+        displayName: this.identity.displayName,
+        avatarUrl: this.identity.avatarUrl,
+        createdAt: this.identity.createdAt,
+      },
+      keys: await this.encryptKeys(this.keys),
+    });
+
+    // A recovery phrase already carries 256 bits; a password needs the stretching
+    const kdf: BackupKdfParams = {
+      alg: 'argon2id13',
+      opslimit: secretType === 'password'
+        ? this.sodium.crypto_pwhash_OPSLIMIT_MODERATE
+        : this.sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE,
+      memlimit: secretType === 'password'
+        ? this.sodium.crypto_pwhash_MEMLIMIT_MODERATE
+        : this.sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE,
+      salt: this.sodium.to_base64(this.sodium.randombytes_buf(this.sodium.crypto_pwhash_SALTBYTES)),
+    };
+    const nonce = this.sodium.randombytes_buf(this.sodium.crypto_aead_chacha20poly1305_ietf_NPUBBYTES);
+    const header = { v: BACKUP_VERSION, secret: secretType, kdf, nonce: this.sodium.to_base64(nonce) } as const;
+
+    const key = this.deriveBackupKey(secret, kdf);
+    const ciphertext = this.sodium.crypto_aead_chacha20poly1305_ietf_encrypt(
+      this.sodium.from_string(serialized),
+      this.backupHeader(header),
+      null,
+      nonce,
+      key
+    );
+    this.sodium.memzero(key);
+
+    const backup: IdentityBackup = { ...header, data: this.sodium.to_base64(ciphertext) };
+    return JSON.stringify(backup);
+  }
+
+  private parseBackup(backup: string): IdentityBackup | { v: 1; salt: string; nonce: string; data: string } {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(backup);
+    } catch {
+      throw new Error('Not a VORTEX backup');
+    }
+
+    if (parsed?.v === 1 && parsed.salt && parsed.nonce && parsed.data) return parsed;
+    if (parsed?.v === BACKUP_VERSION && parsed.kdf && parsed.nonce && parsed.data) {
+      if (parsed.secret !== 'password' && parsed.secret !== 'recovery-phrase') {
+        throw new Error('Unsupported backup secret');
+      }
+      return parsed;
+    }
+    if (typeof parsed?.v === 'number' && parsed.v > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version of VORTEX');
+    }
+    throw new Error('Unsupported backup version');
+  }
+
+  private backupHeader(backup: Omit<IdentityBackup, 'data'>): Uint8Array {
+    const { kdf } = backup;
+    return this.sodium!.from_string(JSON.stringify([
+      'VORTEX_BACKUP',
+      backup.v,
+      backup.secret,
+      kdf.alg,
+      kdf.opslimit,
+      kdf.memlimit,
+      kdf.salt,
+    ]));
+  }
+
+  private deriveBackupKey(secret: string | Uint8Array, kdf: BackupKdfParams): Uint8Array {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+
+    // The parameters come from the file: refuse ones that are too weak
+    // to trust or too expensive to run
+    if (
+      kdf.alg !== 'argon2id13' ||
+      kdf.opslimit < this.sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE ||
+      kdf.opslimit > this.sodium.crypto_pwhash_OPSLIMIT_SENSITIVE ||
+      kdf.memlimit < this.sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE ||
+      kdf.memlimit > this.sodium.crypto_pwhash_MEMLIMIT_SENSITIVE
+    ) {
+      throw new Error('Unsupported backup key derivation parameters');
+    }
+
+    return this.sodium.crypto_pwhash(
+      32,
+      secret,
+      this.sodium.from_base64(kdf.salt),
+      kdf.opslimit,
+      kdf.memlimit,
+      this.sodium.crypto_pwhash_ALG_ARGON2ID13
+    );
+  }
+
+  /**
+   * One-time migration away from the auth store's separate identity,
+   * which lived in localStorage. The database identity is the one
+   * contacts have verified and sessions are keyed to, so it is kept
+   * as is and contacts' trust and conversations carry over untouched.
+   * The other identity's keys were never published, so nothing
+   * depends on them.
+   */
+  private async migrateLegacyIdentity(): Promise<void> {
+    if (db.getSetting('identity_version') === String(IDENTITY_VERSION)) return;
+
+    if (typeof localStorage !== 'undefined') {
+      let legacyProfile: { avatarUrl?: string } | null = null;
+      try {
+        legacyProfile = JSON.parse(localStorage.getItem(LEGACY_PROFILE_KEY) || 'null');
+      } catch {
+        // Unreadable profile: nothing to carry over
+      }
+
+      if (this.identity && !this.identity.avatarUrl && legacyProfile?.avatarUrl) {
+        this.identity.avatarUrl = legacyProfile.avatarUrl;
+      }
+      if (localStorage.getItem(LEGACY_IDENTITY_KEY)) {
+        console.log('[Identity] Discarding legacy auth store identity');
+      }
+
+      localStorage.removeItem(LEGACY_IDENTITY_KEY);
+      localStorage.removeItem(LEGACY_PROFILE_KEY);
+    }
+
+    // Rewrite keys in the current format, backfills included
+    await this.saveKeys();
+
+    db.setSetting('identity_version', String(IDENTITY_VERSION));
+    console.log('[Identity] Migrated identity to version', IDENTITY_VERSION);
+  }
+
+  private generateDeviceKeys(identity: KeyPair, deviceId: number): IdentityKeys {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+
+    // Generate one-time pre-keys
+    const preKeys: PreKey[] = [];
+    for (let i = 0; i < 100; i++) {
+      const kp = this.sodium.crypto_kx_keypair();
+      preKeys.push({
+        keyId: i + 1,
+        publicKey: kp.publicKey,
+        privateKey: kp.privateKey,
+      });
+    }
+
+    return {
+      identity: {
+        publicKey: identity.publicKey,
+        privateKey: identity.privateKey,
+      },
+      deviceId,
+      registrationId: this.generateRegistrationId(),
+      // Signed pre-key (X25519 for key agreement)
+      signedPreKey: this.generateSignedPreKey(1, identity.privateKey),
+      retiredSignedPreKeys: [],
+      preKeys,
+      nextPreKeyId: preKeys.length + 1,
+    };
+  }
+
+  private generateSignedPreKey(keyId: number, identityPrivateKey: Uint8Array): SignedPreKey {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+
+    const keyPair = this.sodium.crypto_kx_keypair();
+    return {
+      keyId,
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey,
+      signature: this.sodium.crypto_sign_detached(keyPair.publicKey, identityPrivateKey),
+      createdAt: Date.now(),
+      kem: this.generateKemPreKey(identityPrivateKey),
+    };
+  }
+
+  private generateKemPreKey(identityPrivateKey: Uint8Array): KemPreKey {
+    if (!this.sodium) throw new Error('Sodium not initialized');
+
+    const { publicKey, secretKey } = ml_kem768.keygen();
+    return {
+      publicKey,
+      secretKey,
+      signature: this.sodium.crypto_sign_detached(publicKey, identityPrivateKey),
+    };
+  }
+
+  private findSignedPreKey(keyId: number): SignedPreKey | null {
+    if (!this.keys) return null;
+    if (this.keys.signedPreKey.keyId === keyId) return this.keys.signedPreKey;
+    return this.keys.retiredSignedPreKeys.find(k => k.keyId === keyId) ?? null;
+  }
+
+  private wipeSignedPreKey(signedPreKey: SignedPreKey): void {
+    this.sodium?.memzero(signedPreKey.privateKey);
+    if (signedPreKey.kem) this.sodium?.memzero(signedPreKey.kem.secretKey);
+  }
+
+  private serializeKemPreKey(kem: KemPreKey | undefined): object | undefined {
+    return kem && {
+      publicKey: this.sodium!.to_base64(kem.publicKey),
+      secretKey: this.sodium!.to_base64(kem.secretKey),
+      signature: this.sodium!.to_base64(kem.signature),
+    };
+  }
+
+  private deserializeKemPreKey(kem: any): KemPreKey | undefined {
+    return kem ? {
+      publicKey: this.sodium!.from_base64(kem.publicKey),
+      secretKey: this.sodium!.from_base64(kem.secretKey),
+      signature: this.sodium!.from_base64(kem.signature),
+    } : undefined;
+  }
+
   private async encryptKeys(keys: IdentityKeys): Promise<string> {
     if (!this.sodium) throw new Error('Sodium not initialized');
 
@@ -286,18 +888,35 @@ class IdentityService {
         publicKey: this.sodium.to_base64(keys.identity.publicKey),
         privateKey: this.sodium.to_base64(keys.identity.privateKey),
       },
+      deviceId: keys.deviceId,
+      registrationId: keys.registrationId,
       signedPreKey: {
+        keyId: keys.signedPreKey.keyId,
         publicKey: this.sodium.to_base64(keys.signedPreKey.publicKey),
         privateKey: this.sodium.to_base64(keys.signedPreKey.privateKey),
+        signature: this.sodium.to_base64(keys.signedPreKey.signature),
+        createdAt: keys.signedPreKey.createdAt,
+        kem: this.serializeKemPreKey(keys.signedPreKey.kem),
       },
+      retiredSignedPreKeys: keys.retiredSignedPreKeys.map(retired => ({
+        keyId: retired.keyId,
+        publicKey: this.sodium!.to_base64(retired.publicKey),
+        privateKey: this.sodium!.to_base64(retired.privateKey),
+        signature: this.sodium!.to_base64(retired.signature),
+        createdAt: retired.createdAt,
+        retiredAt: retired.retiredAt,
+        kem: this.serializeKemPreKey(retired.kem),
+      })),
       preKeys: keys.preKeys.map(kp => ({
+        keyId: kp.keyId,
         publicKey: this.sodium!.to_base64(kp.publicKey),
         privateKey: this.sodium!.to_base64(kp.privateKey),
       })),
+      nextPreKeyId: keys.nextPreKeyId,
     };
 
-    // For now, we store keys encoded but not encrypted
-    // In production, this should be encrypted with a user passphrase
+    // Encoded only: the database they are stored in is encrypted with the
+    // database key, and backups seal them with the backup secret
     return btoa(JSON.stringify(keysData));
   }
 
@@ -305,20 +924,50 @@ class IdentityService {
     if (!this.sodium) throw new Error('Sodium not initialized');
 
     const keysData = JSON.parse(atob(encrypted));
+    // Keys stored before several retired keys were kept have one at most
+    const retired: any[] = keysData.retiredSignedPreKeys ??
+      (keysData.previousSignedPreKey ? [keysData.previousSignedPreKey] : []);
+    const identity = {
+      publicKey: this.sodium.from_base64(keysData.identity.publicKey),
+      privateKey: this.sodium.from_base64(keysData.identity.privateKey),
+    };
+    const signedPreKeyPublic = this.sodium.from_base64(keysData.signedPreKey.publicKey);
+
+    // Keys stored before pre-keys were published carry no IDs or signature
+    const preKeys: PreKey[] = keysData.preKeys.map((kp: any, index: number) => ({
+      keyId: kp.keyId ?? index + 1,
+      publicKey: this.sodium!.from_base64(kp.publicKey),
+      privateKey: this.sodium!.from_base64(kp.privateKey),
+    }));
 
     return {
-      identity: {
-        publicKey: this.sodium.from_base64(keysData.identity.publicKey),
-        privateKey: this.sodium.from_base64(keysData.identity.privateKey),
-      },
+      identity,
+      deviceId: keysData.deviceId ?? PRIMARY_DEVICE_ID,
+      // Keys stored before registration IDs were kept get one now
+      registrationId: keysData.registrationId ?? this.generateRegistrationId(),
       signedPreKey: {
-        publicKey: this.sodium.from_base64(keysData.signedPreKey.publicKey),
+        keyId: keysData.signedPreKey.keyId ?? 1,
+        publicKey: signedPreKeyPublic,
         privateKey: this.sodium.from_base64(keysData.signedPreKey.privateKey),
+        signature: keysData.signedPreKey.signature
+          ? this.sodium.from_base64(keysData.signedPreKey.signature)
+          : this.sodium.crypto_sign_detached(signedPreKeyPublic, identity.privateKey),
+        // Keys stored before rotation are treated as new, so they rotate one interval from now
+        createdAt: keysData.signedPreKey.createdAt ?? Date.now(),
+        // Keys stored before post-quantum support get their KEM key now
+        kem: this.deserializeKemPreKey(keysData.signedPreKey.kem) ?? this.generateKemPreKey(identity.privateKey),
       },
-      preKeys: keysData.preKeys.map((kp: any) => ({
-        publicKey: this.sodium!.from_base64(kp.publicKey),
-        privateKey: this.sodium!.from_base64(kp.privateKey),
+      retiredSignedPreKeys: retired.map(stored => ({
+        keyId: stored.keyId,
+        publicKey: this.sodium!.from_base64(stored.publicKey),
+        privateKey: this.sodium!.from_base64(stored.privateKey),
+        signature: this.sodium!.from_base64(stored.signature),
+        createdAt: stored.createdAt,
+        retiredAt: stored.retiredAt,
+        kem: this.deserializeKemPreKey(stored.kem),
       })),
+      preKeys,
+      nextPreKeyId: keysData.nextPreKeyId ?? Math.max(0, ...preKeys.map(k => k.keyId)) + 1,
     };
   }
 
@@ -0,0 +1,167 @@
+/**
+ * VORTEX Protocol - Key Maintenance Service
+ * Rotates the signed pre-key on schedule, discards retired ones after a
+ * grace period, keeps the one-time pre-key pool stocked and logs each change
+ */
+import { EventEmitter } from 'eventemitter3';
+import { db } from '../database';
+import { identityService } from './IdentityService';
+const DAY = 24 * 60 * 60 * 1000;
+// How often maintenance checks whether anything is due
+const MAINTENANCE_CHECK_INTERVAL = 60 * 60 * 1000;
+function validateSettings(settings) {
+    const values = [
+        settings.signedPreKeyRotationInterval,
+        settings.signedPreKeyGracePeriod,
+        settings.preKeyLowThreshold,
+        settings.preKeyTarget,
+    ];
+    if (!values.every(value => typeof value === 'number' && Number.isFinite(value) && value > 0)) {
+        throw new Error('Key settings must be positive numbers');
+    }
+    if (!Number.isInteger(settings.preKeyLowThreshold) || !Number.isInteger(settings.preKeyTarget)) {
+        throw new Error('Pre-key counts must be whole numbers');
+    }
+    if (settings.signedPreKeyRotationInterval < settings.signedPreKeyGracePeriod) {
+        throw new Error('Signed pre-keys must not rotate more often than their grace period');
+    }
+    if (settings.preKeyTarget <= settings.preKeyLowThreshold) {
+        throw new Error('The pre-key target must be above the top-up threshold');
+    }
+}
+class KeyMaintenanceService extends EventEmitter {
+    constructor() {
+        super(...arguments);
+        this.settings = {
+            signedPreKeyRotationInterval: 7,
+            signedPreKeyGracePeriod: 7,
+            preKeyLowThreshold: 20,
+            preKeyTarget: 100,
+        };
+        this.checkTimer = null;
+        this.running = false;
+        this.initialized = false;
+    }
+    async initialize() {
+        if (this.initialized)
+            return;
+        await identityService.initialize();
+        this.loadSettings();
+        this.checkTimer = setInterval(() => {
+            this.runMaintenance().catch(error => console.error('[Keys] Maintenance failed:', error));
+        }, MAINTENANCE_CHECK_INTERVAL);
+        this.initialized = true;
+        console.log('[Keys] Maintenance scheduled');
+        await this.runMaintenance();
+    }
+    destroy() {
+        if (this.checkTimer) {
+            clearInterval(this.checkTimer);
+            this.checkTimer = null;
+        }
+        this.initialized = false;
+    }
+    // ==================== Maintenance ====================
+    /**
+     * Do whatever is due: discard expired signed pre-keys, rotate the
+     * current one and top up one-time pre-keys. Emits 'prekeys-changed'
+     * when the pre-key directory needs republishing.
+     */
+    async runMaintenance() {
+        if (this.running || !identityService.hasIdentity() || identityService.isLocked())
+            return;
+        this.running = true;
+        try {
+            await this.discardExpiredSignedPreKeys();
+            let changed = false;
+            const current = identityService.getSignedPreKey();
+            if (current && Date.now() - current.createdAt >= this.settings.signedPreKeyRotationInterval * DAY) {
+                await this.rotate();
+                changed = true;
+            }
+            const count = identityService.getPreKeyCount();
+            if (count < this.settings.preKeyLowThreshold) {
+                await this.replenish(this.settings.preKeyTarget - count);
+                changed = true;
+            }
+            if (changed)
+                this.emit('prekeys-changed');
+        }
+        finally {
+            this.running = false;
+        }
+    }
+    /**
+     * Rotate the signed pre-key now, regardless of schedule
+     */
+    async rotateSignedPreKey() {
+        await this.rotate();
+        this.emit('prekeys-changed');
+    }
+    /**
+     * Top the one-time pre-key pool back up to the target, e.g. when the
+     * pre-key directory reports its stock of ours is running low. The pool
+     * is published again even when it is full.
+     */
+    async replenishPreKeys() {
+        await this.replenish(this.settings.preKeyTarget - identityService.getPreKeyCount());
+        this.emit('prekeys-changed');
+    }
+    getKeyEvents(limit) {
+        return db.getKeyEvents(limit);
+    }
+    // ==================== Settings ====================
+    getSettings() {
+        return { ...this.settings };
+    }
+    async updateSettings(updates) {
+        const settings = { ...this.settings, ...updates };
+        validateSettings(settings);
+        this.settings = settings;
+        db.setSetting('key_maintenance_settings', JSON.stringify(this.settings));
+        this.emit('settings-changed', this.settings);
+        await this.runMaintenance();
+    }
+    // ==================== Private Methods ====================
+    async rotate() {
+        const signedPreKey = await identityService.rotateSignedPreKey();
+        this.logEvent('signed-prekey-rotated', { keyId: signedPreKey.keyId });
+        console.log('[Keys] Rotated signed pre-key:', signedPreKey.keyId);
+    }
+    async replenish(count) {
+        if (count <= 0)
+            return;
+        await identityService.replenishPreKeys(count);
+        this.logEvent('prekeys-replenished', { count });
+        console.log('[Keys] Generated one-time pre-keys:', count);
+    }
+    async discardExpiredSignedPreKeys() {
+        const retiredBefore = Date.now() - this.settings.signedPreKeyGracePeriod * DAY;
+        if (!identityService.getRetiredSignedPreKeys().some(k => k.retiredAt < retiredBefore))
+            return;
+        for (const keyId of await identityService.discardRetiredSignedPreKeys(retiredBefore)) {
+            this.logEvent('signed-prekey-expired', { keyId });
+            console.log('[Keys] Discarded retired signed pre-key:', keyId);
+        }
+    }
+    logEvent(type, details) {
+        db.addKeyEvent({ type, ...details, createdAt: Date.now() });
+        this.emit('key-event', type);
+    }
+    loadSettings() {
+        const stored = db.getSetting('key_maintenance_settings');
+        if (!stored)
+            return;
+        try {
+            const settings = { ...this.settings, ...JSON.parse(stored) };
+            validateSettings(settings);
+            this.settings = settings;
+        }
+        catch {
+            // Use defaults
+        }
+    }
+}
+// Singleton instance
+export const keyMaintenanceService = new KeyMaintenanceService();
+export default keyMaintenanceService;
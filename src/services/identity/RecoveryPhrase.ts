@@ -0,0 +1,36 @@
+/**
+ * VORTEX Protocol - Recovery Phrase
+ * 24-word BIP39 mnemonic encoding 256 bits of entropy, from which an
+ * identity backup key is derived. Only the words are written down; the
+ * backup file holds everything else.
+ */
+
+import { generateMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+
+const PHRASE_STRENGTH = 256;    // bits, 24 words
+export const RECOVERY_PHRASE_WORDS = 24;
+
+export function generateRecoveryPhrase(): string {
+  return generateMnemonic(wordlist, PHRASE_STRENGTH);
+}
+
+/**
+ * Lowercase, single-spaced words, as typed back in from paper
+ */
+export function normalizeRecoveryPhrase(phrase: string): string {
+  return phrase.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * Whether a phrase has the right length, known words and a valid checksum
+ */
+export function isValidRecoveryPhrase(phrase: string): boolean {
+  const normalized = normalizeRecoveryPhrase(phrase);
+  return normalized.split(' ').length === RECOVERY_PHRASE_WORDS && validateMnemonic(normalized, wordlist);
+}
+
+export function recoveryPhraseToEntropy(phrase: string): Uint8Array {
+  if (!isValidRecoveryPhrase(phrase)) throw new Error('Invalid recovery phrase');
+  return mnemonicToEntropy(normalizeRecoveryPhrase(phrase), wordlist);
+}
@@ -2,3 +2,6 @@
  * VORTEX Protocol - Identity Module
  */
 export { identityService, default } from './IdentityService';
+export { keyMaintenanceService } from './KeyMaintenanceService';
+export { PRIMARY_DEVICE_ID, toAddress, parseAddress, userIdOf } from './DeviceAddress';
+export { RECOVERY_PHRASE_WORDS, generateRecoveryPhrase, normalizeRecoveryPhrase, isValidRecoveryPhrase, } from './RecoveryPhrase';
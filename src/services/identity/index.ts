@@ -3,4 +3,29 @@
  */
 
 export { identityService, default } from './IdentityService';
-export type { KeyPair, IdentityKeys, ExportedIdentity } from './IdentityService';
+export { keyMaintenanceService } from './KeyMaintenanceService';
+export { PRIMARY_DEVICE_ID, toAddress, parseAddress, userIdOf } from './DeviceAddress';
+export {
+  RECOVERY_PHRASE_WORDS,
+  generateRecoveryPhrase,
+  normalizeRecoveryPhrase,
+  isValidRecoveryPhrase,
+} from './RecoveryPhrase';
+export type {
+  KeyPair,
+  PreKey,
+  SignedPreKey,
+  KemPreKey,
+  RetiredSignedPreKey,
+  IdentityKeys,
+  PublicPreKey,
+  PublicSignedPreKey,
+  PublicKemPreKey,
+  ExportedIdentity,
+  LinkedIdentityProfile,
+  BackupSecretType,
+  BackupKdfParams,
+  IdentityBackup,
+} from './IdentityService';
+export type { KeyMaintenanceSettings } from './KeyMaintenanceService';
+export type { DeviceAddress } from './DeviceAddress';
@@ -3,9 +3,11 @@
  * Central export for all services
  */
 // Database
-export { db } from './database';
+export { db, parseSearchQuery, SNIPPET_MATCH_START, SNIPPET_MATCH_END } from './database';
 // Identity
-export { identityService } from './identity';
+export { identityService, keyMaintenanceService } from './identity';
+// Devices
+export { deviceService } from './devices';
 // P2P Connection
 export { connectionManager } from './p2p';
 // Messaging
@@ -15,9 +17,13 @@ export { contactService } from './contacts';
 // Notifications
 export { notificationService } from './notifications';
 // File Transfer
-export { fileTransferService } from './files';
+export { fileTransferService, attachmentStore } from './files';
 // Calls
 export { callService } from './calls';
+// Backups
+export { backupService } from './backup';
+// Chat Export
+export { chatExportService } from './export';
 // Security
 export { securityService } from './security';
 // Crypto (existing)
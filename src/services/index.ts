@@ -4,20 +4,34 @@
  */
 
 // Database
-export { db } from './database';
+export { db, parseSearchQuery, SNIPPET_MATCH_START, SNIPPET_MATCH_END } from './database';
 export type { 
   UserIdentity, 
   Contact, 
   Conversation, 
   Message, 
   CryptoSession,
+  SenderKeyRecord,
+  IdentityKeyChange,
+  KeyEvent,
+  Device,
+  KeyEventType,
   Setting,
-  PendingMessage 
+  PendingMessage,
+  HeldMessage,
+  AttachmentBlob,
+  AttachmentRef,
+  MessageSearchQuery,
+  MessageSearchResult 
 } from './database';
 
 // Identity
-export { identityService } from './identity';
-export type { KeyPair, IdentityKeys, ExportedIdentity } from './identity';
+export { identityService, keyMaintenanceService } from './identity';
+export type { KeyPair, IdentityKeys, ExportedIdentity, IdentityBackup, BackupSecretType, KeyMaintenanceSettings } from './identity';
+
+// Devices
+export { deviceService } from './devices';
+export type { PendingLink } from './devices';
 
 // P2P Connection
 export { connectionManager } from './p2p';
@@ -25,6 +39,9 @@ export type {
   PeerConnection, 
   SignalData, 
   PeerMessage, 
+  PreKeyBundleResponse,
+  SignedDeviceList,
+  DeviceListEntry,
   ConnectionStatus 
 } from './p2p';
 
@@ -34,20 +51,28 @@ export type { SendMessageOptions, ReceivedMessage, TypingState } from './messagi
 
 // Contacts
 export { contactService } from './contacts';
-export type { AddContactOptions, ContactVerification } from './contacts';
+export type { AddContactOptions, ContactVerification, SessionInfo } from './contacts';
 
 // Notifications
 export { notificationService } from './notifications';
 export type { NotificationOptions, NotificationSound } from './notifications';
 
 // File Transfer
-export { fileTransferService } from './files';
-export type { FileMetadata, FileTransfer, TransferProgress } from './files';
+export { fileTransferService, attachmentStore } from './files';
+export type { FileMetadata, FileTransfer, TransferProgress, StoredAttachment } from './files';
 
 // Calls
 export { callService } from './calls';
 export type { CallType, CallStatus, CallEndReason, CallParticipant, ActiveCall, CallSettings } from './calls';
 
+// Backups
+export { backupService } from './backup';
+export type { BackupFrequency, BackupSchedule, BackupResult, VerifiedBackup } from './backup';
+
+// Chat Export
+export { chatExportService } from './export';
+export type { ChatExportFormat, ChatExportOptions, ChatExport } from './export';
+
 // Security
 export { securityService } from './security';
 export type { LockMethod, SecuritySettings, DisappearingMessageConfig } from './security';
@@ -4,11 +4,22 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
-import { db, type Message, type Conversation } from '../database';
-import { connectionManager, type PeerMessage } from '../p2p';
-import { identityService } from '../identity';
+import { db, type Message, type Conversation, type Contact, type HeldMessage } from '../database';
+import { connectionManager, type PeerMessage, type PreKeyBundleResponse } from '../p2p';
+import { identityService, parseAddress, userIdOf, PRIMARY_DEVICE_ID } from '../identity';
+import { deviceService } from '../devices';
+import { contactService } from '../contacts';
+import { sessionManager, type SessionEnvelope } from '../crypto/SessionManager';
+import { senderKeyManager, type SenderKeyDistribution, type SenderKeyMessage } from '../crypto/SenderKeys';
+import { securityService } from '../security';
+import { attachmentStore, fileTransferService, type FileTransfer, type StoredAttachment } from '../files';
 import _sodium from 'libsodium-wrappers';
 
+// Consecutive decryption failures from a peer before the session is reset
+const SESSION_RESET_THRESHOLD = 3;
+// Minimum time between resets with the same peer
+const SESSION_RESET_COOLDOWN = 60 * 1000;
+
 export interface SendMessageOptions {
   conversationId: string;
   content: string;
@@ -27,6 +38,16 @@ export interface ReceivedMessage {
   status: 'delivered' | 'read';
 }
 
+export interface GroupUpdate {
+  groupId: string;
+  name?: string;
+  participants: string[];
+}
+
+export interface EndSession {
+  failedMessageIds: string[];   // Messages we could not decrypt, for the peer to resend
+}
+
 export interface TypingState {
   peerId: string;
   isTyping: boolean;
@@ -36,6 +57,11 @@ export interface TypingState {
 class MessagingService extends EventEmitter {
   private sodium: typeof _sodium | null = null;
   private typingTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Message IDs that failed to decrypt, per peer, since the last success
+  private decryptFailures: Map<string, string[]> = new Map();
+  private lastSessionReset: Map<string, number> = new Map();
+  // Messages that arrived while session state was locked
+  private lockedInbox: (() => Promise<void>)[] = [];
   private initialized = false;
 
   async initialize(): Promise<void> {
@@ -44,6 +70,10 @@ class MessagingService extends EventEmitter {
     await _sodium.ready;
     this.sodium = _sodium;
 
+    await sessionManager.initialize();
+    await senderKeyManager.initialize();
+    await deviceService.initialize();
+
     // Set up P2P message handlers
     this.setupMessageHandlers();
 
@@ -52,36 +82,70 @@ class MessagingService extends EventEmitter {
   }
 
   private setupMessageHandlers(): void {
-    // Handle incoming text messages
-    connectionManager.on('message', async (data: { from: string; payload: any; timestamp: number; id: string }) => {
-      await this.handleIncomingMessage(data);
+    // Content must arrive inside an encrypted envelope
+    connectionManager.on('message', ({ from }: { from: string }) => {
+      console.warn('[Messaging] Dropped unencrypted message from:', from);
     });
 
-    // Handle typing indicators
-    connectionManager.on('typing', ({ peerId, isTyping }: { peerId: string; isTyping: boolean }) => {
-      this.handleTypingIndicator(peerId, isTyping);
+    // Handle incoming encrypted messages
+    connectionManager.on('encrypted', async (data: { from: string; payload: SessionEnvelope; timestamp: number; id: string }) => {
+      await this.whenUnlocked(() => this.handleEncryptedMessage(data));
     });
 
-    // Handle read receipts
-    connectionManager.on('read-receipt', ({ peerId, messageId }: { peerId: string; messageId: string }) => {
-      this.handleReadReceipt(peerId, messageId);
+    // Handle incoming group messages (sender key encrypted)
+    connectionManager.on('group', async (data: { from: string; payload: SenderKeyMessage; timestamp: number; id: string }) => {
+      await this.whenUnlocked(() => this.handleGroupMessage(data));
     });
 
-    // Handle delivery receipts
-    connectionManager.on('delivery-receipt', ({ peerId, messageId }: { peerId: string; messageId: string }) => {
-      this.handleDeliveryReceipt(peerId, messageId);
+    // Session state can be read again
+    securityService.on('unlocked', () => {
+      this.drainLockedInbox();
     });
 
     // Handle peer connection status
     connectionManager.on('peer-connected', (peerId: string) => {
-      this.emit('peer-online', peerId);
+      this.emit('peer-online', userIdOf(peerId));
       // Mark pending messages as deliverable
       this.retryPendingMessages(peerId);
     });
 
     connectionManager.on('peer-disconnected', (peerId: string) => {
-      this.emit('peer-offline', peerId);
+      this.emit('peer-offline', userIdOf(peerId));
+    });
+
+    // Sent through the relay while there was no data channel
+    connectionManager.on('message-relayed', ({ messageId }: { peerId: string; messageId: string }) => {
+      if (db.getMessage(messageId)?.status === 'sending') {
+        this.setMessageStatus(messageId, 'sent');
+      }
+    });
+
+    contactService.on('identity-key-changed', ({ contact }: { contact: Contact }) => {
+      this.handleIdentityKeyChange(contact);
     });
+
+    contactService.on('key-change-acknowledged', (contactId: string) => {
+      this.handleKeyChangeAcknowledged(contactId);
+    });
+
+    deviceService.on('device-revoked', (address: string) => {
+      this.notifyRevokedDevice(address);
+    });
+
+    // Files sent and received get a message of their own
+    fileTransferService.on('file-stored', (transfer: FileTransfer, attachment: StoredAttachment) => {
+      this.saveFileMessage(transfer, attachment);
+    });
+
+    fileTransferService.on('transfer-completed', (transfer: FileTransfer) => {
+      if (transfer.direction === 'send') this.setMessageStatus(transfer.id, 'sent');
+    });
+
+    for (const event of ['transfer-failed', 'transfer-cancelled']) {
+      fileTransferService.on(event, (transfer: FileTransfer) => {
+        if (transfer.direction === 'send') this.setMessageStatus(transfer.id, 'failed');
+      });
+    }
   }
 
   // ==================== Sending Messages ====================
@@ -115,35 +179,11 @@ class MessagingService extends EventEmitter {
     const conversation = db.getConversation(conversationId);
     if (!conversation) throw new Error('Conversation not found');
 
-    // Prepare P2P message
-    const peerMessage: PeerMessage = {
-      type: 'text',
-      id: message.id,
-      payload: {
-        content,
-        type,
-        replyToId,
-        senderName: identity.displayName,
-      },
-      timestamp: message.createdAt,
-    };
-
     // Send to peer(s)
-    const participants = JSON.parse(conversation.participants) as { id: string }[];
-    let delivered = false;
-
-    for (const participant of participants) {
-      if (participant.id !== identity.id) {
-        if (connectionManager.sendToPeer(participant.id, peerMessage)) {
-          delivered = true;
-        }
-      }
-    }
-
-    // Update status
-    message.status = delivered ? 'sent' : 'sending';
+    message.status = await this.sendToParticipants(conversation, this.toPeerMessage(message));
     message.updatedAt = Date.now();
     db.saveMessage(message);
+    this.emit('message-status', { messageId: message.id, status: message.status });
 
     return message;
   }
@@ -159,7 +199,7 @@ class MessagingService extends EventEmitter {
     
     for (const participant of participants) {
       if (participant.id !== identity.id) {
-        connectionManager.sendTypingIndicator(participant.id, isTyping);
+        await this.sendSignal(participant.id, 'typing', { isTyping });
       }
     }
   }
@@ -186,7 +226,7 @@ class MessagingService extends EventEmitter {
       
       for (const participant of participants) {
         if (participant.id !== identity.id) {
-          connectionManager.sendReadReceipt(participant.id, messageId);
+          await this.sendSignal(participant.id, 'read-receipt', { messageId });
         }
       }
     }
@@ -194,13 +234,408 @@ class MessagingService extends EventEmitter {
     this.emit('conversation-read', conversationId);
   }
 
+  private async sendToParticipants(conversation: Conversation, peerMessage: PeerMessage): Promise<Message['status']> {
+    if (conversation.type === 'group') {
+      return this.sendToGroup(conversation, peerMessage);
+    }
+
+    const identity = identityService.getIdentity();
+    if (!identity) throw new Error('No identity');
+
+    let sent = false;
+    let queued = false;
+
+    for (const participantId of this.getParticipantIds(conversation)) {
+      if (participantId === identity.id) continue;
+
+      if (contactService.hasPendingKeyChange(participantId)) {
+        this.holdMessage(participantId, conversation.id, peerMessage);
+        queued = true;
+        continue;
+      }
+
+      // Each of the participant's devices has a session of its own
+      for (const address of await deviceService.getDeviceAddresses(participantId)) {
+        try {
+          const encrypted = await this.encryptFor(address, peerMessage);
+          if (connectionManager.sendToPeer(address, encrypted)) {
+            sent = true;
+          } else {
+            queued = true;
+          }
+        } catch (error) {
+          console.error('[Messaging] Could not encrypt for peer:', address, error);
+        }
+      }
+    }
+
+    return sent ? 'sent' : queued ? 'sending' : 'failed';
+  }
+
+  private async sendToGroup(
+    conversation: Conversation,
+    peerMessage: PeerMessage,
+    recipients?: string[]
+  ): Promise<Message['status']> {
+    const identity = identityService.getIdentity();
+    if (!identity) throw new Error('No identity');
+
+    const members: string[] = [];
+    let held = false;
+    for (const memberId of recipients ?? this.getParticipantIds(conversation)) {
+      if (memberId === identity.id) continue;
+
+      if (contactService.hasPendingKeyChange(memberId)) {
+        this.holdMessage(memberId, conversation.id, peerMessage);
+        held = true;
+      } else {
+        members.push(memberId);
+      }
+    }
+
+    // Sender keys are per device, on both ends
+    const ownAddress = identityService.getAddress()!;
+    const devices = (await Promise.all(members.map(id => deviceService.getDeviceAddresses(id)))).flat();
+
+    // Devices without our current sender key get it over their pairwise session first
+    const distribution = senderKeyManager.getDistribution(conversation.id, ownAddress);
+    const undistributed = senderKeyManager.getUndistributed(conversation.id, ownAddress, devices);
+    const unreachable: string[] = [];
+
+    for (const memberId of undistributed) {
+      try {
+        const encrypted = await this.encryptFor(memberId, {
+          type: 'sender-key',
+          id: crypto.randomUUID(),
+          payload: distribution,
+          timestamp: Date.now(),
+        });
+        connectionManager.sendToPeer(memberId, encrypted);
+      } catch (error) {
+        console.error('[Messaging] Could not send sender key to:', memberId, error);
+        unreachable.push(memberId);
+      }
+    }
+    senderKeyManager.markDistributed(
+      conversation.id,
+      ownAddress,
+      undistributed.filter(id => !unreachable.includes(id))
+    );
+
+    // One encryption; every member gets the same ciphertext
+    const groupMessage: PeerMessage = {
+      type: 'group',
+      id: peerMessage.id,
+      payload: senderKeyManager.encrypt(conversation.id, ownAddress, JSON.stringify(peerMessage)),
+      timestamp: peerMessage.timestamp,
+    };
+
+    let sent = false;
+    let queued = held;
+
+    for (const memberId of devices) {
+      if (unreachable.includes(memberId)) continue;
+
+      if (connectionManager.sendToPeer(memberId, groupMessage)) {
+        sent = true;
+      } else {
+        queued = true;
+      }
+    }
+
+    return sent ? 'sent' : queued ? 'sending' : 'failed';
+  }
+
+  private async sendGroupUpdate(conversation: Conversation, recipients: string[]): Promise<void> {
+    const identity = identityService.getIdentity();
+    if (!identity) throw new Error('No identity');
+
+    const update: GroupUpdate = {
+      groupId: conversation.id,
+      name: conversation.name,
+      participants: this.getParticipantIds(conversation),
+    };
+
+    for (const recipientId of recipients) {
+      if (recipientId === identity.id) continue;
+
+      for (const address of await deviceService.getDeviceAddresses(recipientId)) {
+        try {
+          const encrypted = await this.encryptFor(address, {
+            type: 'group-update',
+            id: crypto.randomUUID(),
+            payload: update,
+            timestamp: Date.now(),
+          });
+          connectionManager.sendToPeer(address, encrypted);
+        } catch (error) {
+          console.error('[Messaging] Could not send group update to:', address, error);
+        }
+      }
+    }
+  }
+
+  private async encryptFor(peerId: string, peerMessage: PeerMessage): Promise<PeerMessage> {
+    // The identity key and pre-key bundle are only needed to start a new session
+    let identityKey = '';
+    let bundle: PreKeyBundleResponse | null = null;
+    if (!sessionManager.hasSession(peerId)) {
+      bundle = await connectionManager.fetchPreKeyBundle(peerId);
+      // Only a contact's primary may start out unverified; other devices need a certified key
+      identityKey = await this.resolveIdentityKey(peerId) ??
+        (this.isContactPrimary(peerId) ? bundle?.identityKey ?? '' : '');
+      if (!identityKey) throw new Error('Unknown identity key');
+
+      if (bundle && bundle.identityKey !== identityKey) {
+        console.warn('[Messaging] Ignoring pre-key bundle for a different identity:', peerId);
+        bundle = null;
+      }
+    }
+
+    const envelope = await sessionManager.encrypt(peerId, identityKey, JSON.stringify(peerMessage), bundle);
+
+    return {
+      type: 'encrypted',
+      id: peerMessage.id,
+      payload: envelope,
+      timestamp: peerMessage.timestamp,
+    };
+  }
+
+  /**
+   * Typing indicators and receipts go through the peer's session like any
+   * other message, so padding makes them look like short texts
+   */
+  private async sendSignal(
+    peerId: string,
+    type: 'typing' | 'read-receipt' | 'delivery-receipt',
+    payload: unknown
+  ): Promise<void> {
+    if (contactService.hasPendingKeyChange(peerId)) return;
+
+    for (const address of await deviceService.getDeviceAddresses(peerId)) {
+      try {
+        const encrypted = await this.encryptFor(address, {
+          type,
+          id: crypto.randomUUID(),
+          payload,
+          timestamp: Date.now(),
+        });
+        connectionManager.sendToPeer(address, encrypted);
+      } catch (error) {
+        console.error('[Messaging] Could not send', type, 'to:', address, error);
+      }
+    }
+  }
+
+  /**
+   * The identity key to start a session with. The signaling server's word
+   * is not taken for it; without a known key a contact's primary is
+   * reached through its self-signed pre-key bundle, unverified.
+   */
+  private async resolveIdentityKey(peerId: string): Promise<string | null> {
+    if (this.isContactPrimary(peerId)) return this.getContactIdentityKey(userIdOf(peerId));
+
+    // Linked devices and our own have the key certified in the device list
+    return deviceService.getIdentityKey(peerId);
+  }
+
+  // Only a contact's primary uses the account key, and can change it
+  private isContactPrimary(peerId: string): boolean {
+    const { userId, deviceId } = parseAddress(peerId);
+    return deviceId === PRIMARY_DEVICE_ID && userId !== identityService.getIdentity()?.id;
+  }
+
+  // The key the user has accepted for a contact
+  private getContactIdentityKey(userId: string): string | null {
+    const contact = db.getContact(userId) || db.getContactByIdentityKey(userId);
+    return contact && /^[0-9a-f]{64}$/i.test(contact.identityKey) ? contact.identityKey : null;
+  }
+
   // ==================== Receiving Messages ====================
 
-  private async handleIncomingMessage(data: { from: string; payload: any; timestamp: number; id: string }): Promise<void> {
+  private async handleEncryptedMessage(data: { from: string; payload: SessionEnvelope; timestamp: number; id: string }): Promise<void> {
+    const { from, payload } = data;
+
+    // Sessions are per device; everything else is per user
+    const userId = userIdOf(from);
+    const isContactPrimary = this.isContactPrimary(from);
+
+    // Other devices have no key change: their key is the one the primary certified
+    let trustedKey: string | undefined;
+    if (isContactPrimary) {
+      trustedKey = this.getContactIdentityKey(userId) ?? undefined;
+    } else {
+      trustedKey = await deviceService.getIdentityKey(from) ?? undefined;
+      if (!trustedKey || (payload.ik && payload.ik !== trustedKey)) {
+        console.warn('[Messaging] Dropped message from a device with an uncertified key:', from);
+        return;
+      }
+    }
+
+    let inner: PeerMessage;
+    try {
+      inner = JSON.parse(await sessionManager.decrypt(from, payload, trustedKey)) as PeerMessage;
+    } catch (error) {
+      console.error('[Messaging] Failed to decrypt message from:', from, error);
+      await this.handleDecryptFailure(from, data.id);
+      return;
+    }
+    this.decryptFailures.delete(from);
+
+    // A pre-key message that decrypted proves the sender holds this identity
+    // key. Nothing from a new key is acted on until the user accepts it.
+    if (payload.ik && isContactPrimary && contactService.checkIdentityKey(userId, payload.ik)) {
+      if (inner.type !== 'typing') this.holdIncoming(userId, from, inner);
+      return;
+    }
+
+    await this.dispatchMessage(from, inner);
+  }
+
+  private async dispatchMessage(from: string, inner: PeerMessage): Promise<void> {
+    const userId = userIdOf(from);
+    const isOwnDevice = userId === identityService.getIdentity()?.id;
+
+    switch (inner.type) {
+      case 'sender-key':
+        this.handleSenderKey(from, inner.payload);
+        break;
+
+      case 'group-update':
+        this.handleGroupUpdate(userId, inner.payload);
+        break;
+
+      case 'typing':
+        this.handleTypingIndicator(userId, inner.payload.isTyping);
+        break;
+
+      case 'read-receipt':
+        this.handleReadReceipt(userId, inner.payload.messageId);
+        break;
+
+      case 'delivery-receipt':
+        this.handleDeliveryReceipt(userId, inner.payload.messageId);
+        break;
+
+      case 'end-session':
+        await this.handleEndSession(from, inner.payload);
+        break;
+
+      case 'device-revoked':
+        if (isOwnDevice) await deviceService.handleRevocation(from);
+        break;
+
+      default:
+        if (!isOwnDevice) await this.handleContent(userId, inner);
+    }
+  }
+
+  private async handleGroupMessage(data: { from: string; payload: SenderKeyMessage; timestamp: number; id: string }): Promise<void> {
+    const { from, payload } = data;
+
+    const conversation = db.getConversation(payload.g);
+    if (!conversation || conversation.type !== 'group' || !this.getParticipantIds(conversation).includes(userIdOf(from))) {
+      console.warn('[Messaging] Dropped group message from non-member:', from);
+      return;
+    }
+
+    let inner: PeerMessage;
+    try {
+      inner = JSON.parse(senderKeyManager.decrypt(from, payload)) as PeerMessage;
+    } catch (error) {
+      console.error('[Messaging] Failed to decrypt group message from:', from, error);
+      return;
+    }
+
+    await this.handleContent(userIdOf(from), inner, conversation);
+  }
+
+  private async handleContent(from: string, inner: PeerMessage, conversation?: Conversation): Promise<void> {
+    switch (inner.type) {
+      case 'text':
+        await this.handleIncomingMessage({ from, payload: inner.payload, timestamp: inner.timestamp, id: inner.id }, conversation);
+        break;
+
+      case 'edit':
+        this.handleIncomingEdit(from, inner.payload);
+        break;
+
+      case 'reaction':
+        this.handleIncomingReaction(from, inner.payload);
+        break;
+
+      default:
+        console.warn('[Messaging] Unknown encrypted message type:', inner.type);
+    }
+  }
+
+  private handleSenderKey(peerId: string, distribution: SenderKeyDistribution): void {
+    const conversation = db.getConversation(distribution.groupId);
+    if (!conversation || conversation.type !== 'group' || !this.getParticipantIds(conversation).includes(userIdOf(peerId))) {
+      console.warn('[Messaging] Ignored sender key from non-member:', peerId);
+      return;
+    }
+
+    senderKeyManager.processDistribution(peerId, distribution);
+  }
+
+  private handleGroupUpdate(peerId: string, update: GroupUpdate): void {
+    const identity = identityService.getIdentity();
+    if (!identity) return;
+
+    const existing = db.getConversation(update.groupId);
+    const previous = existing ? this.getParticipantIds(existing) : [];
+
+    // Only members may change a group; a new group must include its creator and us
+    if (existing) {
+      if (existing.type !== 'group' || !previous.includes(peerId)) return;
+    } else if (!update.participants.includes(peerId) || !update.participants.includes(identity.id)) {
+      return;
+    }
+
+    const conversation: Conversation = existing ?? {
+      id: update.groupId,
+      type: 'group',
+      participants: '[]',
+      encryptionEnabled: true,
+      isPinned: false,
+      isMuted: false,
+      isArchived: false,
+      unreadCount: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    conversation.name = update.name;
+    conversation.participants = JSON.stringify(update.participants.map(id => ({ id })));
+    conversation.updatedAt = Date.now();
+    db.saveConversation(conversation);
+
+    if (!update.participants.includes(identity.id)) {
+      // We were removed
+      senderKeyManager.deleteGroup(update.groupId);
+    } else if (existing && (previous.length !== update.participants.length || previous.some(id => !update.participants.includes(id)))) {
+      // Membership changed: start a new sender key, forget removed members' keys
+      senderKeyManager.rotate(update.groupId, identityService.getAddress()!);
+      previous
+        .filter(id => !update.participants.includes(id))
+        .forEach(id => senderKeyManager.removeMember(update.groupId, id));
+    }
+
+    this.emit(existing ? 'conversation-updated' : 'conversation-created', conversation);
+  }
+
+  private async handleIncomingMessage(
+    data: { from: string; payload: any; timestamp: number; id: string },
+    groupConversation?: Conversation
+  ): Promise<void> {
     const { from, payload, timestamp, id } = data;
 
+    // Resent after a session reset, but we already have it
+    if (db.getMessage(id)) return;
+
     // Find or create conversation with this peer
-    let conversation = this.findConversationWithPeer(from);
+    let conversation = groupConversation ?? this.findConversationWithPeer(from);
     
     if (!conversation) {
       // Create new conversation
@@ -251,7 +686,7 @@ class MessagingService extends EventEmitter {
     db.saveConversation(conversation);
 
     // Send delivery receipt
-    connectionManager.sendDeliveryReceipt(from, id);
+    await this.sendSignal(from, 'delivery-receipt', { messageId: id });
 
     // Emit event for UI
     this.emit('message-received', {
@@ -263,6 +698,28 @@ class MessagingService extends EventEmitter {
     this.showNotification(payload.senderName || 'New Message', payload.content);
   }
 
+  private handleIncomingEdit(peerId: string, payload: { messageId: string; content: string }): void {
+    const message = db.getMessage(payload.messageId);
+    if (!message || message.senderId !== peerId) return;
+
+    message.content = payload.content;
+    message.isEdited = true;
+    message.updatedAt = Date.now();
+
+    db.saveMessage(message);
+    this.emit('message-edited', message);
+  }
+
+  private handleIncomingReaction(peerId: string, payload: { messageId: string; reaction: string; remove?: boolean }): void {
+    const message = db.getMessage(payload.messageId);
+    if (!message) return;
+
+    this.applyReaction(message, payload.reaction, peerId, !!payload.remove);
+
+    const event = payload.remove ? 'message-reaction-removed' : 'message-reaction';
+    this.emit(event, { messageId: payload.messageId, reaction: payload.reaction, userId: peerId });
+  }
+
   private handleTypingIndicator(peerId: string, isTyping: boolean): void {
     // Clear existing timer
     const existingTimer = this.typingTimers.get(peerId);
@@ -296,6 +753,55 @@ class MessagingService extends EventEmitter {
     }
   }
 
+  // ==================== File Messages ====================
+
+  /**
+   * Save the message for a file sent or received, under the transfer id,
+   * and reference the stored file from it: the file is kept as long as the
+   * message is.
+   */
+  private saveFileMessage(transfer: FileTransfer, attachment: StoredAttachment): void {
+    const identity = identityService.getIdentity();
+    if (!identity || db.getMessage(transfer.id)) return;
+
+    const peerId = userIdOf(transfer.peerId);
+    const incoming = transfer.direction === 'receive';
+    const senderName = db.getContact(peerId)?.displayName || 'Unknown';
+
+    try {
+      const conversation = this.createDirectConversation(peerId, senderName);
+      const now = Date.now();
+      const message: Message = {
+        id: transfer.id,
+        conversationId: conversation.id,
+        senderId: incoming ? peerId : identity.id,
+        type: attachment.mimeType.startsWith('image/') ? 'image' : 'file',
+        content: transfer.metadata.name,
+        status: incoming ? 'delivered' : 'sending',
+        isEdited: false,
+        isDeleted: false,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      db.saveMessage(message);
+      attachmentStore.attach(message.id, { ...attachment, name: transfer.metadata.name });
+
+      if (incoming) conversation.unreadCount = (conversation.unreadCount || 0) + 1;
+      conversation.lastMessageId = message.id;
+      conversation.updatedAt = now;
+      db.saveConversation(conversation);
+
+      if (incoming) {
+        this.emit('message-received', { ...message, senderName });
+      } else {
+        this.emit('message-sent', message);
+      }
+    } catch (error) {
+      console.error('[Messaging] Failed to save file message:', transfer.id, error);
+    }
+  }
+
   // ==================== Conversation Management ====================
 
   createDirectConversation(peerId: string, displayName: string): Conversation {
@@ -333,7 +839,7 @@ class MessagingService extends EventEmitter {
     const identity = identityService.getIdentity();
     if (!identity) throw new Error('No identity');
 
-    const allParticipants = [identity.id, ...participants];
+    const allParticipants = Array.from(new Set([identity.id, ...participants]));
 
     const conversation: Conversation = {
       id: crypto.randomUUID(),
@@ -352,6 +858,37 @@ class MessagingService extends EventEmitter {
     db.saveConversation(conversation);
     this.emit('conversation-created', conversation);
 
+    this.sendGroupUpdate(conversation, allParticipants).catch((error) => {
+      console.error('[Messaging] Failed to announce group:', error);
+    });
+
+    return conversation;
+  }
+
+  async updateGroupParticipants(conversationId: string, participants: string[]): Promise<Conversation> {
+    const identity = identityService.getIdentity();
+    if (!identity) throw new Error('No identity');
+
+    const conversation = db.getConversation(conversationId);
+    if (!conversation || conversation.type !== 'group') throw new Error('Group not found');
+
+    const previous = this.getParticipantIds(conversation);
+    const next = Array.from(new Set([identity.id, ...participants]));
+
+    conversation.participants = JSON.stringify(next.map(id => ({ id })));
+    conversation.updatedAt = Date.now();
+    db.saveConversation(conversation);
+
+    // Members who left must not read anything sent from now on
+    senderKeyManager.rotate(conversationId, identityService.getAddress()!);
+    previous
+      .filter(id => !next.includes(id))
+      .forEach(id => senderKeyManager.removeMember(conversationId, id));
+
+    // Removed members are told too, so they stop treating the group as active
+    await this.sendGroupUpdate(conversation, Array.from(new Set([...previous, ...next])));
+    this.emit('conversation-updated', conversation);
+
     return conversation;
   }
 
@@ -369,11 +906,47 @@ class MessagingService extends EventEmitter {
 
   deleteConversation(id: string): void {
     db.deleteConversation(id);
+    senderKeyManager.deleteGroup(id);
     this.emit('conversation-deleted', id);
+    this.releaseAttachments();
   }
 
   // ==================== Utilities ====================
 
+  private toPeerMessage(message: Message): PeerMessage {
+    return {
+      type: 'text',
+      id: message.id,
+      payload: {
+        content: message.content,
+        type: message.type,
+        replyToId: message.replyToId,
+        senderName: identityService.getIdentity()?.displayName,
+      },
+      timestamp: message.createdAt,
+    };
+  }
+
+  // Files of deleted messages that nothing else references
+  private releaseAttachments(): void {
+    attachmentStore.collectGarbage().catch((error) => {
+      console.error('[Messaging] Failed to remove attachments:', error);
+    });
+  }
+
+  private setMessageStatus(messageId: string, status: Message['status']): void {
+    db.updateMessageStatus(messageId, status);
+    this.emit('message-status', { messageId, status });
+  }
+
+  private getParticipantIds(conversation: Conversation): string[] {
+    try {
+      return (JSON.parse(conversation.participants) as { id: string }[]).map(p => p.id);
+    } catch {
+      return [];
+    }
+  }
+
   private findConversationWithPeer(peerId: string): Conversation | null {
     const conversations = db.getAllConversations();
     
@@ -405,7 +978,7 @@ class MessagingService extends EventEmitter {
           // Update message status
           const dbMessage = db.getMessage(message.id);
           if (dbMessage) {
-            db.updateMessageStatus(message.id, 'sent');
+            this.setMessageStatus(message.id, 'sent');
           }
         }
       } catch (error) {
@@ -414,6 +987,230 @@ class MessagingService extends EventEmitter {
     }
   }
 
+  // ==================== Locked Inbox ====================
+
+  private async whenUnlocked(handler: () => Promise<void>): Promise<void> {
+    if (sessionManager.isLocked()) {
+      this.lockedInbox.push(handler);
+      return;
+    }
+
+    await handler();
+  }
+
+  private async drainLockedInbox(): Promise<void> {
+    const inbox = this.lockedInbox;
+    this.lockedInbox = [];
+
+    for (const handler of inbox) {
+      await this.whenUnlocked(handler);
+    }
+  }
+
+  // ==================== Session Recovery ====================
+
+  /**
+   * A session that keeps failing is beyond repair: drop it and start a
+   * new one with an end-session message. The new session's pre-key
+   * message authenticates it, and it lists what the peer should resend.
+   */
+  private async handleDecryptFailure(peerId: string, messageId: string): Promise<void> {
+    const failed = this.decryptFailures.get(peerId) ?? [];
+    if (!failed.includes(messageId)) failed.push(messageId);
+    this.decryptFailures.set(peerId, failed);
+
+    if (failed.length < SESSION_RESET_THRESHOLD) return;
+    if (Date.now() - (this.lastSessionReset.get(peerId) ?? 0) < SESSION_RESET_COOLDOWN) return;
+
+    console.warn('[Messaging] Resetting session after repeated failures:', peerId);
+    this.decryptFailures.delete(peerId);
+    this.lastSessionReset.set(peerId, Date.now());
+    sessionManager.deleteSession(peerId);
+
+    const endSession: EndSession = { failedMessageIds: failed };
+    try {
+      const encrypted = await this.encryptFor(peerId, {
+        type: 'end-session',
+        id: crypto.randomUUID(),
+        payload: endSession,
+        timestamp: Date.now(),
+      });
+      connectionManager.sendToPeer(peerId, encrypted);
+    } catch (error) {
+      console.error('[Messaging] Could not send end-session to:', peerId, error);
+    }
+
+    this.addSessionResetNotice(peerId);
+  }
+
+  /**
+   * The peer reset our session. It arrived over the new session, which
+   * is now ours too; resend what they could not read.
+   */
+  private async handleEndSession(peerId: string, endSession: EndSession): Promise<void> {
+    console.log('[Messaging] Session reset by peer:', peerId);
+    this.decryptFailures.delete(peerId);
+    this.lastSessionReset.set(peerId, Date.now());
+    this.addSessionResetNotice(peerId);
+
+    const identity = identityService.getIdentity();
+    if (!identity) return;
+
+    for (const messageId of endSession.failedMessageIds ?? []) {
+      const message = db.getMessage(messageId);
+      if (!message || message.senderId !== identity.id || message.isDeleted) continue;
+
+      const conversation = db.getConversation(message.conversationId);
+      if (conversation?.type !== 'direct' || !this.getParticipantIds(conversation).includes(userIdOf(peerId))) continue;
+
+      try {
+        const encrypted = await this.encryptFor(peerId, this.toPeerMessage(message));
+        if (connectionManager.sendToPeer(peerId, encrypted)) {
+          this.setMessageStatus(message.id, 'sent');
+        }
+      } catch (error) {
+        console.error('[Messaging] Failed to resend message:', messageId, error);
+      }
+    }
+  }
+
+  private addSessionResetNotice(peerId: string): void {
+    const conversation = this.findConversationWithPeer(userIdOf(peerId));
+    if (conversation) {
+      this.addSystemMessage(conversation, 'The secure session was reset. Messages that could not be decrypted will be resent.');
+    }
+  }
+
+  /**
+   * Tell a device we unlinked to wipe itself. The notice goes over its
+   * current session, which we drop right after.
+   */
+  private async notifyRevokedDevice(address: string): Promise<void> {
+    try {
+      const encrypted = await this.encryptFor(address, {
+        type: 'device-revoked',
+        id: crypto.randomUUID(),
+        payload: {},
+        timestamp: Date.now(),
+      });
+      connectionManager.sendToPeer(address, encrypted);
+    } catch (error) {
+      console.error('[Messaging] Could not notify unlinked device:', address, error);
+    }
+
+    sessionManager.deleteSession(address);
+  }
+
+  // ==================== Identity Key Changes ====================
+
+  private handleIdentityKeyChange(contact: Contact): void {
+    const identity = identityService.getIdentity();
+    if (!identity) return;
+
+    const notice = `${contact.displayName}'s safety number has changed. Messages to and from them are held until you acknowledge the change.`;
+
+    for (const conversation of db.getAllConversations()) {
+      if (!this.getParticipantIds(conversation).includes(contact.id)) continue;
+
+      this.addSystemMessage(conversation, notice);
+
+      // The old key may have been compromised: members get a new sender key
+      if (conversation.type === 'group') {
+        senderKeyManager.rotate(conversation.id, identityService.getAddress()!);
+      }
+    }
+  }
+
+  private addSystemMessage(conversation: Conversation, content: string): void {
+    const now = Date.now();
+    const message: Message = {
+      id: crypto.randomUUID(),
+      conversationId: conversation.id,
+      senderId: 'system',
+      type: 'system',
+      content,
+      status: 'delivered',
+      isEdited: false,
+      isDeleted: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    db.saveMessage(message);
+    this.emit('system-message', message);
+  }
+
+  private holdMessage(peerId: string, conversationId: string, message: PeerMessage): void {
+    db.addHeldMessage({
+      id: crypto.randomUUID(),
+      contactId: peerId,
+      direction: 'outgoing',
+      conversationId,
+      payload: JSON.stringify(message),
+      createdAt: Date.now(),
+    });
+  }
+
+  private holdIncoming(userId: string, from: string, message: PeerMessage): void {
+    db.addHeldMessage({
+      id: crypto.randomUUID(),
+      contactId: userId,
+      direction: 'incoming',
+      senderAddress: from,
+      payload: JSON.stringify(message),
+      createdAt: Date.now(),
+    });
+  }
+
+  /**
+   * The user accepted a contact's new identity key: sessions with the old
+   * key end, pending ones with the new key take over, and what was held
+   * goes through
+   */
+  private async handleKeyChangeAcknowledged(contactId: string): Promise<void> {
+    const addresses = new Set([
+      ...sessionManager.getSessionInfo(contactId).map(session => session.peerId),
+      ...sessionManager.getPendingSessionPeerIds(contactId),
+    ]);
+    addresses.forEach(address => sessionManager.promotePendingSession(address));
+
+    await this.releaseHeldMessages(contactId);
+  }
+
+  private async releaseHeldMessages(peerId: string): Promise<void> {
+    const held = db.getHeldMessages(peerId);
+    if (!held.length) return;
+    db.removeHeldMessages(peerId);
+
+    for (const entry of held) {
+      try {
+        await this.releaseHeldMessage(peerId, entry);
+      } catch (error) {
+        console.error('[Messaging] Failed to release held message:', error);
+      }
+    }
+  }
+
+  private async releaseHeldMessage(peerId: string, entry: HeldMessage): Promise<void> {
+    const message = JSON.parse(entry.payload) as PeerMessage;
+
+    if (entry.direction === 'incoming') {
+      await this.dispatchMessage(entry.senderAddress ?? peerId, message);
+      return;
+    }
+
+    const conversation = entry.conversationId ? db.getConversation(entry.conversationId) : null;
+    if (!conversation) return;
+
+    const status = conversation.type === 'group'
+      ? await this.sendToGroup(conversation, message, [peerId])
+      : await this.sendToParticipants(conversation, message);
+
+    if (message.type === 'text' && status === 'sent') {
+      this.setMessageStatus(message.id, 'sent');
+    }
+  }
+
   private showNotification(title: string, body: string): void {
     // Use Electron API if available
     if (window.electronAPI?.notifications) {
@@ -427,6 +1224,7 @@ class MessagingService extends EventEmitter {
   deleteMessage(conversationId: string, messageId: string, forEveryone = false): void {
     db.deleteMessage(messageId, !forEveryone);
     this.emit('message-deleted', { conversationId, messageId, forEveryone });
+    this.releaseAttachments();
   }
 
   // Edit a message
@@ -445,6 +1243,16 @@ class MessagingService extends EventEmitter {
     
     db.saveMessage(message);
     this.emit('message-edited', message);
+
+    const conversation = db.getConversation(message.conversationId);
+    if (conversation) {
+      await this.sendToParticipants(conversation, {
+        type: 'edit',
+        id: crypto.randomUUID(),
+        payload: { messageId, content: newContent },
+        timestamp: message.updatedAt,
+      });
+    }
   }
 
   // Add reaction to message
@@ -455,24 +1263,9 @@ class MessagingService extends EventEmitter {
     const identity = identityService.getIdentity();
     if (!identity) return;
 
-    let reactions: Record<string, string[]> = {};
-    try {
-      reactions = message.reactions ? JSON.parse(message.reactions) : {};
-    } catch {}
-
-    if (!reactions[reaction]) {
-      reactions[reaction] = [];
-    }
-
-    if (!reactions[reaction].includes(identity.id)) {
-      reactions[reaction].push(identity.id);
-    }
-
-    message.reactions = JSON.stringify(reactions);
-    message.updatedAt = Date.now();
-    
-    db.saveMessage(message);
+    this.applyReaction(message, reaction, identity.id, false);
     this.emit('message-reaction', { messageId, reaction, userId: identity.id });
+    this.sendReaction(message, reaction, false);
   }
 
   // Remove reaction from message
@@ -483,15 +1276,30 @@ class MessagingService extends EventEmitter {
     const identity = identityService.getIdentity();
     if (!identity) return;
 
+    this.applyReaction(message, reaction, identity.id, true);
+    this.emit('message-reaction-removed', { messageId, reaction, userId: identity.id });
+    this.sendReaction(message, reaction, true);
+  }
+
+  private applyReaction(message: Message, reaction: string, userId: string, remove: boolean): void {
     let reactions: Record<string, string[]> = {};
     try {
       reactions = message.reactions ? JSON.parse(message.reactions) : {};
     } catch {}
 
-    if (reactions[reaction]) {
-      reactions[reaction] = reactions[reaction].filter(id => id !== identity.id);
-      if (reactions[reaction].length === 0) {
-        delete reactions[reaction];
+    if (remove) {
+      if (reactions[reaction]) {
+        reactions[reaction] = reactions[reaction].filter(id => id !== userId);
+        if (reactions[reaction].length === 0) {
+          delete reactions[reaction];
+        }
+      }
+    } else {
+      if (!reactions[reaction]) {
+        reactions[reaction] = [];
+      }
+      if (!reactions[reaction].includes(userId)) {
+        reactions[reaction].push(userId);
       }
     }
 
@@ -499,7 +1307,18 @@ class MessagingService extends EventEmitter {
     message.updatedAt = Date.now();
     
     db.saveMessage(message);
-    this.emit('message-reaction-removed', { messageId, reaction, userId: identity.id });
+  }
+
+  private sendReaction(message: Message, reaction: string, remove: boolean): void {
+    const conversation = db.getConversation(message.conversationId);
+    if (!conversation) return;
+
+    this.sendToParticipants(conversation, {
+      type: 'reaction',
+      id: crypto.randomUUID(),
+      payload: { messageId: message.id, reaction, remove },
+      timestamp: Date.now(),
+    }).catch((error) => console.error('[Messaging] Failed to send reaction:', error));
   }
 }
 
@@ -3,4 +3,4 @@
  */
 
 export { messagingService, default } from './MessagingService';
-export type { SendMessageOptions, ReceivedMessage, TypingState } from './MessagingService';
+export type { SendMessageOptions, ReceivedMessage, TypingState, GroupUpdate, EndSession } from './MessagingService';
@@ -5,8 +5,19 @@
 
 import SimplePeer, { Instance as SimplePeerInstance, SignalData as SimplePeerSignalData } from 'simple-peer';
 import { io, Socket } from 'socket.io-client';
-import { identityService } from '../identity';
+import sodium from 'libsodium-wrappers';
+import { identityService, keyMaintenanceService, type PublicPreKey, type PublicSignedPreKey, type PublicKemPreKey } from '../identity';
 import { db } from '../database';
+import { deviceService } from '../devices';
+import { sealMessage, unsealMessage, type SealedContent } from '../crypto/SealedSender';
+import {
+  JSON_WIRE_VERSION,
+  SUPPORTED_WIRE_VERSIONS,
+  encodeJson,
+  encodeMessage,
+  decodeMessage,
+  negotiateWireVersion,
+} from './WireFormat';
 import { EventEmitter } from 'eventemitter3';
 
 // Types
@@ -16,6 +27,7 @@ export interface PeerConnection {
   peer: SimplePeerInstance;
   status: 'connecting' | 'connected' | 'disconnected' | 'failed';
   lastSeen: number;
+  wireVersion: number;    // JSON until the peer's hello arrives
 }
 
 export interface SignalData {
@@ -25,14 +37,66 @@ export interface SignalData {
 }
 
 export interface PeerMessage {
-  type: 'text' | 'file-meta' | 'file-chunk' | 'typing' | 'read-receipt' | 'delivery-receipt' | 'key-exchange';
+  type: 'hello' | 'text' | 'edit' | 'reaction' | 'encrypted' | 'group' | 'sender-key' | 'group-update' | 'end-session' | 'device-revoked' | 'file-meta' | 'file-chunk' | 'typing' | 'read-receipt' | 'delivery-receipt' | 'key-exchange';
   id: string;
   payload: any;
   timestamp: number;
 }
 
+// Pre-key bundle handed out by the signaling server's pre-key directory
+export interface PreKeyBundleResponse {
+  peerId: string;
+  identityKey: string;               // Ed25519, hex
+  signedPreKey: PublicSignedPreKey;
+  oneTimePreKey?: PublicPreKey;      // Absent once the peer's stock runs out
+  kemPreKey?: PublicKemPreKey;       // Absent for peers without post-quantum support
+}
+
+// One device in a device list, with the identity key the primary certifies for it
+export interface DeviceListEntry {
+  id: number;
+  identityKey: string;    // Ed25519, hex; the account key for the primary
+}
+
+// Signed list of a user's devices, from the signaling server's device directory
+export interface SignedDeviceList {
+  userId: string;
+  identityKey: string;    // Account key (Ed25519, hex)
+  version: number;
+  devices: DeviceListEntry[];
+  signature: string;      // Account key signature, base64
+}
+
+// Sent by a new device over the linking channel named in the primary's QR code
+export interface ProvisioningRequest {
+  channelId: string;
+  publicKey: string;      // New device's ephemeral X25519 key, base64
+  identityKey: string;    // New device's own identity key (Ed25519), hex
+  deviceName: string;
+  mac: string;            // Keyed with the QR code's secret, which the server never sees
+}
+
+export interface ProvisioningEnvelope {
+  channelId: string;
+  nonce: string;
+  ciphertext: string;
+}
+
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
+// How long a new device waits for the primary to answer its linking request
+const PROVISIONING_TIMEOUT = 5 * 60 * 1000;
+
+// How long to wait for the server to answer a pre-key directory request
+const PREKEY_DIRECTORY_TIMEOUT = 5000;
+
+// How long to wait for the server to hand a relayed message over
+const RELAY_TIMEOUT = 5000;
+
+// Messages that may go through the relay when there is no data channel:
+// end-to-end encrypted ones. Files need the data channel.
+const RELAYED_MESSAGE_TYPES = new Set<PeerMessage['type']>(['encrypted', 'group']);
+
 class ConnectionManager extends EventEmitter {
   private socket: Socket | null = null;
   private peers: Map<string, PeerConnection> = new Map();
@@ -42,10 +106,16 @@ class ConnectionManager extends EventEmitter {
   private maxReconnectAttempts = 10;
   private myPeerId: string = '';
   private currentRoom: string | null = null;
+  private replenishingPreKeys = false;
 
   constructor() {
     super();
     this.signalingUrl = import.meta.env.VITE_SIGNALING_URL || 'http://localhost:3001';
+
+    // Republish after a signed pre-key rotation or one-time pre-key top-up
+    keyMaintenanceService.on('prekeys-changed', () => {
+      if (this.status === 'connected') this.uploadPreKeys().catch(console.error);
+    });
   }
 
   // ==================== Connection Management ====================
@@ -60,7 +130,7 @@ class ConnectionManager extends EventEmitter {
       const identity = identityService.getIdentity();
       if (!identity) throw new Error('No identity');
 
-      this.myPeerId = identity.id;
+      this.myPeerId = identityService.getAddress()!;
 
       console.log('[P2P] Connecting to signaling server:', this.signalingUrl);
       
@@ -74,7 +144,7 @@ class ConnectionManager extends EventEmitter {
         timeout: 20000,
         auth: {
           peerId: this.myPeerId,
-          publicKey: identity.publicKey,
+          publicKey: identityService.getDeviceKey(),
         },
       });
 
@@ -198,6 +268,7 @@ class ConnectionManager extends EventEmitter {
       peer,
       status: 'connecting',
       lastSeen: Date.now(),
+      wireVersion: JSON_WIRE_VERSION,
     };
 
     this.peers.set(peerId, connection);
@@ -245,17 +316,33 @@ class ConnectionManager extends EventEmitter {
       connection.lastSeen = Date.now();
       this.emit('peer-connected', peerId);
 
+      // Offer our wire versions; the hello itself is JSON so older clients can read it
+      this.sendToPeer(peerId, {
+        type: 'hello',
+        id: crypto.randomUUID(),
+        payload: { wireVersions: SUPPORTED_WIRE_VERSIONS },
+        timestamp: Date.now(),
+      });
+
       // Send any pending messages
       this.sendPendingMessages(peerId);
     });
 
     peer.on('data', (data: Uint8Array) => {
+      let message: PeerMessage;
       try {
-        const message: PeerMessage = JSON.parse(new TextDecoder().decode(data));
-        this.handlePeerMessage(peerId, message);
+        message = decodeMessage(data);
       } catch (error) {
         console.error('[P2P] Failed to parse message:', error);
+        return;
+      }
+
+      if (message.type === 'hello') {
+        connection.wireVersion = negotiateWireVersion(message.payload?.wireVersions);
+        console.log('[P2P] Wire version with', peerId, 'is', connection.wireVersion);
+        return;
       }
+      this.handlePeerMessage(peerId, message);
     });
 
     peer.on('close', () => {
@@ -272,23 +359,50 @@ class ConnectionManager extends EventEmitter {
     });
   }
 
+  // Sign the server's challenge with our device key, proving the address is ours
+  private register(challenge: string): void {
+    const identity = identityService.getIdentity();
+    if (!identity || typeof challenge !== 'string') return;
+
+    const signature = identityService.sign(sodium.from_string(`vortex-register:${challenge}:${this.myPeerId}`));
+    this.socket?.emit('register', {
+      peerId: this.myPeerId,
+      publicKey: identityService.getDeviceKey(),
+      displayName: identity.displayName,
+      signature: sodium.to_base64(signature),
+    });
+  }
+
   private setupSocketListeners(): void {
     if (!this.socket) return;
 
-    // Register with signaling server
-    const identity = identityService.getIdentity();
-    if (identity) {
-      this.socket.emit('register', {
-        peerId: this.myPeerId,
-        publicKey: identity.publicKey,
-        displayName: identity.displayName,
-      });
-    }
+    // Register with signaling server, on every (re)connection
+    this.socket.on('register-challenge', ({ challenge }) => {
+      this.register(challenge);
+    });
 
     // Registration confirmed
     this.socket.on('registered', ({ peerId, onlineCount }) => {
       console.log('[P2P] Registered with signaling server, online users:', onlineCount);
       this.emit('registered', { peerId, onlineCount });
+      this.uploadPreKeys().catch(console.error);
+    });
+
+    // The server refused our address, e.g. because the device was unlinked
+    this.socket.on('register-rejected', ({ peerId, reason }) => {
+      console.warn('[P2P] Registration rejected:', peerId, reason);
+      this.emit('register-rejected', { peerId, reason });
+    });
+
+    // A new device asks to be linked to ours
+    this.socket.on('provision-request', (request: ProvisioningRequest) => {
+      this.emit('provision-request', request);
+    });
+
+    // Pre-key directory is running out of our one-time pre-keys
+    this.socket.on('prekeys-low', ({ count }) => {
+      console.log('[P2P] One-time pre-key stock low:', count);
+      this.replenishPreKeys().catch(console.error);
     });
 
     // Handle incoming WebRTC offer
@@ -350,9 +464,14 @@ class ConnectionManager extends EventEmitter {
       this.emit('online-status', { peerId, online, publicKey });
     });
 
-    // Handle relayed messages (fallback when P2P fails)
-    this.socket.on('relayed-message', ({ fromPeerId, message }) => {
-      this.handlePeerMessage(fromPeerId, message);
+    // Handle relayed messages (fallback when P2P fails). Only sealed ones
+    // prove who sent them; the server could name anyone as the sender of the rest.
+    this.socket.on('relayed-message', ({ sealed }) => {
+      if (typeof sealed !== 'string') {
+        console.warn('[P2P] Dropped unsealed relayed message');
+        return;
+      }
+      this.handleSealedMessage(sealed).catch(console.error);
     });
 
     // Handle message relay failure
@@ -361,11 +480,6 @@ class ConnectionManager extends EventEmitter {
       this.emit('message-failed', { targetPeerId, reason, messageId });
     });
 
-    // Handle typing indicators via relay
-    this.socket.on('typing', ({ fromPeerId, isTyping }) => {
-      this.emit('typing', { peerId: fromPeerId, isTyping });
-    });
-
     // Legacy room-based events
     this.socket.on('signal', ({ from, signal }) => {
       let connection = this.peers.get(from);
@@ -405,16 +519,6 @@ class ConnectionManager extends EventEmitter {
       this.status = 'connected';
       this.emit('status-change', this.status);
 
-      // Re-register
-      const identity = identityService.getIdentity();
-      if (identity) {
-        this.socket?.emit('register', {
-          peerId: this.myPeerId,
-          publicKey: identity.publicKey,
-          displayName: identity.displayName,
-        });
-      }
-
       // Rejoin room if we were in one
       if (this.currentRoom) {
         this.joinRoom(this.currentRoom).catch(console.error);
@@ -494,45 +598,206 @@ class ConnectionManager extends EventEmitter {
     });
   }
 
-  // Send message via relay (fallback)
-  sendViaRelay(targetPeerId: string, message: PeerMessage): void {
+  // ==================== Pre-Key Directory ====================
+
+  // Publish our signed pre-key and one-time pre-keys
+  async uploadPreKeys(): Promise<number> {
     if (!this.socket || this.status !== 'connected') {
-      this.queueMessage(targetPeerId, message);
-      return;
+      throw new Error('Not connected to signaling server');
     }
 
-    this.socket.emit('relay-message', {
-      targetPeerId,
-      message,
-      fromPeerId: this.myPeerId,
+    const identity = identityService.getIdentity();
+    const preKeys = identityService.getPublicPreKeys();
+    if (!identity || !preKeys) throw new Error('No identity');
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Pre-key upload timed out')), PREKEY_DIRECTORY_TIMEOUT);
+
+      this.socket!.emit('prekeys-upload', {
+        identityKey: identityService.getDeviceKey(),
+        signedPreKey: preKeys.signedPreKey,
+        kemPreKey: preKeys.kemPreKey,
+        oneTimePreKeys: preKeys.oneTimePreKeys,
+      }, (response: any) => {
+        clearTimeout(timeout);
+        if (!response?.ok) {
+          reject(new Error(response?.error || 'Pre-key upload failed'));
+          return;
+        }
+
+        console.log('[P2P] Pre-keys uploaded, available:', response.count);
+        resolve(response.count);
+      });
     });
   }
 
-  // Send typing indicator via relay
-  sendTypingViaRelay(targetPeerId: string, isTyping: boolean): void {
-    if (!this.socket || this.status !== 'connected') return;
-    
-    this.socket.emit('typing', {
-      targetPeerId,
-      fromPeerId: this.myPeerId,
-      isTyping,
+  // Fetch a peer's pre-key bundle; claims one of their one-time pre-keys
+  async fetchPreKeyBundle(peerId: string): Promise<PreKeyBundleResponse | null> {
+    if (!this.socket || this.status !== 'connected') {
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve(null), PREKEY_DIRECTORY_TIMEOUT);
+
+      this.socket!.emit('prekeys-fetch', { peerId }, (response: any) => {
+        clearTimeout(timeout);
+        if (!response?.ok) {
+          if (response?.error !== 'not-found') console.warn('[P2P] Pre-key fetch failed:', peerId, response?.error);
+          resolve(null);
+          return;
+        }
+        resolve(response.bundle?.peerId === peerId ? response.bundle : null);
+      });
+    });
+  }
+
+  private async replenishPreKeys(): Promise<void> {
+    if (this.replenishingPreKeys) return;
+
+    this.replenishingPreKeys = true;
+    try {
+      await keyMaintenanceService.replenishPreKeys();
+    } finally {
+      this.replenishingPreKeys = false;
+    }
+  }
+
+  // ==================== Device Directory ====================
+
+  async publishDeviceList(list: Omit<SignedDeviceList, 'userId'>): Promise<void> {
+    if (!this.socket || this.status !== 'connected') {
+      throw new Error('Not connected to signaling server');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket!.emit('devices-publish', list, (response: any) => {
+        if (!response?.ok) {
+          reject(new Error(response?.error || 'Device list upload failed'));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  async fetchDeviceList(userId: string): Promise<SignedDeviceList | null> {
+    if (!this.socket || this.status !== 'connected') {
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve(null), 5000);
+
+      this.socket!.emit('devices-fetch', { userId }, (response: any) => {
+        clearTimeout(timeout);
+        resolve(response?.ok ? response.list : null);
+      });
+    });
+  }
+
+  // ==================== Device Linking ====================
+
+  // Primary: open the channel a new device will send its request over
+  async openProvisioningChannel(channelId: string): Promise<void> {
+    if (!this.socket || this.status !== 'connected') {
+      throw new Error('Not connected to signaling server');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket!.emit('provision-open', { channelId }, (response: any) => {
+        if (!response?.ok) {
+          reject(new Error(response?.error || 'Could not open linking channel'));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  sendProvisioningEnvelope(envelope: ProvisioningEnvelope): void {
+    if (!this.socket || this.status !== 'connected') {
+      throw new Error('Not connected to signaling server');
+    }
+
+    this.socket.emit('provision-envelope', envelope);
+  }
+
+  // New device: it has no identity yet, so it talks to the server over
+  // a socket of its own that never registers
+  async requestProvisioning(request: ProvisioningRequest): Promise<ProvisioningEnvelope> {
+    const socket = io(this.signalingUrl, { transports: ['websocket', 'polling'] });
+
+    try {
+      return await new Promise<ProvisioningEnvelope>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error('Linking timed out')), PROVISIONING_TIMEOUT);
+
+        socket.on('provision-envelope', (envelope: ProvisioningEnvelope) => {
+          if (envelope.channelId !== request.channelId) return;
+          clearTimeout(timeout);
+          resolve(envelope);
+        });
+
+        socket.once('connect_error', (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        });
+
+        socket.emit('provision-request', request, (response: any) => {
+          if (!response?.ok) {
+            clearTimeout(timeout);
+            reject(new Error(response?.error === 'not-found' ? 'Linking code expired or already used' : 'Linking failed'));
+          }
+        });
+      });
+    } finally {
+      socket.disconnect();
+    }
+  }
+
+  // Send message via relay (fallback). Messages are always sealed, so the
+  // server only learns the target. Resolves once the server handed the
+  // message to the target, false if it could not.
+  async sendViaRelay(targetPeerId: string, message: PeerMessage): Promise<boolean> {
+    if (!this.socket || this.status !== 'connected') return false;
+
+    const identityKey = await this.getKnownIdentityKey(targetPeerId);
+    if (!identityKey) {
+      // Never fall back to a visible sender
+      console.warn('[P2P] No identity key to seal message for:', targetPeerId);
+      return false;
+    }
+
+    const sealed = await sealMessage(targetPeerId, identityKey, message);
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve(false), RELAY_TIMEOUT);
+
+      this.socket!.emit('relay-message', { targetPeerId, sealed, messageId: message.id }, (response: any) => {
+        clearTimeout(timeout);
+        resolve(!!response?.ok);
+      });
     });
   }
 
   // ==================== Messaging ====================
 
+  /**
+   * Send over the peer's data channel. Without an open one the message is
+   * queued and, if the peer is online, relayed sealed through the signaling
+   * server; 'message-relayed' then reports it sent.
+   */
   sendToPeer(peerId: string, message: PeerMessage): boolean {
     const connection = this.peers.get(peerId);
     
     if (!connection || connection.status !== 'connected') {
       // Queue message for later
       this.queueMessage(peerId, message);
+      this.relayQueuedMessage(peerId, message).catch(console.error);
       return false;
     }
 
     try {
-      const data = new TextEncoder().encode(JSON.stringify(message));
-      connection.peer.send(data);
+      connection.peer.send(encodeMessage(message, connection.wireVersion));
       connection.lastSeen = Date.now();
       return true;
     } catch (error) {
@@ -559,16 +824,12 @@ class ConnectionManager extends EventEmitter {
         this.emit('message', { from: peerId, ...message });
         break;
       
-      case 'typing':
-        this.emit('typing', { peerId, isTyping: message.payload.isTyping });
-        break;
-      
-      case 'read-receipt':
-        this.emit('read-receipt', { peerId, messageId: message.payload.messageId });
+      case 'encrypted':
+        this.emit('encrypted', { from: peerId, ...message });
         break;
       
-      case 'delivery-receipt':
-        this.emit('delivery-receipt', { peerId, messageId: message.payload.messageId });
+      case 'group':
+        this.emit('group', { from: peerId, ...message });
         break;
       
       case 'key-exchange':
@@ -588,12 +849,47 @@ class ConnectionManager extends EventEmitter {
     }
   }
 
+  private async handleSealedMessage(sealed: string): Promise<void> {
+    let content: SealedContent;
+    try {
+      content = await unsealMessage(sealed);
+    } catch (error) {
+      console.warn('[P2P] Rejected sealed message:', error);
+      return;
+    }
+
+    // The claimed sender must be the identity we know for that peer
+    const { certificate, message } = content;
+    const knownKey = await this.getKnownIdentityKey(certificate.peerId);
+    if (!knownKey || knownKey !== certificate.identityKey) {
+      console.warn('[P2P] Rejected sealed message from unverified sender:', certificate.peerId);
+      return;
+    }
+
+    this.handlePeerMessage(certificate.peerId, message);
+  }
+
+  // A contact's account key or a key their primary certified for a device.
+  // Never the key the server has on record, which it could swap.
+  private getKnownIdentityKey(peerId: string): Promise<string | null> {
+    return deviceService.getIdentityKey(peerId);
+  }
+
+  private async relayQueuedMessage(peerId: string, message: PeerMessage): Promise<void> {
+    if (!RELAYED_MESSAGE_TYPES.has(message.type)) return;
+    if (!(await this.sendViaRelay(peerId, message))) return;
+
+    db.removePendingMessage(message.id);
+    this.emit('message-relayed', { peerId, messageId: message.id });
+  }
+
   private queueMessage(peerId: string, message: PeerMessage): void {
     db.addPendingMessage({
       id: message.id,
       conversationId: '', // Will be set by caller
       peerId,
-      encryptedPayload: JSON.stringify(message),
+      // Byte arrays are stored as base64 and arrive as such once sent
+      encryptedPayload: encodeJson(message),
       nonce: '',
       createdAt: Date.now(),
       retryCount: 0,
@@ -639,36 +935,6 @@ class ConnectionManager extends EventEmitter {
   getSocket(): Socket | null {
     return this.socket;
   }
-
-  // Send typing indicator
-  sendTypingIndicator(peerId: string, isTyping: boolean): void {
-    this.sendToPeer(peerId, {
-      type: 'typing',
-      id: crypto.randomUUID(),
-      payload: { isTyping },
-      timestamp: Date.now(),
-    });
-  }
-
-  // Send read receipt
-  sendReadReceipt(peerId: string, messageId: string): void {
-    this.sendToPeer(peerId, {
-      type: 'read-receipt',
-      id: crypto.randomUUID(),
-      payload: { messageId },
-      timestamp: Date.now(),
-    });
-  }
-
-  // Send delivery receipt
-  sendDeliveryReceipt(peerId: string, messageId: string): void {
-    this.sendToPeer(peerId, {
-      type: 'delivery-receipt',
-      id: crypto.randomUUID(),
-      payload: { messageId },
-      timestamp: Date.now(),
-    });
-  }
 }
 
 // Singleton instance
@@ -0,0 +1,300 @@
+/**
+ * VORTEX Protocol - Wire Format
+ * Binary framing for peer messages on WebRTC data channels. Byte arrays
+ * are carried as raw bytes rather than base64 inside JSON.
+ *
+ * Frame: [version u8][type u8][body length u32][body]
+ * Body:  id, timestamp and payload as tagged values
+ *
+ * Version 0 is the original JSON text encoding. JSON always starts with
+ * '{', so the first byte tells the two apart.
+ */
+import sodium from 'libsodium-wrappers';
+export const JSON_WIRE_VERSION = 0;
+export const BINARY_WIRE_VERSION = 1;
+// Versions this client can send, offered to peers at connect time
+export const SUPPORTED_WIRE_VERSIONS = [JSON_WIRE_VERSION, BINARY_WIRE_VERSION];
+const FRAME_HEADER_SIZE = 6;
+const JSON_FIRST_BYTE = 0x7b; // '{'
+// Type IDs are part of the wire format: never renumber, only add
+const MESSAGE_TYPE_IDS = {
+    'hello': 0,
+    'text': 1,
+    'edit': 2,
+    'reaction': 3,
+    'encrypted': 4,
+    'group': 5,
+    'sender-key': 6,
+    'group-update': 7,
+    'end-session': 8,
+    'device-revoked': 9,
+    'file-meta': 10,
+    'file-chunk': 11,
+    'typing': 12,
+    'read-receipt': 13,
+    'delivery-receipt': 14,
+    'key-exchange': 15,
+};
+const MESSAGE_TYPES = new Map(Object.entries(MESSAGE_TYPE_IDS).map(([type, id]) => [id, type]));
+// Value tags
+const TAG_NULL = 0x00;
+const TAG_FALSE = 0x01;
+const TAG_TRUE = 0x02;
+const TAG_INT = 0x03; // int32
+const TAG_FLOAT = 0x04; // float64
+const TAG_STRING = 0x05; // u32 length, UTF-8
+const TAG_BYTES = 0x06; // u32 length, raw
+const TAG_ARRAY = 0x07; // u32 count, values
+const TAG_MAP = 0x08; // u32 count, string keys and values
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+class Writer {
+    constructor() {
+        this.buffer = new Uint8Array(256);
+        this.view = new DataView(this.buffer.buffer);
+        this.length = 0;
+    }
+    u8(value) {
+        this.reserve(1);
+        this.view.setUint8(this.length, value);
+        this.length += 1;
+    }
+    u32(value) {
+        this.reserve(4);
+        this.view.setUint32(this.length, value);
+        this.length += 4;
+    }
+    i32(value) {
+        this.reserve(4);
+        this.view.setInt32(this.length, value);
+        this.length += 4;
+    }
+    f64(value) {
+        this.reserve(8);
+        this.view.setFloat64(this.length, value);
+        this.length += 8;
+    }
+    bytes(value) {
+        this.reserve(value.length);
+        this.buffer.set(value, this.length);
+        this.length += value.length;
+    }
+    setU32(offset, value) {
+        this.view.setUint32(offset, value);
+    }
+    finish() {
+        return this.buffer.slice(0, this.length);
+    }
+    reserve(size) {
+        if (this.length + size <= this.buffer.length)
+            return;
+        let capacity = this.buffer.length * 2;
+        while (capacity < this.length + size)
+            capacity *= 2;
+        const grown = new Uint8Array(capacity);
+        grown.set(this.buffer.subarray(0, this.length));
+        this.buffer = grown;
+        this.view = new DataView(grown.buffer);
+    }
+}
+class Reader {
+    constructor(buffer) {
+        this.buffer = buffer;
+        this.offset = 0;
+        this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    }
+    get remaining() {
+        return this.buffer.length - this.offset;
+    }
+    u8() {
+        this.require(1);
+        return this.view.getUint8(this.offset++);
+    }
+    u32() {
+        this.require(4);
+        const value = this.view.getUint32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+    i32() {
+        this.require(4);
+        const value = this.view.getInt32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+    f64() {
+        this.require(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+    }
+    bytes(length) {
+        this.require(length);
+        // Copied, as Buffer#slice would share memory with the frame
+        const value = new Uint8Array(this.buffer.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return value;
+    }
+    require(size) {
+        if (this.remaining < size)
+            throw new Error('Truncated frame');
+    }
+}
+// Undefined object members are dropped and undefined array items become
+// null, as with JSON
+function writeValue(writer, value) {
+    if (value === null || value === undefined) {
+        writer.u8(TAG_NULL);
+    }
+    else if (typeof value === 'boolean') {
+        writer.u8(value ? TAG_TRUE : TAG_FALSE);
+    }
+    else if (typeof value === 'number') {
+        if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff) {
+            writer.u8(TAG_INT);
+            writer.i32(value);
+        }
+        else {
+            writer.u8(TAG_FLOAT);
+            writer.f64(value);
+        }
+    }
+    else if (typeof value === 'string') {
+        const encoded = textEncoder.encode(value);
+        writer.u8(TAG_STRING);
+        writer.u32(encoded.length);
+        writer.bytes(encoded);
+    }
+    else if (value instanceof Uint8Array) {
+        writer.u8(TAG_BYTES);
+        writer.u32(value.length);
+        writer.bytes(value);
+    }
+    else if (Array.isArray(value)) {
+        writer.u8(TAG_ARRAY);
+        writer.u32(value.length);
+        value.forEach(item => writeValue(writer, item));
+    }
+    else if (typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+        writer.u8(TAG_MAP);
+        writer.u32(entries.length);
+        for (const [key, item] of entries) {
+            const encodedKey = textEncoder.encode(key);
+            writer.u32(encodedKey.length);
+            writer.bytes(encodedKey);
+            writeValue(writer, item);
+        }
+    }
+    else {
+        throw new Error(`Cannot encode ${typeof value}`);
+    }
+}
+function readValue(reader) {
+    const tag = reader.u8();
+    switch (tag) {
+        case TAG_NULL:
+            return null;
+        case TAG_FALSE:
+            return false;
+        case TAG_TRUE:
+            return true;
+        case TAG_INT:
+            return reader.i32();
+        case TAG_FLOAT:
+            return reader.f64();
+        case TAG_STRING:
+            return textDecoder.decode(reader.bytes(reader.u32()));
+        case TAG_BYTES:
+            return reader.bytes(reader.u32());
+        case TAG_ARRAY: {
+            const count = reader.u32();
+            // Every value takes at least one byte
+            if (count > reader.remaining)
+                throw new Error('Truncated frame');
+            const items = [];
+            for (let i = 0; i < count; i++)
+                items.push(readValue(reader));
+            return items;
+        }
+        case TAG_MAP: {
+            const count = reader.u32();
+            if (count > reader.remaining)
+                throw new Error('Truncated frame');
+            const map = {};
+            for (let i = 0; i < count; i++) {
+                const key = textDecoder.decode(reader.bytes(reader.u32()));
+                // Defined rather than assigned, so a '__proto__' key stays a plain member
+                Object.defineProperty(map, key, { value: readValue(reader), enumerable: true, writable: true, configurable: true });
+            }
+            return map;
+        }
+        default:
+            throw new Error(`Unknown value tag: ${tag}`);
+    }
+}
+/**
+ * JSON replacer for the version 0 encoding: byte arrays become base64,
+ * as older clients expect
+ */
+function bytesToBase64(_key, value) {
+    return value instanceof Uint8Array ? sodium.to_base64(value) : value;
+}
+export function encodeJson(message) {
+    return JSON.stringify(message, bytesToBase64);
+}
+export function encodeMessage(message, version) {
+    if (version === JSON_WIRE_VERSION) {
+        return textEncoder.encode(encodeJson(message));
+    }
+    if (version !== BINARY_WIRE_VERSION) {
+        throw new Error(`Unsupported wire version: ${version}`);
+    }
+    const typeId = MESSAGE_TYPE_IDS[message.type];
+    if (typeId === undefined)
+        throw new Error(`Unregistered message type: ${message.type}`);
+    const writer = new Writer();
+    writer.u8(version);
+    writer.u8(typeId);
+    writer.u32(0); // Body length, filled in below
+    writeValue(writer, message.id);
+    writeValue(writer, message.timestamp);
+    writeValue(writer, message.payload);
+    writer.setU32(2, writer.length - FRAME_HEADER_SIZE);
+    return writer.finish();
+}
+export function decodeMessage(data) {
+    if (data.length === 0)
+        throw new Error('Empty frame');
+    if (data[0] === JSON_FIRST_BYTE) {
+        return JSON.parse(textDecoder.decode(data));
+    }
+    const reader = new Reader(data);
+    const version = reader.u8();
+    if (version !== BINARY_WIRE_VERSION)
+        throw new Error(`Unsupported wire version: ${version}`);
+    const typeId = reader.u8();
+    const type = MESSAGE_TYPES.get(typeId);
+    if (!type)
+        throw new Error(`Unknown message type ID: ${typeId}`);
+    const length = reader.u32();
+    if (length !== reader.remaining)
+        throw new Error('Frame length mismatch');
+    const id = readValue(reader);
+    const timestamp = readValue(reader);
+    const payload = readValue(reader);
+    if (typeof id !== 'string' || typeof timestamp !== 'number' || reader.remaining > 0) {
+        throw new Error('Malformed frame');
+    }
+    return { type, id, timestamp, payload };
+}
+/**
+ * Highest version both sides support, or JSON when the peer offered none
+ */
+export function negotiateWireVersion(offered) {
+    if (!Array.isArray(offered))
+        return JSON_WIRE_VERSION;
+    return SUPPORTED_WIRE_VERSIONS
+        .filter(version => offered.includes(version))
+        .reduce((best, version) => Math.max(best, version), JSON_WIRE_VERSION);
+}
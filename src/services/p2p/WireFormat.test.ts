@@ -0,0 +1,222 @@
+/**
+ * VORTEX Protocol - Wire Format Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { PeerMessage } from './ConnectionManager';
+import {
+  BINARY_WIRE_VERSION,
+  JSON_WIRE_VERSION,
+  SUPPORTED_WIRE_VERSIONS,
+  decodeMessage,
+  encodeJson,
+  encodeMessage,
+  negotiateWireVersion,
+} from './WireFormat';
+
+const FRAME_HEADER_SIZE = 6;
+
+function message(payload: unknown, type: PeerMessage['type'] = 'encrypted'): PeerMessage {
+  return { type, id: 'msg-1', timestamp: 1700000000000, payload };
+}
+
+function roundTrip(original: PeerMessage): PeerMessage {
+  return decodeMessage(encodeMessage(original, BINARY_WIRE_VERSION));
+}
+
+// A frame around a hand-written body, with the right length
+function frame(body: number[], typeId = 4): Uint8Array {
+  const data = new Uint8Array(FRAME_HEADER_SIZE + body.length);
+  data[0] = BINARY_WIRE_VERSION;
+  data[1] = typeId;
+  new DataView(data.buffer).setUint32(2, body.length);
+  data.set(body, FRAME_HEADER_SIZE);
+  return data;
+}
+
+function u32(value: number): number[] {
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+// id 'a' and timestamp 1, ahead of a payload
+const HEAD = [0x05, ...u32(1), 0x61, 0x03, ...u32(1)];
+
+beforeAll(async () => {
+  await sodium.ready;
+});
+
+describe('binary wire format', () => {
+  it('round-trips every message type', () => {
+    const types: PeerMessage['type'][] = [
+      'hello', 'text', 'edit', 'reaction', 'encrypted', 'group', 'sender-key', 'group-update', 'end-session',
+      'device-revoked', 'file-meta', 'file-chunk', 'typing', 'read-receipt', 'delivery-receipt', 'key-exchange',
+    ];
+
+    for (const type of types) {
+      expect(roundTrip(message({ ok: true }, type))).toEqual(message({ ok: true }, type));
+    }
+  });
+
+  it('round-trips every kind of value', () => {
+    const payload = {
+      nothing: null,
+      yes: true,
+      no: false,
+      small: 42,
+      negative: -7,
+      largest: 0x7fffffff,
+      smallest: -0x80000000,
+      large: 2 ** 40,
+      fraction: 0.5,
+      text: 'héllo ✓ 👋',
+      empty: '',
+      bytes: new Uint8Array([0, 1, 254, 255]),
+      list: [1, 'two', [3], { four: 4 }],
+      nested: { deeper: { deepest: [] } },
+    };
+
+    expect(roundTrip(message(payload))).toEqual(message(payload));
+  });
+
+  it('carries byte arrays as raw bytes', () => {
+    const chunk = sodium.randombytes_buf(4096);
+    const encoded = encodeMessage(message({ data: chunk }, 'file-chunk'), BINARY_WIRE_VERSION);
+    const decoded = decodeMessage(encoded);
+
+    expect(decoded.payload.data).toBeInstanceOf(Uint8Array);
+    expect(decoded.payload.data).toEqual(chunk);
+    expect(encoded.length).toBeLessThan(4096 + 64);
+  });
+
+  it('decodes byte arrays that do not share memory with the frame', () => {
+    const encoded = encodeMessage(message({ data: new Uint8Array([1, 2, 3]) }), BINARY_WIRE_VERSION);
+    const decoded = decodeMessage(encoded);
+    encoded.fill(0);
+
+    expect(decoded.payload.data).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('drops undefined members and turns undefined items into null, as JSON does', () => {
+    const decoded = roundTrip(message({ kept: 1, dropped: undefined, list: [undefined, 2] }));
+    expect(decoded.payload).toEqual({ kept: 1, list: [null, 2] });
+    expect('dropped' in decoded.payload).toBe(false);
+  });
+
+  it('keeps a __proto__ key as a plain member', () => {
+    const decoded = decodeMessage(frame([
+      ...HEAD, 0x08, ...u32(1), ...u32(9), ...Array.from(new TextEncoder().encode('__proto__')), 0x02,
+    ]));
+
+    expect(Object.getPrototypeOf(decoded.payload)).toBe(Object.prototype);
+    expect(Object.getOwnPropertyDescriptor(decoded.payload, '__proto__')?.value).toBe(true);
+  });
+
+  it('refuses values it cannot encode', () => {
+    expect(() => encodeMessage(message({ callback: () => {} }), BINARY_WIRE_VERSION)).toThrow('Cannot encode function');
+  });
+
+  it('refuses unregistered message types and unknown versions', () => {
+    const unknown = { ...message({}), type: 'shout' } as unknown as PeerMessage;
+
+    expect(() => encodeMessage(unknown, BINARY_WIRE_VERSION)).toThrow('Unregistered message type: shout');
+    expect(() => encodeMessage(message({}), 7)).toThrow('Unsupported wire version: 7');
+  });
+});
+
+describe('malformed frames', () => {
+  const valid = () => encodeMessage(message({ text: 'hello', data: new Uint8Array(32) }), BINARY_WIRE_VERSION);
+
+  it('rejects an empty frame', () => {
+    expect(() => decodeMessage(new Uint8Array(0))).toThrow('Empty frame');
+  });
+
+  it('rejects frames cut short anywhere', () => {
+    const encoded = valid();
+    for (let length = 1; length < encoded.length; length++) {
+      expect(() => decodeMessage(encoded.slice(0, length))).toThrow(/Truncated frame|Frame length mismatch/);
+    }
+  });
+
+  it('rejects trailing bytes after the frame', () => {
+    const encoded = valid();
+    const longer = new Uint8Array(encoded.length + 1);
+    longer.set(encoded);
+
+    expect(() => decodeMessage(longer)).toThrow('Frame length mismatch');
+  });
+
+  it('rejects a body length larger than the frame', () => {
+    const encoded = valid();
+    new DataView(encoded.buffer).setUint32(2, 0xffffffff);
+
+    expect(() => decodeMessage(encoded)).toThrow('Frame length mismatch');
+  });
+
+  it('rejects trailing values inside the body', () => {
+    expect(() => decodeMessage(frame([...HEAD, 0x00, 0x00]))).toThrow('Malformed frame');
+  });
+
+  it('rejects oversized string and byte lengths', () => {
+    expect(() => decodeMessage(frame([...HEAD, 0x05, ...u32(0xffffffff), 0x61]))).toThrow('Truncated frame');
+    expect(() => decodeMessage(frame([...HEAD, 0x06, ...u32(1000), 1, 2, 3]))).toThrow('Truncated frame');
+  });
+
+  it('rejects oversized array and map counts without allocating them', () => {
+    expect(() => decodeMessage(frame([...HEAD, 0x07, ...u32(0xffffffff)]))).toThrow('Truncated frame');
+    expect(() => decodeMessage(frame([...HEAD, 0x08, ...u32(0xffffffff)]))).toThrow('Truncated frame');
+  });
+
+  it('rejects unknown versions, message types and value tags', () => {
+    const encoded = valid();
+
+    expect(() => decodeMessage(new Uint8Array([2, ...encoded.slice(1)]))).toThrow('Unsupported wire version: 2');
+    expect(() => decodeMessage(new Uint8Array([1, 200, ...encoded.slice(2)]))).toThrow('Unknown message type ID: 200');
+    expect(() => decodeMessage(frame([...HEAD, 0x09]))).toThrow('Unknown value tag: 9');
+  });
+
+  it('rejects a frame without a string id or numeric timestamp', () => {
+    expect(() => decodeMessage(frame([0x03, ...u32(1), 0x03, ...u32(1), 0x00]))).toThrow('Malformed frame');
+    expect(() => decodeMessage(frame([0x05, ...u32(1), 0x61, 0x05, ...u32(0), 0x00]))).toThrow('Malformed frame');
+  });
+
+  it('rejects invalid UTF-8', () => {
+    expect(() => decodeMessage(frame([...HEAD, 0x05, ...u32(2), 0xc3, 0x28]))).toThrow();
+  });
+});
+
+describe('JSON wire format', () => {
+  it('round-trips through the version 0 encoding', () => {
+    const original = message({ content: 'hello', list: [1, 2] }, 'text');
+    const encoded = encodeMessage(original, JSON_WIRE_VERSION);
+
+    expect(encoded[0]).toBe(0x7b);
+    expect(decodeMessage(encoded)).toEqual(original);
+  });
+
+  it('sends byte arrays as base64, as older clients expect', () => {
+    const data = new Uint8Array([1, 2, 3, 250]);
+    const json = JSON.parse(encodeJson(message({ data }, 'file-chunk')));
+
+    expect(json.payload.data).toBe(sodium.to_base64(data));
+  });
+
+  it('rejects truncated JSON', () => {
+    const encoded = encodeMessage(message({ content: 'hello' }, 'text'), JSON_WIRE_VERSION);
+    expect(() => decodeMessage(encoded.slice(0, encoded.length - 2))).toThrow();
+  });
+});
+
+describe('negotiateWireVersion', () => {
+  it('picks the highest version both sides support', () => {
+    expect(negotiateWireVersion(SUPPORTED_WIRE_VERSIONS)).toBe(BINARY_WIRE_VERSION);
+    expect(negotiateWireVersion([0, 1, 5])).toBe(BINARY_WIRE_VERSION);
+  });
+
+  it('falls back to JSON for older peers', () => {
+    expect(negotiateWireVersion(undefined)).toBe(JSON_WIRE_VERSION);
+    expect(negotiateWireVersion('1')).toBe(JSON_WIRE_VERSION);
+    expect(negotiateWireVersion([0])).toBe(JSON_WIRE_VERSION);
+    expect(negotiateWireVersion([5, 6])).toBe(JSON_WIRE_VERSION);
+  });
+});
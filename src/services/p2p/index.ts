@@ -7,5 +7,10 @@ export type {
   PeerConnection, 
   SignalData, 
   PeerMessage, 
+  PreKeyBundleResponse,
+  SignedDeviceList,
+  DeviceListEntry,
+  ProvisioningRequest,
+  ProvisioningEnvelope,
   ConnectionStatus 
 } from './ConnectionManager';
@@ -5,6 +5,8 @@
 import { EventEmitter } from 'eventemitter3';
 import { db } from '../database';
 import { identityService } from '../identity';
+import { sessionManager } from '../crypto/SessionManager';
+import { attachmentStore } from '../files';
 import _sodium from 'libsodium-wrappers';
 class SecurityService extends EventEmitter {
     constructor() {
@@ -43,6 +45,9 @@ class SecurityService extends EventEmitter {
             throw new Error('Not initialized');
         if (pin.length < 4)
             throw new Error('PIN must be at least 4 digits');
+        // The PIN now also guards the database key. This refuses a short PIN
+        // where there is no secure storage, so it goes first.
+        await db.setPassphrase(pin);
         // Hash PIN with Argon2
         const salt = this.sodium.randombytes_buf(this.sodium.crypto_pwhash_SALTBYTES);
         const hash = this.sodium.crypto_pwhash(32, pin, salt, this.sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE, this.sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE, this.sodium.crypto_pwhash_ALG_DEFAULT);
@@ -78,26 +83,41 @@ class SecurityService extends EventEmitter {
         await this.setupPin(newPin);
         this.emit('pin-changed');
     }
-    removePin() {
+    async removePin() {
+        await db.removePassphrase();
         this.pinHash = null;
         this.settings.lockEnabled = false;
         db.setSetting('security_pin_hash', '');
         this.saveSettings();
         this.emit('pin-removed');
     }
+    /**
+     * Lock the app. The decrypted database, identity keys and session keys
+     * leave memory until the PIN is entered again.
+     */
     lock() {
-        if (!this.settings.lockEnabled)
+        // Without a PIN there would be no way back in
+        if (!this.isLockEnabled())
             return;
         this.isLocked = true;
         this.clearLockTimer();
+        sessionManager.lock();
+        identityService.lock();
+        attachmentStore.revokeObjectUrls();
+        db.lock();
         this.emit('locked');
     }
     async unlock(pin) {
         if (!this.isLocked)
             return true;
-        const verified = await this.verifyPin(pin);
+        // A PIN-protected database key can only be unwrapped with the right PIN
+        const verified = db.hasPassphrase()
+            ? await db.unlock(pin)
+            : await this.verifyPin(pin) && await db.unlock();
         if (verified) {
             this.isLocked = false;
+            await identityService.unlock();
+            sessionManager.unlock();
             this.resetLockTimer();
             this.emit('unlocked');
             return true;
@@ -201,6 +221,9 @@ class SecurityService extends EventEmitter {
             }
             // Clear identity
             await identityService.deleteIdentity();
+            // Delete the stored database and attachments
+            await db.destroy();
+            await attachmentStore.clear();
             // Clear any cached data in memory
             this.pinHash = null;
             this.isLocked = false;
@@ -6,6 +6,8 @@
 import { EventEmitter } from 'eventemitter3';
 import { db } from '../database';
 import { identityService } from '../identity';
+import { sessionManager } from '../crypto/SessionManager';
+import { attachmentStore } from '../files';
 import _sodium from 'libsodium-wrappers';
 
 export type LockMethod = 'pin' | 'password' | 'biometric';
@@ -65,6 +67,10 @@ class SecurityService extends EventEmitter {
     if (!this.sodium) throw new Error('Not initialized');
     if (pin.length < 4) throw new Error('PIN must be at least 4 digits');
 
+    // The PIN now also guards the database key. This refuses a short PIN
+    // where there is no secure storage, so it goes first.
+    await db.setPassphrase(pin);
+
     // Hash PIN with Argon2
     const salt = this.sodium.randombytes_buf(this.sodium.crypto_pwhash_SALTBYTES);
     const hash = this.sodium.crypto_pwhash(
@@ -83,7 +89,7 @@ class SecurityService extends EventEmitter {
 
     this.pinHash = this.sodium.to_base64(combined);
     db.setSetting('security_pin_hash', this.pinHash);
-    
+
     this.settings.lockEnabled = true;
     this.saveSettings();
 
@@ -122,7 +128,9 @@ class SecurityService extends EventEmitter {
     this.emit('pin-changed');
   }
 
-  removePin(): void {
+  async removePin(): Promise<void> {
+    await db.removePassphrase();
+
     this.pinHash = null;
     this.settings.lockEnabled = false;
     db.setSetting('security_pin_hash', '');
@@ -130,20 +138,34 @@ class SecurityService extends EventEmitter {
     this.emit('pin-removed');
   }
 
+  /**
+   * Lock the app. The decrypted database, identity keys and session keys
+   * leave memory until the PIN is entered again.
+   */
   lock(): void {
-    if (!this.settings.lockEnabled) return;
+    // Without a PIN there would be no way back in
+    if (!this.isLockEnabled()) return;
 
     this.isLocked = true;
     this.clearLockTimer();
+    sessionManager.lock();
+    identityService.lock();
+    attachmentStore.revokeObjectUrls();
+    db.lock();
     this.emit('locked');
   }
 
   async unlock(pin: string): Promise<boolean> {
     if (!this.isLocked) return true;
 
-    const verified = await this.verifyPin(pin);
+    // A PIN-protected database key can only be unwrapped with the right PIN
+    const verified = db.hasPassphrase()
+      ? await db.unlock(pin)
+      : await this.verifyPin(pin) && await db.unlock();
     if (verified) {
       this.isLocked = false;
+      await identityService.unlock();
+      sessionManager.unlock();
       this.resetLockTimer();
       this.emit('unlocked');
       return true;
@@ -270,6 +292,10 @@ class SecurityService extends EventEmitter {
       // Clear identity
       await identityService.deleteIdentity();
 
+      // Delete the stored database and attachments
+      await db.destroy();
+      await attachmentStore.clear();
+
       // Clear any cached data in memory
       this.pinHash = null;
       this.isLocked = false;
@@ -5,17 +5,30 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import { identityManager } from '../services/crypto/IdentityManager';
+import { identityService } from '../services/identity';
+import { securityService } from '../services/security';
 const initialState = {
     status: 'idle',
     user: null,
-    identity: null,
     isLocked: false,
     lastActivity: Date.now(),
     autoLockTimeout: 5 * 60 * 1000, // 5 minutes default
     error: null,
 };
-export const useAuthStore = create()(persist(immer((set, get) => ({
+// The profile is a view of the identity service's identity
+function toProfile(identity, bio) {
+    return {
+        id: identity.id,
+        displayName: identity.displayName,
+        avatarUrl: identity.avatarUrl,
+        bio,
+        status: 'online',
+        lastSeen: identity.lastSeen,
+        publicKey: identity.publicKey,
+        fingerprint: identityService.getFingerprint(),
+    };
+}
+export const useAuthStore = create()(persist(immer((set) => ({
     ...initialState,
     initialize: async () => {
         set((state) => {
@@ -23,21 +36,14 @@ export const useAuthStore = create()(persist(immer((set, get) => ({
             state.error = null;
         });
         try {
-            await identityManager.initialize();
-            // Check if identity exists in storage
-            const storedIdentity = localStorage.getItem('vortex_identity');
-            if (storedIdentity) {
-                // For now, mark as locked (needs password to unlock)
-                set((state) => {
-                    state.status = 'locked';
-                    state.isLocked = true;
-                });
-            }
-            else {
-                set((state) => {
-                    state.status = 'idle';
-                });
-            }
+            await identityService.initialize();
+            const identity = identityService.getIdentity();
+            const locked = securityService.isAppLocked();
+            set((state) => {
+                state.user = identity ? toProfile(identity, state.user?.bio) : null;
+                state.status = !identity ? 'idle' : locked ? 'locked' : 'authenticated';
+                state.isLocked = !!identity && locked;
+            });
         }
         catch (error) {
             set((state) => {
@@ -52,21 +58,10 @@ export const useAuthStore = create()(persist(immer((set, get) => ({
             state.error = null;
         });
         try {
-            const identity = await identityManager.generateIdentity();
-            const fingerprint = identityManager.getFingerprint();
-            const publicKeyB64 = btoa(String.fromCharCode(...identity.identityKeyPair.publicKey));
-            const user = {
-                id: crypto.randomUUID(),
-                displayName,
-                status: 'online',
-                lastSeen: Date.now(),
-                publicKey: publicKeyB64,
-                fingerprint,
-            };
+            const identity = await identityService.createIdentity(displayName);
             set((state) => {
                 state.status = 'authenticated';
-                state.user = user;
-                state.identity = identity;
+                state.user = toProfile(identity);
                 state.isLocked = false;
                 state.lastActivity = Date.now();
             });
@@ -78,37 +73,17 @@ export const useAuthStore = create()(persist(immer((set, get) => ({
             });
         }
     },
-    importIdentity: async (backup, password) => {
+    importIdentity: async (backup, secret) => {
         set((state) => {
             state.status = 'initializing';
             state.error = null;
         });
         try {
-            const identity = await identityManager.importIdentity(backup, password);
-            const fingerprint = identityManager.getFingerprint();
-            const publicKeyB64 = btoa(String.fromCharCode(...identity.identityKeyPair.publicKey));
-            // Get stored user profile or create new
-            const storedProfile = localStorage.getItem('vortex_profile');
-            let user;
-            if (storedProfile) {
-                user = JSON.parse(storedProfile);
-                user.publicKey = publicKeyB64;
-                user.fingerprint = fingerprint;
-            }
-            else {
-                user = {
-                    id: crypto.randomUUID(),
-                    displayName: 'Imported User',
-                    status: 'online',
-                    lastSeen: Date.now(),
-                    publicKey: publicKeyB64,
-                    fingerprint,
-                };
-            }
+            // The backup records whether the secret is a password or a recovery phrase
+            const identity = await identityService.importBackup(backup, secret);
             set((state) => {
                 state.status = 'authenticated';
-                state.user = user;
-                state.identity = identity;
+                state.user = toProfile(identity, state.user?.bio);
                 state.isLocked = false;
                 state.lastActivity = Date.now();
             });
@@ -121,32 +96,35 @@ export const useAuthStore = create()(persist(immer((set, get) => ({
         }
     },
     exportIdentity: async (password) => {
-        const backup = await identityManager.exportIdentity(password);
+        const backup = await identityService.exportBackup(password);
         return backup;
     },
     lock: () => {
+        securityService.lock();
         set((state) => {
             state.status = 'locked';
             state.isLocked = true;
         });
     },
     unlock: async (password) => {
-        const storedIdentity = localStorage.getItem('vortex_identity');
-        if (!storedIdentity)
-            return false;
-        try {
-            await get().importIdentity(storedIdentity, password);
-            return true;
-        }
-        catch {
+        const unlocked = await securityService.unlock(password);
+        if (!unlocked)
             return false;
-        }
+        set((state) => {
+            state.status = state.user ? 'authenticated' : 'idle';
+            state.isLocked = false;
+            state.lastActivity = Date.now();
+        });
+        return true;
     },
     updateProfile: (updates) => {
+        if (updates.displayName !== undefined)
+            identityService.updateDisplayName(updates.displayName);
+        if (updates.avatarUrl !== undefined)
+            identityService.updateAvatar(updates.avatarUrl);
         set((state) => {
             if (state.user) {
                 Object.assign(state.user, updates);
-                localStorage.setItem('vortex_profile', JSON.stringify(state.user));
             }
         });
     },
@@ -167,18 +145,22 @@ export const useAuthStore = create()(persist(immer((set, get) => ({
         set((state) => {
             state.status = 'idle';
             state.user = null;
-            state.identity = null;
             state.isLocked = false;
         });
     },
     reset: () => {
-        localStorage.removeItem('vortex_identity');
-        localStorage.removeItem('vortex_profile');
         set(initialState);
     },
 })), {
     name: 'vortex-auth',
     storage: createJSONStorage(() => localStorage),
+    version: 1,
+    // Version 0 kept the profile of a separate identity; initialize()
+    // rebuilds it from the identity service
+    migrate: (persisted) => ({
+        user: null,
+        autoLockTimeout: persisted?.autoLockTimeout ?? initialState.autoLockTimeout,
+    }),
     partialize: (state) => ({
         user: state.user,
         autoLockTimeout: state.autoLockTimeout,
@@ -6,7 +6,9 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import { identityManager, type IdentityStore } from '../services/crypto/IdentityManager';
+import { identityService } from '../services/identity';
+import { securityService } from '../services/security';
+import type { UserIdentity } from '../services/database';
 
 export type AuthStatus = 'idle' | 'initializing' | 'authenticated' | 'locked' | 'error';
 
@@ -25,7 +27,6 @@ interface AuthState {
   // State
   status: AuthStatus;
   user: UserProfile | null;
-  identity: IdentityStore | null;
   isLocked: boolean;
   lastActivity: number;
   autoLockTimeout: number; // ms, 0 = disabled
@@ -34,7 +35,7 @@ interface AuthState {
   // Actions
   initialize: () => Promise<void>;
   createIdentity: (displayName: string) => Promise<void>;
-  importIdentity: (backup: string, password: string) => Promise<void>;
+  importIdentity: (backup: string, secret: string) => Promise<void>;
   exportIdentity: (password: string) => Promise<string>;
   lock: () => void;
   unlock: (password: string) => Promise<boolean>;
@@ -48,16 +49,29 @@ interface AuthState {
 const initialState = {
   status: 'idle' as AuthStatus,
   user: null,
-  identity: null,
   isLocked: false,
   lastActivity: Date.now(),
   autoLockTimeout: 5 * 60 * 1000, // 5 minutes default
   error: null,
 };
 
+// The profile is a view of the identity service's identity
+function toProfile(identity: UserIdentity, bio?: string): UserProfile {
+  return {
+    id: identity.id,
+    displayName: identity.displayName,
+    avatarUrl: identity.avatarUrl,
+    bio,
+    status: 'online',
+    lastSeen: identity.lastSeen,
+    publicKey: identity.publicKey,
+    fingerprint: identityService.getFingerprint(),
+  };
+}
+
 export const useAuthStore = create<AuthState>()(
   persist(
-    immer((set, get) => ({
+    immer((set) => ({
       ...initialState,
       
       initialize: async () => {
@@ -67,21 +81,15 @@ export const useAuthStore = create<AuthState>()(
         });
         
         try {
-          await identityManager.initialize();
+          await identityService.initialize();
           
-          // Check if identity exists in storage
-          const storedIdentity = localStorage.getItem('vortex_identity');
-          if (storedIdentity) {
-            // For now, mark as locked (needs password to unlock)
-            set((state) => {
-              state.status = 'locked';
-              state.isLocked = true;
-            });
-          } else {
-            set((state) => {
-              state.status = 'idle';
-            });
-          }
+          const identity = identityService.getIdentity();
+          const locked = securityService.isAppLocked();
+          set((state) => {
+            state.user = identity ? toProfile(identity, state.user?.bio) : null;
+            state.status = !identity ? 'idle' : locked ? 'locked' : 'authenticated';
+            state.isLocked = !!identity && locked;
+          });
         } catch (error) {
           set((state) => {
             state.status = 'error';
@@ -97,23 +105,11 @@ export const useAuthStore = create<AuthState>()(
         });
         
         try {
-          const identity = await identityManager.generateIdentity();
-          const fingerprint = identityManager.getFingerprint();
-          const publicKeyB64 = btoa(String.fromCharCode(...identity.identityKeyPair.publicKey));
-          
-          const user: UserProfile = {
-            id: crypto.randomUUID(),
-            displayName,
-            status: 'online',
-            lastSeen: Date.now(),
-            publicKey: publicKeyB64,
-            fingerprint,
-          };
+          const identity = await identityService.createIdentity(displayName);
           
           set((state) => {
             state.status = 'authenticated';
-            state.user = user;
-            state.identity = identity;
+            state.user = toProfile(identity);
             state.isLocked = false;
             state.lastActivity = Date.now();
           });
@@ -125,40 +121,19 @@ export const useAuthStore = create<AuthState>()(
         }
       },
       
-      importIdentity: async (backup: string, password: string) => {
+      importIdentity: async (backup: string, secret: string) => {
         set((state) => {
           state.status = 'initializing';
           state.error = null;
         });
         
         try {
-          const identity = await identityManager.importIdentity(backup, password);
-          const fingerprint = identityManager.getFingerprint();
-          const publicKeyB64 = btoa(String.fromCharCode(...identity.identityKeyPair.publicKey));
-          
-          // Get stored user profile or create new
-          const storedProfile = localStorage.getItem('vortex_profile');
-          let user: UserProfile;
-          
-          if (storedProfile) {
-            user = JSON.parse(storedProfile);
-            user.publicKey = publicKeyB64;
-            user.fingerprint = fingerprint;
-          } else {
-            user = {
-              id: crypto.randomUUID(),
-              displayName: 'Imported User',
-              status: 'online',
-              lastSeen: Date.now(),
-              publicKey: publicKeyB64,
-              fingerprint,
-            };
-          }
+          // The backup records whether the secret is a password or a recovery phrase
+          const identity = await identityService.importBackup(backup, secret);
           
           set((state) => {
             state.status = 'authenticated';
-            state.user = user;
-            state.identity = identity;
+            state.user = toProfile(identity, state.user?.bio);
             state.isLocked = false;
             state.lastActivity = Date.now();
           });
@@ -171,11 +146,12 @@ export const useAuthStore = create<AuthState>()(
       },
       
       exportIdentity: async (password: string) => {
-        const backup = await identityManager.exportIdentity(password);
+        const backup = await identityService.exportBackup(password);
         return backup;
       },
       
       lock: () => {
+        securityService.lock();
         set((state) => {
           state.status = 'locked';
           state.isLocked = true;
@@ -183,22 +159,24 @@ export const useAuthStore = create<AuthState>()(
       },
       
       unlock: async (password: string) => {
-        const storedIdentity = localStorage.getItem('vortex_identity');
-        if (!storedIdentity) return false;
+        const unlocked = await securityService.unlock(password);
+        if (!unlocked) return false;
         
-        try {
-          await get().importIdentity(storedIdentity, password);
-          return true;
-        } catch {
-          return false;
-        }
+        set((state) => {
+          state.status = state.user ? 'authenticated' : 'idle';
+          state.isLocked = false;
+          state.lastActivity = Date.now();
+        });
+        return true;
       },
       
       updateProfile: (updates: Partial<UserProfile>) => {
+        if (updates.displayName !== undefined) identityService.updateDisplayName(updates.displayName);
+        if (updates.avatarUrl !== undefined) identityService.updateAvatar(updates.avatarUrl);
+        
         set((state) => {
           if (state.user) {
             Object.assign(state.user, updates);
-            localStorage.setItem('vortex_profile', JSON.stringify(state.user));
           }
         });
       },
@@ -222,20 +200,24 @@ export const useAuthStore = create<AuthState>()(
         set((state) => {
           state.status = 'idle';
           state.user = null;
-          state.identity = null;
           state.isLocked = false;
         });
       },
       
       reset: () => {
-        localStorage.removeItem('vortex_identity');
-        localStorage.removeItem('vortex_profile');
         set(initialState);
       },
     })),
     {
       name: 'vortex-auth',
       storage: createJSONStorage(() => localStorage),
+      version: 1,
+      // Version 0 kept the profile of a separate identity; initialize()
+      // rebuilds it from the identity service
+      migrate: (persisted: any) => ({
+        user: null,
+        autoLockTimeout: persisted?.autoLockTimeout ?? initialState.autoLockTimeout,
+      }) as AuthState,
       partialize: (state) => ({
         user: state.user,
         autoLockTimeout: state.autoLockTimeout,
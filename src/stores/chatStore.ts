@@ -1,11 +1,21 @@
 /**
  * VORTEX Protocol - Chat Store
- * Manages conversations, messages, and chat state
+ * View cache over the database: the conversation list and the pages of
+ * messages loaded so far. Changes are written through the messaging
+ * service and read back from the database; only drafts are persisted.
  */
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
+import {
+  db,
+  parseSearchQuery,
+  type Message as DBMessage,
+  type Conversation as DBConversation,
+  type AttachmentRef,
+} from '../services/database';
+import { identityService } from '../services/identity';
 
 export type MessageType = 
   | 'text' 
@@ -110,7 +120,9 @@ export interface Conversation {
 interface ChatState {
   // State
   conversations: Record<string, Conversation>;
-  messages: Record<string, Message[]>;
+  messages: Record<string, Message[]>;          // Pages loaded so far, oldest first
+  hasOlderMessages: Record<string, boolean>;
+  hasNewerMessages: Record<string, boolean>;    // Loaded around a search hit, not up to the latest
   activeConversationId: string | null;
   typingIndicators: TypingIndicator[];
   drafts: Record<string, Draft>;
@@ -126,21 +138,16 @@ interface ChatState {
   
   // Actions
   setActiveConversation: (id: string | null) => void;
-  createConversation: (conversation: Partial<Omit<Conversation, 'id' | 'createdAt' | 'updatedAt' | 'unreadCount'>> & { type: ConversationType; participants: Participant[] }) => string;
-  updateConversation: (id: string, updates: Partial<Conversation>) => void;
-  deleteConversation: (id: string) => void;
-  archiveConversation: (id: string, archived: boolean) => void;
-  pinConversation: (id: string, pinned: boolean) => void;
-  muteConversation: (id: string, until?: number) => void;
   
-  addMessage: (message: Omit<Message, 'id' | 'createdAt' | 'updatedAt' | 'reactions' | 'isEdited' | 'isDeleted'>) => string;
-  updateMessage: (conversationId: string, messageId: string, updates: Partial<Message>) => void;
-  deleteMessage: (conversationId: string, messageId: string, forEveryone?: boolean) => void;
-  markAsRead: (conversationId: string, messageId?: string) => void;
-  markAsDelivered: (conversationId: string, messageId: string) => void;
+  loadConversations: () => void;
+  refreshConversation: (id: string) => void;
   
-  addReaction: (conversationId: string, messageId: string, emoji: string, userId: string) => void;
-  removeReaction: (conversationId: string, messageId: string, userId: string) => void;
+  loadMessages: (conversationId: string) => void;
+  loadOlderMessages: (conversationId: string) => number;
+  loadNewerMessages: (conversationId: string) => number;
+  loadMessagesAround: (conversationId: string, messageId: string) => boolean;
+  refreshMessage: (messageId: string) => void;
+  unload: () => void;
   
   setTyping: (peerId: string, conversationId: string, isTyping: boolean) => void;
   clearStaleTypingIndicators: () => void;
@@ -155,9 +162,14 @@ interface ChatState {
   reset: () => void;
 }
 
+// Messages read from the database at a time
+const MESSAGE_PAGE_SIZE = 50;
+
 const initialState = {
   conversations: {} as Record<string, Conversation>,
   messages: {} as Record<string, Message[]>,
+  hasOlderMessages: {} as Record<string, boolean>,
+  hasNewerMessages: {} as Record<string, boolean>,
   activeConversationId: null as string | null,
   typingIndicators: [] as TypingIndicator[],
   drafts: {} as Record<string, Draft>,
@@ -166,6 +178,96 @@ const initialState = {
   searchResults: [] as Message[],
 };
 
+// ==================== Database Rows ====================
+
+// Stored attachments are identified by a keyed content hash; the file is
+// read from the attachment store when shown
+function toAttachment(ref: AttachmentRef): MessageAttachment {
+  const [kind] = ref.mimeType.split('/');
+  return {
+    id: ref.hash,
+    type: kind === 'image' || kind === 'video' || kind === 'audio' ? kind : 'file',
+    name: ref.name,
+    size: ref.size,
+    mimeType: ref.mimeType,
+    width: ref.width,
+    height: ref.height,
+  };
+}
+
+function toMessage(message: DBMessage): Message {
+  let reactions: Record<string, string[]> = {};
+  try {
+    reactions = message.reactions ? JSON.parse(message.reactions) : {};
+  } catch {}
+
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    type: message.type,
+    content: message.content,
+    replyTo: message.replyToId,
+    attachments: db.getMessageAttachments(message.id).map(toAttachment),
+    reactions: Object.entries(reactions).flatMap(([emoji, userIds]) =>
+      userIds.map(userId => ({ emoji, userId, timestamp: message.updatedAt }))
+    ),
+    status: message.status === 'sending' ? 'pending' : message.status,
+    isEdited: message.isEdited,
+    isDeleted: message.isDeleted,
+    expiresAt: message.expiresAt,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt,
+  };
+}
+
+// Participants are stored as ids or as { id } objects
+function parseParticipantIds(participants: string): string[] {
+  try {
+    return (JSON.parse(participants) as (string | { id: string })[])
+      .map(p => (typeof p === 'string' ? p : p.id));
+  } catch {
+    return [];
+  }
+}
+
+function toParticipant(id: string, conversation: DBConversation): Participant {
+  const contact = db.getContactByIdentityKey(id) ?? db.getContact(id);
+  return {
+    id,
+    displayName: contact?.displayName ?? (conversation.type === 'direct' ? conversation.name : undefined) ?? id,
+    publicKey: contact?.identityKey ?? '',
+    role: 'member',
+    joinedAt: conversation.createdAt,
+    lastSeen: contact?.lastSeen,
+  };
+}
+
+function toConversation(conversation: DBConversation): Conversation {
+  const selfId = identityService.getIdentity()?.id;
+  const [lastMessage] = db.getMessages(conversation.id, 1);
+
+  return {
+    id: conversation.id,
+    type: conversation.type,
+    name: conversation.name,
+    avatarUrl: conversation.avatarUrl,
+    // Everyone but us
+    participants: parseParticipantIds(conversation.participants)
+      .filter(id => id !== selfId)
+      .map(id => toParticipant(id, conversation)),
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    lastMessage: lastMessage && toMessage(lastMessage),
+    unreadCount: conversation.unreadCount,
+    isPinned: conversation.isPinned,
+    isMuted: conversation.isMuted,
+    isArchived: conversation.isArchived,
+    encryptionEnabled: conversation.encryptionEnabled,
+    disappearingMessagesTimeout: conversation.disappearingTimeout,
+  };
+}
+
 export const useChatStore = create<ChatState>()(
   persist(
     immer((set, get) => ({
@@ -210,46 +312,31 @@ export const useChatStore = create<ChatState>()(
         set((state) => {
           state.activeConversationId = id;
         });
+        
+        if (id && !get().messages[id]) {
+          get().loadMessages(id);
+        }
       },
       
-      createConversation: (conversation) => {
-        const id = crypto.randomUUID();
-        const now = Date.now();
+      loadConversations: () => {
+        const conversations = db.getAllConversations().map(toConversation);
         set((state) => {
-          state.conversations[id] = {
-            id,
-            type: conversation.type,
-            participants: conversation.participants,
-            name: conversation.name,
-            description: conversation.description,
-            avatarUrl: conversation.avatarUrl,
-            isPinned: conversation.isPinned ?? false,
-            isMuted: conversation.isMuted ?? false,
-            isArchived: conversation.isArchived ?? false,
-            encryptionEnabled: conversation.encryptionEnabled ?? true,
-            disappearingMessagesTimeout: conversation.disappearingMessagesTimeout,
-            lastMessage: undefined,
-            createdAt: now,
-            updatedAt: now,
-            unreadCount: 0,
-          };
-          state.messages[id] = [];
+          state.conversations = Object.fromEntries(conversations.map(c => [c.id, c]));
         });
-        return id;
       },
       
-      updateConversation: (id, updates) => {
+      refreshConversation: (id) => {
+        const conversation = db.getConversation(id);
         set((state) => {
-          if (state.conversations[id]) {
-            Object.assign(state.conversations[id], updates, { updatedAt: Date.now() });
+          if (conversation) {
+            state.conversations[id] = toConversation(conversation);
+            return;
           }
-        });
-      },
-      
-      deleteConversation: (id) => {
-        set((state) => {
+          
           delete state.conversations[id];
           delete state.messages[id];
+          delete state.hasOlderMessages[id];
+          delete state.hasNewerMessages[id];
           delete state.drafts[id];
           if (state.activeConversationId === id) {
             state.activeConversationId = null;
@@ -257,159 +344,100 @@ export const useChatStore = create<ChatState>()(
         });
       },
       
-      archiveConversation: (id, archived) => {
+      loadMessages: (conversationId) => {
+        const page = db.getMessages(conversationId, MESSAGE_PAGE_SIZE);
         set((state) => {
-          if (state.conversations[id]) {
-            state.conversations[id].isArchived = archived;
-            state.conversations[id].updatedAt = Date.now();
-          }
+          state.messages[conversationId] = page.map(toMessage);
+          state.hasOlderMessages[conversationId] = page.length === MESSAGE_PAGE_SIZE;
+          state.hasNewerMessages[conversationId] = false;
         });
       },
       
-      pinConversation: (id, pinned) => {
-        set((state) => {
-          if (state.conversations[id]) {
-            state.conversations[id].isPinned = pinned;
-          }
-        });
-      },
-      
-      muteConversation: (id, until) => {
-        set((state) => {
-          if (state.conversations[id]) {
-            state.conversations[id].isMuted = true;
-            state.conversations[id].mutedUntil = until;
-          }
-        });
-      },
-      
-      addMessage: (message) => {
-        const id = crypto.randomUUID();
-        const now = Date.now();
-        const fullMessage: Message = {
-          ...message,
-          id,
-          reactions: [],
-          isEdited: false,
-          isDeleted: false,
-          createdAt: now,
-          updatedAt: now,
-          expiresAt: message.ttlMs ? now + message.ttlMs : undefined,
-        };
+      // Returns how many messages were put in front of the loaded ones
+      loadOlderMessages: (conversationId) => {
+        const { messages, hasOlderMessages } = get();
+        const loaded = messages[conversationId];
+        if (!loaded?.length || !hasOlderMessages[conversationId]) return 0;
         
+        const page = db.getMessages(conversationId, MESSAGE_PAGE_SIZE, loaded[0].id);
         set((state) => {
-          if (!state.messages[message.conversationId]) {
-            state.messages[message.conversationId] = [];
-          }
-          state.messages[message.conversationId].push(fullMessage);
-          
-          if (state.conversations[message.conversationId]) {
-            state.conversations[message.conversationId].lastMessage = fullMessage;
-            state.conversations[message.conversationId].updatedAt = now;
-            
-            // Increment unread if not active conversation and not sent by us
-            if (
-              state.activeConversationId !== message.conversationId &&
-              message.senderId !== 'self' // Replace with actual user ID check
-            ) {
-              state.conversations[message.conversationId].unreadCount++;
-            }
-          }
+          state.messages[conversationId].unshift(...page.map(toMessage));
+          state.hasOlderMessages[conversationId] = page.length === MESSAGE_PAGE_SIZE;
         });
-        
-        return id;
+        return page.length;
       },
       
-      updateMessage: (conversationId, messageId, updates) => {
+      // Returns how many messages were put after the loaded ones
+      loadNewerMessages: (conversationId) => {
+        const { messages, hasNewerMessages } = get();
+        const loaded = messages[conversationId];
+        if (!loaded?.length || !hasNewerMessages[conversationId]) return 0;
+        
+        const page = db.getMessagesAfter(conversationId, MESSAGE_PAGE_SIZE, loaded[loaded.length - 1].id);
         set((state) => {
-          const messages = state.messages[conversationId];
-          if (messages) {
-            const index = messages.findIndex(m => m.id === messageId);
-            if (index !== -1) {
-              Object.assign(messages[index], updates, { 
-                updatedAt: Date.now(),
-                isEdited: updates.content !== undefined ? true : messages[index].isEdited,
-              });
-            }
-          }
+          state.messages[conversationId].push(...page.map(toMessage));
+          state.hasNewerMessages[conversationId] = page.length === MESSAGE_PAGE_SIZE;
         });
+        return page.length;
       },
       
-      deleteMessage: (conversationId, messageId, forEveryone = false) => {
+      // Replace the loaded messages with a page on either side of one,
+      // e.g. a search hit; false when it is gone
+      loadMessagesAround: (conversationId, messageId) => {
+        const message = db.getMessage(messageId);
+        if (!message || message.isDeleted || message.conversationId !== conversationId) return false;
+        
+        const half = MESSAGE_PAGE_SIZE / 2;
+        const before = db.getMessages(conversationId, half, messageId);
+        const after = db.getMessagesAfter(conversationId, half, messageId);
         set((state) => {
-          const messages = state.messages[conversationId];
-          if (messages) {
-            const index = messages.findIndex(m => m.id === messageId);
-            if (index !== -1) {
-              if (forEveryone) {
-                messages[index].isDeleted = true;
-                messages[index].content = '';
-                messages[index].attachments = [];
-              } else {
-                messages.splice(index, 1);
-              }
-            }
-          }
+          state.messages[conversationId] = [...before, message, ...after].map(toMessage);
+          state.hasOlderMessages[conversationId] = before.length === half;
+          state.hasNewerMessages[conversationId] = after.length === half;
         });
+        return true;
       },
       
-      markAsRead: (conversationId, messageId) => {
-        const now = Date.now();
+      // Re-read a message after it was added or changed in the database
+      refreshMessage: (messageId) => {
+        const message = db.getMessage(messageId);
+        const visible = message && !message.isDeleted ? message : null;
+        
         set((state) => {
-          const messages = state.messages[conversationId];
-          if (messages) {
-            if (messageId) {
-              const msg = messages.find(m => m.id === messageId);
-              if (msg) msg.readAt = now;
+          for (const loaded of Object.values(state.messages)) {
+            const index = loaded.findIndex(m => m.id === messageId);
+            if (index === -1) continue;
+            
+            if (visible) {
+              loaded[index] = toMessage(visible);
             } else {
-              // Mark all as read
-              messages.forEach(m => {
-                if (!m.readAt) m.readAt = now;
-              });
-            }
-          }
-          if (state.conversations[conversationId]) {
-            state.conversations[conversationId].unreadCount = 0;
-          }
-        });
-      },
-      
-      markAsDelivered: (conversationId, messageId) => {
-        set((state) => {
-          const messages = state.messages[conversationId];
-          if (messages) {
-            const msg = messages.find(m => m.id === messageId);
-            if (msg && msg.status !== 'read') {
-              msg.status = 'delivered';
-              msg.deliveredAt = Date.now();
-            }
-          }
-        });
-      },
-      
-      addReaction: (conversationId, messageId, emoji, userId) => {
-        set((state) => {
-          const messages = state.messages[conversationId];
-          if (messages) {
-            const msg = messages.find(m => m.id === messageId);
-            if (msg) {
-              // Remove existing reaction from same user
-              msg.reactions = msg.reactions.filter(r => r.userId !== userId);
-              msg.reactions.push({ emoji, userId, timestamp: Date.now() });
+              loaded.splice(index, 1);
             }
+            return;
           }
+          
+          // Conversations not opened yet read it with their first page
+          const loaded = visible ? state.messages[visible.conversationId] : undefined;
+          if (!visible || !loaded) return;
+          
+          // Outside the loaded messages: it comes with an older or newer page
+          const index = loaded.findIndex(m => m.createdAt > visible.createdAt);
+          if (index === 0 && state.hasOlderMessages[visible.conversationId]) return;
+          if (index === -1 && state.hasNewerMessages[visible.conversationId]) return;
+          
+          loaded.splice(index === -1 ? loaded.length : index, 0, toMessage(visible));
         });
       },
       
-      removeReaction: (conversationId, messageId, userId) => {
+      // Forget everything read from the database, e.g. when it is locked
+      unload: () => {
         set((state) => {
-          const messages = state.messages[conversationId];
-          if (messages) {
-            const msg = messages.find(m => m.id === messageId);
-            if (msg) {
-              msg.reactions = msg.reactions.filter(r => r.userId !== userId);
-            }
-          }
+          state.conversations = {};
+          state.messages = {};
+          state.hasOlderMessages = {};
+          state.hasNewerMessages = {};
+          state.typingIndicators = [];
+          state.searchResults = [];
         });
       },
       
@@ -460,11 +488,8 @@ export const useChatStore = create<ChatState>()(
           state.isSearching = true;
         });
         
-        // Perform search
-        const allMessages = Object.values(get().messages).flat();
-        const results = allMessages.filter(m => 
-          m.content.toLowerCase().includes(query.toLowerCase()) && !m.isDeleted
-        );
+        // Ranked hits from the search index
+        const results = db.searchMessages(parseSearchQuery(query)).map(hit => toMessage(hit.message));
         
         set((state) => {
           state.searchResults = results;
@@ -498,9 +523,12 @@ export const useChatStore = create<ChatState>()(
     {
       name: 'vortex-chat',
       storage: createJSONStorage(() => localStorage),
+      // Version 0 also kept conversations and their full histories here
+      version: 1,
+      migrate: (persisted) => ({
+        drafts: (persisted as Partial<ChatState> | undefined)?.drafts ?? {},
+      }),
       partialize: (state) => ({
-        conversations: state.conversations,
-        messages: state.messages,
         drafts: state.drafts,
       }),
     }
@@ -81,6 +81,7 @@ const defaultStorage = {
     encryptLocalStorage: true,
     backupEnabled: false,
     backupFrequency: 'weekly',
+    backupsRetained: 5,
 };
 const defaultShortcuts = {
     newMessage: 'Ctrl+N',
@@ -224,6 +225,11 @@ export const useSettingsStore = create()(persist((set, get) => ({
 }), {
     name: 'vortex-settings',
     storage: createJSONStorage(() => localStorage),
+    // Storage settings saved before a field existed get its default
+    merge: (persisted, current) => {
+        const saved = persisted;
+        return { ...current, ...saved, storage: { ...current.storage, ...saved?.storage } };
+    },
 }));
 // Theme application helper
 function applyTheme(theme) {
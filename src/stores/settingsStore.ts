@@ -101,6 +101,8 @@ export interface StorageSettings {
   encryptLocalStorage: boolean;
   backupEnabled: boolean;
   backupFrequency: 'daily' | 'weekly' | 'monthly' | 'never';
+  backupFolder?: string;
+  backupsRetained: number;
   lastBackup?: number;
 }
 
@@ -237,6 +239,7 @@ const defaultStorage: StorageSettings = {
   encryptLocalStorage: true,
   backupEnabled: false,
   backupFrequency: 'weekly',
+  backupsRetained: 5,
 };
 
 const defaultShortcuts: KeyboardShortcuts = {
@@ -397,6 +400,11 @@ export const useSettingsStore = create<SettingsState>()(
     {
       name: 'vortex-settings',
       storage: createJSONStorage(() => localStorage),
+      // Storage settings saved before a field existed get its default
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<SettingsState> | undefined;
+        return { ...current, ...saved, storage: { ...current.storage, ...saved?.storage } };
+      },
     }
   )
 );
@@ -103,6 +103,10 @@ declare module 'libsodium-wrappers' {
     crypto_generichash_BYTES_MAX: number;
     crypto_generichash_KEYBYTES: number;
 
+    // ==================== Hashing (SHA-512) ====================
+    crypto_hash(message: Bytes): Bytes;
+    crypto_hash_BYTES: number;
+
     // ==================== Authentication (HMAC) ====================
     crypto_auth(message: Bytes, key: Bytes): Bytes;
     crypto_auth_verify(tag: Bytes, message: Bytes, key: Bytes): boolean;
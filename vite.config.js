@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import electron from 'vite-plugin-electron/simple';
@@ -60,4 +61,8 @@ export default defineConfig({
     optimizeDeps: {
         exclude: nativeModules,
     },
+    test: {
+        // Only the TypeScript sources; tsc emits a .js next to every test file
+        include: ['src/**/*.test.ts'],
+    },
 });